@@ -63,3 +63,79 @@ it.concurrent.each([
   const { execute } = await serve({ supergraph: output });
   await expect(execute({ query })).resolves.toMatchSnapshot();
 });
+
+it('should insert the rows referencing the inserted row', async () => {
+  const { output } = await compose({ output: 'graphql', services: [mysql] });
+  const { execute } = await serve({ supergraph: output });
+  await expect(
+    execute({
+      query: /* GraphQL */ `
+        mutation InsertDepartmentWithEmployees {
+          insert_departments(
+            departments: {
+              dept_no: "d901"
+              dept_name: "Gateway"
+              dept_emp: [{ emp_no: 499999, from_date: "2024-01-01", to_date: "9999-01-01" }]
+            }
+          ) {
+            dept_no
+            dept_name
+            dept_emp {
+              emp_no
+              dept_no
+            }
+          }
+        }
+      `,
+    }),
+  ).resolves.toEqual({
+    data: {
+      insert_departments: {
+        dept_no: 'd901',
+        dept_name: 'Gateway',
+        dept_emp: [
+          {
+            emp_no: 499999,
+            dept_no: 'd901',
+          },
+        ],
+      },
+    },
+  });
+});
+
+it('should roll back the inserted rows when a nested insert fails', async () => {
+  const { output } = await compose({ output: 'graphql', services: [mysql] });
+  const { execute } = await serve({ supergraph: output });
+  const result = await execute({
+    query: /* GraphQL */ `
+      mutation InsertDepartmentWithUnknownEmployee {
+        insert_departments(
+          departments: {
+            dept_no: "d902"
+            dept_name: "Rolled Back"
+            dept_emp: [{ emp_no: 0, from_date: "2024-01-01", to_date: "9999-01-01" }]
+          }
+        ) {
+          dept_no
+        }
+      }
+    `,
+  });
+  expect(result.errors?.length).toBeTruthy();
+  await expect(
+    execute({
+      query: /* GraphQL */ `
+        query GetRolledBackDepartment {
+          departments(where: { dept_no: "d902" }) {
+            dept_no
+          }
+        }
+      `,
+    }),
+  ).resolves.toEqual({
+    data: {
+      departments: [],
+    },
+  });
+});
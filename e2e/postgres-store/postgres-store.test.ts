@@ -0,0 +1,198 @@
+import { createTenv, type Container } from '@e2e/tenv';
+
+const { compose, serve, container } = createTenv(__dirname);
+
+let postgres!: Container;
+beforeAll(async () => {
+  postgres = await container({
+    name: 'store',
+    image: 'postgres:16-alpine',
+    containerPort: 5432,
+    healthcheck: [
+      'CMD-SHELL',
+      // use the network connection, the server only listens to the socket while running the init scripts
+      'pg_isready --host=127.0.0.1 --username=postgres',
+    ],
+    env: {
+      POSTGRES_PASSWORD: 'passwd', // used in mesh.config.ts
+    },
+    volumes: [
+      {
+        host: 'store.sql',
+        container: '/docker-entrypoint-initdb.d/store.sql',
+      },
+    ],
+  });
+});
+
+it('should generate the enums of the columns', async () => {
+  const { output } = await compose({ output: 'graphql', services: [postgres] });
+  const { execute } = await serve({ supergraph: output });
+  await expect(
+    execute({
+      query: /* GraphQL */ `
+        query OrderStatus {
+          __type(name: "OrderStatus") {
+            enumValues {
+              name
+            }
+          }
+        }
+      `,
+    }),
+  ).resolves.toEqual({
+    data: {
+      __type: {
+        enumValues: [{ name: 'pending' }, { name: 'in_progress' }, { name: 'shipped' }],
+      },
+    },
+  });
+});
+
+it('should query the tables, the views and the relations across the schemas', async () => {
+  const { output } = await compose({ output: 'graphql', services: [postgres] });
+  const { execute } = await serve({ supergraph: output });
+  await expect(
+    execute({
+      query: /* GraphQL */ `
+        query CustomersWithOrders {
+          customers(orderBy: [{ id: asc }], limit: 2) {
+            fullName
+            email
+            orders(orderBy: [{ id: asc }]) {
+              status
+              total
+              orderItems(orderBy: [{ sku: asc }]) {
+                quantity
+                product {
+                  name
+                }
+              }
+            }
+          }
+          orderItem(orderId: 1, sku: "P-2") {
+            quantity
+            order {
+              customer {
+                fullName
+              }
+            }
+          }
+          customerTotals(orderBy: [{ customerId: asc }]) {
+            customerId
+            total
+          }
+        }
+      `,
+    }),
+  ).resolves.toEqual({
+    data: {
+      customers: [
+        {
+          fullName: 'Jane Smith',
+          email: 'jane@example.com',
+          orders: [
+            {
+              status: 'shipped',
+              total: 100.5,
+              orderItems: [
+                { quantity: 1, product: { name: 'Keyboard' } },
+                { quantity: 2, product: { name: 'Mouse' } },
+              ],
+            },
+            {
+              status: 'in_progress',
+              total: 20,
+              orderItems: [],
+            },
+          ],
+        },
+        {
+          fullName: 'John Doe',
+          email: null,
+          orders: [
+            {
+              status: 'pending',
+              total: 35,
+              orderItems: [{ quantity: 1, product: { name: 'Mouse' } }],
+            },
+          ],
+        },
+      ],
+      orderItem: {
+        quantity: 2,
+        order: {
+          customer: {
+            fullName: 'Jane Smith',
+          },
+        },
+      },
+      customerTotals: [
+        { customerId: 1, total: 120.5 },
+        { customerId: 2, total: 35 },
+      ],
+    },
+  });
+});
+
+it('should insert, update and delete the rows', async () => {
+  const { output } = await compose({ output: 'graphql', services: [postgres] });
+  const { execute } = await serve({ supergraph: output });
+  await expect(
+    execute({
+      query: /* GraphQL */ `
+        mutation CreateOrder {
+          createOrder(input: { customerId: 3, total: 9.99 }) {
+            id
+            status
+            total
+            customer {
+              fullName
+            }
+          }
+        }
+      `,
+    }),
+  ).resolves.toEqual({
+    data: {
+      createOrder: {
+        id: 4,
+        status: 'pending',
+        total: 9.99,
+        customer: {
+          fullName: 'Anna Brown',
+        },
+      },
+    },
+  });
+  await expect(
+    execute({
+      query: /* GraphQL */ `
+        mutation UpdateOrder {
+          updateOrder(id: 4, input: { status: shipped }) {
+            status
+          }
+        }
+      `,
+    }),
+  ).resolves.toEqual({
+    data: {
+      updateOrder: {
+        status: 'shipped',
+      },
+    },
+  });
+  await expect(
+    execute({
+      query: /* GraphQL */ `
+        mutation DeleteOrders {
+          deleteOrders(where: { status: { eq: shipped }, customerId: { eq: 3 } })
+        }
+      `,
+    }),
+  ).resolves.toEqual({
+    data: {
+      deleteOrders: 1,
+    },
+  });
+});
@@ -0,0 +1,43 @@
+CREATE TYPE order_status AS ENUM ('pending', 'in progress', 'shipped');
+
+CREATE TABLE customers (
+  id SERIAL PRIMARY KEY,
+  full_name TEXT NOT NULL,
+  email TEXT
+);
+CREATE TABLE orders (
+  id SERIAL PRIMARY KEY,
+  customer_id INTEGER NOT NULL REFERENCES customers (id),
+  status order_status NOT NULL DEFAULT 'pending',
+  total NUMERIC(10, 2) NOT NULL
+);
+CREATE VIEW customer_totals AS
+  SELECT customer_id, SUM(total) AS total FROM orders GROUP BY customer_id;
+
+CREATE SCHEMA inventory;
+CREATE TABLE inventory.products (
+  sku TEXT PRIMARY KEY,
+  name TEXT NOT NULL
+);
+CREATE TABLE inventory.order_items (
+  order_id INTEGER NOT NULL REFERENCES orders (id),
+  sku TEXT NOT NULL REFERENCES inventory.products (sku),
+  quantity INTEGER NOT NULL,
+  PRIMARY KEY (order_id, sku)
+);
+
+INSERT INTO customers (full_name, email) VALUES
+  ('Jane Smith', 'jane@example.com'),
+  ('John Doe', NULL),
+  ('Anna Brown', NULL);
+INSERT INTO orders (customer_id, status, total) VALUES
+  (1, 'shipped', 100.5),
+  (1, 'in progress', 20),
+  (2, 'pending', 35);
+INSERT INTO inventory.products (sku, name) VALUES
+  ('P-1', 'Keyboard'),
+  ('P-2', 'Mouse');
+INSERT INTO inventory.order_items (order_id, sku, quantity) VALUES
+  (1, 'P-1', 1),
+  (1, 'P-2', 2),
+  (3, 'P-2', 1);
@@ -41,9 +41,8 @@ export async function getComposedSchemaFromConfig(config: MeshComposeCLIConfig,
           log.error(`Failed to load subgraph`, e);
         } else {
           log.error(e.message || e);
-          log.error(`Failed to load subgraph`);
         }
-        process.exit(1);
+        throw new Error(`Failed to load subgraph ${subgraphName}`);
       }
       return {
         name: subgraphName,
@@ -94,14 +93,12 @@ export async function getComposedSchemaFromConfig(config: MeshComposeCLIConfig,
     });
     const subgraph = annotatedSubgraphs.find(sg => sg.name === config.subgraph);
     if (!subgraph) {
-      logger.error(`Subgraph ${config.subgraph} not found`);
-      process.exit(1);
+      throw new Error(`Subgraph ${config.subgraph} not found`);
     }
     return print(subgraph.typeDefs);
   }
   const result = composeSubgraphs(subgraphConfigsForComposition);
   if (result.errors?.length) {
-    logger.error(`Failed to compose subgraphs`);
     for (const error of result.errors) {
       if (isDebug) {
         logger.error(error);
@@ -109,13 +106,12 @@ export async function getComposedSchemaFromConfig(config: MeshComposeCLIConfig,
         logger.error(error.message || error);
       }
     }
-    process.exit(1);
+    throw new Error(`Failed to compose subgraphs`);
   }
   if (!result.supergraphSdl) {
-    logger.error(`Unknown error: Supergraph is empty`);
-    process.exit(1);
+    throw new Error(`Unknown error: Supergraph is empty`);
   }
-  if (additionalTypeDefs?.length /* TODO || config.transforms?.length */) {
+  if (additionalTypeDefs?.length || config.transforms?.length) {
     let composedSchema = buildSchema(result.supergraphSdl, {
       noLocation: true,
       assumeValid: true,
@@ -129,14 +125,12 @@ export async function getComposedSchemaFromConfig(config: MeshComposeCLIConfig,
         assumeValidSDL: true,
       });
     }
-    /* TODO
     if (config.transforms?.length) {
       logger.info('Applying transforms');
       for (const transform of config.transforms) {
         composedSchema = transform(composedSchema);
       }
     }
-    */
     return printSchemaWithDirectives(composedSchema);
   }
   return result.supergraphSdl;
@@ -0,0 +1,149 @@
+import {
+  buildASTSchema,
+  buildSchema,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isObjectType,
+  type DocumentNode,
+  type GraphQLSchema,
+} from 'graphql';
+import { CriticalityLevel, diff, type Change } from '@graphql-inspector/core';
+import { getDirectiveExtensions, isDocumentNode } from '@graphql-tools/utils';
+
+export type SupergraphChangeLevel = 'breaking' | 'dangerous' | 'safe';
+
+export interface SupergraphChange {
+  level: SupergraphChangeLevel;
+  type: Change['type'];
+  message: string;
+  path?: string;
+  /**
+   * Names of the subgraphs the changed schema element belongs to.
+   */
+  subgraphs: string[];
+}
+
+/**
+ * Schema elements that are only used by the composition itself, and not visible to the clients.
+ */
+function isInternalPath(path: string) {
+  const [rootName] = path.split('.');
+  const typeOrDirectiveName = rootName.startsWith('@') ? rootName.slice(1) : rootName;
+  return (
+    typeOrDirectiveName === 'link' ||
+    typeOrDirectiveName.startsWith('join__') ||
+    typeOrDirectiveName.startsWith('link__')
+  );
+}
+
+function getCriticalityLevel(change: Change): SupergraphChangeLevel {
+  switch (change.criticality.level) {
+    case CriticalityLevel.Breaking:
+      return 'breaking';
+    case CriticalityLevel.Dangerous:
+      return 'dangerous';
+    default:
+      return 'safe';
+  }
+}
+
+function getSubgraphNamesByGraph(supergraph: GraphQLSchema) {
+  const subgraphNamesByGraph = new Map<string, string>();
+  const joinGraphEnum = supergraph.getType('join__Graph');
+  if (isEnumType(joinGraphEnum)) {
+    for (const enumValue of joinGraphEnum.getValues()) {
+      const joinGraphDirectives = getDirectiveExtensions(enumValue)?.join__graph;
+      subgraphNamesByGraph.set(enumValue.name, joinGraphDirectives?.[0]?.name || enumValue.name);
+    }
+  }
+  return subgraphNamesByGraph;
+}
+
+function getGraphsFromDirectives(directives: { graph?: string }[] | undefined) {
+  return directives?.map(directive => directive.graph).filter(Boolean) || [];
+}
+
+function getGraphsOfPath(supergraph: GraphQLSchema, path: string): string[] {
+  const [typeName, childName] = path.split('.');
+  const type = supergraph.getType(typeName);
+  if (!type) {
+    return [];
+  }
+  if (childName) {
+    let childGraphs: string[] = [];
+    if (isObjectType(type) || isInterfaceType(type) || isInputObjectType(type)) {
+      const field = type.getFields()[childName];
+      if (field) {
+        childGraphs = getGraphsFromDirectives(getDirectiveExtensions(field)?.join__field);
+      }
+    } else if (isEnumType(type)) {
+      const enumValue = type.getValue(childName);
+      if (enumValue) {
+        childGraphs = getGraphsFromDirectives(getDirectiveExtensions(enumValue)?.join__enumValue);
+      }
+    }
+    if (childGraphs.length) {
+      return childGraphs;
+    }
+  }
+  return getGraphsFromDirectives(getDirectiveExtensions(type)?.join__type);
+}
+
+function getSubgraphsOfPath(supergraphs: GraphQLSchema[], path: string | undefined) {
+  const subgraphs = new Set<string>();
+  if (path) {
+    for (const supergraph of supergraphs) {
+      const subgraphNamesByGraph = getSubgraphNamesByGraph(supergraph);
+      for (const graph of getGraphsOfPath(supergraph, path)) {
+        subgraphs.add(subgraphNamesByGraph.get(graph) || graph);
+      }
+    }
+  }
+  return [...subgraphs];
+}
+
+function getSupergraphSchema(supergraph: GraphQLSchema | DocumentNode | string) {
+  if (typeof supergraph === 'string') {
+    return buildSchema(supergraph, {
+      noLocation: true,
+      assumeValid: true,
+      assumeValidSDL: true,
+    });
+  }
+  if (isDocumentNode(supergraph)) {
+    return buildASTSchema(supergraph, {
+      assumeValid: true,
+      assumeValidSDL: true,
+    });
+  }
+  return supergraph;
+}
+
+/**
+ * Compares two supergraphs, and classifies every change as breaking, dangerous or safe
+ * together with the subgraphs the changes come from.
+ */
+export async function getSupergraphChanges(
+  oldSupergraph: GraphQLSchema | DocumentNode | string,
+  newSupergraph: GraphQLSchema | DocumentNode | string,
+): Promise<SupergraphChange[]> {
+  const oldSchema = getSupergraphSchema(oldSupergraph);
+  const newSchema = getSupergraphSchema(newSupergraph);
+  const changes = await diff(oldSchema, newSchema);
+  const supergraphChanges: SupergraphChange[] = [];
+  for (const change of changes) {
+    if (change.path && isInternalPath(change.path)) {
+      continue;
+    }
+    supergraphChanges.push({
+      level: getCriticalityLevel(change),
+      type: change.type,
+      message: change.message,
+      path: change.path,
+      // Removed elements only exist in the old supergraph
+      subgraphs: getSubgraphsOfPath([newSchema, oldSchema], change.path),
+    });
+  }
+  return supergraphChanges;
+}
@@ -3,3 +3,4 @@ export * from './types.js';
 export * from './loadGraphQLHTTPSubgraph.js';
 export * from '@graphql-mesh/fusion-composition';
 export * from './getComposedSchemaFromConfig.js';
+export * from './getSupergraphChanges.js';
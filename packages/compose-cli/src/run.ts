@@ -5,15 +5,17 @@ import { promises as fsPromises } from 'node:fs';
 // eslint-disable-next-line import/no-nodejs-modules
 import module from 'node:module';
 // eslint-disable-next-line import/no-nodejs-modules
-import { isAbsolute, join } from 'node:path';
+import { dirname, isAbsolute, join } from 'node:path';
 // eslint-disable-next-line import/no-nodejs-modules
 import { pathToFileURL } from 'node:url';
-import { parse } from 'graphql';
+import { parse, type DocumentNode } from 'graphql';
 import { Command, Option } from '@commander-js/extra-typings';
 import type { Logger } from '@graphql-mesh/types';
-import { DefaultLogger } from '@graphql-mesh/utils';
+import { DefaultLogger, registerTerminateHandler } from '@graphql-mesh/utils';
 import { getComposedSchemaFromConfig } from './getComposedSchemaFromConfig.js';
+import { getSupergraphChanges, type SupergraphChange } from './getSupergraphChanges.js';
 import type { MeshComposeCLIConfig } from './types.js';
+import { watchFiles } from './watch.js';
 
 /** Default config paths sorted by priority. */
 const defaultConfigPaths = [
@@ -33,7 +35,19 @@ let program = new Command()
     ).env('CONFIG_PATH'),
   )
   .option('--subgraph <name>', 'name of the subgraph to compose')
-  .option('-o, --output <path>', 'path to the output file');
+  .option('-o, --output <path>', 'path to the output file')
+  .option(
+    '--compare <path>',
+    'path to a previously composed supergraph to compare the result with and report the changes',
+  )
+  .option(
+    '--allow-breaking-changes',
+    'do not fail when breaking changes are found while comparing with the previous supergraph',
+  )
+  .option(
+    '--watch',
+    'watch the config, local subgraphs and source files, and compose again when they change',
+  );
 
 export interface RunOptions extends ReturnType<typeof program.opts> {
   /** @default new DefaultLogger() */
@@ -48,6 +62,8 @@ export interface RunOptions extends ReturnType<typeof program.opts> {
   version?: string;
 }
 
+type CLIConfig = MeshComposeCLIConfig & ReturnType<typeof program.opts>;
+
 export async function run({
   log: rootLog = new DefaultLogger(),
   productName = 'Mesh Compose',
@@ -70,6 +86,7 @@ export async function run({
   const log = rootLog.child(` ${productName}`);
 
   let importedConfig: MeshComposeCLIConfig;
+  let loadedConfigPath: string;
   if (!opts.configPath) {
     log.debug(`Searching for default config files`);
     for (const configPath of defaultConfigPaths) {
@@ -86,6 +103,7 @@ export async function run({
         if (!importedConfig) {
           throw new Error(`No "composeConfig" exported from default config at ${configPath}`);
         }
+        loadedConfigPath = absoluteConfigPath;
         break;
       }
     }
@@ -113,18 +131,82 @@ export async function run({
     if (!importedConfig) {
       throw new Error(`No "composeConfig" exported from config at ${configPath}`);
     }
+    loadedConfigPath = configPath;
   }
   log.info('Loaded config');
 
-  const config: MeshComposeCLIConfig = {
+  const config: CLIConfig = {
     ...importedConfig,
     ...opts,
   };
 
+  if (!opts.watch) {
+    await composeAndWrite(config, log);
+    return;
+  }
+
+  try {
+    await composeAndWrite(config, log);
+  } catch (e) {
+    log.error(e);
+  }
+
+  const output =
+    config.output &&
+    (isAbsolute(config.output) ? config.output : join(process.cwd(), config.output));
+  const watcher = watchFiles({
+    directories: [dirname(loadedConfigPath), config.cwd || process.cwd()],
+    ignoredFiles: output ? [output] : [],
+    log,
+    async onChange(changedFiles) {
+      log.info(`Detected changes in ${changedFiles.join(', ')}`);
+      const reloadedConfig = await reloadConfig(loadedConfigPath);
+      log.info('Reloaded config');
+      await composeAndWrite({ ...reloadedConfig, ...opts }, log);
+    },
+  });
+  registerTerminateHandler(() => watcher.close());
+  log.info('Watching for changes');
+}
+
+/**
+ * Imports the config again by bypassing the module cache;
+ * the local modules it imports are reloaded as well by the include hooks.
+ */
+async function reloadConfig(configPath: string) {
+  const importUrl = `${pathToFileURL(configPath).toString()}?t=${Date.now()}`;
+  const module = await import(importUrl);
+  const reloadedConfig: MeshComposeCLIConfig = Object(module).composeConfig;
+  if (!reloadedConfig) {
+    throw new Error(`No "composeConfig" exported from config at ${configPath}`);
+  }
+  return reloadedConfig;
+}
+
+async function composeAndWrite(config: CLIConfig, log: Logger) {
   log.info('Composing');
 
   const supergraphSdl = await getComposedSchemaFromConfig(config, log);
 
+  if (config.compare) {
+    const comparePath = isAbsolute(config.compare)
+      ? config.compare
+      : join(process.cwd(), config.compare);
+    log.info(`Comparing with ${comparePath}`);
+    const previousSupergraph = await readSupergraph(comparePath);
+    const changes = await getSupergraphChanges(previousSupergraph, supergraphSdl);
+    reportSupergraphChanges(changes, log);
+    const breakingChanges = changes.filter(change => change.level === 'breaking');
+    if (breakingChanges.length) {
+      if (!config.allowBreakingChanges) {
+        throw new Error(
+          `Found ${breakingChanges.length} breaking change(s) compared to ${comparePath}; use --allow-breaking-changes to allow them`,
+        );
+      }
+      log.warn(`Allowing ${breakingChanges.length} breaking change(s)`);
+    }
+  }
+
   let output = config.output;
   if (!output) {
     if (typeof process === 'object') {
@@ -161,7 +243,60 @@ export async function run({
   } else {
     throw new Error(`Unsupported file extension for ${output}`);
   }
-  await fsPromises.writeFile(output, writtenData, 'utf8');
+  // write to a temporary file first, so the output is never left half written
+  const tmpOutput = `${output}.${process.pid}.tmp`;
+  await fsPromises.writeFile(tmpOutput, writtenData, 'utf8');
+  await fsPromises.rename(tmpOutput, output);
 
   log.info('Done!');
 }
+
+async function readSupergraph(path: string): Promise<string | DocumentNode> {
+  const exists = await fsPromises
+    .lstat(path)
+    .then(() => true)
+    .catch(() => false);
+  if (!exists) {
+    throw new Error(`Cannot find the supergraph to compare with at ${path}`);
+  }
+  if (
+    path.endsWith('.ts') ||
+    path.endsWith('.cts') ||
+    path.endsWith('.mts') ||
+    path.endsWith('.js') ||
+    path.endsWith('.cjs') ||
+    path.endsWith('.mjs')
+  ) {
+    const module = await import(pathToFileURL(path).toString());
+    return Object(module).default;
+  }
+  const content = await fsPromises.readFile(path, 'utf8');
+  if (path.endsWith('.json')) {
+    return JSON.parse(content);
+  }
+  return content;
+}
+
+function reportSupergraphChanges(changes: SupergraphChange[], log: Logger) {
+  if (!changes.length) {
+    log.info('No changes found');
+    return;
+  }
+  log.info(`Found ${changes.length} change(s)`);
+  for (const change of changes) {
+    let message = `[${change.level}] ${change.message}`;
+    if (change.subgraphs.length) {
+      message += ` (${change.subgraphs.join(', ')})`;
+    }
+    switch (change.level) {
+      case 'breaking':
+        log.error(message);
+        break;
+      case 'dangerous':
+        log.warn(message);
+        break;
+      default:
+        log.info(message);
+    }
+  }
+}
@@ -12,9 +12,9 @@ export interface MeshComposeCLIConfig extends ComposeSubgraphsOptions {
   output?: string;
   subgraphs: MeshComposeCLISubgraphConfig[];
   /**
-   * TODO: Implement root level transforms later
-  transforms?: MeshComposeCLITransformConfig[];
+   * Transforms applied to the composed supergraph, in order.
    */
+  transforms?: MeshComposeCLITransformConfig[];
   additionalTypeDefs?: string | DocumentNode | (string | DocumentNode)[];
   subgraph?: string;
   fetch?: MeshFetch;
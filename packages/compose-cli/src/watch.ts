@@ -0,0 +1,160 @@
+// eslint-disable-next-line import/no-nodejs-modules
+import { readdirSync, statSync, watch, type FSWatcher } from 'node:fs';
+// eslint-disable-next-line import/no-nodejs-modules
+import { basename, extname, join, resolve, sep } from 'node:path';
+import type { Logger } from '@graphql-mesh/types';
+
+/**
+ * Extensions of the files that can affect the composition;
+ * the config itself, local subgraphs and the source specifications.
+ */
+const watchedExtensions = [
+  '.ts',
+  '.mts',
+  '.cts',
+  '.js',
+  '.mjs',
+  '.cjs',
+  '.json',
+  '.yaml',
+  '.yml',
+  '.graphql',
+  '.gql',
+  '.graphqls',
+  '.gqls',
+  '.proto',
+  '.wsdl',
+  '.xsd',
+  '.xml',
+  '.raml',
+];
+
+const ignoredDirectories = ['node_modules', '.git'];
+
+export interface WatchFilesOptions {
+  /** Directories to watch recursively, except the ignored directories in them */
+  directories: string[];
+  /** Files that are changed by the CLI itself, like the output */
+  ignoredFiles?: string[];
+  /** Called after the changes settle; never runs concurrently */
+  onChange: (changedFiles: string[]) => Promise<void>;
+  log: Logger;
+  /** @default 100 */
+  debounce?: number;
+}
+
+export function watchFiles({
+  directories,
+  ignoredFiles = [],
+  onChange,
+  log,
+  debounce = 100,
+}: WatchFilesOptions) {
+  const absoluteIgnoredFiles = new Set(ignoredFiles.map(file => resolve(file)));
+  const changedFiles = new Set<string>();
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> | undefined;
+
+  function flush() {
+    timeout = undefined;
+    if (running) {
+      // Changes during the ongoing run will be picked up after it is done
+      return;
+    }
+    const files = [...changedFiles];
+    changedFiles.clear();
+    running = onChange(files)
+      .catch(e => log.error(e))
+      .finally(() => {
+        running = undefined;
+        if (changedFiles.size) {
+          flush();
+        }
+      });
+  }
+
+  function isWatched(file: string) {
+    if (!watchedExtensions.includes(extname(file))) {
+      return false;
+    }
+    if (file.split(sep).some(segment => ignoredDirectories.includes(segment))) {
+      return false;
+    }
+    return !absoluteIgnoredFiles.has(file);
+  }
+
+  function onFileChange(file: string) {
+    if (!isWatched(file)) {
+      return;
+    }
+    changedFiles.add(file);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+    timeout = setTimeout(flush, debounce);
+  }
+
+  function isDirectory(path: string) {
+    try {
+      return statSync(path).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  // Recursive `fs.watch` registers a watch for every nested directory on Linux,
+  // including the ignored ones, so the tree is walked here instead
+  const watchers = new Map<string, FSWatcher>();
+  function watchDirectory(directory: string) {
+    if (watchers.has(directory) || ignoredDirectories.includes(basename(directory))) {
+      return;
+    }
+    log.debug(`Watching ${directory}`);
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(directory, (_eventType, fileName) => {
+        if (!fileName) {
+          return;
+        }
+        const path = join(directory, fileName.toString());
+        if (isDirectory(path)) {
+          watchDirectory(path);
+          return;
+        }
+        const removedWatcher = watchers.get(path);
+        if (removedWatcher) {
+          removedWatcher.close();
+          watchers.delete(path);
+          return;
+        }
+        onFileChange(path);
+      });
+    } catch (e) {
+      log.error(e);
+      return;
+    }
+    watcher.on('error', e => log.error(e));
+    watchers.set(directory, watcher);
+    for (const entry of readdirSync(directory, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        watchDirectory(join(directory, entry.name));
+      }
+    }
+  }
+
+  for (const directory of directories) {
+    watchDirectory(resolve(directory));
+  }
+
+  return {
+    close() {
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { buildSchema, GraphQLObjectType, GraphQLSchema, GraphQLString } from 'graphql';
+import { createFilterTransform } from '@graphql-mesh/fusion-composition';
+import { DefaultLogger } from '@graphql-mesh/utils';
+import { getComposedSchemaFromConfig } from '../src/getComposedSchemaFromConfig';
+import type { MeshComposeCLISourceHandlerDef } from '../src/types';
+
+function createSourceHandler(name: string, fieldName: string): MeshComposeCLISourceHandlerDef {
+  return () => ({
+    name,
+    schema$: new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: 'Query',
+        fields: {
+          [fieldName]: {
+            type: GraphQLString,
+          },
+        },
+      }),
+    }),
+  });
+}
+
+describe('getComposedSchemaFromConfig', () => {
+  it('applies root level transforms to the composed schema', async () => {
+    const transformFn = jest.fn((schema: GraphQLSchema) => schema);
+    const supergraphSdl = await getComposedSchemaFromConfig(
+      {
+        subgraphs: [
+          { sourceHandler: createSourceHandler('Foo', 'foo') },
+          { sourceHandler: createSourceHandler('Bar', 'bar') },
+        ],
+        transforms: [
+          transformFn,
+          createFilterTransform({
+            rootFieldFilter: (typeName, fieldName) => fieldName !== 'bar',
+          }),
+        ],
+      },
+      new DefaultLogger(),
+    );
+    expect(transformFn).toHaveBeenCalledTimes(1);
+    const composedSchema = transformFn.mock.calls[0][0];
+    expect(composedSchema.getQueryType().getFields()).toHaveProperty('foo');
+    expect(composedSchema.getQueryType().getFields()).toHaveProperty('bar');
+    const supergraph = buildSchema(supergraphSdl, { assumeValid: true, assumeValidSDL: true });
+    const barField = supergraph.getQueryType().getFields().bar;
+    expect(barField.astNode.directives.map(directive => directive.name.value)).toContain('hidden');
+  });
+});
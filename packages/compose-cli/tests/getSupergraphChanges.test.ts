@@ -0,0 +1,80 @@
+import { buildSchema } from 'graphql';
+import { getUnifiedGraphGracefully } from '@graphql-mesh/fusion-composition';
+import { getSupergraphChanges } from '../src/getSupergraphChanges';
+
+describe('getSupergraphChanges', () => {
+  const oldSupergraph = getUnifiedGraphGracefully([
+    {
+      name: 'Users',
+      schema: buildSchema(/* GraphQL */ `
+        type Query {
+          user(id: ID!): User
+        }
+        type User {
+          id: ID!
+          name: String
+        }
+      `),
+    },
+    {
+      name: 'Products',
+      schema: buildSchema(/* GraphQL */ `
+        type Query {
+          product(id: ID!): Product
+        }
+        type Product {
+          id: ID!
+          price: Float
+        }
+      `),
+    },
+  ]);
+  it('reports no changes for the same supergraph', async () => {
+    const changes = await getSupergraphChanges(oldSupergraph, oldSupergraph);
+    expect(changes).toEqual([]);
+  });
+  it('classifies the changes and finds the subgraphs they come from', async () => {
+    const newSupergraph = getUnifiedGraphGracefully([
+      {
+        name: 'Users',
+        schema: buildSchema(/* GraphQL */ `
+          type Query {
+            user(id: ID!): User
+          }
+          type User {
+            id: ID!
+            name: String
+            email: String
+          }
+        `),
+      },
+      {
+        name: 'Products',
+        schema: buildSchema(/* GraphQL */ `
+          type Query {
+            product(id: ID!): Product
+          }
+          type Product {
+            id: ID!
+          }
+        `),
+      },
+    ]);
+    const changes = await getSupergraphChanges(oldSupergraph, newSupergraph);
+    expect(changes).toContainEqual(
+      expect.objectContaining({
+        level: 'breaking',
+        path: 'Product.price',
+        subgraphs: ['Products'],
+      }),
+    );
+    expect(changes).toContainEqual(
+      expect.objectContaining({
+        level: 'safe',
+        path: 'User.email',
+        subgraphs: ['Users'],
+      }),
+    );
+    expect(changes.filter(change => change.path?.startsWith('join__'))).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { mkdir, mkdtemp, realpath, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DefaultLogger } from '@graphql-mesh/utils';
+import { watchFiles } from '../src/watch';
+
+describe('watchFiles', () => {
+  let baseDir: string;
+  let watcher: ReturnType<typeof watchFiles> | undefined;
+  beforeEach(async () => {
+    baseDir = await realpath(await mkdtemp(join(tmpdir(), 'mesh-compose-watch-')));
+    await mkdir(join(baseDir, 'node_modules', 'some-package'), { recursive: true });
+    await mkdir(join(baseDir, 'subgraphs'));
+  });
+  afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    await rm(baseDir, { recursive: true, force: true });
+  });
+  function startWatching(ignoredFiles: string[] = []) {
+    const onChange = jest.fn((_changedFiles: string[]) => Promise.resolve());
+    watcher = watchFiles({
+      directories: [baseDir],
+      ignoredFiles,
+      onChange,
+      log: new DefaultLogger(),
+      debounce: 10,
+    });
+    return onChange;
+  }
+  function waitForChanges(onChange: jest.Mock) {
+    return new Promise<string[]>((resolve, reject) => {
+      const startedAt = Date.now();
+      const interval = setInterval(() => {
+        if (onChange.mock.calls.length) {
+          clearInterval(interval);
+          resolve(onChange.mock.calls.flatMap(([changedFiles]) => changedFiles));
+        } else if (Date.now() - startedAt > 3000) {
+          clearInterval(interval);
+          reject(new Error('No changes detected'));
+        }
+      }, 10);
+    });
+  }
+  it('reports the changed files in the nested directories', async () => {
+    const onChange = startWatching();
+    await writeFile(join(baseDir, 'subgraphs', 'users.graphql'), 'type Query { me: String }');
+    expect(await waitForChanges(onChange)).toContain(join(baseDir, 'subgraphs', 'users.graphql'));
+  });
+  it('watches the directories created after it started', async () => {
+    const onChange = startWatching();
+    await mkdir(join(baseDir, 'specs'));
+    // Let the watcher of the new directory be registered
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await writeFile(join(baseDir, 'specs', 'petstore.json'), '{}');
+    expect(await waitForChanges(onChange)).toContain(join(baseDir, 'specs', 'petstore.json'));
+  });
+  it('ignores the dependencies, the ignored files and the unrelated extensions', async () => {
+    const output = join(baseDir, 'supergraph.graphql');
+    const onChange = startWatching([output]);
+    await writeFile(join(baseDir, 'node_modules', 'some-package', 'index.js'), '');
+    await writeFile(output, 'type Query { me: String }');
+    await writeFile(join(baseDir, 'notes.txt'), '');
+    await writeFile(join(baseDir, 'mesh.config.ts'), '');
+    expect(await waitForChanges(onChange)).toEqual([join(baseDir, 'mesh.config.ts')]);
+  });
+});
@@ -0,0 +1,404 @@
+import type { GraphQLError } from 'graphql';
+import type { UpstreamErrorExtensions } from '@graphql-mesh/transport-common';
+import type { Logger } from '@graphql-mesh/types';
+import { mapMaybePromise } from '@graphql-mesh/utils';
+import {
+  createGraphQLError,
+  isAsyncIterable,
+  type ExecutionResult,
+  type Executor,
+  type Maybe,
+} from '@graphql-tools/utils';
+import type { OnSubgraphExecuteHook } from './utils.js';
+
+export interface CircuitBreakerOptions {
+  /**
+   * Number of consecutive failures that opens the circuit
+   * @default 5
+   */
+  failureThreshold?: number;
+  /**
+   * Ratio of the failed requests in the rolling window that opens the circuit, between 0 and 1
+   * @default 0.5
+   */
+  errorRateThreshold?: number;
+  /**
+   * Minimum number of requests in the rolling window before the error rate is considered
+   * @default 10
+   */
+  minimumRequests?: number;
+  /**
+   * Length of the rolling window in milliseconds
+   * @default 10000
+   */
+  rollingWindow?: number;
+  /**
+   * Time in milliseconds to wait before letting trial requests through an open circuit
+   * @default 30000
+   */
+  resetTimeout?: number;
+  /**
+   * Number of trial requests that can be in flight while the circuit is half-open
+   * @default 1
+   */
+  halfOpenMaxRequests?: number;
+  /**
+   * Decides if the result of the subgraph is a failure of the upstream.
+   * By default, thrown errors, upstream HTTP errors with 5xx status codes,
+   * `DOWNSTREAM_SERVICE_ERROR` and `TIMEOUT_ERROR` are failures.
+   */
+  isFailure?(resultOrError: ExecutionResult | Error): boolean;
+}
+
+export interface BulkheadOptions {
+  /**
+   * Maximum number of requests in flight to the subgraph
+   */
+  maxConcurrency: number;
+  /**
+   * Maximum number of requests waiting for a slot, the rest is rejected immediately
+   * @default 0
+   */
+  maxQueue?: number;
+}
+
+export type SubgraphOptionsFactory<TOptions> =
+  | TOptions
+  | ((subgraphName: string) => Maybe<TOptions>);
+
+export function getSubgraphOptions<TOptions>(
+  optionsFactory: Maybe<SubgraphOptionsFactory<TOptions>>,
+  subgraphName: string,
+): Maybe<TOptions> {
+  if (typeof optionsFactory === 'function') {
+    return (optionsFactory as (subgraphName: string) => Maybe<TOptions>)(subgraphName);
+  }
+  return optionsFactory;
+}
+
+export type CircuitBreakerState = 'closed' | 'open' | 'half-open';
+
+const upstreamFailureCodes = ['DOWNSTREAM_SERVICE_ERROR', 'TIMEOUT_ERROR'];
+
+function isUpstreamError(error: GraphQLError | Error) {
+  const extensions = (error as GraphQLError).extensions as
+    | (Partial<UpstreamErrorExtensions> & { code?: string })
+    | undefined;
+  if (extensions?.response?.status >= 500) {
+    return true;
+  }
+  return upstreamFailureCodes.includes(extensions?.code);
+}
+
+export function defaultIsFailure(resultOrError: ExecutionResult | Error) {
+  if (resultOrError instanceof Error) {
+    return true;
+  }
+  return !!resultOrError.errors?.some(isUpstreamError);
+}
+
+function createUpstreamError(message: string, code: string, subgraphName: string) {
+  const extensions: UpstreamErrorExtensions & { code: string } = {
+    code,
+    subgraph: subgraphName,
+    request: {},
+    response: {},
+  };
+  return createGraphQLError(message, { extensions });
+}
+
+/**
+ * Keeps the state of the circuit of a subgraph;
+ * it opens after consecutive failures or a high error rate, and lets trial requests through
+ * after the cool-down period to decide if it should be closed again.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}) {
+  const failureThreshold = options.failureThreshold ?? 5;
+  const errorRateThreshold = options.errorRateThreshold ?? 0.5;
+  const minimumRequests = options.minimumRequests ?? 10;
+  const rollingWindow = options.rollingWindow ?? 10_000;
+  const resetTimeout = options.resetTimeout ?? 30_000;
+  const halfOpenMaxRequests = options.halfOpenMaxRequests ?? 1;
+
+  let state: CircuitBreakerState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let halfOpenRequests = 0;
+  let outcomes: { time: number; failed: boolean }[] = [];
+
+  function reset(newState: CircuitBreakerState) {
+    state = newState;
+    consecutiveFailures = 0;
+    halfOpenRequests = 0;
+    outcomes = [];
+  }
+
+  function open() {
+    reset('open');
+    openedAt = Date.now();
+  }
+
+  return {
+    get state() {
+      if (state === 'open' && Date.now() - openedAt >= resetTimeout) {
+        reset('half-open');
+      }
+      return state;
+    },
+    /**
+     * Returns `false` if the request should not be sent to the upstream
+     */
+    tryAcquire(): boolean {
+      switch (this.state) {
+        case 'open':
+          return false;
+        case 'half-open':
+          if (halfOpenRequests >= halfOpenMaxRequests) {
+            return false;
+          }
+          halfOpenRequests++;
+          return true;
+        default:
+          return true;
+      }
+    },
+    record(failed: boolean) {
+      if (state === 'half-open') {
+        if (failed) {
+          open();
+        } else {
+          reset('closed');
+        }
+        return;
+      }
+      if (state === 'open') {
+        // Results of the requests sent before the circuit is opened
+        return;
+      }
+      const now = Date.now();
+      outcomes = outcomes.filter(outcome => now - outcome.time < rollingWindow);
+      outcomes.push({ time: now, failed });
+      consecutiveFailures = failed ? consecutiveFailures + 1 : 0;
+      if (consecutiveFailures >= failureThreshold) {
+        open();
+        return;
+      }
+      if (failed && outcomes.length >= minimumRequests) {
+        const failures = outcomes.filter(outcome => outcome.failed).length;
+        if (failures / outcomes.length >= errorRateThreshold) {
+          open();
+        }
+      }
+    },
+  };
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
+
+export function wrapExecutorWithCircuitBreaker({
+  executor,
+  subgraphName,
+  options,
+  logger,
+}: {
+  executor: Executor;
+  subgraphName: string;
+  options: CircuitBreakerOptions;
+  logger?: Logger;
+}): Executor {
+  const circuitBreaker = createCircuitBreaker(options);
+  const isFailure = options.isFailure || defaultIsFailure;
+  function record(failed: boolean) {
+    const previousState = circuitBreaker.state;
+    circuitBreaker.record(failed);
+    const newState = circuitBreaker.state;
+    if (newState !== previousState) {
+      logger?.warn(`Circuit breaker of subgraph ${subgraphName} is ${newState}`);
+    }
+  }
+  return function circuitBreakerExecutor(executionRequest) {
+    if (!circuitBreaker.tryAcquire()) {
+      logger?.debug(`Circuit breaker of subgraph ${subgraphName} is open, skipping the request`);
+      return {
+        errors: [
+          createUpstreamError(
+            `Subgraph "${subgraphName}" is unavailable because its circuit breaker is open`,
+            'CIRCUIT_BREAKER_OPEN',
+            subgraphName,
+          ),
+        ],
+      };
+    }
+    try {
+      return mapMaybePromise(
+        executor(executionRequest),
+        result => {
+          record(!isAsyncIterable(result) && isFailure(result));
+          return result;
+        },
+        error => {
+          record(isFailure(error));
+          throw error;
+        },
+      );
+    } catch (error) {
+      record(isFailure(error));
+      throw error;
+    }
+  };
+}
+
+/**
+ * Limits the number of requests in flight to a subgraph,
+ * so a slow upstream cannot occupy all the resources of the gateway.
+ * Subscriptions release their slots once the stream is established.
+ */
+export function wrapExecutorWithBulkhead({
+  executor,
+  subgraphName,
+  options,
+  logger,
+}: {
+  executor: Executor;
+  subgraphName: string;
+  options: BulkheadOptions;
+  logger?: Logger;
+}): Executor {
+  const maxQueue = options.maxQueue ?? 0;
+  let inFlight = 0;
+  const queue: (() => void)[] = [];
+
+  function release() {
+    const next = queue.shift();
+    if (next) {
+      // The slot is handed over to the next request in the queue
+      next();
+    } else {
+      inFlight--;
+    }
+  }
+
+  const execute: Executor = function execute(executionRequest) {
+    try {
+      return mapMaybePromise(
+        executor(executionRequest),
+        result => {
+          release();
+          return result;
+        },
+        error => {
+          release();
+          throw error;
+        },
+      );
+    } catch (error) {
+      release();
+      throw error;
+    }
+  };
+
+  return function bulkheadExecutor(executionRequest) {
+    if (inFlight < options.maxConcurrency) {
+      inFlight++;
+      return execute(executionRequest);
+    }
+    if (queue.length < maxQueue) {
+      return new Promise<void>(resolve => queue.push(resolve)).then(() =>
+        execute(executionRequest),
+      );
+    }
+    logger?.debug(`Too many requests in flight to subgraph ${subgraphName}, rejecting the request`);
+    return {
+      errors: [
+        createUpstreamError(
+          `Subgraph "${subgraphName}" has too many requests in flight`,
+          'BULKHEAD_LIMIT_EXCEEDED',
+          subgraphName,
+        ),
+      ],
+    };
+  };
+}
+
+/**
+ * Wraps the executor of a subgraph with the circuit breaker and the bulkhead
+ * if they are enabled for the subgraph.
+ */
+export function wrapExecutorWithResilience({
+  executor,
+  subgraphName,
+  circuitBreaker,
+  bulkhead,
+  logger,
+}: {
+  executor: Executor;
+  subgraphName: string;
+  circuitBreaker?: SubgraphOptionsFactory<CircuitBreakerOptions>;
+  bulkhead?: SubgraphOptionsFactory<BulkheadOptions>;
+  logger?: Logger;
+}): Executor {
+  const circuitBreakerOptions = getSubgraphOptions(circuitBreaker, subgraphName);
+  if (circuitBreakerOptions) {
+    executor = wrapExecutorWithCircuitBreaker({
+      executor,
+      subgraphName,
+      options: circuitBreakerOptions,
+      logger,
+    });
+  }
+  const bulkheadOptions = getSubgraphOptions(bulkhead, subgraphName);
+  if (bulkheadOptions) {
+    // Requests rejected by the open circuit leave their slots immediately
+    executor = wrapExecutorWithBulkhead({
+      executor,
+      subgraphName,
+      options: bulkheadOptions,
+      logger,
+    });
+  }
+  return executor;
+}
+
+export interface SubgraphResilienceOptions {
+  /**
+   * Stops sending requests to a subgraph for a while after consecutive failures or a high error rate.
+   * The options can be given per subgraph with a function.
+   */
+  circuitBreaker?: SubgraphOptionsFactory<CircuitBreakerOptions>;
+  /**
+   * Limits the number of requests in flight to a subgraph.
+   * The options can be given per subgraph with a function.
+   */
+  bulkhead?: SubgraphOptionsFactory<BulkheadOptions>;
+}
+
+/**
+ * Gateway plugin that enables the circuit breaker and the bulkhead for the subgraphs,
+ * so they can be configured in the configuration file of the gateway.
+ */
+export function useSubgraphResilience(options: SubgraphResilienceOptions): {
+  onSubgraphExecute: OnSubgraphExecuteHook;
+} {
+  // The state is kept per executor, so it is reset when the supergraph is reloaded
+  const resilientExecutors = new WeakMap<Executor, Executor>();
+  return {
+    onSubgraphExecute({ subgraphName, executor, setExecutor, logger }) {
+      let resilientExecutor = resilientExecutors.get(executor);
+      if (!resilientExecutor) {
+        resilientExecutor = wrapExecutorWithResilience({
+          executor,
+          subgraphName,
+          circuitBreaker: options.circuitBreaker,
+          bulkhead: options.bulkhead,
+          logger,
+        });
+        resilientExecutors.set(executor, resilientExecutor);
+        // The executor set by the hook is given to the hooks of the next requests
+        resilientExecutors.set(resilientExecutor, resilientExecutor);
+      }
+      if (resilientExecutor !== executor) {
+        setExecutor(resilientExecutor);
+      }
+    },
+  };
+}
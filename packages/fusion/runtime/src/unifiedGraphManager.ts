@@ -10,6 +10,11 @@ import type { IResolvers, MaybePromise, TypeSource } from '@graphql-tools/utils'
 import { isDocumentNode } from '@graphql-tools/utils';
 import { AsyncDisposableStack, DisposableSymbols } from '@whatwg-node/disposablestack';
 import { handleFederationSupergraph } from './federation/supergraph.js';
+import type {
+  BulkheadOptions,
+  CircuitBreakerOptions,
+  SubgraphOptionsFactory,
+} from './resilience.js';
 import {
   compareSchemas,
   compareSubgraphNames,
@@ -73,6 +78,16 @@ export interface UnifiedGraphManagerOptions<TContext> {
    * @default true
    */
   batch?: boolean;
+  /**
+   * Stops sending requests to a subgraph for a while after consecutive failures or a high error rate.
+   * The options can be given per subgraph with a function.
+   */
+  circuitBreaker?: SubgraphOptionsFactory<CircuitBreakerOptions>;
+  /**
+   * Limits the number of requests in flight to a subgraph.
+   * The options can be given per subgraph with a function.
+   */
+  bulkhead?: SubgraphOptionsFactory<BulkheadOptions>;
 }
 
 export class UnifiedGraphManager<TContext> {
@@ -180,6 +195,8 @@ export class UnifiedGraphManager<TContext> {
                 return subgraph.schema;
               },
               transportExecutorStack: this._transportExecutorStack,
+              circuitBreaker: this.opts.circuitBreaker,
+              bulkhead: this.opts.bulkhead,
             });
             if (this.opts.additionalResolvers || additionalResolvers.length) {
               this.inContextSDK = getInContextSDK(
@@ -26,6 +26,12 @@ import {
   type Maybe,
   type MaybePromise,
 } from '@graphql-tools/utils';
+import {
+  wrapExecutorWithResilience,
+  type BulkheadOptions,
+  type CircuitBreakerOptions,
+  type SubgraphOptionsFactory,
+} from './resilience.js';
 
 export type { TransportEntry, TransportGetSubgraphExecutor, TransportGetSubgraphExecutorOptions };
 
@@ -137,6 +143,8 @@ export function getOnSubgraphExecute({
   getSubgraphSchema,
   transportExecutorStack,
   transports,
+  circuitBreaker,
+  bulkhead,
 }: {
   onSubgraphExecuteHooks: OnSubgraphExecuteHook[];
   transports?: Transports;
@@ -144,6 +152,8 @@ export function getOnSubgraphExecute({
   transportEntryMap?: Record<string, TransportEntry>;
   getSubgraphSchema(subgraphName: string): GraphQLSchema;
   transportExecutorStack: AsyncDisposableStack;
+  circuitBreaker?: SubgraphOptionsFactory<CircuitBreakerOptions>;
+  bulkhead?: SubgraphOptionsFactory<BulkheadOptions>;
 }) {
   const subgraphExecutorMap = new Map<string, Executor>();
   return function onSubgraphExecute(subgraphName: string, executionRequest: ExecutionRequest) {
@@ -171,6 +181,13 @@ export function getOnSubgraphExecute({
             if (isDisposable(executor_)) {
               transportExecutorStack.use(executor_);
             }
+            executor_ = wrapExecutorWithResilience({
+              executor: executor_,
+              subgraphName,
+              circuitBreaker,
+              bulkhead,
+              logger: transportContext?.logger,
+            });
             // Wraps the transport executor with hooks
             executor = wrapExecutorWithHooks({
               executor: executor_,
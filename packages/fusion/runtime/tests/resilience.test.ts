@@ -0,0 +1,193 @@
+import { parse } from 'graphql';
+import { DefaultLogger, LogLevel } from '@graphql-mesh/utils';
+import { createGraphQLError, type ExecutionResult } from '@graphql-tools/utils';
+import {
+  useSubgraphResilience,
+  wrapExecutorWithBulkhead,
+  wrapExecutorWithCircuitBreaker,
+} from '../src/resilience';
+import { wrapExecutorWithHooks } from '../src/utils';
+
+describe('Resilience', () => {
+  const executionRequest = {
+    document: parse(/* GraphQL */ `
+      {
+        foo
+      }
+    `),
+  };
+  const upstreamError = createGraphQLError('Upstream HTTP Error: 503', {
+    extensions: {
+      subgraph: 'Upstream',
+      request: {},
+      response: {
+        status: 503,
+      },
+    },
+  });
+  describe('Circuit Breaker', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    it('opens after consecutive failures, and closes after a successful trial', async () => {
+      let healthy = false;
+      const executor = jest.fn(
+        (): ExecutionResult =>
+          healthy ? { data: { foo: 'bar' } } : { data: null, errors: [upstreamError] },
+      );
+      const circuitBreakerExecutor = wrapExecutorWithCircuitBreaker({
+        executor,
+        subgraphName: 'Upstream',
+        options: {
+          failureThreshold: 2,
+          resetTimeout: 1000,
+        },
+      });
+      await circuitBreakerExecutor(executionRequest);
+      await circuitBreakerExecutor(executionRequest);
+      expect(executor).toHaveBeenCalledTimes(2);
+
+      const openResult = (await circuitBreakerExecutor(executionRequest)) as ExecutionResult;
+      expect(executor).toHaveBeenCalledTimes(2);
+      expect(openResult.errors?.[0]?.message).toBe(
+        'Subgraph "Upstream" is unavailable because its circuit breaker is open',
+      );
+      expect(openResult.errors?.[0]?.extensions).toEqual({
+        code: 'CIRCUIT_BREAKER_OPEN',
+        subgraph: 'Upstream',
+        request: {},
+        response: {},
+      });
+
+      // Half-open; the failed trial opens the circuit again
+      jest.advanceTimersByTime(1000);
+      await circuitBreakerExecutor(executionRequest);
+      expect(executor).toHaveBeenCalledTimes(3);
+      await circuitBreakerExecutor(executionRequest);
+      expect(executor).toHaveBeenCalledTimes(3);
+
+      jest.advanceTimersByTime(1000);
+      healthy = true;
+      expect(await circuitBreakerExecutor(executionRequest)).toEqual({ data: { foo: 'bar' } });
+      expect(await circuitBreakerExecutor(executionRequest)).toEqual({ data: { foo: 'bar' } });
+      expect(executor).toHaveBeenCalledTimes(5);
+    });
+    it('opens when the error rate in the rolling window exceeds the threshold', async () => {
+      let calls = 0;
+      const executor = jest.fn(async (): Promise<ExecutionResult> => {
+        calls++;
+        if (calls % 2 === 0) {
+          throw new Error('Connection refused');
+        }
+        return { data: { foo: 'bar' } };
+      });
+      const circuitBreakerExecutor = wrapExecutorWithCircuitBreaker({
+        executor,
+        subgraphName: 'Upstream',
+        options: {
+          errorRateThreshold: 0.5,
+          minimumRequests: 4,
+        },
+      });
+      for (let i = 0; i < 4; i++) {
+        await Promise.resolve(circuitBreakerExecutor(executionRequest)).catch(() => {});
+      }
+      const result = (await circuitBreakerExecutor(executionRequest)) as ExecutionResult;
+      expect(result.errors?.[0]?.extensions?.code).toBe('CIRCUIT_BREAKER_OPEN');
+      expect(executor).toHaveBeenCalledTimes(4);
+    });
+    it('does not count the errors of the operation as failures', async () => {
+      const executor = jest.fn(
+        (): ExecutionResult => ({
+          errors: [createGraphQLError('Cannot query field "bar" on type "Query"')],
+        }),
+      );
+      const circuitBreakerExecutor = wrapExecutorWithCircuitBreaker({
+        executor,
+        subgraphName: 'Upstream',
+        options: {
+          failureThreshold: 1,
+        },
+      });
+      await circuitBreakerExecutor(executionRequest);
+      await circuitBreakerExecutor(executionRequest);
+      expect(executor).toHaveBeenCalledTimes(2);
+    });
+  });
+  describe('Bulkhead', () => {
+    it('limits the requests in flight and queues the rest', async () => {
+      const pending: (() => void)[] = [];
+      let maxInFlight = 0;
+      let inFlight = 0;
+      const executor = jest.fn(
+        () =>
+          new Promise<ExecutionResult>(resolve => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            pending.push(() => {
+              inFlight--;
+              resolve({ data: { foo: 'bar' } });
+            });
+          }),
+      );
+      const bulkheadExecutor = wrapExecutorWithBulkhead({
+        executor,
+        subgraphName: 'Upstream',
+        options: {
+          maxConcurrency: 2,
+          maxQueue: 1,
+        },
+      });
+      const results = [
+        bulkheadExecutor(executionRequest),
+        bulkheadExecutor(executionRequest),
+        bulkheadExecutor(executionRequest),
+      ];
+      const rejected = (await bulkheadExecutor(executionRequest)) as ExecutionResult;
+      expect(rejected.errors?.[0]?.extensions?.code).toBe('BULKHEAD_LIMIT_EXCEEDED');
+      expect(executor).toHaveBeenCalledTimes(2);
+
+      pending.shift()();
+      await results[0];
+      // The queued request takes the released slot
+      await new Promise(resolve => setImmediate(resolve));
+      expect(executor).toHaveBeenCalledTimes(3);
+      while (pending.length) {
+        pending.shift()();
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      expect(await Promise.all(results)).toEqual([
+        { data: { foo: 'bar' } },
+        { data: { foo: 'bar' } },
+        { data: { foo: 'bar' } },
+      ]);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+  describe('Plugin', () => {
+    it('keeps the state of the circuit breaker across the requests', async () => {
+      const executor = jest.fn((): ExecutionResult => ({ data: null, errors: [upstreamError] }));
+      const plugin = useSubgraphResilience({
+        circuitBreaker: subgraphName =>
+          subgraphName === 'Upstream' ? { failureThreshold: 2 } : null,
+      });
+      const executorWithHooks = wrapExecutorWithHooks({
+        executor,
+        onSubgraphExecuteHooks: [plugin.onSubgraphExecute],
+        subgraphName: 'Upstream',
+        getSubgraphSchema: () => undefined,
+        transportContext: {
+          logger: new DefaultLogger('Test', LogLevel.silent),
+        },
+      });
+      await executorWithHooks({ ...executionRequest });
+      await executorWithHooks({ ...executionRequest });
+      const result = (await executorWithHooks({ ...executionRequest })) as ExecutionResult;
+      expect(result.errors?.[0]?.extensions?.code).toBe('CIRCUIT_BREAKER_OPEN');
+      expect(executor).toHaveBeenCalledTimes(2);
+    });
+  });
+});
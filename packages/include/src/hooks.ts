@@ -77,6 +77,22 @@ function fixSpecifier(specifier: string, context: module.ResolveHookContext) {
 }
 
 export const resolve: module.ResolveHook = async (specifier, context, nextResolve) => {
+  const resolved = await resolveSpecifier(specifier, context, nextResolve);
+  // the query used to bypass the module cache when reloading is passed to the local modules
+  // imported by the reloaded module, so they are reloaded as well
+  const parentQuery = context.parentURL?.startsWith('file:') && context.parentURL.split('?')[1];
+  if (
+    parentQuery &&
+    resolved.url.startsWith('file:') &&
+    !resolved.url.includes('?') &&
+    !resolved.url.includes('/node_modules/')
+  ) {
+    return { ...resolved, url: `${resolved.url}?${parentQuery}` };
+  }
+  return resolved;
+};
+
+const resolveSpecifier: module.ResolveHook = async (specifier, context, nextResolve) => {
   specifier = fixSpecifier(specifier, context);
 
   if (specifier.startsWith('node:')) {
@@ -169,7 +185,9 @@ export const load: module.LoadHook = async (url, context, nextLoad) => {
     debug(`Fixing Windows path at "${url}"`);
     url = `file:///${url.replace(/\\/g, '/')}`;
   }
-  if (/\.(m|c)?ts$/.test(url)) {
+  // ignore the query, which is used to bypass the module cache when reloading
+  const [urlPath] = url.split('?');
+  if (/\.(m|c)?ts$/.test(urlPath)) {
     // debug(`Transpiling TypeScript file at "${url}"`);
     const filePath = fileURLToPath(url);
     let source: string;
@@ -179,16 +197,16 @@ export const load: module.LoadHook = async (url, context, nextLoad) => {
       throw new Error(`Failed to read file at "${url}"; ${e?.stack || e}`);
     }
     let format: 'module' | 'commonjs';
-    if (/\.ts$/.test(url)) {
+    if (/\.ts$/.test(urlPath)) {
       // try {
       //   const { isSea } = await import('node:sea');
       //   format = isSea() ? 'commonjs' : 'module';
       // } catch {
       format = 'module';
       // }
-    } else if (/\.mts$/.test(url)) {
+    } else if (/\.mts$/.test(urlPath)) {
       format = 'module';
-    } else if (/\.cts$/.test(url)) {
+    } else if (/\.cts$/.test(urlPath)) {
       format = 'commonjs';
     }
     const transforms: Transform[] = ['typescript'];
@@ -1,5 +1,5 @@
 import { join } from 'path';
-import { buildSchema, GraphQLSchema, validateSchema } from 'graphql';
+import { buildSchema, GraphQLSchema, validateSchema, type GraphQLObjectType } from 'graphql';
 import InMemoryLRUCache from '@graphql-mesh/cache-localforage';
 import { InMemoryStoreStorageAdapter, MeshStore } from '@graphql-mesh/store';
 import type { KeyValueCache, YamlConfig } from '@graphql-mesh/types';
@@ -101,4 +101,75 @@ describe('gRPC Handler', () => {
       expect(printSchemaWithDirectives(schema)).toMatchSnapshot();
     });
   });
+
+  describe('Load proto with request streams', () => {
+    test(`should accept lists and NDJSON files of the request messages`, async () => {
+      const config: YamlConfig.GrpcHandler = {
+        endpoint: 'localhost',
+        source: {
+          file: join(__dirname, './fixtures/proto-tests', 'streaming.proto'),
+          load: { includeDirs: [join(__dirname, './fixtures/proto-tests')] },
+        },
+      };
+      const handler = new GrpcHandler({
+        name: Date.now().toString(),
+        config,
+        cache,
+        pubsub,
+        store,
+        logger,
+        importFn: defaultImportFn,
+        baseDir: __dirname,
+      });
+
+      const { schema } = await handler.getMeshSource();
+
+      expect(validateSchema(schema)).toHaveLength(0);
+      const mutationFields = schema.getMutationType().getFields();
+      expect(
+        mutationFields.io_streaming_Uploader_Upload.args.map(arg => `${arg.name}: ${arg.type}`),
+      ).toEqual(['input: [io__streaming__Chunk_Input]', 'inputStream: File']);
+      expect(String(mutationFields.io_streaming_Uploader_Upload.type)).toBe(
+        'io__streaming__UploadResult',
+      );
+      expect(String(mutationFields.io_streaming_Uploader_Echo.type)).toBe('[io__streaming__Chunk]');
+      const subscriptionFields = schema.getSubscriptionType().getFields();
+      expect(Object.keys(subscriptionFields)).toEqual(['io_streaming_Uploader_Echo']);
+      expect(
+        subscriptionFields.io_streaming_Uploader_Echo.args.map(arg => `${arg.name}: ${arg.type}`),
+      ).toEqual(['input: [io__streaming__Chunk_Input]']);
+    });
+  });
+
+  describe('Load proto with response metadata', () => {
+    test(`should add grpcMetadata to the responses of the unary methods`, async () => {
+      const config: YamlConfig.GrpcHandler = {
+        endpoint: 'localhost',
+        source: {
+          file: join(__dirname, './fixtures/proto-tests', 'movie.proto'),
+          load: { includeDirs: [join(__dirname, './fixtures/proto-tests')] },
+        },
+        responseMetadata: ['x-request-id'],
+      };
+      const handler = new GrpcHandler({
+        name: Date.now().toString(),
+        config,
+        cache,
+        pubsub,
+        store,
+        logger,
+        importFn: defaultImportFn,
+        baseDir: __dirname,
+      });
+
+      const { schema } = await handler.getMeshSource();
+
+      expect(validateSchema(schema)).toHaveLength(0);
+      const moviesResultType = schema.getType('io__xtech__MoviesResult') as GraphQLObjectType;
+      expect(String(moviesResultType.getFields().grpcMetadata.type)).toBe('JSON');
+      // Streamed messages don't have metadata
+      const movieType = schema.getType('io__xtech__Movie') as GraphQLObjectType;
+      expect(movieType.getFields().grpcMetadata).toBeUndefined();
+    });
+  });
 });
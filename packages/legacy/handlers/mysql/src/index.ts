@@ -83,6 +83,7 @@ export default class MySQLHandler implements MeshHandler {
     const executor = getMySQLExecutor({
       subgraph: schema,
       pool,
+      isolationLevel: this.config.isolationLevel,
     });
 
     if (isDisposable(executor)) {
@@ -48,6 +48,10 @@ export default class ODataHandler implements MeshHandler {
         importFn: this.importFn,
         batch: this.config.batch,
         expandNavProps: this.config.expandNavProps,
+        typedQueryOptions: this.config.typedQueryOptions,
+        etag: this.config.etag,
+        deepInsert: this.config.deepInsert,
+        delta: this.config.delta,
       }),
     );
     schema = processDirectives({
@@ -334,6 +334,169 @@ describe('odata', () => {
     expect(sentRequest!.method).toBe(correctMethod);
     expect(decodeURIComponent(sentRequest!.url)).toBe(decodeURIComponent(correctUrl));
   });
+  it('should generate correct HTTP request for typed query options', async () => {
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/$metadata',
+      async () => new MockResponse(TripPinMetadata),
+    );
+    const correctFilter = [
+      `((Age gt 30) or (LastName eq 'O''Neil'))`,
+      `startswith(FirstName,'Sc')`,
+      `Gender eq Microsoft.OData.Service.Sample.TrippinInMemory.Models.PersonGender'Male'`,
+      `Emails/any(x0:endswith(x0,'@example.com'))`,
+      `HomeAddress/City/Name eq 'Boise'`,
+      `Friends/all(x0:not (x0/UserName in ('vincentcalabrese','keithpinckney')))`,
+    ].join(' and ');
+    const correctUrl = `https://services.odata.org/TripPinRESTierService/People?$filter=${correctFilter}&$orderby=LastName asc,Age desc&$search=Russell`;
+    let sentRequest: Request;
+    addMock(correctUrl, async request => {
+      sentRequest = request;
+      return new MockResponse(JSON.stringify({ value: [PersonMockData] }));
+    });
+    const handler = new ODataHandler({
+      name: 'TripPin',
+      config: {
+        endpoint: 'https://services.odata.org/TripPinRESTierService',
+        typedQueryOptions: true,
+      },
+      pubsub,
+      cache,
+      store,
+      baseDir,
+      importFn,
+      logger,
+    });
+    const source = await handler.getMeshSource({
+      fetchFn: mockFetch,
+    });
+
+    const graphqlResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      document: parse(/* GraphQL */ `
+        {
+          People(
+            filter: {
+              FirstName: { startswith: "Sc" }
+              Gender: { eq: Male }
+              or: [{ Age: { gt: 30 } }, { LastName: { eq: "O'Neil" } }]
+              Emails: { any: { endswith: "@example.com" } }
+              Friends: { all: { not: { UserName: { in: ["vincentcalabrese", "keithpinckney"] } } } }
+              HomeAddress: { City: { Name: { eq: "Boise" } } }
+            }
+            orderBy: [LastName_ASC, Age_DESC]
+            search: "Russell"
+          ) {
+            UserName
+            FirstName
+          }
+        }
+      `),
+    })) as ExecutionResult;
+
+    expect(graphqlResult.errors).toBeFalsy();
+    expect(decodeURIComponent(sentRequest!.url)).toBe(correctUrl);
+  });
+  it('should generate correct HTTP request for $apply aggregations', async () => {
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/$metadata',
+      async () => new MockResponse(TripPinMetadata),
+    );
+    const correctUrl = `https://services.odata.org/TripPinRESTierService/People?$apply=filter(Age ge 18)/groupby((Gender),aggregate(Age with average as AverageAge,$count as Total))`;
+    addMock(
+      correctUrl,
+      async () =>
+        new MockResponse(
+          JSON.stringify({
+            value: [
+              { Gender: 'Male', AverageAge: 30, Total: 2 },
+              { Gender: 'Female', AverageAge: 25, Total: 3 },
+            ],
+          }),
+        ),
+    );
+    const handler = new ODataHandler({
+      name: 'TripPin',
+      config: {
+        endpoint: 'https://services.odata.org/TripPinRESTierService',
+        typedQueryOptions: true,
+      },
+      pubsub,
+      cache,
+      store,
+      baseDir,
+      importFn,
+      logger,
+    });
+    const source = await handler.getMeshSource({
+      fetchFn: mockFetch,
+    });
+
+    const graphqlResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      document: parse(/* GraphQL */ `
+        {
+          PeopleAggregate(
+            apply: {
+              filter: { Age: { ge: 18 } }
+              groupBy: [Gender]
+              aggregate: [{ property: Age, with: average, as: "AverageAge" }, { as: "Total" }]
+            }
+          )
+        }
+      `),
+    })) as ExecutionResult;
+
+    expect(graphqlResult).toEqual({
+      data: {
+        PeopleAggregate: [
+          { Gender: 'Male', AverageAge: 30, Total: 2 },
+          { Gender: 'Female', AverageAge: 25, Total: 3 },
+        ],
+      },
+    });
+  });
+  it('should generate correct HTTP request for $count with typed filter', async () => {
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/$metadata',
+      async () => new MockResponse(TripPinMetadata),
+    );
+    const correctUrl = `https://services.odata.org/TripPinRESTierService/People/$count?$filter=FirstName eq 'Scott'`;
+    addMock(correctUrl, async () => new MockResponse(JSON.stringify(1)));
+    const handler = new ODataHandler({
+      name: 'TripPin',
+      config: {
+        endpoint: 'https://services.odata.org/TripPinRESTierService',
+        typedQueryOptions: true,
+      },
+      pubsub,
+      cache,
+      store,
+      baseDir,
+      importFn,
+      logger,
+    });
+    const source = await handler.getMeshSource({
+      fetchFn: mockFetch,
+    });
+
+    const graphqlResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      document: parse(/* GraphQL */ `
+        {
+          PeopleCount(filter: { FirstName: { eq: "Scott" } })
+        }
+      `),
+    })) as ExecutionResult;
+
+    expect(graphqlResult).toEqual({
+      data: {
+        PeopleCount: 1,
+      },
+    });
+  });
   it('should generate correct HTTP request for $count', async () => {
     addMock(
       'https://services.odata.org/TripPinRESTierService/$metadata',
@@ -857,4 +1020,341 @@ describe('odata', () => {
     expect(sentRequest!.url).toBe(correctUrl);
     expect(await sentRequest!.text()).toBe(JSON.stringify(correctBody));
   });
+  it('should expose ETags and send them as If-Match with the updates', async () => {
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/$metadata',
+      async () => new MockResponse(TripPinMetadata),
+    );
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/Airlines/AA/?$select=Name,AirlineCode',
+      async () =>
+        new MockResponse(
+          JSON.stringify({
+            '@odata.etag': 'W/"1"',
+            AirlineCode: 'AA',
+            Name: 'American Airlines',
+          }),
+        ),
+    );
+    const correctUrl = `https://services.odata.org/TripPinRESTierService/Airlines/AA/`;
+    let sentRequest: any;
+    addMock(correctUrl, async request => {
+      sentRequest = request;
+      return new MockResponse(
+        JSON.stringify({
+          '@odata.etag': 'W/"2"',
+          AirlineCode: 'AA',
+          Name: 'American',
+        }),
+      );
+    });
+    const handler = new ODataHandler({
+      name: 'TripPin',
+      config: {
+        endpoint: 'https://services.odata.org/TripPinRESTierService',
+        etag: true,
+      },
+      pubsub,
+      cache,
+      store,
+      baseDir,
+      importFn,
+      logger,
+    });
+    const source = await handler.getMeshSource({
+      fetchFn: mockFetch,
+    });
+
+    const queryResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      document: parse(/* GraphQL */ `
+        {
+          AirlinesByAirlineCode(AirlineCode: "AA") {
+            Name
+            etag
+          }
+        }
+      `),
+    })) as ExecutionResult;
+
+    expect(queryResult.errors).toBeFalsy();
+    expect(queryResult.data).toEqual({
+      AirlinesByAirlineCode: {
+        Name: 'American Airlines',
+        etag: 'W/"1"',
+      },
+    });
+
+    const mutationResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      variableValues: {
+        ifMatch: 'W/"1"',
+      },
+      document: parse(/* GraphQL */ `
+        mutation UpdateAirline($ifMatch: String) {
+          updateAirlinesByAirlineCode(
+            AirlineCode: "AA"
+            input: { Name: "American" }
+            ifMatch: $ifMatch
+          ) {
+            etag
+          }
+        }
+      `),
+    })) as ExecutionResult;
+
+    expect(mutationResult.errors).toBeFalsy();
+    expect(mutationResult.data).toEqual({
+      updateAirlinesByAirlineCode: {
+        etag: 'W/"2"',
+      },
+    });
+    expect(sentRequest!.method).toBe('PATCH');
+    expect(sentRequest!.headers['if-match']).toBe('W/"1"');
+  });
+  it('should return a PRECONDITION_FAILED error if the ETag does not match', async () => {
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/$metadata',
+      async () => new MockResponse(TripPinMetadata),
+    );
+    addMock('https://services.odata.org/TripPinRESTierService/Airlines/AA/', async () =>
+      Object.assign(
+        new MockResponse(
+          JSON.stringify({
+            error: {
+              code: 'PreconditionFailed',
+              message: 'The ETag of the entity does not match',
+            },
+          }),
+        ),
+        { status: 412 },
+      ),
+    );
+    const handler = new ODataHandler({
+      name: 'TripPin',
+      config: {
+        endpoint: 'https://services.odata.org/TripPinRESTierService',
+        etag: true,
+      },
+      pubsub,
+      cache,
+      store,
+      baseDir,
+      importFn,
+      logger,
+    });
+    const source = await handler.getMeshSource({
+      fetchFn: mockFetch,
+    });
+
+    const graphqlResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      document: parse(/* GraphQL */ `
+        mutation {
+          deleteAirlinesByAirlineCode(AirlineCode: "AA", ifMatch: "W/\\"1\\"")
+        }
+      `),
+    })) as ExecutionResult;
+
+    expect(graphqlResult.errors).toHaveLength(1);
+    expect(graphqlResult.errors[0].message).toBe('The ETag of the entity does not match');
+    expect(graphqlResult.errors[0].extensions.code).toBe('PRECONDITION_FAILED');
+  });
+  it('should send the related entities with the creation if deep insert is enabled', async () => {
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/$metadata',
+      async () => new MockResponse(TripPinMetadata),
+    );
+    const correctUrl = `https://services.odata.org/TripPinRESTierService/People`;
+    const correctBody = {
+      UserName: 'lewisblack',
+      FirstName: 'Lewis',
+      Gender: 'Male',
+      FavoriteFeature: 'Feature1',
+      Features: ['Feature1'],
+      Trips: [
+        {
+          TripId: 1,
+          ShareId: '9d9b2fa0-efbf-490e-a5e3-bac8f7d47354',
+          Name: 'Trip in US',
+          Budget: 3000,
+          StartsAt: '2014-01-01T00:00:00.000Z',
+          EndsAt: '2014-01-04T00:00:00.000Z',
+        },
+      ],
+    };
+    let sentRequest: any;
+    addMock(correctUrl, async request => {
+      sentRequest = request.clone();
+      const bodyObj: any = await request.json();
+      bodyObj['@odata.type'] = 'Microsoft.OData.Service.Sample.TrippinInMemory.Models.Person';
+      return new MockResponse(JSON.stringify(bodyObj));
+    });
+    const handler = new ODataHandler({
+      name: 'TripPin',
+      config: {
+        endpoint: 'https://services.odata.org/TripPinRESTierService',
+        deepInsert: true,
+      },
+      pubsub,
+      cache,
+      store,
+      baseDir,
+      importFn,
+      logger,
+    });
+    const source = await handler.getMeshSource({
+      fetchFn: mockFetch,
+    });
+
+    expect(source.schema.getType('PersonUpdateInput').toConfig()).not.toHaveProperty(
+      'fields.Trips',
+    );
+
+    const graphqlResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      variableValues: {
+        input: correctBody,
+      },
+      document: parse(/* GraphQL */ `
+        mutation CreatePeople($input: PersonInput) {
+          createPeople(input: $input) {
+            UserName
+          }
+        }
+      `),
+    })) as ExecutionResult;
+
+    expect(graphqlResult.errors).toBeFalsy();
+    expect(sentRequest!.method).toBe('POST');
+    expect(await sentRequest!.json()).toMatchObject(correctBody);
+  });
+  it('should generate correct HTTP requests for delta queries', async () => {
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/$metadata',
+      async () => new MockResponse(TripPinMetadata),
+    );
+    let initialRequest: any;
+    addMock('https://services.odata.org/TripPinRESTierService/Airlines', async request => {
+      initialRequest = request;
+      return new MockResponse(
+        JSON.stringify({
+          value: [
+            {
+              AirlineCode: 'AA',
+              Name: 'American Airlines',
+            },
+          ],
+          '@odata.deltaLink':
+            'https://services.odata.org/TripPinRESTierService/Airlines?$deltatoken=token1',
+        }),
+      );
+    });
+    addMock(
+      'https://services.odata.org/TripPinRESTierService/Airlines?$deltatoken=token1',
+      async () =>
+        new MockResponse(
+          JSON.stringify({
+            value: [
+              {
+                AirlineCode: 'FM',
+                Name: 'Shanghai Airline',
+              },
+              {
+                '@removed': {
+                  reason: 'deleted',
+                },
+                '@id': "Airlines('AA')",
+              },
+            ],
+            '@odata.deltaLink':
+              'https://services.odata.org/TripPinRESTierService/Airlines?$deltatoken=token2',
+          }),
+        ),
+    );
+    const handler = new ODataHandler({
+      name: 'TripPin',
+      config: {
+        endpoint: 'https://services.odata.org/TripPinRESTierService',
+        delta: true,
+      },
+      pubsub,
+      cache,
+      store,
+      baseDir,
+      importFn,
+      logger,
+    });
+    const source = await handler.getMeshSource({
+      fetchFn: mockFetch,
+    });
+    const document = parse(/* GraphQL */ `
+      query AirlinesDelta($deltaToken: String) {
+        AirlinesDelta(deltaToken: $deltaToken) {
+          changes {
+            AirlineCode
+            Name
+          }
+          deleted {
+            id
+            reason
+          }
+          deltaToken
+        }
+      }
+    `);
+
+    const initialResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      document,
+    })) as ExecutionResult;
+
+    expect(initialResult.errors).toBeFalsy();
+    expect(initialRequest!.headers['prefer']).toBe('odata.track-changes');
+    expect(initialResult.data).toEqual({
+      AirlinesDelta: {
+        changes: [
+          {
+            AirlineCode: 'AA',
+            Name: 'American Airlines',
+          },
+        ],
+        deleted: [],
+        deltaToken: 'token1',
+      },
+    });
+
+    const deltaResult = (await normalizedExecutor({
+      schema: source.schema,
+      contextValue: {},
+      variableValues: {
+        deltaToken: 'token1',
+      },
+      document,
+    })) as ExecutionResult;
+
+    expect(deltaResult.errors).toBeFalsy();
+    expect(deltaResult.data).toEqual({
+      AirlinesDelta: {
+        changes: [
+          {
+            AirlineCode: 'FM',
+            Name: 'Shanghai Airline',
+          },
+        ],
+        deleted: [
+          {
+            id: "Airlines('AA')",
+            reason: 'deleted',
+          },
+        ],
+        deltaToken: 'token2',
+      },
+    });
+  });
 });
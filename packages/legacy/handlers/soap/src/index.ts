@@ -64,6 +64,9 @@ export default class SoapHandler implements MeshHandler {
           logger: this.logger,
           schemaHeaders: this.config.schemaHeaders,
           operationHeaders: this.config.operationHeaders,
+          soapHeaders: this.config.soapHeaders,
+          wsSecurity: this.config.wsSecurity,
+          mtom: this.config.mtom,
         });
         const wsdlLocation = this.config.source;
         const wsdl = await readFileOrUrl<string>(wsdlLocation, {
@@ -81,12 +84,15 @@ export default class SoapHandler implements MeshHandler {
     }
     // Create executor lazily for faster startup
     let executor: Executor;
-    const operationHeaders = this.config.operationHeaders;
+    const { operationHeaders, soapHeaders, wsSecurity } = this.config;
     return {
       schema,
       executor(...args) {
         if (!executor) {
-          executor = createExecutorFromSchemaAST(schema, fetchFn, operationHeaders);
+          executor = createExecutorFromSchemaAST(schema, fetchFn, operationHeaders, {
+            soapHeaders,
+            wsSecurity,
+          });
         }
         return executor(...args);
       },
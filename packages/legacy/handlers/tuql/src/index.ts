@@ -1,21 +1,46 @@
-import type { MeshHandler, MeshHandlerOptions, MeshSource, YamlConfig } from '@graphql-mesh/types';
-import { loadGraphQLSchemaFromOptions } from '@omnigraph/sqlite';
+import type {
+  MeshHandler,
+  MeshHandlerOptions,
+  MeshPubSub,
+  MeshSource,
+  YamlConfig,
+} from '@graphql-mesh/types';
+import { dispose, isDisposable } from '@graphql-mesh/utils';
+import { getSQLiteExecutor, loadGraphQLSchemaFromSQLite } from '@omnigraph/sqlite';
 
 export default class TuqlHandler implements MeshHandler {
+  private name: string;
   private config: YamlConfig.TuqlHandler;
   private baseDir: string;
-  constructor({ config, baseDir }: MeshHandlerOptions<YamlConfig.TuqlHandler>) {
+  private pubsub: MeshPubSub;
+  constructor({ name, config, baseDir, pubsub }: MeshHandlerOptions<YamlConfig.TuqlHandler>) {
+    this.name = name;
     this.config = config;
     this.baseDir = baseDir;
+    this.pubsub = pubsub;
   }
 
   async getMeshSource(): Promise<MeshSource> {
-    const schema = await loadGraphQLSchemaFromOptions({
+    const schema = await loadGraphQLSchemaFromSQLite(this.name, {
       ...this.config,
       cwd: this.baseDir,
     });
+    const executor = getSQLiteExecutor({
+      subgraph: schema,
+      cwd: this.baseDir,
+    });
+
+    if (isDisposable(executor)) {
+      const id = this.pubsub.subscribe('destroy', () => {
+        // eslint-disable-next-line @typescript-eslint/no-floating-promises
+        dispose(executor);
+        this.pubsub.unsubscribe(id);
+      });
+    }
+
     return {
       schema,
+      executor,
     };
   }
 }
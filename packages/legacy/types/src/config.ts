@@ -337,6 +337,15 @@ export interface GrpcHandler {
   schemaHeaders?: {
     [k: string]: any;
   };
+  /**
+   * Deadlines and retry policies of the methods
+   */
+  methods?: GrpcMethodOptions[];
+  /**
+   * Response headers and trailers exposed in `grpcMetadata` of the responses,
+   * and in the extensions of the errors
+   */
+  responseMetadata?: string[];
 }
 export interface ProtoFilePath {
   file: string;
@@ -354,6 +363,63 @@ export interface GrpcCredentialsSsl {
   certChain?: string;
   privateKey?: string;
 }
+export interface GrpcMethodOptions {
+  /**
+   * Fully qualified name of the service like `package.Service`, or the method like
+   * `package.Service/Method`; `*` matches all the methods
+   */
+  name: string;
+  /**
+   * Deadline of each attempt in milliseconds, instead of `requestTimeout`
+   */
+  deadline?: number;
+  retry?: GrpcRetryPolicy;
+}
+/**
+ * Retry policy of the unary calls
+ */
+export interface GrpcRetryPolicy {
+  /**
+   * Maximum number of attempts including the first one
+   * Default: 3
+   */
+  maxAttempts?: number;
+  /**
+   * Upper limit of the first randomized backoff in milliseconds
+   * Default: 100
+   */
+  initialBackoff?: number;
+  /**
+   * Maximum backoff in milliseconds
+   * Default: 1000
+   */
+  maxBackoff?: number;
+  /**
+   * Default: 2
+   */
+  backoffMultiplier?: number;
+  /**
+   * Default: [UNAVAILABLE] (Allowed values: CANCELLED, UNKNOWN, INVALID_ARGUMENT, DEADLINE_EXCEEDED, NOT_FOUND, ALREADY_EXISTS, PERMISSION_DENIED, RESOURCE_EXHAUSTED, FAILED_PRECONDITION, ABORTED, OUT_OF_RANGE, UNIMPLEMENTED, INTERNAL, UNAVAILABLE, DATA_LOSS, UNAUTHENTICATED)
+   */
+  retryableStatusCodes?: (
+    | 'CANCELLED'
+    | 'UNKNOWN'
+    | 'INVALID_ARGUMENT'
+    | 'DEADLINE_EXCEEDED'
+    | 'NOT_FOUND'
+    | 'ALREADY_EXISTS'
+    | 'PERMISSION_DENIED'
+    | 'RESOURCE_EXHAUSTED'
+    | 'FAILED_PRECONDITION'
+    | 'ABORTED'
+    | 'OUT_OF_RANGE'
+    | 'UNIMPLEMENTED'
+    | 'INTERNAL'
+    | 'UNAVAILABLE'
+    | 'DATA_LOSS'
+    | 'UNAUTHENTICATED'
+  )[];
+}
 /**
  * Handler for JSON Schema specification.
  * Source could be a local json file, or a url to it.
@@ -496,6 +562,48 @@ export interface JsonSchemaHTTPOperation {
    * If true, `@deprecated` will be added to the field definition
    */
   deprecated?: boolean;
+  pagination?: JsonSchemaPagination;
+}
+/**
+ * Exposes the operation as a Relay connection with `first` and `after` arguments, and requests the pages from the upstream as needed
+ */
+export interface JsonSchemaPagination {
+  /**
+   * How the upstream paginates; `page` number, `offset`, `cursor` from the previous response or `next` URL in `link` header (Allowed values: page, offset, cursor, link)
+   */
+  type: 'page' | 'offset' | 'cursor' | 'link';
+  /**
+   * Name of the query parameter for the page number
+   */
+  pageParam?: string;
+  /**
+   * Name of the query parameter for the page size
+   */
+  limitParam?: string;
+  /**
+   * Name of the query parameter for the number of the items to skip
+   */
+  offsetParam?: string;
+  /**
+   * Name of the query parameter for the cursor
+   */
+  cursorParam?: string;
+  /**
+   * Dot-separated path of the items in the response; the response itself if not given
+   */
+  itemsPath?: string;
+  /**
+   * Dot-separated path of the cursor of the next page in the response
+   */
+  nextCursorPath?: string;
+  /**
+   * Number of the first page (default: 1)
+   */
+  firstPage?: number;
+  /**
+   * Page size when `first` is not given
+   */
+  defaultPageSize?: number;
 }
 export interface JsonSchemaPubSubOperation {
   field: string;
@@ -523,6 +631,38 @@ export interface JsonSchemaPubSubOperation {
    * If true, `@deprecated` will be added to the field definition
    */
   deprecated?: boolean;
+  subscribe?: JsonSchemaRootFieldCall;
+  unsubscribe?: JsonSchemaRootFieldCall1;
+}
+/**
+ * Called when a subscription starts, e.g. to register the webhook URL of the gateway in the upstream
+ */
+export interface JsonSchemaRootFieldCall {
+  /**
+   * Name of the `Mutation` or `Query` field
+   */
+  field: string;
+  /**
+   * Arguments of the field; the values can be interpolated with `root`, `args`, `context` and `env`
+   */
+  args?: {
+    [k: string]: any;
+  };
+}
+/**
+ * Called when the subscription ends; the result of `subscribe` is available as `root`
+ */
+export interface JsonSchemaRootFieldCall1 {
+  /**
+   * Name of the `Mutation` or `Query` field
+   */
+  field: string;
+  /**
+   * Arguments of the field; the values can be interpolated with `root`, `args`, `context` and `env`
+   */
+  args?: {
+    [k: string]: any;
+  };
 }
 export interface QueryStringOptions {
   /**
@@ -790,6 +930,11 @@ export interface MySQLHandler {
    * Use specific fields of specific tables
    */
   tableFields?: TableField[];
+  /**
+   * Isolation level of the transactions the mutations are run in.
+   * The default isolation level of the server is used if not set. (Allowed values: READ_UNCOMMITTED, READ_COMMITTED, REPEATABLE_READ, SERIALIZABLE)
+   */
+  isolationLevel?: 'READ_UNCOMMITTED' | 'READ_COMMITTED' | 'REPEATABLE_READ' | 'SERIALIZABLE';
 }
 /**
  * SSL Options for your MySQL connection
@@ -869,6 +1014,22 @@ export interface ODataHandler {
    * Use $expand for navigation props instead of seperate HTTP requests (Default: false)
    */
   expandNavProps?: boolean;
+  /**
+   * Generate typed `filter`, `orderBy`, `search` and `apply` arguments from the property types of $metadata (Default: false)
+   */
+  typedQueryOptions?: boolean;
+  /**
+   * Expose `@odata.etag` of the entities as `etag`, and add `ifMatch` arguments to the updates and deletions for the optimistic concurrency (Default: false)
+   */
+  etag?: boolean;
+  /**
+   * Accept the related entities of the navigation properties in the creation inputs (Default: false)
+   */
+  deepInsert?: boolean;
+  /**
+   * Generate `{EntitySet}Delta` queries returning the changes since a delta token (Default: false)
+   */
+  delta?: boolean;
 }
 /**
  * Handler for Swagger / OpenAPI 2/3 specification. Source could be a local json/swagger file, or a url to it.
@@ -915,6 +1076,26 @@ export interface OpenapiHandler {
   queryParams?: {
     [k: string]: any;
   };
+  /**
+   * Credentials for the security schemes of the OpenAPI document by their names; `apiKey`, `token`, `username`, `password`, `clientId`, `clientSecret` and `scopes` (OAuth2 client credentials tokens are fetched and cached automatically)
+   */
+  securityCredentials?: {
+    [k: string]: any;
+  };
+  /**
+   * Exposes the paginated list operations as Relay connections with `first` and `after` arguments. Page number, offset, cursor and `Link` header based pagination is detected from the query parameters and the responses
+   */
+  pagination?: boolean;
+  /**
+   * Path of the webhook endpoint of the gateway; OpenAPI 3.1 `webhooks` are expected in `{webhooksPath}/{webhookName}` (default: /webhooks)
+   */
+  webhooksPath?: string;
+  /**
+   * Operations to call when a subscription to a webhook or a callback starts or ends by the name of the subscription field, e.g. to register the webhook URL of the gateway in the upstream; `subscribe` and `unsubscribe` with `field` and `args`
+   */
+  webhookRegistrations?: {
+    [k: string]: any;
+  };
   /**
    * Timeout for the HTTP request in milliseconds
    */
@@ -1015,6 +1196,49 @@ export interface SoapHandler {
   operationHeaders?: {
     [k: string]: any;
   };
+  /**
+   * Elements to add to `soap:Header` of the requests
+   * The strings are interpolated with `args`, `context` and `env`
+   */
+  soapHeaders?: {
+    [k: string]: any;
+  };
+  wsSecurity?: SoapWSSecurity;
+  /**
+   * Accept `base64Binary` inputs as `File` uploads sent as MTOM attachments
+   */
+  mtom?: boolean;
+}
+/**
+ * WS-Security header to add to the requests
+ */
+export interface SoapWSSecurity {
+  /**
+   * Username of the `UsernameToken`
+   */
+  username?: string;
+  /**
+   * Password of the `UsernameToken`
+   */
+  password?: string;
+  /**
+   * `PasswordDigest` sends the password hashed with a nonce and the creation time
+   * Default: PasswordText (Allowed values: PasswordText, PasswordDigest)
+   */
+  passwordType?: 'PasswordText' | 'PasswordDigest';
+  /**
+   * Adds a `Timestamp` to the security header
+   */
+  timestamp?: boolean;
+  /**
+   * Seconds until the `Timestamp` expires
+   * Default: 300
+   */
+  timestampTTL?: number;
+  /**
+   * Marks the security header with `mustUnderstand`
+   */
+  mustUnderstand?: boolean;
 }
 export interface SupergraphHandler {
   /**
@@ -1143,7 +1367,7 @@ export interface ThriftHandler {
   idl: string;
 }
 /**
- * Handler for SQLite database, based on `tuql`
+ * Handler for SQLite database
  */
 export interface TuqlHandler {
   /**
@@ -1154,6 +1378,10 @@ export interface TuqlHandler {
    * Path to the SQL Dump file if you want to build a in-memory database
    */
   infile?: string;
+  /**
+   * Tables and views to generate the schema for; all of them are included by default
+   */
+  tables?: string[];
 }
 export interface Transform {
   /**
@@ -2086,6 +2314,19 @@ export interface LiveQueryConfig {
    * Specify which fields should be indexed for specific invalidations.
    */
   indexBy?: LiveQueryIndexBy[];
+  /**
+   * Invalidate the live queries selecting a specific type or field periodically, so the data that changes without a mutation (e.g. in an upstream source) is refreshed
+   */
+  ttlInvalidations?: LiveQueryTTLInvalidation[];
+  /**
+   * Maximum number of the live queries running at the same time on this instance.
+   * The live queries exceeding the limit are rejected with `TOO_MANY_LIVE_QUERIES` error code.
+   */
+  maxLiveQueries?: number;
+  /**
+   * Send the changes of the live query results as JSON patches instead of the complete results after the initial result
+   */
+  jsonPatch?: boolean;
 }
 export interface LiveQueryInvalidation {
   /**
@@ -2098,6 +2339,16 @@ export interface LiveQueryIndexBy {
   field: string;
   args: string[];
 }
+export interface LiveQueryTTLInvalidation {
+  /**
+   * Type or field the TTL applies to. In a form: Type or Type.field
+   */
+  coordinate: string;
+  /**
+   * Time to live in milliseconds. The live query is re-executed after the shortest TTL of the selected types and fields if it is not invalidated earlier.
+   */
+  ttl: number;
+}
 /**
  * Mock configuration for your source
  */
@@ -2120,6 +2371,21 @@ export interface MockingConfig {
    * The path to the code runs before the store is attached to the schema
    */
   initializeStore?: any;
+  /**
+   * Keep the state of the entities between the operations;
+   * the entities are identified by `@key`, `@merge` or `id: ID` fields,
+   * and the mutations like `createUser`, `updateUser` and `deleteUser` change the data in the store
+   */
+  auto?: boolean;
+  /**
+   * Seed of the random values, so the same values are generated in every run
+   */
+  seed?: number;
+  /**
+   * Paths to JSON, YAML or JavaScript files that have the initial entities in the store when `auto` is enabled
+   * The records are grouped by type names, for example `{ "User": [{ "id": "1", "name": "John" }] }`
+   */
+  fixtures?: string[];
 }
 export interface MockingFieldConfig {
   /**
@@ -2281,7 +2547,71 @@ export interface PrometheusConfig {
  * RateLimit plugin
  */
 export interface RateLimitPluginConfig {
-  config: RateLimitTransformConfig[];
+  /**
+   * Rate limits of the fields
+   */
+  config?: RateLimitFieldConfig[];
+  /**
+   * Rate limits of the requests sent to the subgraphs
+   */
+  subgraphs?: RateLimitSubgraphConfig[];
+  /**
+   * The algorithm used to count the requests (default: slidingLog) (Allowed values: fixedWindow, slidingLog, tokenBucket)
+   */
+  algorithm?: 'fixedWindow' | 'slidingLog' | 'tokenBucket';
+  /**
+   * Add `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and `Retry-After` headers to the responses (default: false)
+   */
+  headers?: boolean;
+}
+export interface RateLimitFieldConfig {
+  /**
+   * The type name that the following field belongs to
+   */
+  type: string;
+  /**
+   * The field of the type that the rate limit is applied to
+   */
+  field: string;
+  /**
+   * The maximum number of requests that can be made in a given time period
+   */
+  max: number;
+  /**
+   * The time period in which the rate limit is applied
+   */
+  ttl: number;
+  /**
+   * The identifier expression that determines the identity of the request (e.g. `{context.req.socket.remoteAddress}`)
+   */
+  identifier: string;
+  /**
+   * The algorithm used to count the requests of this field (Allowed values: fixedWindow, slidingLog, tokenBucket)
+   */
+  algorithm?: 'fixedWindow' | 'slidingLog' | 'tokenBucket';
+}
+export interface RateLimitSubgraphConfig {
+  /**
+   * The name of the subgraph that the rate limit is applied to, you can use wild cards as well, for example: `*`
+   */
+  subgraph: string;
+  /**
+   * The maximum number of requests that can be made in a given time period
+   */
+  max: number;
+  /**
+   * The time period in which the rate limit is applied
+   */
+  ttl: number;
+  /**
+   * The identifier expression that determines the identity of the request (e.g. `{context.req.socket.remoteAddress}`)
+   * If not provided, the limit is shared by all requests sent to the subgraph
+   */
+  identifier?: string;
+  /**
+   * The algorithm used to count the requests of this subgraph (Allowed values: fixedWindow, slidingLog, tokenBucket)
+   */
+  algorithm?: 'fixedWindow' | 'slidingLog' | 'tokenBucket';
 }
 export interface ResponseCacheConfig {
   /**
@@ -2381,6 +2711,39 @@ export interface SnapshotPluginConfig {
    * Path to the directory of the generated snapshot files
    */
   outputDir: string;
+  /**
+   * `auto` replays the recorded responses and records the missing ones,
+   * `record` always sends the requests and records the responses from scratch,
+   * `replay` only uses the recorded responses and fails if a request is not recorded,
+   * `passthrough` disables the snapshots (default: auto) (Allowed values: auto, record, replay, passthrough)
+   */
+  mode?: 'auto' | 'record' | 'replay' | 'passthrough';
+  /**
+   * Name of the cassette file that keeps all the requests and responses, for example the name of the current test.
+   * You can use interpolation like `{env.TEST_NAME}`.
+   * If not provided, each request is stored in a separate file named by its hash.
+   */
+  cassette?: string;
+  /**
+   * Request headers that are not compared while looking for a recorded response,
+   * in addition to the volatile ones like `date` and `user-agent`
+   */
+  ignoreHeaders?: string[];
+  /**
+   * Request body fields that are not compared while looking for a recorded response;
+   * dot separated paths for JSON bodies (e.g. `meta.requestId`), element names for XML bodies
+   */
+  ignoreBodyFields?: string[];
+  /**
+   * Headers whose values are not written to the snapshots,
+   * in addition to `authorization`, `cookie`, `proxy-authorization`, `set-cookie` and `x-api-key`
+   */
+  redactHeaders?: string[];
+  /**
+   * Body fields whose values are not written to the snapshots,
+   * in addition to `access_token`, `client_secret`, `password` and `refresh_token`
+   */
+  redactBodyFields?: string[];
 }
 export interface StatsdPlugin {
   /**
@@ -1,5 +1,8 @@
-import type { AllHooks, HookName, MeshPubSub } from '@graphql-mesh/types';
+import type { AllHooks, HookName, Logger, MeshPubSub } from '@graphql-mesh/types';
 import { observableToAsyncIterable } from '@graphql-tools/utils';
+import { DisposableSymbols } from '@whatwg-node/disposablestack';
+import { crypto } from '@whatwg-node/fetch';
+import { DefaultLogger } from './logger.js';
 
 type Listener<THookName extends HookName = HookName> = (data: AllHooks[THookName]) => void;
 
@@ -60,3 +63,180 @@ export class PubSub implements MeshPubSub {
     });
   }
 }
+
+interface DistributedPubSubMessage {
+  origin: string;
+  triggerName: HookName;
+  payload: any;
+}
+
+export interface DistributedPubSubOptions {
+  /**
+   * Prefix of the channels in the message broker
+   * @default graphql-mesh:
+   */
+  channelPrefix?: string;
+  logger?: Logger;
+}
+
+/**
+ * Base of the `MeshPubSub` implementations that share the events between the gateway instances
+ * through a message broker.
+ * The events are delivered to the subscribers of this instance directly, and sent to the broker as
+ * JSON for the other instances. `destroy` is never sent to the broker, and disposes the connections.
+ */
+export abstract class DistributedPubSub implements MeshPubSub, AsyncDisposable {
+  private origin = crypto.randomUUID();
+  private subIdCounter = 0;
+  private subIdTriggerMap = new Map<number, HookName>();
+  private triggerListenersMap = new Map<HookName, Map<number, Listener>>();
+  private channelListenerCountMap = new Map<string, number>();
+  private disposed = false;
+  protected channelPrefix: string;
+  protected logger: Logger;
+
+  constructor({ channelPrefix = 'graphql-mesh:', logger }: DistributedPubSubOptions = {}) {
+    this.channelPrefix = channelPrefix;
+    this.logger = logger || new DefaultLogger('PubSub');
+  }
+
+  protected abstract publishMessage(channel: string, message: string): Promise<void> | void;
+  protected abstract subscribeChannel(channel: string): Promise<void> | void;
+  protected abstract unsubscribeChannel(channel: string): Promise<void> | void;
+  protected abstract disconnect(): Promise<void> | void;
+
+  protected getChannel(triggerName: HookName): string {
+    return this.channelPrefix + triggerName;
+  }
+
+  /**
+   * Delivers a message received from the broker to the subscribers of this instance
+   */
+  protected receiveMessage(message: string): void {
+    let parsedMessage: DistributedPubSubMessage;
+    try {
+      parsedMessage = JSON.parse(message);
+    } catch (e) {
+      this.logger.warn(`Ignoring the message that is not valid JSON: ${message}`);
+      return;
+    }
+    // The subscribers of this instance got it while publishing
+    if (parsedMessage.origin !== this.origin) {
+      this.notifyListeners(parsedMessage.triggerName, parsedMessage.payload);
+    }
+  }
+
+  private notifyListeners(triggerName: HookName, payload: any) {
+    const listeners = this.triggerListenersMap.get(triggerName);
+    if (listeners) {
+      for (const listener of listeners.values()) {
+        try {
+          listener(payload);
+        } catch (e) {
+          this.logger.error(`Subscriber of ${triggerName} failed`, e);
+        }
+      }
+    }
+  }
+
+  private callBroker(action: string, fn: () => Promise<void> | void) {
+    Promise.resolve()
+      .then(fn)
+      .catch(e => this.logger.error(`Failed to ${action}`, e));
+  }
+
+  getEventNames(): Iterable<string> {
+    return this.triggerListenersMap.keys();
+  }
+
+  publish<THook extends HookName>(triggerName: THook, payload: AllHooks[THook]): void {
+    this.notifyListeners(triggerName, payload);
+    if (triggerName === 'destroy') {
+      this.callBroker('disconnect from the broker', () => this[DisposableSymbols.asyncDispose]());
+      return;
+    }
+    if (this.disposed) {
+      return;
+    }
+    const distributedMessage: DistributedPubSubMessage = {
+      origin: this.origin,
+      triggerName,
+      payload,
+    };
+    let message: string;
+    try {
+      message = JSON.stringify(distributedMessage);
+    } catch (e) {
+      this.logger.error(`Failed to serialize the payload of ${triggerName}`, e);
+      return;
+    }
+    const channel = this.getChannel(triggerName);
+    this.callBroker(`publish to ${channel}`, () => this.publishMessage(channel, message));
+  }
+
+  subscribe<THook extends HookName>(triggerName: THook, onMessage: Listener<string>): number {
+    let listeners = this.triggerListenersMap.get(triggerName);
+    if (!listeners) {
+      listeners = new Map();
+      this.triggerListenersMap.set(triggerName, listeners);
+    }
+    const subId = ++this.subIdCounter;
+    listeners.set(subId, onMessage);
+    this.subIdTriggerMap.set(subId, triggerName);
+    if (triggerName !== 'destroy' && !this.disposed) {
+      const channel = this.getChannel(triggerName);
+      const channelListenerCount = this.channelListenerCountMap.get(channel) || 0;
+      this.channelListenerCountMap.set(channel, channelListenerCount + 1);
+      if (channelListenerCount === 0) {
+        this.callBroker(`subscribe to ${channel}`, () => this.subscribeChannel(channel));
+      }
+    }
+    return subId;
+  }
+
+  unsubscribe(subId: number): void {
+    const triggerName = this.subIdTriggerMap.get(subId);
+    if (triggerName == null) {
+      return;
+    }
+    this.subIdTriggerMap.delete(subId);
+    const listeners = this.triggerListenersMap.get(triggerName);
+    listeners.delete(subId);
+    if (!listeners.size) {
+      this.triggerListenersMap.delete(triggerName);
+    }
+    const channel = this.getChannel(triggerName);
+    const channelListenerCount = this.channelListenerCountMap.get(channel);
+    if (channelListenerCount == null) {
+      return;
+    }
+    if (channelListenerCount > 1) {
+      this.channelListenerCountMap.set(channel, channelListenerCount - 1);
+    } else {
+      this.channelListenerCountMap.delete(channel);
+      if (!this.disposed) {
+        this.callBroker(`unsubscribe from ${channel}`, () => this.unsubscribeChannel(channel));
+      }
+    }
+  }
+
+  asyncIterator<THook extends HookName>(triggerName: THook): AsyncIterable<AllHooks[THook]> {
+    return observableToAsyncIterable({
+      subscribe: observer => {
+        const subId = this.subscribe(triggerName, data => observer.next(data));
+        return {
+          unsubscribe: () => this.unsubscribe(subId),
+        };
+      },
+    });
+  }
+
+  async [DisposableSymbols.asyncDispose](): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.channelListenerCountMap.clear();
+    await this.disconnect();
+  }
+}
@@ -1,4 +1,5 @@
-import { PubSub } from '../src/pubsub.js';
+import { DefaultLogger } from '../src/logger.js';
+import { DistributedPubSub, PubSub } from '../src/pubsub.js';
 
 describe('Mesh PubSub', () => {
   it('should handle topics properly', async () => {
@@ -23,3 +24,103 @@ describe('Mesh PubSub', () => {
     expect(collectedValues).toMatchObject(randomValues);
   });
 });
+
+describe('DistributedPubSub', () => {
+  class InMemoryPubSub extends DistributedPubSub {
+    constructor(
+      private broker: Map<string, Set<InMemoryPubSub>>,
+      public calls: string[] = [],
+    ) {
+      super({ logger: new DefaultLogger('test') });
+    }
+
+    protected publishMessage(channel: string, message: string) {
+      this.calls.push(`publish ${channel}`);
+      for (const pubsub of this.broker.get(channel) || []) {
+        pubsub.receiveMessage(message);
+      }
+    }
+
+    protected subscribeChannel(channel: string) {
+      this.calls.push(`subscribe ${channel}`);
+      let subscribers = this.broker.get(channel);
+      if (!subscribers) {
+        subscribers = new Set();
+        this.broker.set(channel, subscribers);
+      }
+      subscribers.add(this);
+    }
+
+    protected unsubscribeChannel(channel: string) {
+      this.calls.push(`unsubscribe ${channel}`);
+      this.broker.get(channel)?.delete(this);
+    }
+
+    protected disconnect() {
+      this.calls.push('disconnect');
+    }
+  }
+
+  function flushPromises() {
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  it('delivers the events to the subscribers of all instances once', async () => {
+    const broker = new Map<string, Set<InMemoryPubSub>>();
+    const pubsubA = new InMemoryPubSub(broker);
+    const pubsubB = new InMemoryPubSub(broker);
+    const receivedByA: any[] = [];
+    const receivedByB: any[] = [];
+    pubsubA.subscribe('live-query:invalidate', data => receivedByA.push(data));
+    pubsubB.subscribe('live-query:invalidate', data => receivedByB.push(data));
+    await flushPromises();
+    pubsubA.publish('live-query:invalidate', ['Query.users']);
+    await flushPromises();
+    expect(receivedByA).toEqual([['Query.users']]);
+    expect(receivedByB).toEqual([['Query.users']]);
+    expect(pubsubA.calls).toEqual([
+      'subscribe graphql-mesh:live-query:invalidate',
+      'publish graphql-mesh:live-query:invalidate',
+    ]);
+  });
+
+  it('subscribes to a channel once and unsubscribes when the last subscriber leaves', async () => {
+    const pubsub = new InMemoryPubSub(new Map());
+    const subId1 = pubsub.subscribe('webhook:post:/users', () => {});
+    const subId2 = pubsub.subscribe('webhook:post:/users', () => {});
+    expect([...pubsub.getEventNames()]).toEqual(['webhook:post:/users']);
+    pubsub.unsubscribe(subId1);
+    await flushPromises();
+    expect(pubsub.calls).toEqual(['subscribe graphql-mesh:webhook:post:/users']);
+    pubsub.unsubscribe(subId2);
+    await flushPromises();
+    expect(pubsub.calls).toEqual([
+      'subscribe graphql-mesh:webhook:post:/users',
+      'unsubscribe graphql-mesh:webhook:post:/users',
+    ]);
+    expect([...pubsub.getEventNames()]).toEqual([]);
+  });
+
+  it('keeps destroy local and disconnects from the broker', async () => {
+    const pubsub = new InMemoryPubSub(new Map());
+    const onDestroy = jest.fn();
+    pubsub.subscribe('destroy', onDestroy);
+    pubsub.publish('destroy', undefined);
+    await flushPromises();
+    expect(onDestroy).toHaveBeenCalledTimes(1);
+    expect(pubsub.calls).toEqual(['disconnect']);
+    pubsub.publish('live-query:invalidate', ['Query.users']);
+    await flushPromises();
+    expect(pubsub.calls).toEqual(['disconnect']);
+  });
+
+  it('ignores the messages that are not valid JSON', async () => {
+    const broker = new Map<string, Set<InMemoryPubSub>>();
+    const pubsub = new InMemoryPubSub(broker);
+    const onMessage = jest.fn();
+    pubsub.subscribe('updates', onMessage);
+    await flushPromises();
+    broker.get('graphql-mesh:updates').forEach(subscriber => subscriber['receiveMessage']('{'));
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
@@ -28,6 +28,9 @@ export const grpcMethodDirective = new GraphQLDirective({
     responseStream: {
       type: GraphQLBoolean,
     },
+    requestStream: {
+      type: GraphQLBoolean,
+    },
   },
 });
 
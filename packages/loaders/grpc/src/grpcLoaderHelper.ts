@@ -4,6 +4,7 @@ import {
   SchemaComposer,
   type Directive,
   type EnumTypeComposerValueConfigDefinition,
+  type ObjectTypeComposerArgumentConfigMapDefinition,
   type ObjectTypeComposerFieldConfigAsObjectDefinition,
 } from 'graphql-compose';
 import {
@@ -49,6 +50,7 @@ const QUERY_METHOD_PREFIXES = ['get', 'list', 'search'];
 export class GrpcLoaderHelper implements AsyncDisposable {
   private schemaComposer = new SchemaComposer();
   private asyncDisposableStack = new AsyncDisposableStack();
+  private responseTypeNameFactories: (() => string)[] = [];
   constructor(
     private subgraphName: string,
     private baseDir: string,
@@ -115,6 +117,20 @@ export class GrpcLoaderHelper implements AsyncDisposable {
     }
     this.schemaComposer.Query.setDirectives(directives);
 
+    if (this.config.responseMetadata?.length) {
+      for (const getResponseTypeName of this.responseTypeNameFactories) {
+        const responseTypeName = getResponseTypeName();
+        if (this.schemaComposer.isObjectType(responseTypeName)) {
+          this.schemaComposer.getOTC(responseTypeName).addFields({
+            grpcMetadata: {
+              type: 'JSON',
+              description: 'Selected headers and trailers of the response',
+            },
+          });
+        }
+      }
+    }
+
     // graphql-compose doesn't add @defer and @stream to the schema
     specifiedDirectives.forEach(directive => this.schemaComposer.addDirective(directive));
 
@@ -136,6 +152,8 @@ export class GrpcLoaderHelper implements AsyncDisposable {
         credentialsSsl: this.config.credentialsSsl,
         useHTTPS: this.config.useHTTPS,
         metaData: this.config.metaData,
+        methods: this.config.methods,
+        responseMetadata: this.config.responseMetadata,
       },
     };
     return schema;
@@ -458,6 +476,9 @@ export class GrpcLoaderHelper implements AsyncDisposable {
           }
           return 'Void';
         };
+        if (!method.responseStream) {
+          this.responseTypeNameFactories.push(fieldConfigTypeFactory);
+        }
         const fieldConfig: ObjectTypeComposerFieldConfigAsObjectDefinition<any, any> = {
           type: () => {
             const typeName = fieldConfigTypeFactory();
@@ -468,24 +489,27 @@ export class GrpcLoaderHelper implements AsyncDisposable {
           },
           description: method.comment,
         };
-        const fieldConfigArgs = {
-          input: () => {
+        const inputArg = () => {
+          const baseRequestTypePath = method.requestType?.split('.');
+          if (baseRequestTypePath) {
+            const requestTypePath = walkToFindTypePath(rootJson, pathWithName, baseRequestTypePath);
+            const requestTypeName = getTypeName(this.schemaComposer, requestTypePath, true);
             if (method.requestStream) {
-              return 'File';
+              return `[${requestTypeName}]`;
             }
-            const baseRequestTypePath = method.requestType?.split('.');
-            if (baseRequestTypePath) {
-              const requestTypePath = walkToFindTypePath(
-                rootJson,
-                pathWithName,
-                baseRequestTypePath,
-              );
-              const requestTypeName = getTypeName(this.schemaComposer, requestTypePath, true);
-              return requestTypeName;
-            }
-            return undefined;
-          },
+            return requestTypeName;
+          }
+          return undefined;
+        };
+        const fieldConfigArgs: ObjectTypeComposerArgumentConfigMapDefinition<any> = {
+          input: inputArg,
         };
+        if (method.requestStream) {
+          fieldConfigArgs.inputStream = {
+            type: 'File',
+            description: 'Request messages as newline-delimited JSON, instead of `input`',
+          };
+        }
         fieldConfig.args = fieldConfigArgs;
         const methodNameLowerCased = methodName.toLowerCase();
         const prefixQueryMethod = this.config.prefixQueryMethod || QUERY_METHOD_PREFIXES;
@@ -507,15 +531,19 @@ export class GrpcLoaderHelper implements AsyncDisposable {
                   objPath,
                   methodName,
                   responseStream: !!method.responseStream,
+                  ...(method.requestStream && { requestStream: true }),
                 },
               },
             ],
           },
         });
         if (method.responseStream) {
+          // Bidirectional streams are subscribed with the initial request messages
           this.schemaComposer.Subscription.addFields({
             [rootFieldName]: {
-              args: fieldConfigArgs,
+              args: {
+                input: inputArg,
+              },
               description: method.comment,
               type: fieldConfigTypeFactory,
               directives: [
@@ -527,6 +555,7 @@ export class GrpcLoaderHelper implements AsyncDisposable {
                     objPath,
                     methodName,
                     responseStream: true,
+                    ...(method.requestStream && { requestStream: true }),
                   },
                 },
               ],
@@ -1,10 +1,13 @@
-import type { GraphQLScalarType } from 'graphql';
+import type { GraphQLOutputType, GraphQLScalarType } from 'graphql';
 import {
   getNamedType,
+  getNullableType,
   GraphQLInt,
   GraphQLObjectType,
   GraphQLString,
   isInterfaceType,
+  isListType,
+  isObjectType,
 } from 'graphql';
 import type {
   ObjectTypeComposer,
@@ -20,14 +23,20 @@ import {
   HTTPOperationDirective,
   LinkDirective,
   LinkResolverDirective,
+  PaginationDirective,
   PubSubOperationDirective,
   ResolveRootDirective,
   ResponseMetadataDirective,
+  SecurityDirective,
+  SecuritySchemeDirective,
   TransportDirective,
+  WebhookRegistrationDirective,
 } from './directives.js';
 import type {
   JSONSchemaLinkConfig,
+  JSONSchemaLoaderOptions,
   JSONSchemaOperationConfig,
+  JSONSchemaOperationPaginationConfig,
   OperationHeadersConfiguration,
 } from './types.js';
 import { getOperationMetadata, isPubSubOperationConfig } from './utils.js';
@@ -42,6 +51,7 @@ export interface AddExecutionLogicToComposerOptions {
   queryStringOptions?: IStringifyOptions;
   getScalarForFormat?: (format: string) => GraphQLScalarType | void;
   handlerName?: string;
+  securitySchemes?: JSONSchemaLoaderOptions['securitySchemes'];
 }
 
 const responseMetadataType = new GraphQLObjectType({
@@ -67,6 +77,7 @@ export function addExecutionDirectivesToComposer(
     queryParams,
     queryStringOptions,
     handlerName,
+    securitySchemes,
   }: AddExecutionLogicToComposerOptions,
 ) {
   logger.debug(`Attaching execution directives to the schema`);
@@ -89,6 +100,17 @@ export function addExecutionDirectivesToComposer(
           pubsubTopic: operationConfig.pubsubTopic,
         },
       });
+      if (operationConfig.subscribe || operationConfig.unsubscribe) {
+        schemaComposer.addDirective(WebhookRegistrationDirective);
+        field.directives.push({
+          name: 'webhookRegistration',
+          args: {
+            subgraph: subgraphName,
+            subscribe: operationConfig.subscribe,
+            unsubscribe: operationConfig.unsubscribe,
+          },
+        });
+      }
     } else if (operationConfig.path) {
       if (process.env.DEBUG === '1' || process.env.DEBUG === 'fieldDetails') {
         field.description = `
@@ -101,6 +123,11 @@ ${operationConfig.description || ''}
         field.description = operationConfig.description;
       }
 
+      const paginationDirectiveArgs =
+        'pagination' in operationConfig && operationConfig.pagination
+          ? getPaginationDirectiveArgs(operationConfig.pagination, operationConfig)
+          : undefined;
+
       field.directives = field.directives || [];
       schemaComposer.addDirective(HTTPOperationDirective);
       field.directives.push({
@@ -127,6 +154,17 @@ ${operationConfig.description || ''}
         ),
       });
 
+      if (operationConfig.security?.length) {
+        schemaComposer.addDirective(SecurityDirective);
+        field.directives.push({
+          name: 'security',
+          args: {
+            subgraph: subgraphName,
+            requirements: operationConfig.security,
+          },
+        });
+      }
+
       const handleLinkMap = (
         linkMap: Record<string, JSONSchemaLinkConfig>,
         typeTC: ObjectTypeComposer,
@@ -276,6 +314,72 @@ ${operationConfig.description || ''}
           }
         }
       }
+
+      if (paginationDirectiveArgs) {
+        const itemType = getItemTypeByPath(field.type.getType(), paginationDirectiveArgs.itemsPath);
+        if (!itemType) {
+          logger.warn(
+            `Pagination of ${rootTypeName}.${fieldName} is ignored because ${
+              paginationDirectiveArgs.itemsPath
+                ? `${paginationDirectiveArgs.itemsPath} in the response`
+                : 'the response'
+            } is not a list`,
+          );
+        } else {
+          const pageInfoTC = schemaComposer.getOrCreateOTC('PageInfo', tc =>
+            tc.addFields({
+              hasNextPage: 'Boolean!',
+              hasPreviousPage: 'Boolean!',
+              startCursor: 'String',
+              endCursor: 'String',
+            }),
+          );
+          const itemTC = schemaComposer.getAnyTC(itemType.name);
+          const edgeTC = schemaComposer.getOrCreateOTC(`${itemType.name}Edge`, tc =>
+            tc.addFields({
+              node: {
+                type: itemTC as ObjectTypeComposer,
+              },
+              cursor: 'String!',
+            }),
+          );
+          field.type = schemaComposer.getOrCreateOTC(`${itemType.name}Connection`, tc =>
+            tc.addFields({
+              edges: {
+                type: edgeTC.NonNull.List.NonNull,
+              },
+              pageInfo: {
+                type: pageInfoTC.NonNull,
+              },
+            }),
+          );
+          const paginationArgNames = [
+            paginationDirectiveArgs.pageArg,
+            paginationDirectiveArgs.limitArg,
+            paginationDirectiveArgs.offsetArg,
+            paginationDirectiveArgs.cursorArg,
+          ].filter(argName => argName && rootTypeComposer.hasFieldArg(fieldName, argName));
+          rootTypeComposer.removeFieldArg(fieldName, paginationArgNames);
+          rootTypeComposer.addFieldArgs(fieldName, {
+            first: {
+              type: 'Int',
+              description: 'Returns the first n items',
+            },
+            after: {
+              type: 'String',
+              description: 'Returns the items that come after the specified cursor',
+            },
+          });
+          schemaComposer.addDirective(PaginationDirective);
+          field.directives.push({
+            name: 'pagination',
+            args: {
+              subgraph: subgraphName,
+              ...paginationDirectiveArgs,
+            },
+          });
+        }
+      }
     }
   }
 
@@ -290,6 +394,9 @@ ${operationConfig.description || ''}
   }
 
   schemaComposer.addDirective(TransportDirective);
+  if (securitySchemes) {
+    schemaComposer.addDirective(SecuritySchemeDirective);
+  }
   let schema = schemaComposer.buildSchema();
   const schemaExtensions: any = (schema.extensions = schema.extensions || {});
   schemaExtensions.directives = schemaExtensions.directives || {};
@@ -301,6 +408,19 @@ ${operationConfig.description || ''}
     queryParams: queryParams ? Object.entries(queryParams) : undefined,
     queryStringOptions,
   };
+  if (securitySchemes) {
+    // The credentials are not kept in the schema, they are given to the transport in the runtime
+    schemaExtensions.directives.securityScheme = Object.entries(securitySchemes).map(
+      ([name, { credentials, ...securityScheme }]) =>
+        JSON.parse(
+          JSON.stringify({
+            subgraph: subgraphName,
+            name,
+            ...securityScheme,
+          }),
+        ),
+    );
+  }
   // Fix orphaned interfaces
   schema = mapSchema(schema, {
     [MapperKind.TYPE]: type => {
@@ -315,3 +435,59 @@ ${operationConfig.description || ''}
   });
   return schema;
 }
+
+/**
+ * Translates the query parameters of the pagination into the argument names,
+ * the parameters missing in `queryParamArgMap` are added with the same name
+ */
+function getPaginationDirectiveArgs(
+  {
+    pageParam,
+    limitParam,
+    offsetParam,
+    cursorParam,
+    ...pagination
+  }: JSONSchemaOperationPaginationConfig,
+  operationConfig: { queryParamArgMap?: Record<string, string> },
+) {
+  const getArgName = (param: string) => {
+    if (!param) {
+      return undefined;
+    }
+    operationConfig.queryParamArgMap = operationConfig.queryParamArgMap || {};
+    operationConfig.queryParamArgMap[param] ||= param;
+    return operationConfig.queryParamArgMap[param];
+  };
+  return JSON.parse(
+    JSON.stringify({
+      ...pagination,
+      pageArg: getArgName(pageParam),
+      limitArg: getArgName(limitParam),
+      offsetArg: getArgName(offsetParam),
+      cursorArg: getArgName(cursorParam),
+    }),
+  ) as Omit<JSONSchemaOperationPaginationConfig, `${string}Param`> & {
+    pageArg?: string;
+    limitArg?: string;
+    offsetArg?: string;
+    cursorArg?: string;
+  };
+}
+
+function getItemTypeByPath(type: GraphQLOutputType, path?: string) {
+  let currentType = getNullableType(type);
+  for (const key of path?.split('.') || []) {
+    if (!isObjectType(currentType) && !isInterfaceType(currentType)) {
+      return undefined;
+    }
+    const fieldOfPath = currentType.getFields()[key];
+    if (!fieldOfPath) {
+      return undefined;
+    }
+    currentType = getNullableType(fieldOfPath.type);
+  }
+  if (isListType(currentType)) {
+    return getNamedType(currentType);
+  }
+  return undefined;
+}
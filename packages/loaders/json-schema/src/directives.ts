@@ -94,6 +94,22 @@ export const PubSubOperationDirective = new GraphQLDirective({
   },
 });
 
+export const WebhookRegistrationDirective = new GraphQLDirective({
+  name: 'webhookRegistration',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    subscribe: {
+      type: ObjMapScalar,
+    },
+    unsubscribe: {
+      type: ObjMapScalar,
+    },
+  },
+});
+
 export const TypeScriptDirective = new GraphQLDirective({
   name: 'typescript',
   locations: [DirectiveLocation.SCALAR, DirectiveLocation.ENUM],
@@ -157,6 +173,85 @@ export const HTTPOperationDirective = new GraphQLDirective({
   },
 });
 
+export const PaginationDirective = new GraphQLDirective({
+  name: 'pagination',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    type: {
+      type: GraphQLString,
+    },
+    pageArg: {
+      type: GraphQLString,
+    },
+    limitArg: {
+      type: GraphQLString,
+    },
+    offsetArg: {
+      type: GraphQLString,
+    },
+    cursorArg: {
+      type: GraphQLString,
+    },
+    itemsPath: {
+      type: GraphQLString,
+    },
+    nextCursorPath: {
+      type: GraphQLString,
+    },
+    firstPage: {
+      type: GraphQLInt,
+    },
+    defaultPageSize: {
+      type: GraphQLInt,
+    },
+  },
+});
+
+export const SecurityDirective = new GraphQLDirective({
+  name: 'security',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    requirements: {
+      type: ObjMapScalar,
+    },
+  },
+});
+
+export const SecuritySchemeDirective = new GraphQLDirective({
+  name: 'securityScheme',
+  locations: [DirectiveLocation.SCHEMA],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    name: {
+      type: GraphQLString,
+    },
+    type: {
+      type: GraphQLString,
+    },
+    in: {
+      type: GraphQLString,
+    },
+    parameterName: {
+      type: GraphQLString,
+    },
+    scheme: {
+      type: GraphQLString,
+    },
+    tokenUrl: {
+      type: GraphQLString,
+    },
+  },
+  isRepeatable: true,
+});
+
 export const ResponseMetadataDirective = new GraphQLDirective({
   name: 'responseMetadata',
   locations: [DirectiveLocation.FIELD_DEFINITION],
@@ -131,8 +131,11 @@ export async function getReferencedJSONSchemaFromOperations({
       rootTypeDefinition.properties[fieldName] = rootTypeDefinition.properties[fieldName] || {};
       const statusCodeOneOfIndexMap: Record<string, number> = {};
       const responseSchemas: JSONSchemaObject[] = [];
+      // Error responses of paginated operations are returned as errors instead of a union with the connection
+      const ignoreErrorResponsesForOperation =
+        ignoreErrorResponses || ('pagination' in operationConfig && !!operationConfig.pagination);
       for (const statusCode in operationConfig.responseByStatusCode) {
-        if (ignoreErrorResponses && !statusCode.startsWith('2')) {
+        if (ignoreErrorResponsesForOperation && !statusCode.startsWith('2')) {
           continue;
         }
         const responseOperationConfig = operationConfig.responseByStatusCode[statusCode];
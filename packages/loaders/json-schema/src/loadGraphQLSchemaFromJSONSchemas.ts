@@ -32,6 +32,7 @@ export async function loadNonExecutableGraphQLSchemaFromJSONSchemas(
     queryStringOptions: options.queryStringOptions,
     getScalarForFormat: options.getScalarForFormat,
     handlerName: options.handlerName,
+    securitySchemes: options.securitySchemes,
   });
 }
 
@@ -40,8 +41,10 @@ export async function loadGraphQLSchemaFromJSONSchemas(
   options: JSONSchemaLoaderOptions,
 ) {
   const graphqlSchema = await loadNonExecutableGraphQLSchemaFromJSONSchemas(name, options);
+  // The security schemes are already in the schema without the credentials
+  const { securitySchemes, ...processDirectivesOptions } = options;
   return processDirectives(graphqlSchema, {
-    ...options,
+    ...processDirectivesOptions,
     operationHeaders: typeof options.operationHeaders === 'object' ? options.operationHeaders : {},
     globalFetch: options.fetch || fetch,
     pubsub: options.pubsub,
@@ -3,6 +3,11 @@ import type { PromiseOrValue } from 'graphql/jsutils/PromiseOrValue.js';
 import type { JSONSchema, JSONSchemaObject } from 'json-machete';
 import type { IStringifyOptions } from 'qs';
 import type { ResolverData } from '@graphql-mesh/string-interpolation';
+import type {
+  SecurityRequirement,
+  SecurityScheme,
+  SecuritySchemeCredentials,
+} from '@graphql-mesh/transport-rest';
 import type { Logger, MeshFetch, MeshPubSub } from '@graphql-mesh/types';
 import type { BaseLoaderOptions } from '@graphql-tools/utils';
 
@@ -22,6 +27,13 @@ export interface JSONSchemaLoaderOptions extends BaseLoaderOptions {
   handlerName?: string;
   bundle?: boolean;
   getScalarForFormat?: (format: string) => GraphQLScalarType | void;
+  securitySchemes?: Record<string, SecurityScheme>;
+  /**
+   * Credentials for the security schemes by their names,
+   * the values can be interpolated like `operationHeaders`.
+   * They are not kept in the schema, so they are only used by the executable schemas
+   */
+  securityCredentials?: Record<string, SecuritySchemeCredentials>;
 }
 
 export interface JSONSchemaOperationResponseConfig {
@@ -82,15 +94,72 @@ export type JSONSchemaHTTPBaseOperationConfig = JSONSchemaBaseOperationConfig &
   queryParamsSample?: any;
 
   jsonApiFields?: boolean;
+
+  security?: SecurityRequirement[];
+
+  pagination?: JSONSchemaOperationPaginationConfig;
 };
 
+export interface JSONSchemaOperationPaginationConfig {
+  /**
+   * How the upstream paginates;
+   * - `page`: page number and page size
+   * - `offset`: number of the items to skip and page size
+   * - `cursor`: cursor from the previous response
+   * - `link`: `next` URL in RFC 5988 `Link` header
+   */
+  type: 'page' | 'offset' | 'cursor' | 'link';
+  /**
+   * Names of the query parameters for pagination
+   */
+  pageParam?: string;
+  limitParam?: string;
+  offsetParam?: string;
+  cursorParam?: string;
+  /**
+   * Dot-separated path of the items in the response; the response itself if not given
+   */
+  itemsPath?: string;
+  /**
+   * Dot-separated path of the cursor of the next page in the response
+   */
+  nextCursorPath?: string;
+  /**
+   * Number of the first page, `1` by default
+   */
+  firstPage?: number;
+  /**
+   * Page size when `first` is not given
+   */
+  defaultPageSize?: number;
+}
+
 export type JSONSchemaHTTPJSONOperationConfig = JSONSchemaHTTPBaseOperationConfig &
   JSONSchemaBaseOperationConfigWithJSONRequest;
 
 export type JSONSchemaPubSubOperationConfig = JSONSchemaBaseOperationConfigWithJSONRequest & {
   pubsubTopic: string;
+  /**
+   * Called when a subscription starts, e.g. to register the webhook URL of the gateway in the upstream
+   */
+  subscribe?: JSONSchemaRootFieldCallConfig;
+  /**
+   * Called when the subscription ends; the result of `subscribe` is available as `root`
+   */
+  unsubscribe?: JSONSchemaRootFieldCallConfig;
 };
 
+export interface JSONSchemaRootFieldCallConfig {
+  /**
+   * Name of the `Mutation` or `Query` field
+   */
+  field: string;
+  /**
+   * Arguments of the field; the values can be interpolated with `root`, `args`, `context` and `env`
+   */
+  args?: Record<string, any>;
+}
+
 export type JSONSchemaHTTPBinaryConfig = JSONSchemaHTTPBaseOperationConfig & {
   path: string;
   method?: HTTPMethod;
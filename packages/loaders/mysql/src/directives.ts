@@ -76,7 +76,7 @@ export const MySQLDeleteDirective = new GraphQLDirective({
 
 export const MySQLTableForeignDirective = new GraphQLDirective({
   name: 'mysqlTableForeign',
-  locations: [DirectiveLocation.FIELD_DEFINITION],
+  locations: [DirectiveLocation.FIELD_DEFINITION, DirectiveLocation.INPUT_FIELD_DEFINITION],
   args: {
     subgraph: {
       type: GraphQLString,
@@ -84,6 +84,12 @@ export const MySQLTableForeignDirective = new GraphQLDirective({
     columnName: {
       type: GraphQLString,
     },
+    table: {
+      type: GraphQLString,
+    },
+    foreignColumnName: {
+      type: GraphQLString,
+    },
   },
 });
 
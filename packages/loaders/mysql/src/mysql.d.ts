@@ -90,6 +90,8 @@ declare module 'mysql' {
     update(tableName: string, input: any, where: any, callback: Callback<{ affectedRows: any }>);
     delete(tableName: string, where: any, callback: Callback<{ affectedRows: any }>);
     count(tableName: string, where: any, callback: Callback<number>);
+    where(where: any): string;
+    order(order: any): string;
     queryKeyValue(query: string, field: string[], callback: Callback<Record<string, any>>);
   }
 }
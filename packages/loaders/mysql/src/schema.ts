@@ -18,7 +18,11 @@ import type { Connection, DatabaseTable, MysqlError, TableField, TableForeign }
 import { createConnection } from 'mysql';
 import { introspection, upgrade } from 'mysql-utilities';
 import { fs, process, util } from '@graphql-mesh/cross-helpers';
-import type { MySQLSSLOptions } from '@graphql-mesh/transport-mysql';
+import type {
+  MySQLIsolationLevel,
+  MySQLSSLOptions,
+  MySQLTransportOptions,
+} from '@graphql-mesh/transport-mysql';
 import { getConnectionOptsFromEndpointUri } from '@graphql-mesh/transport-mysql';
 import { sanitizeNameForGraphQL } from '@graphql-mesh/utils';
 import {
@@ -36,6 +40,15 @@ export interface LoadGraphQLSchemaFromMySQLOpts {
   endpoint: string;
   ssl?: MySQLSSLOptions;
   tables?: string[];
+  /**
+   * Isolation level of the transactions the mutations are run in
+   */
+  isolationLevel?: MySQLIsolationLevel;
+}
+
+interface NestedInsertInput {
+  tableName: string;
+  columnName: string;
 }
 
 export async function loadGraphQLSchemaFromMySQL(
@@ -91,6 +104,7 @@ export async function loadGraphQLSchemaFromMySQL(
   const tables = await getDatabaseTables(connectionOpts.database);
   const tableNames = opts.tables || Object.keys(tables);
   const autoIncrementedColumns = await getAutoIncrementFields(introspectionConnection);
+  const nestedInsertInputs = new Map<string, NestedInsertInput>();
   await Promise.all(
     tableNames.map(async tableName => {
       await handleTableName({
@@ -100,9 +114,18 @@ export async function loadGraphQLSchemaFromMySQL(
         schemaComposer,
         introspectionConnection,
         autoIncrementedColumns,
+        nestedInsertInputs,
       });
     }),
   );
+  // Created after all the relations are added, so the nested inputs have the nested fields as well
+  for (const [nestedInsertInputName, { tableName, columnName }] of nestedInsertInputs) {
+    schemaComposer
+      .getITC(sanitizeNameForGraphQL(tableName + '_InsertInput'))
+      .clone(nestedInsertInputName)
+      // The column is set to the value of the referenced column of the parent row
+      .removeField(columnName);
+  }
   const endConnection$ = util.promisify<
     // we need to define the generic because introspectionConnection.end is overloaded
     (err?: MysqlError) => void
@@ -117,6 +140,12 @@ export async function loadGraphQLSchemaFromMySQL(
     kind: 'mysql',
     location: opts.endpoint,
   };
+  if (opts.isolationLevel) {
+    const transportOptions: MySQLTransportOptions = {
+      isolationLevel: opts.isolationLevel,
+    };
+    extensions.directives.transport.options = transportOptions;
+  }
   return schema;
 }
 
@@ -194,6 +223,7 @@ async function handleTableName({
   schemaComposer,
   introspectionConnection,
   autoIncrementedColumns,
+  nestedInsertInputs,
   tableFieldsConfig,
   filteredTables,
 }: {
@@ -203,6 +233,7 @@ async function handleTableName({
   schemaComposer: SchemaComposer;
   introspectionConnection: Connection;
   autoIncrementedColumns: Record<string, string>;
+  nestedInsertInputs: Map<string, NestedInsertInput>;
   tableFieldsConfig?: TableFieldConfig[];
   filteredTables?: string[];
 }) {
@@ -287,6 +318,7 @@ async function handleTableName({
         whereInputName,
         orderByInputName,
         objectTypeName,
+        nestedInsertInputs,
       }),
     ),
   );
@@ -499,6 +531,7 @@ async function handleTableForeignName({
   whereInputName,
   orderByInputName,
   objectTypeName,
+  nestedInsertInputs,
 }: {
   subgraphName: string;
   foreignName: string;
@@ -510,6 +543,7 @@ async function handleTableForeignName({
   whereInputName: string;
   orderByInputName: string;
   objectTypeName: string;
+  nestedInsertInputs: Map<string, NestedInsertInput>;
 }) {
   const tableForeign = tableForeigns[foreignName];
   const columnName = tableForeign.COLUMN_NAME;
@@ -520,6 +554,7 @@ async function handleTableForeignName({
   const foreignColumnName = tableForeign.REFERENCED_COLUMN_NAME;
 
   const foreignObjectTypeName = sanitizeNameForGraphQL(foreignTableName);
+  const foreignInsertInputName = sanitizeNameForGraphQL(foreignTableName + '_InsertInput');
   const foreignWhereInputName = sanitizeNameForGraphQL(foreignTableName + '_WhereInput');
   const foreignOrderByInputName = sanitizeNameForGraphQL(foreignTableName + '_OrderByInput');
   tableTC.addFields({
@@ -588,4 +623,25 @@ async function handleTableForeignName({
       ],
     },
   });
+  // The rows of this table can be inserted together with the referenced row
+  const nestedInsertInputName = sanitizeNameForGraphQL(
+    tableName + '_' + columnName + '_NestedInsertInput',
+  );
+  nestedInsertInputs.set(nestedInsertInputName, { tableName, columnName });
+  schemaComposer.getITC(foreignInsertInputName).addFields({
+    [tableName]: {
+      type: '[' + nestedInsertInputName + '!]',
+      directives: [
+        {
+          name: 'mysqlTableForeign',
+          args: {
+            subgraph: subgraphName,
+            table: tableName,
+            columnName,
+            foreignColumnName,
+          },
+        },
+      ],
+    },
+  });
 }
@@ -22,9 +22,11 @@ import { createBoundActionResolver } from './resolvers/boundActionResolver.js';
 import { createBoundFunctionResolver } from './resolvers/boundFunctionResolver.js';
 import { createCreateEntitySetResolver } from './resolvers/createEntitySetResolver.js';
 import { createDeleteEntitySetByIdentifierResolver } from './resolvers/deleteEntitySetByIdentifierResolver.js';
+import { createDeltaResolver } from './resolvers/deltaResolver.js';
 import { createEntitySetByIdentifierResolver } from './resolvers/entitySetByIdentifierResolver.js';
 import { createEntitySetCountResolver } from './resolvers/entitySetCountResolver.js';
 import { createEntitySetResolver } from './resolvers/entitySetResolver.js';
+import { etagResolver } from './resolvers/etagResolver.js';
 import { createNavPropResolver } from './resolvers/navPropResolver.js';
 import { rootResolver } from './resolvers/rootResolver.js';
 import { createSingletonResolver } from './resolvers/singletonResolver.js';
@@ -320,6 +322,48 @@ export interface AbstractTypeDirectiveArgs {
   namespaces: string[];
 }
 
+export const FilterOperandDirective = new GraphQLDirective({
+  name: 'filterOperand',
+  args: {
+    typeRef: {
+      type: GraphQLString,
+    },
+  },
+  locations: [DirectiveLocation.INPUT_OBJECT],
+});
+
+export interface FilterOperandDirectiveArgs {
+  typeRef: string;
+}
+
+export const FilterLambdaDirective = new GraphQLDirective({
+  name: 'filterLambda',
+  locations: [DirectiveLocation.INPUT_OBJECT],
+});
+
+export interface FilterLambdaDirectiveArgs {}
+
+export const ETagDirective = new GraphQLDirective({
+  name: 'etag',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+});
+
+export interface ETagDirectiveArgs {}
+
+export const DeltaDirective = new GraphQLDirective({
+  name: 'delta',
+  args: {
+    entitySetName: {
+      type: GraphQLString,
+    },
+  },
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+});
+
+export interface DeltaDirectiveArgs {
+  entitySetName: string;
+}
+
 export const TransportDirective = new GraphQLDirective({
   name: 'transport',
   isRepeatable: true,
@@ -362,6 +406,10 @@ export interface DirectiveArgsMap {
   deleteEntitySet?: DeleteEntitySetDirectiveArgs;
   updateEntitySet?: UpdateEntitySetDirectiveArgs;
   abstractType?: AbstractTypeDirectiveArgs;
+  filterOperand?: FilterOperandDirectiveArgs;
+  filterLambda?: FilterLambdaDirectiveArgs;
+  etag?: ETagDirectiveArgs;
+  delta?: DeltaDirectiveArgs;
   transport?: TransportDirectiveArgs;
   [key: string]: unknown;
 }
@@ -457,6 +505,14 @@ export function processDirectives({ schema, fetchFn }: ProcessDirectivesArgs) {
           dataloaderFactory,
           headersFactory,
         });
+      } else if (fieldDirectives?.delta?.length) {
+        const deltaDirective = fieldDirectives.delta[0];
+        fieldConfig.resolve = createDeltaResolver({
+          endpoint,
+          entitySetName: deltaDirective.entitySetName,
+          dataloaderFactory,
+          headersFactory,
+        });
       } else if (fieldDirectives?.entitySetByIdentifier?.length) {
         const entitySetByIdentifierDirective = fieldDirectives.entitySetByIdentifier[0];
         fieldConfig.resolve = createEntitySetByIdentifierResolver({
@@ -485,6 +541,8 @@ export function processDirectives({ schema, fetchFn }: ProcessDirectivesArgs) {
           dataloaderFactory,
           headersFactory,
         });
+      } else if (fieldDirectives?.etag?.length) {
+        fieldConfig.resolve = etagResolver;
       } else if (fieldDirectives?.navProp?.length) {
         const navPropDirective = fieldDirectives.navProp[0];
         fieldConfig.resolve = createNavPropResolver({
@@ -5,8 +5,10 @@ import { XMLParser } from 'fast-xml-parser';
 import { specifiedDirectives } from 'graphql';
 import { InterfaceTypeComposer, SchemaComposer } from 'graphql-compose';
 import type {
+  EnumTypeComposer,
   EnumTypeComposerValueConfigDefinition,
   InputTypeComposer,
+  InputTypeComposerFieldConfigMapDefinition,
   ObjectTypeComposer,
   ObjectTypeComposerArgumentConfigMapDefinition,
   ObjectTypeComposerFieldConfigDefinition,
@@ -32,10 +34,14 @@ import {
   BoundFunctionDirective,
   CreateEntitySetDirective,
   DeleteEntitySetDirective,
+  DeltaDirective,
   EntityInfoDirective,
   EntitySetByIdentifierDirective,
   EntitySetCountDirective,
   EntitySetDirective,
+  ETagDirective,
+  FilterLambdaDirective,
+  FilterOperandDirective,
   NavPropDirective,
   PluralNavDirective,
   processDirectives,
@@ -64,8 +70,38 @@ export interface LoadGraphQLSchemaFromODataOpts {
   importFn: ImportFn;
   batch?: 'none' | 'json' | 'multipart';
   expandNavProps?: boolean;
+  /**
+   * Generate typed `filter`, `orderBy`, `search` and `apply` arguments from the property types
+   */
+  typedQueryOptions?: boolean;
+  /**
+   * Expose `@odata.etag` of the entities as `etag`, and add `ifMatch` arguments to the updates and
+   * the deletions for the optimistic concurrency
+   */
+  etag?: boolean;
+  /**
+   * Accept the related entities of the navigation properties in the creation inputs
+   */
+  deepInsert?: boolean;
+  /**
+   * Generate the delta queries returning the changes of the entity sets since a delta token
+   */
+  delta?: boolean;
 }
 
+const COMPARABLE_SCALARS = [
+  'String',
+  'Int',
+  'Float',
+  'BigInt',
+  'Byte',
+  'Date',
+  'DateTime',
+  'ISO8601Duration',
+];
+// Binary data and geo points cannot be compared with the literals
+const NON_FILTERABLE_TYPE_REFS = ['Edm.Binary', 'Edm.Stream', 'Edm.GeographyPoint'];
+
 export async function loadNonExecutableGraphQLSchemaFromOData(
   name: string,
   {
@@ -79,6 +115,10 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
     schemaHeaders,
     batch,
     expandNavProps,
+    typedQueryOptions,
+    etag,
+    deepInsert,
+    delta,
   }: LoadGraphQLSchemaFromODataOpts,
 ) {
   const eventEmitterSet = new Set<EventEmitter>();
@@ -157,6 +197,232 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
     return null;
   }
 
+  function getOperandFilterTypeName(typeRef: string, typeName: string) {
+    if (NON_FILTERABLE_TYPE_REFS.includes(typeRef)) {
+      return undefined;
+    }
+    // Other primitives represented as strings don't have string literals
+    const operandFilterTypeName =
+      typeName === 'String' && typeRef !== 'Edm.String'
+        ? `${typeRef.replace('Edm.', '')}Filter`
+        : `${typeName}Filter`;
+    if (schemaComposer.has(operandFilterTypeName)) {
+      return operandFilterTypeName;
+    }
+    const fields: InputTypeComposerFieldConfigMapDefinition = {
+      eq: { type: typeName },
+      ne: { type: typeName },
+      in: { type: `[${typeName}!]` },
+    };
+    if (COMPARABLE_SCALARS.includes(typeName)) {
+      fields.gt = { type: typeName };
+      fields.ge = { type: typeName };
+      fields.lt = { type: typeName };
+      fields.le = { type: typeName };
+    }
+    if (typeRef === 'Edm.String') {
+      fields.contains = { type: typeName };
+      fields.startswith = { type: typeName };
+      fields.endswith = { type: typeName };
+    }
+    schemaComposer.createInputTC({
+      name: operandFilterTypeName,
+      fields,
+      directives: [
+        {
+          name: 'filterOperand',
+          args: {
+            typeRef,
+          },
+        },
+      ],
+    });
+    schemaComposer.addDirective(FilterOperandDirective);
+    return operandFilterTypeName;
+  }
+
+  function getLambdaFilterTypeName(itemFilterTypeName: string) {
+    const lambdaFilterTypeName = itemFilterTypeName.replace(/Filter$/, 'CollectionFilter');
+    if (!schemaComposer.has(lambdaFilterTypeName)) {
+      schemaComposer.createInputTC({
+        name: lambdaFilterTypeName,
+        fields: {
+          any: {
+            type: itemFilterTypeName,
+            description: 'At least one of the items matches the filter',
+          },
+          all: {
+            type: itemFilterTypeName,
+            description: 'All of the items match the filter',
+          },
+        },
+        directives: [
+          {
+            name: 'filterLambda',
+          },
+        ],
+      });
+      schemaComposer.addDirective(FilterLambdaDirective);
+    }
+    return lambdaFilterTypeName;
+  }
+
+  function addFilterField({
+    filterType,
+    orderByType,
+    propertyType,
+    fieldName,
+    typeRef,
+  }: {
+    filterType: InputTypeComposer;
+    orderByType: EnumTypeComposer;
+    propertyType: EnumTypeComposer;
+    fieldName: string;
+    typeRef: string;
+  }) {
+    const isList = typeRef.startsWith('Collection(');
+    const itemTypeRef = isList ? typeRef.slice('Collection('.length, -1) : typeRef;
+    const itemTypeName = getTypeNameFromRef({
+      typeRef: itemTypeRef,
+      isInput: false,
+      isRequired: false,
+      aliasNamespaceMap,
+      namespaces,
+      multipleSchemas,
+      isEnumType: typeName => schemaComposer.isEnumType(typeName),
+    });
+    const isOperand = itemTypeRef.startsWith('Edm.') || schemaComposer.isEnumType(itemTypeName);
+    const itemFilterTypeName = isOperand
+      ? getOperandFilterTypeName(itemTypeRef, itemTypeName)
+      : `${itemTypeName}Filter`;
+    if (!itemFilterTypeName) {
+      return;
+    }
+    filterType.addFields({
+      [fieldName]: {
+        type: isList ? getLambdaFilterTypeName(itemFilterTypeName) : itemFilterTypeName,
+      },
+    });
+    if (isOperand && !isList) {
+      orderByType.addFields({
+        [`${fieldName}_ASC`]: { value: `${fieldName}_ASC` },
+        [`${fieldName}_DESC`]: { value: `${fieldName}_DESC` },
+      });
+      propertyType.addFields({
+        [fieldName]: { value: fieldName },
+      });
+    }
+  }
+
+  function getTypedQueryOptionsArgs(
+    entityTypeName: string,
+  ): ObjectTypeComposerArgumentConfigMapDefinition<any> {
+    if (!typedQueryOptions) {
+      return {};
+    }
+    return {
+      filter: {
+        type: `${entityTypeName}Filter`,
+      },
+      orderBy: {
+        type: `[${entityTypeName}OrderBy!]`,
+      },
+      search: {
+        type: 'String',
+      },
+    };
+  }
+
+  function getApplyTypeName(entityTypeName: string) {
+    const applyTypeName = `${entityTypeName}Apply`;
+    if (!schemaComposer.has(applyTypeName)) {
+      if (!schemaComposer.has('AggregateMethod')) {
+        schemaComposer.createEnumTC({
+          name: 'AggregateMethod',
+          values: {
+            sum: { value: 'sum' },
+            min: { value: 'min' },
+            max: { value: 'max' },
+            average: { value: 'average' },
+            countdistinct: { value: 'countdistinct' },
+          },
+        });
+      }
+      schemaComposer.createInputTC({
+        name: `${entityTypeName}Aggregate`,
+        fields: {
+          property: {
+            type: `${entityTypeName}Property`,
+            description: 'The property to aggregate; the items are counted if it is not provided',
+          },
+          with: {
+            type: 'AggregateMethod',
+          },
+          as: {
+            type: 'String!',
+            description: 'The name of the aggregated value in the results',
+          },
+        },
+      });
+      schemaComposer.createInputTC({
+        name: applyTypeName,
+        fields: {
+          filter: {
+            type: `${entityTypeName}Filter`,
+          },
+          groupBy: {
+            type: `[${entityTypeName}Property!]`,
+          },
+          aggregate: {
+            type: `[${entityTypeName}Aggregate!]`,
+          },
+        },
+      });
+    }
+    return applyTypeName;
+  }
+
+  function getDeltaTypeName(entityTypeName: string, typeName: string) {
+    const deltaTypeName = `${entityTypeName}Delta`;
+    if (!schemaComposer.has(deltaTypeName)) {
+      if (!schemaComposer.has('DeletedEntity')) {
+        schemaComposer.createObjectTC({
+          name: 'DeletedEntity',
+          fields: {
+            id: {
+              type: 'String',
+              description: 'The canonical URL of the deleted entity',
+            },
+            reason: {
+              type: 'String',
+              description: 'Either `deleted` or `changed` if the entity left the set',
+            },
+          },
+        });
+      }
+      schemaComposer.createObjectTC({
+        name: deltaTypeName,
+        fields: {
+          changes: {
+            type: `[${typeName}]`,
+            description: 'The added or updated entities',
+          },
+          deleted: {
+            type: '[DeletedEntity]',
+          },
+          deltaLink: {
+            type: 'String',
+          },
+          deltaToken: {
+            type: 'String',
+            description: 'The token to get the next changes',
+          },
+        },
+      });
+    }
+    return deltaTypeName;
+  }
+
   function buildName({ schemaNamespace, name }: { schemaNamespace: string; name: string }) {
     const alias = aliasNamespaceMap.get(schemaNamespace) || schemaNamespace;
     const ref = alias + '.' + name;
@@ -199,6 +465,7 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
 
     allTypes?.forEach((typeObj: any) => {
       const entityTypeName = buildName({ schemaNamespace, name: typeObj.attributes.Name });
+      const isEntityType = schemaObj.EntityType?.includes(typeObj);
       const isOpenType = typeObj.attributes.OpenType === 'true';
       const isAbstract = typeObj.attributes.Abstract === 'true';
       const eventEmitter = new EventEmitter();
@@ -220,6 +487,33 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
         fields: {},
         extensions: () => extensions,
       });
+      let filterType: InputTypeComposer;
+      let orderByType: EnumTypeComposer;
+      let propertyType: EnumTypeComposer;
+      if (typedQueryOptions) {
+        filterType = schemaComposer.createInputTC({
+          name: entityTypeName + 'Filter',
+          fields: {
+            and: {
+              type: `[${entityTypeName}Filter!]`,
+            },
+            or: {
+              type: `[${entityTypeName}Filter!]`,
+            },
+            not: {
+              type: `${entityTypeName}Filter`,
+            },
+          },
+        });
+        orderByType = schemaComposer.createEnumTC({
+          name: entityTypeName + 'OrderBy',
+          values: {},
+        });
+        propertyType = schemaComposer.createEnumTC({
+          name: entityTypeName + 'Property',
+          values: {},
+        });
+      }
       let abstractType: InterfaceTypeComposer;
       if (
         typesWithBaseType.some((typeObj: any) =>
@@ -267,6 +561,15 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
           extensions.directives.entityInfo.identifierFieldTypeRef = propertyTypeRef;
         }
         const isRequired = propertyObj.attributes.Nullable === 'false';
+        if (filterType) {
+          addFilterField({
+            filterType,
+            orderByType,
+            propertyType,
+            fieldName: propertyName,
+            typeRef: propertyTypeRef,
+          });
+        }
         inputType.addFields({
           [propertyName]: {
             type: getTypeNameFromRef({
@@ -306,6 +609,31 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
         const navigationPropertyTypeRef = navigationPropertyObj.attributes.Type;
         const isRequired = navigationPropertyObj.attributes.Nullable === 'false';
         const isList = navigationPropertyTypeRef.startsWith('Collection(');
+        if (filterType) {
+          addFilterField({
+            filterType,
+            orderByType,
+            propertyType,
+            fieldName: navigationPropertyName,
+            typeRef: navigationPropertyTypeRef,
+          });
+        }
+        if (deepInsert) {
+          inputType.addFields({
+            [navigationPropertyName]: {
+              type: getTypeNameFromRef({
+                typeRef: navigationPropertyTypeRef,
+                isInput: true,
+                isRequired: false,
+                aliasNamespaceMap,
+                namespaces,
+                multipleSchemas,
+                isEnumType: typeName => schemaComposer.isEnumType(typeName),
+              }),
+              extensions: { navigationPropertyObj },
+            },
+          });
+        }
         if (isList) {
           const singularField: ObjectTypeComposerFieldConfigDefinition<any, unknown> = {
             type: getTypeNameFromRef({
@@ -348,6 +676,7 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
             args: {
               ...commonArgs,
               queryOptions: { type: 'QueryOptions' },
+              ...getTypedQueryOptionsArgs((singularField.type as string).replace('!', '')),
             },
             extensions: {
               navigationPropertyObj,
@@ -423,7 +752,29 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
           },
         });
       }
+      if (etag && isEntityType) {
+        const etagField: ObjectTypeComposerFieldConfigDefinition<any, any> = {
+          type: 'String',
+          description: 'ETag of the entity to be sent as `ifMatch` with the updates and deletions',
+          extensions: {
+            directives: {
+              etag: {},
+            } as any,
+          },
+        };
+        schemaComposer.addDirective(ETagDirective);
+        abstractType?.addFields({
+          etag: etagField,
+        });
+        outputType.addFields({
+          etag: etagField,
+        });
+      }
       const updateInputType = inputType.clone(`${entityTypeName}UpdateInput`);
+      if (deepInsert) {
+        // Deep updates are not supported by the most of the services
+        updateInputType.removeField(extensions.directives.entityInfo.navigationFields);
+      }
       updateInputType
         .getFieldNames()
         ?.forEach(fieldName => updateInputType.makeOptional(fieldName));
@@ -771,6 +1122,22 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
         entityInfo.actualFields.unshift(...baseEntityInfo.actualFields);
         abstractType?.addFields(baseAbstractType?.getFields());
         outputType.addFields(baseOutputType.getFields());
+        if (typedQueryOptions) {
+          // Logical operators of the base filter refer to the base type
+          const {
+            and: _and,
+            or: _or,
+            not: _not,
+            ...baseFilterFields
+          } = schemaComposer.getITC(baseTypeName + 'Filter').getFields();
+          schemaComposer.getITC(typeName + 'Filter').addFields(baseFilterFields);
+          schemaComposer
+            .getETC(typeName + 'OrderBy')
+            .addFields(schemaComposer.getETC(baseTypeName + 'OrderBy').getFields());
+          schemaComposer
+            .getETC(typeName + 'Property')
+            .addFields(schemaComposer.getETC(baseTypeName + 'Property').getFields());
+        }
         if (baseAbstractType instanceof InterfaceTypeComposer) {
           // abstractType.addInterface(baseAbstractType.getTypeName());
           outputType.addInterface(baseAbstractType.getTypeName());
@@ -848,6 +1215,7 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
             args: {
               ...commonArgs,
               queryOptions: { type: 'QueryOptions' },
+              ...getTypedQueryOptionsArgs(entityTypeName),
             },
             extensions: {
               directives: {
@@ -883,6 +1251,14 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
             args: {
               ...commonArgs,
               queryOptions: { type: 'QueryOptions' },
+              ...(typedQueryOptions && {
+                filter: {
+                  type: `${entityTypeName}Filter`,
+                },
+                search: {
+                  type: 'String',
+                },
+              }),
             },
             extensions: {
               directives: {
@@ -893,6 +1269,49 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
             },
           },
         });
+        if (delta) {
+          schemaComposer.Query.addFields({
+            [`${entitySetName}Delta`]: {
+              type: getDeltaTypeName(entityTypeName, typeName),
+              description: `Changes of ${entitySetName} since the given delta token, or the current entities with a delta token to track the changes after them`,
+              args: {
+                ...commonArgs,
+                deltaToken: {
+                  type: 'String',
+                },
+              },
+              extensions: {
+                directives: {
+                  delta: {
+                    entitySetName,
+                  },
+                } as any,
+              },
+            },
+          });
+          schemaComposer.addDirective(DeltaDirective);
+        }
+        if (typedQueryOptions) {
+          schemaComposer.Query.addFields({
+            [`${entitySetName}Aggregate`]: {
+              type: '[JSON]',
+              description: `Aggregates ${entitySetName} with $apply`,
+              args: {
+                ...commonArgs,
+                apply: {
+                  type: `${getApplyTypeName(entityTypeName)}!`,
+                },
+              },
+              extensions: {
+                directives: {
+                  entitySet: {
+                    entitySetName,
+                  },
+                } as any,
+              },
+            },
+          });
+        }
         schemaComposer.Mutation.addFields({
           ...commonFields,
           [`create${entitySetName}`]: {
@@ -918,6 +1337,11 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
               [identifierFieldName]: {
                 type: identifierFieldTypeName,
               },
+              ...(etag && {
+                ifMatch: {
+                  type: 'String',
+                },
+              }),
             },
             extensions: {
               directives: {
@@ -939,6 +1363,11 @@ export async function loadNonExecutableGraphQLSchemaFromOData(
               input: {
                 type: entityTypeName + 'UpdateInput',
               },
+              ...(etag && {
+                ifMatch: {
+                  type: 'String',
+                },
+              }),
             },
             extensions: {
               directives: {
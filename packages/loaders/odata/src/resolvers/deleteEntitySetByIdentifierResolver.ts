@@ -4,6 +4,7 @@ import { mapMaybePromise } from '@graphql-mesh/utils';
 import { Request } from '@whatwg-node/fetch';
 import type { DataloaderFactory } from '../getDataloaderFactory.js';
 import { addIdentifierToUrl } from '../utils/addIdentifierToUrl.js';
+import { createPreconditionFailedError } from '../utils/createPreconditionFailedError.js';
 import { getUrlString } from '../utils/getUrlString.js';
 import { handleResponseText } from '../utils/handleResponseText.js';
 
@@ -30,22 +31,28 @@ export function createDeleteEntitySetByIdentifierResolver({
     addIdentifierToUrl(url, identifierFieldName, identifierFieldTypeRef, args);
     const urlString = getUrlString(url);
     const method = 'DELETE';
+    const headers = headersFactory(
+      {
+        root,
+        args,
+        context,
+        info,
+        env: process.env,
+      },
+      method,
+    );
+    if (args.ifMatch) {
+      headers['if-match'] = args.ifMatch;
+    }
     const request = new Request(urlString, {
       method,
-      headers: headersFactory(
-        {
-          root,
-          args,
-          context,
-          info,
-          env: process.env,
-        },
-        method,
-      ),
+      headers,
     });
     return mapMaybePromise(dataloaderFactory(context).load(request), response =>
       mapMaybePromise(response.text(), responseText =>
-        handleResponseText(responseText, urlString, info),
+        response.status === 412
+          ? createPreconditionFailedError(responseText, urlString)
+          : handleResponseText(responseText, urlString, info),
       ),
     );
   };
@@ -0,0 +1,108 @@
+import { getNamedType, type GraphQLFieldResolver, type GraphQLObjectType } from 'graphql';
+import urljoin from 'url-join';
+import { mapMaybePromise } from '@graphql-mesh/utils';
+import { getDirectiveExtensions } from '@graphql-tools/utils';
+import { Request } from '@whatwg-node/fetch';
+import type { DirectiveArgsMap } from '../directives.js';
+import type { DataloaderFactory } from '../getDataloaderFactory.js';
+import { addIdentifierToUrl } from '../utils/addIdentifierToUrl.js';
+import { getUrlString } from '../utils/getUrlString.js';
+import { handleResponseText } from '../utils/handleResponseText.js';
+
+export interface DeltaResolverOpts {
+  endpoint: string;
+  entitySetName: string;
+  dataloaderFactory: DataloaderFactory;
+  headersFactory: (resolverData: any, method: string) => Record<string, string>;
+}
+
+function isDeletedEntity(element: any) {
+  return (
+    '@removed' in element ||
+    element['@odata.context']?.endsWith('$deletedEntity') ||
+    element['@odata.removed'] != null
+  );
+}
+
+export function createDeltaResolver({
+  endpoint,
+  entitySetName,
+  dataloaderFactory,
+  headersFactory,
+}: DeltaResolverOpts): GraphQLFieldResolver<any, any> {
+  return function deltaResolver(root, args, context, info) {
+    const url = new URL(endpoint);
+    url.href = urljoin(url.href, '/' + entitySetName);
+    if (args.deltaToken) {
+      url.searchParams.set('$deltatoken', args.deltaToken);
+    }
+    const urlString = getUrlString(url);
+    const method = 'GET';
+    const headers = headersFactory(
+      {
+        root,
+        args,
+        context,
+        info,
+        env: process.env,
+      },
+      method,
+    );
+    if (!args.deltaToken) {
+      // The initial request asks for a delta link to track the changes after it
+      headers.prefer = headers.prefer
+        ? `${headers.prefer},odata.track-changes`
+        : 'odata.track-changes';
+    }
+    const request = new Request(urlString, {
+      method,
+      headers,
+    });
+    return mapMaybePromise(dataloaderFactory(context).load(request), response =>
+      mapMaybePromise(response.text(), responseText => {
+        const responseJson = handleResponseText(responseText, urlString, info);
+        if (responseJson instanceof Error) {
+          return responseJson;
+        }
+        const changesType = getNamedType(
+          (getNamedType(info.returnType) as GraphQLObjectType).getFields().changes.type,
+        );
+        const entityInfo = getDirectiveExtensions<DirectiveArgsMap>(changesType)?.entityInfo?.[0];
+        const changes: any[] = [];
+        const deleted: { id: string; reason?: string }[] = [];
+        for (const element of responseJson.value || []) {
+          if (isDeletedEntity(element)) {
+            const removed = element['@removed'] || element['@odata.removed'];
+            deleted.push({
+              id: element['@id'] || element['@odata.id'] || element.id,
+              reason: removed?.reason || element.reason,
+            });
+            continue;
+          }
+          let identifierUrl = element['@odata.id'];
+          if (!identifierUrl && entityInfo) {
+            const urlOfElement = new URL(urlString.split('?')[0]);
+            addIdentifierToUrl(
+              urlOfElement,
+              entityInfo.identifierFieldName,
+              entityInfo.identifierFieldTypeRef,
+              element,
+            );
+            identifierUrl = getUrlString(urlOfElement);
+          }
+          changes.push({
+            '@odata.id': identifierUrl,
+            ...element,
+          });
+        }
+        const deltaLink: string = responseJson['@odata.deltaLink'];
+        return {
+          changes,
+          deleted,
+          deltaLink,
+          deltaToken: deltaLink && new URL(deltaLink, url).searchParams.get('$deltatoken'),
+        };
+      }),
+    );
+  };
+}
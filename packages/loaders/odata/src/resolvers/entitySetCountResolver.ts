@@ -4,6 +4,7 @@ import { mapMaybePromise } from '@graphql-mesh/utils';
 import { Request } from '@whatwg-node/fetch';
 import type { DataloaderFactory } from '../getDataloaderFactory.js';
 import { getUrlString } from '../utils/getUrlString.js';
+import { setTypedQueryOptions } from '../utils/typedQueryOptions.js';
 
 export interface EntitySetCountResolverOptions {
   endpoint: string;
@@ -21,6 +22,7 @@ export function createEntitySetCountResolver({
   return function entitySetCountResolver(root, args, context, info) {
     const url = new URL(endpoint);
     url.href = urljoin(url.href, `/${entitySetName}/$count`);
+    setTypedQueryOptions(url.searchParams, args, info.parentType.getFields()[info.fieldName]);
     const urlString = getUrlString(url);
     const method = 'GET';
     const request = new Request(urlString, {
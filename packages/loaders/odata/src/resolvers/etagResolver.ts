@@ -0,0 +1,5 @@
+import type { GraphQLFieldResolver } from 'graphql';
+
+export const etagResolver: GraphQLFieldResolver<any, any> = function etagResolver(root) {
+  return root['@odata.etag'];
+};
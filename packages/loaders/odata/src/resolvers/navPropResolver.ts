@@ -33,6 +33,7 @@ export function createNavPropResolver({
       schema: info.schema,
 
       expandNavProps,
+      field: info.parentType.getFields()[info.fieldName],
     });
     searchParams?.forEach((value, key) => {
       url.searchParams.set(key, value);
@@ -0,0 +1,27 @@
+import { createGraphQLError } from '@graphql-tools/utils';
+
+export function createPreconditionFailedError(responseText: string, urlString: string) {
+  let responseBody: any = responseText;
+  try {
+    responseBody = JSON.parse(responseText);
+  } catch {}
+  return createGraphQLError(
+    responseBody?.error?.message ||
+      'The entity has been modified since the given ETag was retrieved',
+    {
+      extensions: {
+        code: 'PRECONDITION_FAILED',
+        http: {
+          status: 412,
+        },
+        request: {
+          url: urlString,
+        },
+        response: {
+          status: 412,
+          body: responseBody,
+        },
+      },
+    },
+  );
+}
@@ -1,4 +1,9 @@
-import { isAbstractType, type GraphQLSchema } from 'graphql';
+import {
+  isObjectType,
+  type GraphQLField,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+} from 'graphql';
 import {
   simplifyParsedResolveInfoFragmentWithType,
   type ResolveTree,
@@ -7,17 +12,20 @@ import { getDirectiveExtensions } from '@graphql-tools/utils';
 import { URLSearchParams } from '@whatwg-node/fetch';
 import type { DirectiveArgsMap } from '../directives.js';
 import { QUERY_OPTIONS_FIELDS } from './QueryOptionsFields.js';
+import { setTypedQueryOptions } from './typedQueryOptions.js';
 
 interface PrepareSearchParamsOptions {
   fragment: ResolveTree;
   schema: GraphQLSchema;
   expandNavProps: boolean;
+  field?: GraphQLField<any, any>;
 }
 
 export function prepareSearchParams({
   fragment,
   schema,
   expandNavProps,
+  field,
 }: PrepareSearchParamsOptions) {
   const fragmentTypeNames = Object.keys(fragment.fieldsByTypeName) as string[];
   const returnType = schema.getType(fragmentTypeNames[0]);
@@ -34,10 +42,14 @@ export function prepareSearchParams({
       }
     }
   }
+  if (field) {
+    setTypedQueryOptions(searchParams, args, field);
+  }
 
   // $select doesn't work with inherited types' fields. So if there is an inline fragment for
   // implemented types, we cannot use $select
-  const isSelectable = !isAbstractType(returnType);
+  // The results of $apply consist of the aggregated values, so they cannot be selected, either
+  const isSelectable = isObjectType(returnType) && !searchParams.has('$apply');
 
   if (isSelectable) {
     const returnTypeDirectives = getDirectiveExtensions<DirectiveArgsMap>(returnType);
@@ -54,6 +66,7 @@ export function prepareSearchParams({
           schema,
 
           expandNavProps,
+          field: (returnType as GraphQLObjectType).getFields()[fields[fieldName].name],
         });
         const searchParamsStr = decodeURIComponent(searchParams.toString());
         expandedFields.push(`${fieldName}(${searchParamsStr.split('&').join(';')})`);
@@ -0,0 +1,233 @@
+import {
+  getNamedType,
+  type GraphQLField,
+  type GraphQLInputObjectType,
+  type GraphQLNamedType,
+} from 'graphql';
+import { createGraphQLError, getDirectiveExtensions } from '@graphql-tools/utils';
+import type { DirectiveArgsMap } from '../directives.js';
+
+const COMPARISON_OPERATORS = ['eq', 'ne', 'gt', 'ge', 'lt', 'le'];
+const STRING_FUNCTIONS = ['contains', 'startswith', 'endswith'];
+
+// The literals that are not quoted are validated, so the values cannot add their own expressions
+const INTEGER_PATTERN = /^-?\d+$/;
+const DECIMAL_PATTERN = /^(-?\d+(\.\d+)?(e[+-]?\d+)?|-?INF|NaN)$/i;
+const LITERAL_PATTERNS: Record<string, RegExp> = {
+  'Edm.Boolean': /^(true|false)$/,
+  'Edm.Byte': INTEGER_PATTERN,
+  'Edm.SByte': INTEGER_PATTERN,
+  'Edm.Int16': INTEGER_PATTERN,
+  'Edm.Int32': INTEGER_PATTERN,
+  'Edm.Int64': INTEGER_PATTERN,
+  'Edm.Single': DECIMAL_PATTERN,
+  'Edm.Double': DECIMAL_PATTERN,
+  'Edm.Decimal': DECIMAL_PATTERN,
+  'Edm.Guid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  'Edm.Date': /^-?\d{4,}-\d{2}-\d{2}$/,
+  'Edm.DateTimeOffset': /^-?\d{4,}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i,
+  'Edm.TimeOfDay': /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/,
+};
+
+function quote(value: string) {
+  return `'${value.split("'").join("''")}'`;
+}
+
+function getLiteral(value: any, typeRef: string) {
+  if (value == null) {
+    return 'null';
+  }
+  switch (typeRef) {
+    case 'Edm.String':
+      return quote(value.toString());
+    case 'Edm.Duration':
+      return `duration${quote(value.toString())}`;
+  }
+  if (!typeRef.startsWith('Edm.')) {
+    // Enum members are prefixed with the qualified name of the enum type
+    return `${typeRef}${quote(value.toString())}`;
+  }
+  let literal: string;
+  if (value instanceof Date) {
+    literal = value.toISOString();
+    if (typeRef === 'Edm.Date') {
+      literal = literal.slice(0, 10);
+    }
+  } else {
+    literal = value.toString();
+  }
+  if (!LITERAL_PATTERNS[typeRef]?.test(literal)) {
+    throw createGraphQLError(`Invalid ${typeRef} value ${JSON.stringify(literal)} in filter`);
+  }
+  return literal;
+}
+
+function getOperandExpression(
+  operand: Record<string, any>,
+  left: string,
+  operandType: GraphQLNamedType,
+) {
+  const typeRef =
+    getDirectiveExtensions<DirectiveArgsMap>(operandType)?.filterOperand?.[0]?.typeRef;
+  const expressions: string[] = [];
+  for (const operator in operand) {
+    const value = operand[operator];
+    if (COMPARISON_OPERATORS.includes(operator)) {
+      expressions.push(`${left} ${operator} ${getLiteral(value, typeRef)}`);
+    } else if (STRING_FUNCTIONS.includes(operator)) {
+      expressions.push(`${operator}(${left},${getLiteral(value, typeRef)})`);
+    } else if (operator === 'in') {
+      expressions.push(`${left} in (${value.map(item => getLiteral(item, typeRef)).join(',')})`);
+    }
+  }
+  return expressions;
+}
+
+function getFilterExpressions(
+  filter: Record<string, any>,
+  filterType: GraphQLNamedType,
+  prefix: string,
+  depth: number,
+): string[] {
+  const filterTypeDirectives = getDirectiveExtensions<DirectiveArgsMap>(filterType);
+  // Filters of primitive collection items refer to the lambda variable itself
+  if (filterTypeDirectives?.filterOperand?.length) {
+    return getOperandExpression(filter, prefix.slice(0, -1), filterType);
+  }
+  const fieldMap = (filterType as GraphQLInputObjectType).getFields();
+  const expressions: string[] = [];
+  for (const fieldName in filter) {
+    const value = filter[fieldName];
+    if (value == null) {
+      continue;
+    }
+    switch (fieldName) {
+      case 'and':
+      case 'or': {
+        const subExpressions = value.map(
+          (subFilter: Record<string, any>) =>
+            `(${getFilterExpression(subFilter, filterType, prefix, depth)})`,
+        );
+        if (subExpressions.length) {
+          expressions.push(`(${subExpressions.join(` ${fieldName} `)})`);
+        }
+        continue;
+      }
+      case 'not':
+        expressions.push(`not (${getFilterExpression(value, filterType, prefix, depth)})`);
+        continue;
+    }
+    const fieldType = getNamedType(fieldMap[fieldName].type);
+    const fieldTypeDirectives = getDirectiveExtensions<DirectiveArgsMap>(fieldType);
+    const path = prefix + fieldName;
+    if (fieldTypeDirectives?.filterOperand?.length) {
+      expressions.push(...getOperandExpression(value, path, fieldType));
+    } else if (fieldTypeDirectives?.filterLambda?.length) {
+      const lambdaFieldMap = (fieldType as GraphQLInputObjectType).getFields();
+      const variable = `x${depth}`;
+      for (const lambdaOperator in value) {
+        const itemType = getNamedType(lambdaFieldMap[lambdaOperator].type);
+        const itemExpression = getFilterExpression(
+          value[lambdaOperator],
+          itemType,
+          `${variable}/`,
+          depth + 1,
+        );
+        expressions.push(`${path}/${lambdaOperator}(${variable}:${itemExpression})`);
+      }
+    } else {
+      expressions.push(...getFilterExpressions(value, fieldType, `${path}/`, depth));
+    }
+  }
+  return expressions;
+}
+
+export function getFilterExpression(
+  filter: Record<string, any>,
+  filterType: GraphQLNamedType,
+  prefix = '',
+  depth = 0,
+) {
+  return getFilterExpressions(filter, filterType, prefix, depth).join(' and ');
+}
+
+export function getOrderByExpression(orderBy: string[]) {
+  return orderBy
+    .map(orderByValue => {
+      const separatorIndex = orderByValue.lastIndexOf('_');
+      const propertyName = orderByValue.slice(0, separatorIndex);
+      const direction = orderByValue.slice(separatorIndex + 1).toLowerCase();
+      return `${propertyName} ${direction}`;
+    })
+    .join(',');
+}
+
+const SIMPLE_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function getApplyExpression(apply: Record<string, any>, applyType: GraphQLNamedType) {
+  const transformations: string[] = [];
+  if (apply.filter) {
+    const filterType = getNamedType((applyType as GraphQLInputObjectType).getFields().filter.type);
+    transformations.push(`filter(${getFilterExpression(apply.filter, filterType)})`);
+  }
+  let aggregateExpression: string;
+  if (apply.aggregate?.length) {
+    const aggregations = apply.aggregate.map(
+      ({ property, with: method, as: alias }: Record<string, string>) => {
+        if (!SIMPLE_IDENTIFIER_PATTERN.test(alias)) {
+          throw createGraphQLError(
+            `Alias ${JSON.stringify(alias)} of the aggregation is not a valid identifier`,
+          );
+        }
+        if (!property) {
+          return `$count as ${alias}`;
+        }
+        if (!method) {
+          throw createGraphQLError(`Aggregation method is required to aggregate ${property}`);
+        }
+        return `${property} with ${method} as ${alias}`;
+      },
+    );
+    aggregateExpression = `aggregate(${aggregations.join(',')})`;
+  }
+  if (apply.groupBy?.length) {
+    const groupByProperties = `(${apply.groupBy.join(',')})`;
+    transformations.push(
+      aggregateExpression
+        ? `groupby(${groupByProperties},${aggregateExpression})`
+        : `groupby(${groupByProperties})`,
+    );
+  } else if (aggregateExpression) {
+    transformations.push(aggregateExpression);
+  }
+  return transformations.join('/');
+}
+
+/**
+ * Serializes the typed `filter`, `orderBy`, `search` and `apply` arguments of the field
+ */
+export function setTypedQueryOptions(
+  searchParams: URLSearchParams,
+  args: Record<string, any>,
+  field: GraphQLField<any, any>,
+) {
+  const getArgType = (argName: string) =>
+    args[argName] != null && getNamedType(field.args.find(arg => arg.name === argName)?.type);
+  const filterType = getArgType('filter');
+  if (filterType) {
+    const filterExpression = getFilterExpression(args.filter, filterType);
+    if (filterExpression) {
+      searchParams.set('$filter', filterExpression);
+    }
+  }
+  if (getArgType('orderBy') && args.orderBy.length) {
+    searchParams.set('$orderby', getOrderByExpression(args.orderBy));
+  }
+  if (getArgType('search')) {
+    searchParams.set('$search', args.search);
+  }
+  const applyType = getArgType('apply');
+  if (applyType) {
+    searchParams.set('$apply', getApplyExpression(args.apply, applyType));
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  GraphQLInputObjectType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+  type GraphQLInputType,
+} from 'graphql';
+import { GraphQLDate, GraphQLDateTime, GraphQLISO8601Duration } from 'graphql-scalars';
+import { getApplyExpression, getFilterExpression } from '../src/utils/typedQueryOptions.js';
+
+describe('Typed query options', () => {
+  function createOperandFilterType(typeRef: string, type: GraphQLInputType) {
+    return new GraphQLInputObjectType({
+      name: `${typeRef.replace('Edm.', '')}Filter`,
+      fields: {
+        eq: { type },
+        gt: { type },
+      },
+      extensions: {
+        directives: {
+          filterOperand: [{ typeRef }],
+        },
+      },
+    });
+  }
+  const eventFilterType = new GraphQLInputObjectType({
+    name: 'EventFilter',
+    fields: {
+      Name: { type: createOperandFilterType('Edm.String', GraphQLString) },
+      Created: { type: createOperandFilterType('Edm.DateTimeOffset', GraphQLDateTime) },
+      Day: { type: createOperandFilterType('Edm.Date', GraphQLDate) },
+      At: { type: createOperandFilterType('Edm.TimeOfDay', GraphQLString) },
+      Length: { type: createOperandFilterType('Edm.Duration', GraphQLISO8601Duration) },
+    },
+  });
+  it('serializes the dates in the ISO format', () => {
+    expect(
+      getFilterExpression(
+        {
+          Created: { gt: GraphQLDateTime.parseValue('2020-01-01T00:00:00Z') },
+          Day: { eq: GraphQLDate.parseValue('2020-01-01') },
+          At: { eq: '12:00:00' },
+        },
+        eventFilterType,
+      ),
+    ).toBe('Created gt 2020-01-01T00:00:00.000Z and Day eq 2020-01-01 and At eq 12:00:00');
+  });
+  it('rejects the unquoted literals not in the format of their types', () => {
+    expect(() =>
+      getFilterExpression({ At: { eq: '12:00:00 or true eq true' } }, eventFilterType),
+    ).toThrow('Invalid Edm.TimeOfDay value "12:00:00 or true eq true" in filter');
+  });
+  it('escapes the quotes in the quoted literals', () => {
+    expect(
+      getFilterExpression(
+        {
+          Name: { eq: "O'Neil" },
+          Length: { eq: "PT1H') or (true" },
+        },
+        eventFilterType,
+      ),
+    ).toBe(`Name eq 'O''Neil' and Length eq duration'PT1H'') or (true'`);
+  });
+  it('rejects the aliases of the aggregations that are not identifiers', () => {
+    const applyType = new GraphQLInputObjectType({
+      name: 'EventApply',
+      fields: {
+        aggregate: {
+          type: new GraphQLList(
+            new GraphQLNonNull(
+              new GraphQLInputObjectType({
+                name: 'EventAggregate',
+                fields: {
+                  as: { type: new GraphQLNonNull(GraphQLString) },
+                },
+              }),
+            ),
+          ),
+        },
+      },
+    });
+    expect(getApplyExpression({ aggregate: [{ as: 'Total' }] }, applyType)).toBe(
+      'aggregate($count as Total)',
+    );
+    expect(() =>
+      getApplyExpression({ aggregate: [{ as: 'Total)/filter(true' }] }, applyType),
+    ).toThrow('Alias "Total)/filter(true" of the aggregation is not a valid identifier');
+  });
+});
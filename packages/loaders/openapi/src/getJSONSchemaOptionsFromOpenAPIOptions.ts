@@ -1,7 +1,7 @@
 import { OperationTypeNode } from 'graphql';
 import type { JSONSchemaObject } from 'json-machete';
 import { dereferenceObject, handleUntitledDefinitions, resolvePath } from 'json-machete';
-import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import type { OpenAPIV2, OpenAPIV3, OpenAPIV3_1 as OpenAPIV31 } from 'openapi-types';
 import { process } from '@graphql-mesh/cross-helpers';
 import {
   getInterpolatedHeadersFactory,
@@ -17,13 +17,18 @@ import {
 import type {
   HTTPMethod,
   JSONSchemaHTTPJSONOperationConfig,
+  JSONSchemaLoaderOptions,
   JSONSchemaOperationConfig,
   JSONSchemaOperationResponseConfig,
   JSONSchemaPubSubOperationConfig,
   OperationHeadersConfiguration,
 } from '@omnigraph/json-schema';
 import type { OpenAPILoaderSelectQueryOrMutationFieldConfig } from './types.js';
-import { getFieldNameFromPath } from './utils.js';
+import {
+  getFieldNameFromPath,
+  getPaginationConfigFromOpenAPIOperation,
+  getSecuritySchemesFromOpenAPI,
+} from './utils.js';
 
 interface GetJSONSchemaOptionsFromOpenAPIOptionsParams {
   source: OpenAPIV3.Document | OpenAPIV2.Document | string;
@@ -37,6 +42,12 @@ interface GetJSONSchemaOptionsFromOpenAPIOptionsParams {
   selectQueryOrMutationField?: OpenAPILoaderSelectQueryOrMutationFieldConfig[];
   logger?: Logger;
   jsonApi?: boolean;
+  pagination?: boolean;
+  webhooksPath?: string;
+  webhookRegistrations?: Record<
+    string,
+    Pick<JSONSchemaPubSubOperationConfig, 'subscribe' | 'unsubscribe'>
+  >;
 }
 
 export async function getJSONSchemaOptionsFromOpenAPIOptions(
@@ -53,6 +64,9 @@ export async function getJSONSchemaOptionsFromOpenAPIOptions(
     selectQueryOrMutationField = [],
     logger = new DefaultLogger('getJSONSchemaOptionsFromOpenAPIOptions'),
     jsonApi,
+    pagination,
+    webhooksPath = '/webhooks',
+    webhookRegistrations,
   }: GetJSONSchemaOptionsFromOpenAPIOptionsParams,
 ) {
   if (typeof source === 'string') {
@@ -127,6 +141,10 @@ export async function getJSONSchemaOptionsFromOpenAPIOptions(
     }
   }
 
+  const securitySchemes = getSecuritySchemesFromOpenAPI(oasOrSwagger, logger);
+  const globalSecurity = oasOrSwagger.security;
+  let usedSecuritySchemes: JSONSchemaLoaderOptions['securitySchemes'];
+
   const operations: JSONSchemaOperationConfig[] = [];
   let baseOperationArgTypeMap: Record<string, JSONSchemaObject>;
 
@@ -205,6 +223,19 @@ export async function getJSONSchemaOptionsFromOpenAPIOptions(
           : {}),
         jsonApiFields: jsonApi,
       } as OperationConfig;
+      // Operation level requirements override the global ones, even if they are empty
+      const security = methodObj.security || globalSecurity;
+      if (securitySchemes && security?.length) {
+        operationConfig.security = security;
+        for (const securityRequirement of security) {
+          for (const schemeName in securityRequirement) {
+            if (securitySchemes[schemeName]) {
+              usedSecuritySchemes = usedSecuritySchemes || {};
+              usedSecuritySchemes[schemeName] = securitySchemes[schemeName];
+            }
+          }
+        }
+      }
       operations.push(operationConfig);
       methodObjFieldMap.set(methodObj, operationConfig);
       let allParams;
@@ -588,6 +619,28 @@ export async function getJSONSchemaOptionsFromOpenAPIOptions(
         }
       }
 
+      if (pagination && operationConfig.method === 'GET' && operationConfig.queryParamArgMap) {
+        const successStatusCode = Object.keys(responseByStatusCode).find(statusCode =>
+          statusCode.startsWith('2'),
+        );
+        if (successStatusCode) {
+          const successResponseObj = methodObj.responses[successStatusCode] as
+            | OpenAPIV3.ResponseObject
+            | OpenAPIV2.ResponseObject;
+          const paginationConfig = getPaginationConfigFromOpenAPIOperation(
+            Object.keys(operationConfig.queryParamArgMap) as string[],
+            responseByStatusCode[successStatusCode].responseSchema as JSONSchemaObject,
+            Object.keys(successResponseObj?.headers || {}) as string[],
+          );
+          if (paginationConfig) {
+            logger.debug(
+              `Detected ${paginationConfig.type} pagination for ${operationConfig.method} ${relativePath}`,
+            );
+            operationConfig.pagination = paginationConfig;
+          }
+        }
+      }
+
       if ('callbacks' in methodObj) {
         for (const callbackKey in methodObj.callbacks) {
           const callbackObj = methodObj.callbacks[callbackKey] as OpenAPIV3.CallbackObject;
@@ -649,8 +702,57 @@ export async function getJSONSchemaOptionsFromOpenAPIOptions(
     }
   }
 
+  // OpenAPI 3.1 webhooks are sent by the upstream to the gateway without a subscription request
+  const webhooks = (oasOrSwagger as OpenAPIV31.Document).webhooks;
+  for (const webhookName in webhooks) {
+    const webhookObj = webhooks[webhookName] as OpenAPIV31.PathItemObject;
+    for (const method in webhookObj) {
+      if (
+        method === 'parameters' ||
+        method === 'summary' ||
+        method === 'description' ||
+        method === 'servers' ||
+        method === '$resolvedRef' ||
+        method.startsWith('x-')
+      ) {
+        continue;
+      }
+      const webhookOperation = webhookObj[
+        method as OpenAPIV3.HttpMethods
+      ] as OpenAPIV31.OperationObject;
+      const webhookOperationConfig: JSONSchemaPubSubOperationConfig = {
+        type: OperationTypeNode.SUBSCRIPTION,
+        field: sanitizeNameForGraphQL(
+          webhookOperation.operationId ||
+            (method === 'post' ? webhookName : `${webhookName}_${method}`),
+        ),
+        description: webhookOperation.description || webhookOperation.summary,
+        pubsubTopic: `webhook:${method}:${webhooksPath.replace(/\/$/, '')}/${webhookName}`,
+        deprecated: webhookOperation.deprecated,
+      };
+      const requestBodyContents = (webhookOperation.requestBody as OpenAPIV31.RequestBodyObject)
+        ?.content;
+      if (requestBodyContents) {
+        const contentKeys = Object.keys(requestBodyContents) as string[];
+        const contentKey =
+          contentKeys.find(contentKey => contentKey.includes('json')) || contentKeys[0];
+        webhookOperationConfig.responseSchema = requestBodyContents[contentKey].schema as any;
+      }
+      operations.push(webhookOperationConfig);
+    }
+  }
+
+  if (webhookRegistrations) {
+    for (const operationConfig of operations) {
+      if ('pubsubTopic' in operationConfig && webhookRegistrations[operationConfig.field]) {
+        Object.assign(operationConfig, webhookRegistrations[operationConfig.field]);
+      }
+    }
+  }
+
   return {
     operations,
+    securitySchemes: usedSecuritySchemes,
     endpoint,
     cwd,
     fetch: fetchFn,
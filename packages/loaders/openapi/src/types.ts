@@ -1,4 +1,7 @@
-import type { JSONSchemaLoaderOptions } from '@omnigraph/json-schema';
+import type {
+  JSONSchemaLoaderOptions,
+  JSONSchemaPubSubOperationConfig,
+} from '@omnigraph/json-schema';
 
 export interface OpenAPILoaderOptions extends Partial<JSONSchemaLoaderOptions> {
   // The URL or FileSystem path to the OpenAPI Document.
@@ -6,6 +9,25 @@ export interface OpenAPILoaderOptions extends Partial<JSONSchemaLoaderOptions> {
   selectQueryOrMutationField?: OpenAPILoaderSelectQueryOrMutationFieldConfig[];
   fallbackFormat?: 'json' | 'yaml' | 'js' | 'ts';
   jsonApi?: boolean;
+  /**
+   * Exposes the paginated list operations as Relay connections
+   * by detecting the pagination from the query parameters and the responses
+   */
+  pagination?: boolean;
+  /**
+   * Path of the webhook endpoint of the gateway; OpenAPI 3.1 `webhooks` are expected in
+   * `{webhooksPath}/{webhookName}`
+   * @default /webhooks
+   */
+  webhooksPath?: string;
+  /**
+   * Operations to call when a subscription to a webhook or a callback starts or ends by the name of
+   * the subscription field, e.g. to register the webhook URL of the gateway in the upstream
+   */
+  webhookRegistrations?: Record<
+    string,
+    Pick<JSONSchemaPubSubOperationConfig, 'subscribe' | 'unsubscribe'>
+  >;
 }
 
 export interface OpenAPILoaderSelectQueryOrMutationFieldConfig {
@@ -1,4 +1,11 @@
 import { camelCase } from 'change-case';
+import type { JSONSchemaObject } from 'json-machete';
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import type { Logger } from '@graphql-mesh/types';
+import type {
+  JSONSchemaLoaderOptions,
+  JSONSchemaOperationPaginationConfig,
+} from '@omnigraph/json-schema';
 
 export function getFieldNameFromPath(path: string, method: string, responseTypeSchemaRef: string) {
   // Replace identifiers with "by"
@@ -47,3 +54,198 @@ export function getFieldNameFromPath(path: string, method: string, responseTypeS
   }
   return methodPrefix;
 }
+
+export function getSecuritySchemesFromOpenAPI(
+  oasOrSwagger: OpenAPIV3.Document | OpenAPIV2.Document,
+  logger: Logger,
+) {
+  const securitySchemeObjs =
+    'components' in oasOrSwagger
+      ? oasOrSwagger.components?.securitySchemes
+      : (oasOrSwagger as OpenAPIV2.Document).securityDefinitions;
+  if (!securitySchemeObjs) {
+    return undefined;
+  }
+  const securitySchemes: JSONSchemaLoaderOptions['securitySchemes'] = {};
+  for (const schemeName in securitySchemeObjs) {
+    const securitySchemeObj = securitySchemeObjs[schemeName] as
+      | OpenAPIV3.SecuritySchemeObject
+      | OpenAPIV2.SecuritySchemeObject;
+    switch (securitySchemeObj.type) {
+      case 'apiKey':
+        securitySchemes[schemeName] = {
+          type: 'apiKey',
+          in: securitySchemeObj.in as 'header' | 'query' | 'cookie',
+          parameterName: securitySchemeObj.name,
+        };
+        break;
+      // Swagger 2.0
+      case 'basic':
+        securitySchemes[schemeName] = {
+          type: 'http',
+          scheme: 'basic',
+        };
+        break;
+      case 'http':
+        securitySchemes[schemeName] = {
+          type: 'http',
+          scheme: securitySchemeObj.scheme.toLowerCase(),
+        };
+        break;
+      case 'oauth2': {
+        // Only the client credentials flow can be handled without a user interaction
+        const tokenUrl =
+          'flows' in securitySchemeObj
+            ? securitySchemeObj.flows.clientCredentials?.tokenUrl
+            : securitySchemeObj.flow === 'application'
+              ? securitySchemeObj.tokenUrl
+              : undefined;
+        securitySchemes[schemeName] = {
+          type: 'oauth2',
+          tokenUrl,
+        };
+        break;
+      }
+      case 'openIdConnect':
+        securitySchemes[schemeName] = {
+          type: 'openIdConnect',
+        };
+        break;
+      default:
+        logger.warn(
+          `Security scheme ${schemeName} with type ${(securitySchemeObj as any).type} is not supported`,
+        );
+    }
+  }
+  return securitySchemes;
+}
+
+const PAGE_PARAMS = ['page', 'page_number', 'pageNumber'];
+const LIMIT_PARAMS = [
+  'per_page',
+  'perPage',
+  'page_size',
+  'pageSize',
+  'limit',
+  'size',
+  'max_results',
+  'maxResults',
+];
+const OFFSET_PARAMS = ['offset', 'skip'];
+const CURSOR_PARAMS = [
+  'cursor',
+  'after',
+  'page_token',
+  'pageToken',
+  'next_token',
+  'nextToken',
+  'starting_after',
+];
+const NEXT_CURSOR_PROPERTIES = [
+  'next_cursor',
+  'nextCursor',
+  'next_page_token',
+  'nextPageToken',
+  'next_token',
+  'nextToken',
+];
+const ITEMS_PROPERTIES = ['data', 'items', 'results', 'records', 'entries', 'values'];
+
+function isArraySchema(schema: JSONSchemaObject) {
+  return schema?.type === 'array' || (schema?.items != null && schema.type == null);
+}
+
+function getItemsPath(responseSchema: JSONSchemaObject): string | undefined | false {
+  if (isArraySchema(responseSchema)) {
+    return undefined;
+  }
+  const properties = responseSchema?.properties || {};
+  const itemsProperty =
+    ITEMS_PROPERTIES.find(propertyName => isArraySchema(properties[propertyName])) ||
+    (Object.keys(properties) as string[]).filter(propertyName =>
+      isArraySchema(properties[propertyName]),
+    );
+  if (typeof itemsProperty === 'string') {
+    return itemsProperty;
+  }
+  // The items cannot be guessed if there are more lists in the response
+  if (itemsProperty.length === 1) {
+    return itemsProperty[0];
+  }
+  return false;
+}
+
+function getNextCursorPath(responseSchema: JSONSchemaObject) {
+  const properties = responseSchema?.properties || {};
+  const nextCursorProperty = NEXT_CURSOR_PROPERTIES.find(propertyName => properties[propertyName]);
+  if (nextCursorProperty) {
+    return nextCursorProperty;
+  }
+  // e.g. `meta.next_cursor` or `response_metadata.next_cursor`
+  for (const propertyName in properties) {
+    const nestedNextCursorPath = NEXT_CURSOR_PROPERTIES.find(
+      nestedPropertyName => properties[propertyName]?.properties?.[nestedPropertyName],
+    );
+    if (nestedNextCursorPath) {
+      return `${propertyName}.${nestedNextCursorPath}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Guesses how the operation paginates from the well-known names of the query parameters,
+ * the response properties and the `Link` header
+ */
+export function getPaginationConfigFromOpenAPIOperation(
+  queryParamNames: string[],
+  responseSchema: JSONSchemaObject,
+  responseHeaderNames: string[],
+): JSONSchemaOperationPaginationConfig | undefined {
+  const itemsPath = getItemsPath(responseSchema);
+  if (itemsPath === false) {
+    return undefined;
+  }
+  const findParam = (candidates: string[]) =>
+    candidates.find(candidate => queryParamNames.includes(candidate));
+  const limitParam = findParam(LIMIT_PARAMS);
+  if (responseHeaderNames.some(headerName => headerName.toLowerCase() === 'link')) {
+    return {
+      type: 'link',
+      limitParam,
+      itemsPath,
+    };
+  }
+  const cursorParam = findParam(CURSOR_PARAMS);
+  if (cursorParam) {
+    const nextCursorPath = getNextCursorPath(responseSchema);
+    if (nextCursorPath) {
+      return {
+        type: 'cursor',
+        cursorParam,
+        limitParam,
+        itemsPath,
+        nextCursorPath,
+      };
+    }
+  }
+  const pageParam = findParam(PAGE_PARAMS);
+  if (pageParam) {
+    return {
+      type: 'page',
+      pageParam,
+      limitParam,
+      itemsPath,
+    };
+  }
+  const offsetParam = findParam(OFFSET_PARAMS);
+  if (offsetParam && limitParam) {
+    return {
+      type: 'offset',
+      offsetParam,
+      limitParam,
+      itemsPath,
+    };
+  }
+  return undefined;
+}
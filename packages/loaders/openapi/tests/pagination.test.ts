@@ -0,0 +1,316 @@
+import { parse } from 'graphql';
+import { normalizedExecutor } from '@graphql-tools/executor';
+import { Response } from '@whatwg-node/fetch';
+import { getJSONSchemaOptionsFromOpenAPIOptions } from '../src/getJSONSchemaOptionsFromOpenAPIOptions.js';
+import { loadGraphQLSchemaFromOpenAPI } from '../src/loadGraphQLSchemaFromOpenAPI.js';
+
+describe('OpenAPI Loader: Pagination', () => {
+  const pets = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, name: `Pet ${i + 1}` }));
+  let requestedUrls: string[];
+  let commitsLinkOrigin: string;
+
+  const fetch = async (input: string) => {
+    requestedUrls.push(input);
+    const url = new URL(input);
+    switch (url.pathname) {
+      case '/pets': {
+        const page = Number(url.searchParams.get('page') || 1);
+        const perPage = Number(url.searchParams.get('per_page') || 2);
+        return Response.json(pets.slice((page - 1) * perPage, page * perPage));
+      }
+      case '/events': {
+        const start = Number(url.searchParams.get('cursor') || 0);
+        const limit = Number(url.searchParams.get('limit') || 2);
+        const end = start + limit;
+        return Response.json({
+          data: pets.slice(start, end).map(pet => ({
+            id: `event-${pet.id}`,
+            type: url.searchParams.get('type'),
+          })),
+          meta: {
+            next_cursor: end < pets.length ? end.toString() : null,
+          },
+        });
+      }
+      case '/commits': {
+        const page = Number(url.searchParams.get('page') || 1);
+        const perPage = Number(url.searchParams.get('per_page') || 2);
+        const headers: Record<string, string> = {};
+        if (page * perPage < pets.length) {
+          headers.link = `<${commitsLinkOrigin}/commits?per_page=${perPage}&page=${page + 1}>; rel="next"`;
+        }
+        return Response.json(
+          pets.slice((page - 1) * perPage, page * perPage).map(pet => ({ sha: `sha-${pet.id}` })),
+          { headers },
+        );
+      }
+    }
+    return new Response(null, { status: 404 });
+  };
+
+  beforeEach(() => {
+    requestedUrls = [];
+    commitsLinkOrigin = 'http://localhost:4001';
+  });
+
+  function loadSchema() {
+    return loadGraphQLSchemaFromOpenAPI('test', {
+      source: './fixtures/pagination.yml',
+      cwd: __dirname,
+      fetch: fetch as any,
+      pagination: true,
+    });
+  }
+
+  it('detects the pagination of the operations', async () => {
+    const { operations } = await getJSONSchemaOptionsFromOpenAPIOptions('test', {
+      source: './fixtures/pagination.yml',
+      cwd: __dirname,
+      pagination: true,
+    });
+    const paginationByField = Object.fromEntries(
+      operations.map(operation => [
+        operation.field,
+        'pagination' in operation ? operation.pagination : undefined,
+      ]),
+    );
+    expect(paginationByField).toEqual({
+      pets: {
+        type: 'page',
+        pageParam: 'page',
+        limitParam: 'per_page',
+        itemsPath: undefined,
+      },
+      events: {
+        type: 'cursor',
+        cursorParam: 'cursor',
+        limitParam: 'limit',
+        itemsPath: 'data',
+        nextCursorPath: 'meta.next_cursor',
+      },
+      commits: {
+        type: 'link',
+        limitParam: 'per_page',
+        itemsPath: undefined,
+      },
+      search: {
+        type: 'offset',
+        offsetParam: 'offset',
+        limitParam: 'limit',
+        itemsPath: 'results',
+      },
+      pet: undefined,
+    });
+  });
+
+  it('does not detect the pagination unless enabled', async () => {
+    const { operations } = await getJSONSchemaOptionsFromOpenAPIOptions('test', {
+      source: './fixtures/pagination.yml',
+      cwd: __dirname,
+    });
+    expect(operations.some(operation => 'pagination' in operation)).toBe(false);
+  });
+
+  it('translates the cursors into page numbers', async () => {
+    const schema = await loadSchema();
+    const query = parse(/* GraphQL */ `
+      query Pets($after: String) {
+        pets(first: 3, after: $after) {
+          edges {
+            node {
+              id
+            }
+          }
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            endCursor
+          }
+        }
+      }
+    `);
+    const firstResult: any = await normalizedExecutor({ schema, document: query });
+    expect(firstResult.data.pets.edges.map(edge => edge.node.id)).toEqual([1, 2, 3]);
+    expect(firstResult.data.pets.pageInfo).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: false,
+    });
+    const secondResult: any = await normalizedExecutor({
+      schema,
+      document: query,
+      variableValues: {
+        after: firstResult.data.pets.pageInfo.endCursor,
+      },
+    });
+    expect(secondResult.data.pets.edges.map(edge => edge.node.id)).toEqual([4, 5]);
+    expect(secondResult.data.pets.pageInfo).toMatchObject({
+      hasNextPage: false,
+      hasPreviousPage: true,
+    });
+    expect(requestedUrls).toEqual([
+      'http://localhost:4001/pets?page=1&per_page=3',
+      'http://localhost:4001/pets?page=2&per_page=3',
+    ]);
+  });
+
+  it('follows the cursors of the upstream with the other arguments', async () => {
+    const schema = await loadSchema();
+    const result: any = await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        query {
+          events(first: 5, type: "click") {
+            edges {
+              node {
+                id
+                type
+              }
+            }
+            pageInfo {
+              hasNextPage
+            }
+          }
+        }
+      `),
+    });
+    expect(result).toEqual({
+      data: {
+        events: {
+          edges: pets.map(pet => ({
+            node: {
+              id: `event-${pet.id}`,
+              type: 'click',
+            },
+          })),
+          pageInfo: {
+            hasNextPage: false,
+          },
+        },
+      },
+    });
+    // `limit` follows `first`, so a single request is enough
+    expect(requestedUrls).toEqual(['http://localhost:4001/events?limit=5&type=click']);
+  });
+
+  it('follows the next links in Link header', async () => {
+    const schema = await loadSchema();
+    const result: any = await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        query {
+          commits(first: 2) {
+            edges {
+              node {
+                sha
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      `),
+    });
+    expect(result.data.commits.edges.map(edge => edge.node.sha)).toEqual(['sha-1', 'sha-2']);
+    expect(result.data.commits.pageInfo.hasNextPage).toBe(true);
+    const nextResult: any = await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        query ($after: String) {
+          commits(first: 10, after: $after) {
+            edges {
+              node {
+                sha
+              }
+            }
+            pageInfo {
+              hasNextPage
+            }
+          }
+        }
+      `),
+      variableValues: {
+        after: result.data.commits.pageInfo.endCursor,
+      },
+    });
+    expect(nextResult.data.commits.edges.map(edge => edge.node.sha)).toEqual([
+      'sha-3',
+      'sha-4',
+      'sha-5',
+    ]);
+    expect(nextResult.data.commits.pageInfo.hasNextPage).toBe(false);
+    expect(requestedUrls.slice(1)).toEqual([
+      'http://localhost:4001/commits?per_page=2&page=2',
+      'http://localhost:4001/commits?per_page=2&page=3',
+    ]);
+  });
+
+  async function fetchNextCommits() {
+    const schema = await loadSchema();
+    const document = parse(/* GraphQL */ `
+      query ($after: String) {
+        commits(first: 2, after: $after) {
+          edges {
+            node {
+              sha
+            }
+          }
+          pageInfo {
+            endCursor
+          }
+        }
+      }
+    `);
+    const result: any = await normalizedExecutor({ schema, document });
+    return normalizedExecutor({
+      schema,
+      document,
+      variableValues: {
+        after: result.data.commits.pageInfo.endCursor,
+      },
+    }) as Promise<any>;
+  }
+
+  it('resolves the relative next links against the URL of the operation', async () => {
+    commitsLinkOrigin = '';
+    const nextResult = await fetchNextCommits();
+    expect(nextResult.data.commits.edges.map(edge => edge.node.sha)).toEqual(['sha-3', 'sha-4']);
+    expect(requestedUrls).toEqual([
+      'http://localhost:4001/commits?per_page=2',
+      'http://localhost:4001/commits?per_page=2&page=2',
+    ]);
+  });
+
+  it('does not follow the next links to the other origins', async () => {
+    commitsLinkOrigin = 'http://localhost:4002';
+    const nextResult = await fetchNextCommits();
+    expect(nextResult.errors?.[0]?.message).toBe(
+      'The link of the next page in commits is not on the origin of the operation http://localhost:4001',
+    );
+    expect(requestedUrls).toEqual(['http://localhost:4001/commits?per_page=2']);
+  });
+
+  it('returns the first page without `first`', async () => {
+    const schema = await loadSchema();
+    const result: any = await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        query {
+          pets {
+            edges {
+              node {
+                id
+              }
+            }
+            pageInfo {
+              hasNextPage
+            }
+          }
+        }
+      `),
+    });
+    expect(result.data.pets.edges.map(edge => edge.node.id)).toEqual([1, 2]);
+    expect(result.data.pets.pageInfo.hasNextPage).toBe(true);
+  });
+});
@@ -0,0 +1,326 @@
+import { parse } from 'graphql';
+import { normalizedExecutor } from '@graphql-tools/executor';
+import { printSchemaWithDirectives } from '@graphql-tools/utils';
+import { Response } from '@whatwg-node/fetch';
+import { getJSONSchemaOptionsFromOpenAPIOptions } from '../src/getJSONSchemaOptionsFromOpenAPIOptions.js';
+import {
+  loadGraphQLSchemaFromOpenAPI,
+  loadNonExecutableGraphQLSchemaFromOpenAPI,
+  processDirectives,
+} from '../src/loadGraphQLSchemaFromOpenAPI.js';
+
+describe('OpenAPI Loader: Security Schemes', () => {
+  let issuedTokens: Map<string, string>;
+  let tokenRequests: URLSearchParams[];
+
+  const fetch = async (input: string, init: RequestInit) => {
+    const url = new URL(input);
+    const headers = init.headers as Record<string, string>;
+    switch (url.pathname) {
+      case '/oauth/token': {
+        if (headers.authorization !== `Basic ${btoa('my-client:my-secret')}`) {
+          return Response.json({ error: 'invalid_client' }, { status: 401 });
+        }
+        const body = new URLSearchParams(init.body as string);
+        tokenRequests.push(body);
+        const accessToken = `token-${tokenRequests.length}`;
+        issuedTokens.set(accessToken, body.get('scope'));
+        return Response.json({
+          access_token: accessToken,
+          token_type: 'Bearer',
+          expires_in: 3600,
+        });
+      }
+      case '/me': {
+        const accessToken = headers.authorization?.replace('Bearer ', '');
+        if (!issuedTokens.has(accessToken)) {
+          return Response.json({ message: 'Unauthorized' }, { status: 401 });
+        }
+        return Response.json({
+          clientId: 'my-client',
+          scope: issuedTokens.get(accessToken),
+        });
+      }
+      case '/stats':
+        if (headers['x-api-key'] === 'revoked-key') {
+          return Response.json({ message: 'Internal Server Error' }, { status: 500 });
+        }
+        return Response.json({
+          apiKey: `${headers['x-api-key']}:${url.searchParams.get('api_key')}`,
+          authorization: headers.authorization,
+        });
+      case '/health':
+        return Response.json({
+          authorization: headers.authorization,
+        });
+    }
+    return new Response(null, { status: 404 });
+  };
+
+  beforeEach(() => {
+    issuedTokens = new Map();
+    tokenRequests = [];
+  });
+
+  afterEach(() => {
+    delete process.env.OAUTH_CLIENT_SECRET;
+  });
+
+  function loadSchema(securityCredentials: Record<string, Record<string, string>>) {
+    return loadGraphQLSchemaFromOpenAPI('test', {
+      source: './fixtures/security-schemes.yml',
+      cwd: __dirname,
+      fetch: fetch as any,
+      securityCredentials,
+    });
+  }
+
+  it('records the security requirements of the operations', async () => {
+    const { operations, securitySchemes } = await getJSONSchemaOptionsFromOpenAPIOptions('test', {
+      source: './fixtures/security-schemes.yml',
+      cwd: __dirname,
+    });
+    const securityByField = Object.fromEntries(
+      operations.map(operation => [
+        operation.field,
+        'security' in operation ? operation.security : undefined,
+      ]),
+    );
+    expect(securityByField).toEqual({
+      me: [{ oauth: ['read'] }],
+      stats: [{ apiKeyHeader: [], apiKeyQuery: [] }, { oauth: ['stats'] }],
+      health: undefined,
+    });
+    expect(securitySchemes).toEqual({
+      apiKeyHeader: {
+        type: 'apiKey',
+        in: 'header',
+        parameterName: 'X-API-Key',
+      },
+      apiKeyQuery: {
+        type: 'apiKey',
+        in: 'query',
+        parameterName: 'api_key',
+      },
+      oauth: {
+        type: 'oauth2',
+        tokenUrl: 'http://localhost:4001/oauth/token',
+      },
+    });
+  });
+
+  it('fetches and caches OAuth2 client credentials tokens', async () => {
+    process.env.OAUTH_CLIENT_SECRET = 'my-secret';
+    const schema = await loadSchema({
+      oauth: {
+        clientId: 'my-client',
+        clientSecret: '{env.OAUTH_CLIENT_SECRET}',
+      },
+    });
+    const document = parse(/* GraphQL */ `
+      query {
+        me {
+          clientId
+          scope
+        }
+      }
+    `);
+    for (let i = 0; i < 2; i++) {
+      const result = await normalizedExecutor({ schema, document });
+      expect(result).toEqual({
+        data: {
+          me: {
+            clientId: 'my-client',
+            scope: 'read',
+          },
+        },
+      });
+    }
+    expect(tokenRequests).toHaveLength(1);
+    expect(tokenRequests[0].get('grant_type')).toBe('client_credentials');
+  });
+
+  it('refreshes the OAuth2 token when the upstream responds with 401', async () => {
+    const schema = await loadSchema({
+      oauth: {
+        clientId: 'my-client',
+        clientSecret: 'my-secret',
+      },
+    });
+    const document = parse(/* GraphQL */ `
+      query {
+        me {
+          scope
+        }
+      }
+    `);
+    await normalizedExecutor({ schema, document });
+    // Revoke the token before it expires
+    issuedTokens.clear();
+    const result = await normalizedExecutor({ schema, document });
+    expect(result).toEqual({
+      data: {
+        me: {
+          scope: 'read',
+        },
+      },
+    });
+    expect(tokenRequests).toHaveLength(2);
+  });
+
+  it('uses the first security requirement satisfied by the credentials', async () => {
+    const document = parse(/* GraphQL */ `
+      query {
+        stats {
+          apiKey
+          authorization
+        }
+      }
+    `);
+    const schemaWithApiKeys = await loadSchema({
+      apiKeyHeader: {
+        apiKey: 'header-key',
+      },
+      apiKeyQuery: {
+        apiKey: 'query-key',
+      },
+      oauth: {
+        clientId: 'my-client',
+        clientSecret: 'my-secret',
+      },
+    });
+    expect(await normalizedExecutor({ schema: schemaWithApiKeys, document })).toEqual({
+      data: {
+        stats: {
+          apiKey: 'header-key:query-key',
+          authorization: null,
+        },
+      },
+    });
+    expect(tokenRequests).toHaveLength(0);
+    // Both API keys are needed together, so OAuth2 is used instead
+    const schemaWithOAuth2 = await loadSchema({
+      apiKeyHeader: {
+        apiKey: 'header-key',
+      },
+      oauth: {
+        clientId: 'my-client',
+        clientSecret: 'my-secret',
+      },
+    });
+    expect(await normalizedExecutor({ schema: schemaWithOAuth2, document })).toEqual({
+      data: {
+        stats: {
+          apiKey: 'undefined:null',
+          authorization: 'Bearer token-1',
+        },
+      },
+    });
+    expect(tokenRequests[0].get('scope')).toBe('stats');
+  });
+
+  it('keeps the API keys in the query out of the errors', async () => {
+    const schema = await loadSchema({
+      apiKeyHeader: {
+        apiKey: 'revoked-key',
+      },
+      apiKeyQuery: {
+        apiKey: 'query-key',
+      },
+    });
+    const result = await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        query {
+          stats {
+            apiKey
+          }
+        }
+      `),
+    });
+    expect(result).toMatchObject({
+      errors: [
+        {
+          extensions: {
+            request: {
+              url: 'http://localhost:4001/stats',
+            },
+            response: {
+              status: 500,
+            },
+          },
+        },
+      ],
+    });
+    expect(JSON.stringify(result)).not.toContain('query-key');
+  });
+
+  it('keeps the credentials out of the schema and takes them in the runtime', async () => {
+    const nonExecutableSchema = await loadNonExecutableGraphQLSchemaFromOpenAPI('test', {
+      source: './fixtures/security-schemes.yml',
+      cwd: __dirname,
+      securityCredentials: {
+        oauth: {
+          clientId: 'my-client',
+          clientSecret: 'my-secret',
+        },
+      },
+    });
+    const sdl = printSchemaWithDirectives(nonExecutableSchema);
+    expect(sdl).toContain('@securityScheme');
+    expect(sdl).not.toContain('my-secret');
+    const schema = processDirectives(nonExecutableSchema, {
+      globalFetch: fetch as any,
+      securityCredentials: {
+        oauth: {
+          clientId: 'my-client',
+          clientSecret: 'my-secret',
+        },
+      },
+    });
+    const result = await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        query {
+          me {
+            clientId
+          }
+        }
+      `),
+    });
+    expect(result).toEqual({
+      data: {
+        me: {
+          clientId: 'my-client',
+        },
+      },
+    });
+  });
+
+  it('does not send credentials for the operations without security requirements', async () => {
+    const schema = await loadSchema({
+      oauth: {
+        clientId: 'my-client',
+        clientSecret: 'my-secret',
+      },
+    });
+    const result = await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        query {
+          health {
+            authorization
+          }
+        }
+      `),
+    });
+    expect(result).toEqual({
+      data: {
+        health: {
+          authorization: null,
+        },
+      },
+    });
+    expect(tokenRequests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,156 @@
+import { parse } from 'graphql';
+import { PubSub } from '@graphql-mesh/utils';
+import { normalizedExecutor } from '@graphql-tools/executor';
+import { Response } from '@whatwg-node/fetch';
+import { getJSONSchemaOptionsFromOpenAPIOptions } from '../src/getJSONSchemaOptionsFromOpenAPIOptions.js';
+import { loadGraphQLSchemaFromOpenAPI } from '../src/loadGraphQLSchemaFromOpenAPI.js';
+
+describe('OpenAPI Loader: Webhooks', () => {
+  let requests: { method: string; path: string; body?: any }[];
+  let pubsub: PubSub;
+
+  const fetch = async (input: string, init: RequestInit) => {
+    const url = new URL(input);
+    requests.push({
+      method: init.method,
+      path: url.pathname,
+      body: init.body ? JSON.parse(init.body as string) : undefined,
+    });
+    if (init.method === 'POST' && url.pathname === '/webhooks') {
+      return Response.json(
+        {
+          id: 'webhook-1',
+          url: JSON.parse(init.body as string).url,
+        },
+        { status: 201 },
+      );
+    }
+    if (init.method === 'DELETE') {
+      return new Response(null, { status: 204 });
+    }
+    return new Response(null, { status: 404 });
+  };
+
+  beforeEach(() => {
+    requests = [];
+    pubsub = new PubSub();
+  });
+
+  it('creates subscription operations from the webhooks', async () => {
+    const { operations } = await getJSONSchemaOptionsFromOpenAPIOptions('test', {
+      source: './fixtures/webhooks.yml',
+      cwd: __dirname,
+      webhooksPath: '/hooks/',
+    });
+    const webhookOperations = operations.filter(operation => 'pubsubTopic' in operation);
+    expect(webhookOperations).toMatchObject([
+      {
+        type: 'subscription',
+        field: 'petCreated',
+        description: 'A new pet is created',
+        pubsubTopic: 'webhook:post:/hooks/petCreated',
+      },
+      {
+        type: 'subscription',
+        field: 'onPetDeleted',
+        pubsubTopic: 'webhook:post:/hooks/petDeleted',
+        deprecated: true,
+      },
+    ]);
+  });
+
+  it('publishes the webhook payloads to the subscribers', async () => {
+    const schema = await loadGraphQLSchemaFromOpenAPI('test', {
+      source: './fixtures/webhooks.yml',
+      cwd: __dirname,
+      fetch: fetch as any,
+      pubsub,
+    });
+    const result = (await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        subscription {
+          petCreated {
+            id
+            name
+          }
+        }
+      `),
+    })) as AsyncIterableIterator<any>;
+    pubsub.publish('webhook:post:/webhooks/petCreated' as any, { id: 1, name: 'Rex' });
+    expect(await result.next()).toEqual({
+      done: false,
+      value: {
+        data: {
+          petCreated: {
+            id: 1,
+            name: 'Rex',
+          },
+        },
+      },
+    });
+    await result.return();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('registers the webhook in the upstream during the subscription', async () => {
+    const schema = await loadGraphQLSchemaFromOpenAPI('test', {
+      source: './fixtures/webhooks.yml',
+      cwd: __dirname,
+      fetch: fetch as any,
+      pubsub,
+      webhookRegistrations: {
+        petCreated: {
+          subscribe: {
+            field: 'createWebhook',
+            args: {
+              'input.url': 'http://localhost:4000/webhooks/petCreated',
+            },
+          },
+          unsubscribe: {
+            field: 'deleteWebhook',
+            args: {
+              id: '{root.id}',
+            },
+          },
+        },
+      },
+    });
+    const result = (await normalizedExecutor({
+      schema,
+      document: parse(/* GraphQL */ `
+        subscription {
+          petCreated {
+            name
+          }
+        }
+      `),
+    })) as AsyncIterableIterator<any>;
+    expect(requests).toEqual([
+      {
+        method: 'POST',
+        path: '/webhooks',
+        body: {
+          url: 'http://localhost:4000/webhooks/petCreated',
+        },
+      },
+    ]);
+    pubsub.publish('webhook:post:/webhooks/petCreated' as any, { id: 1, name: 'Rex' });
+    expect(await result.next()).toEqual({
+      done: false,
+      value: {
+        data: {
+          petCreated: {
+            name: 'Rex',
+          },
+        },
+      },
+    });
+    await result.return();
+    expect(requests[1]).toEqual({
+      method: 'DELETE',
+      path: '/webhooks/webhook-1',
+    });
+    expect(requests).toHaveLength(2);
+  });
+});
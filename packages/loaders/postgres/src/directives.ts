@@ -0,0 +1,143 @@
+import { DirectiveLocation, GraphQLDirective, GraphQLList, GraphQLString } from 'graphql';
+
+export const PostgresTableDirective = new GraphQLDirective({
+  name: 'postgresTable',
+  locations: [DirectiveLocation.OBJECT],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    schema: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const PostgresColumnDirective = new GraphQLDirective({
+  name: 'postgresColumn',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    name: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const PostgresSelectDirective = new GraphQLDirective({
+  name: 'postgresSelect',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    schema: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+    columnMap: {
+      type: new GraphQLList(new GraphQLList(GraphQLString)),
+    },
+  },
+});
+
+export const PostgresCountDirective = new GraphQLDirective({
+  name: 'postgresCount',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    schema: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const PostgresInsertDirective = new GraphQLDirective({
+  name: 'postgresInsert',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    schema: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const PostgresUpdateDirective = new GraphQLDirective({
+  name: 'postgresUpdate',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    schema: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const PostgresDeleteDirective = new GraphQLDirective({
+  name: 'postgresDelete',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    schema: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const PostgresEnumValueDirective = new GraphQLDirective({
+  name: 'postgresEnumValue',
+  locations: [DirectiveLocation.ENUM_VALUE],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    value: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const TransportDirective = new GraphQLDirective({
+  name: 'transport',
+  locations: [DirectiveLocation.SCHEMA],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    kind: {
+      type: GraphQLString,
+    },
+    location: {
+      type: GraphQLString,
+    },
+  },
+  isRepeatable: true,
+});
@@ -0,0 +1,24 @@
+import type { GraphQLSchema } from 'graphql';
+import { loadGraphQLSchemaFromPostgres, type LoadGraphQLSchemaFromPostgresOpts } from './schema.js';
+
+export * from './schema.js';
+
+export type GraphQLPostgresLoaderOpts = LoadGraphQLSchemaFromPostgresOpts;
+
+export default loadGraphQLSchemaFromPostgres;
+
+export function loadGraphQLSchemaFromOptions(
+  opts: GraphQLPostgresLoaderOpts,
+  subgraphName = 'postgres',
+): Promise<GraphQLSchema> {
+  return loadGraphQLSchemaFromPostgres(subgraphName, opts);
+}
+
+export function loadPostgresSubgraph(name: string, opts: GraphQLPostgresLoaderOpts) {
+  return () => ({
+    name,
+    schema$: loadGraphQLSchemaFromPostgres(name, opts),
+  });
+}
+
+export { getPostgresExecutor } from '@graphql-mesh/transport-postgres';
@@ -0,0 +1,22 @@
+CREATE TABLE customers (
+  id INTEGER PRIMARY KEY,
+  full_name TEXT NOT NULL,
+  city TEXT NOT NULL
+);
+CREATE TABLE orders (
+  id INTEGER PRIMARY KEY,
+  customer_id INTEGER NOT NULL REFERENCES customers (id),
+  total INTEGER NOT NULL,
+  paid BOOLEAN NOT NULL
+);
+
+INSERT INTO customers (id, full_name, city) VALUES
+  (1, 'Jane Smith', 'Berlin'),
+  (2, 'John Doe', 'Paris'),
+  (3, 'Anna Smith', 'Rome'),
+  (4, 'Mark Brown', 'Berlin');
+INSERT INTO orders (id, customer_id, total, paid) VALUES
+  (1, 1, 100, true),
+  (2, 1, 250, false),
+  (3, 2, 80, true),
+  (4, 3, 40, false);
@@ -0,0 +1,152 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse, type GraphQLObjectType } from 'graphql';
+import type pg from 'pg';
+import { newDb } from 'pg-mem';
+import type { ExecutionResult } from '@graphql-tools/utils';
+import { getPostgresExecutor, loadGraphQLSchemaFromPostgres } from '../src/index.js';
+
+describe('Postgres', () => {
+  let pool: pg.Pool;
+  let executor: ReturnType<typeof getPostgresExecutor>;
+  beforeEach(async () => {
+    const db = newDb();
+    db.public.none(readFileSync(join(__dirname, 'fixtures/store.sql'), 'utf-8'));
+    const { Pool } = db.adapters.createPg();
+    pool = new Pool();
+    const schema = await loadGraphQLSchemaFromPostgres('store', { pool });
+    executor = getPostgresExecutor({
+      subgraph: schema,
+      pool,
+    });
+  });
+  afterEach(() => pool.end());
+  async function execute(query: string) {
+    return (await executor({
+      document: parse(query),
+      context: {},
+    })) as ExecutionResult;
+  }
+  // pg-mem has neither the catalogs of the constraints nor the transactions across the queries,
+  // so the primary keys, the relations and the rollbacks are covered by the e2e tests
+  it('generates the types, the queries and the mutations', async () => {
+    const schema = await loadGraphQLSchemaFromPostgres('store', { pool });
+    const customerType = schema.getType('Customer') as GraphQLObjectType;
+    expect(Object.keys(customerType.getFields())).toEqual(['id', 'fullName', 'city']);
+    expect(Object.keys(schema.getQueryType().getFields())).toEqual(
+      expect.arrayContaining(['customers', 'countCustomers', 'orders', 'countOrders']),
+    );
+    expect(Object.keys(schema.getMutationType().getFields())).toEqual(
+      expect.arrayContaining(['createCustomer', 'updateCustomers', 'deleteCustomers']),
+    );
+  });
+  it('filters, orders and paginates', async () => {
+    const result = await execute(/* GraphQL */ `
+      {
+        customers(
+          where: { or: [{ city: { eq: "Berlin" } }, { fullName: { ilike: "%smith" } }] }
+          orderBy: [{ fullName: desc }]
+          limit: 2
+          offset: 1
+        ) {
+          fullName
+        }
+        countOrders(where: { paid: { eq: false }, total: { gt: 50 } })
+      }
+    `);
+    expect(result).toEqual({
+      data: {
+        customers: [{ fullName: 'Jane Smith' }, { fullName: 'Anna Smith' }],
+        countOrders: 1,
+      },
+    });
+  });
+  it('inserts, updates and deletes', async () => {
+    expect(
+      await execute(/* GraphQL */ `
+        mutation {
+          createCustomer(input: { id: 5, fullName: "Eva Green", city: "Oslo" }) {
+            id
+            fullName
+            city
+          }
+        }
+      `),
+    ).toEqual({
+      data: {
+        createCustomer: { id: 5, fullName: 'Eva Green', city: 'Oslo' },
+      },
+    });
+    expect(
+      await execute(/* GraphQL */ `
+        mutation {
+          updateCustomers(where: { city: { eq: "Berlin" } }, input: { city: "Munich" })
+        }
+      `),
+    ).toEqual({ data: { updateCustomers: 2 } });
+    expect(
+      await execute(/* GraphQL */ `
+        mutation {
+          deleteOrders(where: { customerId: { in: [1, 2] } })
+        }
+      `),
+    ).toEqual({ data: { deleteOrders: 3 } });
+    expect(
+      await execute(/* GraphQL */ `
+        {
+          customers(where: { city: { in: ["Munich", "Oslo"] } }, orderBy: [{ id: asc }]) {
+            id
+            city
+          }
+          countOrders
+        }
+      `),
+    ).toEqual({
+      data: {
+        customers: [
+          { id: 1, city: 'Munich' },
+          { id: 4, city: 'Munich' },
+          { id: 5, city: 'Oslo' },
+        ],
+        countOrders: 1,
+      },
+    });
+  });
+  it('runs the mutations in transactions', async () => {
+    const statements: string[] = [];
+    const connect = pool.connect.bind(pool) as () => Promise<pg.PoolClient>;
+    pool.connect = (async () => {
+      const client = await connect();
+      const query = client.query.bind(client);
+      client.query = ((sql: string, params?: unknown[]) => {
+        statements.push(sql);
+        return query(sql, params);
+      }) as typeof client.query;
+      return client;
+    }) as typeof pool.connect;
+    const transactionalExecutor = getPostgresExecutor({
+      subgraph: await loadGraphQLSchemaFromPostgres('store', { pool }),
+      pool,
+      isolationLevel: 'SERIALIZABLE',
+    });
+    const result = (await transactionalExecutor({
+      document: parse(/* GraphQL */ `
+        mutation {
+          createCustomer(input: { id: 6, fullName: "Leo Stone", city: "Vienna" }) {
+            id
+          }
+          createOrder(input: { id: 1, customerId: 6, total: 10, paid: true }) {
+            id
+          }
+        }
+      `),
+      context: {},
+    })) as ExecutionResult;
+    // The order already exists
+    expect(result.errors?.length).toBeTruthy();
+    expect(result.data).toBeNull();
+    expect(statements).toHaveLength(4);
+    expect(statements[0]).toBe('BEGIN ISOLATION LEVEL SERIALIZABLE');
+    expect(statements[3]).toBe('ROLLBACK');
+  });
+});
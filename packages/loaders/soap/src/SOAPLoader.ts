@@ -6,6 +6,7 @@ import {
   GraphQLDirective,
   GraphQLFloat,
   GraphQLInt,
+  GraphQLList,
   GraphQLString,
 } from 'graphql';
 import type {
@@ -15,6 +16,7 @@ import type {
   InputTypeComposer,
   InputTypeComposerFieldConfigMapDefinition,
   ObjectTypeComposer,
+  ObjectTypeComposerArgumentConfigAsObjectDefinition,
   ObjectTypeComposerFieldConfigDefinition,
   ScalarTypeComposer,
 } from 'graphql-compose';
@@ -39,6 +41,7 @@ import {
 import { process } from '@graphql-mesh/cross-helpers';
 import type { ResolverDataBasedFactory } from '@graphql-mesh/string-interpolation';
 import { getInterpolatedHeadersFactory } from '@graphql-mesh/string-interpolation';
+import type { SOAPExecutorOptions } from '@graphql-mesh/transport-soap';
 import type { Logger, MeshFetch } from '@graphql-mesh/types';
 import {
   defaultImportFn,
@@ -52,6 +55,7 @@ import type {
   WSDLDefinition,
   WSDLMessage,
   WSDLObject,
+  WSDLPart,
   WSDLPartAttributes,
   WSDLPortType,
   XSComplexType,
@@ -65,7 +69,7 @@ import type {
 import type { SoapAnnotations } from './utils.js';
 import { PARSE_XML_OPTIONS } from './utils.js';
 
-export interface SOAPLoaderOptions {
+export interface SOAPLoaderOptions extends SOAPExecutorOptions {
   subgraphName: string;
   fetch?: MeshFetch;
   logger?: Logger;
@@ -73,8 +77,19 @@ export interface SOAPLoaderOptions {
   operationHeaders?: Record<string, string>;
   endpoint?: string;
   cwd?: string;
+  /**
+   * Accepts `base64Binary` inputs as `File` uploads sent as MTOM attachments
+   */
+  mtom?: boolean;
 }
 
+const XML_SCHEMA_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+
+const SOAP_BINDING_NAMESPACES = {
+  '1.1': 'http://schemas.xmlsoap.org/wsdl/soap/',
+  '1.2': 'http://schemas.xmlsoap.org/wsdl/soap12/',
+};
+
 const soapDirective = new GraphQLDirective({
   name: 'soap',
   locations: [DirectiveLocation.FIELD_DEFINITION],
@@ -91,6 +106,18 @@ const soapDirective = new GraphQLDirective({
     subgraph: {
       type: GraphQLString,
     },
+    soapVersion: {
+      type: GraphQLString,
+    },
+    soapAction: {
+      type: GraphQLString,
+    },
+    soapHeaders: {
+      type: new GraphQLList(GraphQLString),
+    },
+    soapFaults: {
+      type: new GraphQLList(GraphQLString),
+    },
   },
 });
 
@@ -107,6 +134,10 @@ const QUERY_PREFIXES = [
   'select',
 ];
 
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 function isQueryOperationName(operationName: string) {
   return QUERY_PREFIXES.some(prefix => operationName.toLowerCase().startsWith(prefix));
 }
@@ -143,6 +174,8 @@ export class SOAPLoader {
   private logger: Logger;
   private endpoint?: string;
   private cwd: string;
+  private executorOptions: SOAPExecutorOptions;
+  private mtom: boolean;
 
   constructor(options: SOAPLoaderOptions) {
     this.fetchFn = options.fetch || defaultFetchFn;
@@ -153,10 +186,15 @@ export class SOAPLoader {
     this.schemaHeadersFactory = getInterpolatedHeadersFactory(options.schemaHeaders || {});
     this.endpoint = options.endpoint;
     this.cwd = options.cwd;
+    this.mtom = options.mtom;
+    this.executorOptions = {
+      soapHeaders: options.soapHeaders,
+      wsSecurity: options.wsSecurity,
+    };
   }
 
   loadXMLSchemaNamespace() {
-    const namespace = 'http://www.w3.org/2001/XMLSchema';
+    const namespace = XML_SCHEMA_NAMESPACE;
     const simpleTypeGraphQLScalarMap = new Map<string, GraphQLScalarType>([
       ['anyType', GraphQLJSON],
       ['anyURI', GraphQLURL],
@@ -446,15 +484,82 @@ export class SOAPLoader {
             const { type, elementName } = this.getOutputTypeForMessage(
               this.getNamespaceMessageMap(messageNamespace).get(messageName),
             );
+            const bindingOperationObj = bindingObj.operation?.find(
+              bindingOperation => bindingOperation.attributes.name === operationName,
+            );
             const soapAnnotations: SoapAnnotations = {
               elementName,
               bindingNamespace,
               endpoint: this.endpoint || portObj.address[0].attributes.location,
               subgraph: this.subgraphName,
             };
+            const soapVersion = bindingObj.binding?.[0]?.attributes?.soapVersion;
+            if (soapVersion) {
+              soapAnnotations.soapVersion = soapVersion;
+            }
+            const soapAction = bindingOperationObj?.operation?.[0]?.attributes?.soapAction;
+            if (soapAction) {
+              soapAnnotations.soapAction = soapAction;
+            }
+            // Header parts can be in the input message or in a separate message
+            const headerParts = new Set<WSDLPart>();
+            const headerArgs: Record<string, ObjectTypeComposerArgumentConfigAsObjectDefinition> =
+              {};
+            for (const headerObj of bindingOperationObj?.input?.[0]?.header || []) {
+              const [headerMessageNamespaceAlias, headerMessageName] =
+                headerObj.attributes.message.split(':');
+              const headerMessageNamespace = bindingAliasMap.get(headerMessageNamespaceAlias);
+              if (!headerMessageNamespace) {
+                throw new Error(`Namespace alias: ${headerMessageNamespaceAlias} is undefined!`);
+              }
+              const headerMessageObj =
+                this.getNamespaceMessageMap(headerMessageNamespace).get(headerMessageName);
+              const headerPart = headerMessageObj?.part?.find(
+                part => part.attributes.name === headerObj.attributes.part,
+              );
+              if (!headerPart) {
+                throw new Error(
+                  `Part: ${headerObj.attributes.part} of message: ${headerMessageName} is not defined in ${headerMessageNamespace} needed for ${bindingName}->${operationName} header`,
+                );
+              }
+              headerParts.add(headerPart);
+              const [argName, argConfig] = this.getArgumentForPart(
+                headerPart,
+                this.aliasMap.get(headerMessageObj),
+              );
+              headerArgs[argName] = argConfig;
+            }
+            const headerArgNames = Object.keys(headerArgs);
+            if (headerArgNames.length) {
+              soapAnnotations.soapHeaders = headerArgNames;
+            }
+            // Detail elements of the declared faults to recognize them in the responses
+            const faultElementNames: string[] = [];
+            for (const faultObj of operationObj.fault || []) {
+              if (!faultObj.attributes.message) {
+                continue;
+              }
+              const [faultMessageNamespaceAlias, faultMessageName] =
+                faultObj.attributes.message.split(':');
+              const faultMessageNamespace = portTypeAliasMap.get(faultMessageNamespaceAlias);
+              if (!faultMessageNamespace) {
+                throw new Error(`Namespace alias: ${faultMessageNamespaceAlias} is undefined!`);
+              }
+              const faultMessageObj =
+                this.getNamespaceMessageMap(faultMessageNamespace).get(faultMessageName);
+              for (const part of faultMessageObj?.part || []) {
+                if (part.attributes.element) {
+                  faultElementNames.push(part.attributes.element.split(':').pop());
+                }
+              }
+            }
+            if (faultElementNames.length) {
+              soapAnnotations.soapFaults = faultElementNames;
+            }
             rootTC.addFields({
               [operationFieldName]: {
                 type,
+                args: headerArgs,
                 directives: [
                   {
                     name: 'soap',
@@ -479,47 +584,14 @@ export class SOAPLoader {
             }
             const aliasMap = this.aliasMap.get(inputMessageObj);
             for (const part of inputMessageObj.part) {
-              if (part.attributes.element) {
-                const [elementNamespaceAlias, elementName] = part.attributes.element.split(':');
+              if (headerParts.has(part)) {
+                continue;
+              }
+              const [argName, argConfig] = this.getArgumentForPart(part, aliasMap);
+              if (argName) {
                 rootTC.addFieldArgs(operationFieldName, {
-                  [elementName]: {
-                    type: () => {
-                      const elementNamespace =
-                        aliasMap.get(elementNamespaceAlias) ||
-                        part.attributes[elementNamespaceAlias as keyof WSDLPartAttributes];
-                      if (!elementNamespace) {
-                        throw new Error(
-                          `Namespace alias: ${elementNamespaceAlias} is not defined.`,
-                        );
-                      }
-                      return this.getInputTypeForTypeNameInNamespace({
-                        typeName: elementName,
-                        typeNamespace: elementNamespace,
-                      });
-                    },
-                    defaultValue: '',
-                  },
-                });
-              } else if (part.attributes.name) {
-                const partName = part.attributes.name;
-                rootTC.addFieldArgs(operationFieldName, {
-                  [partName]: {
-                    type: () => {
-                      const typeRef = part.attributes.type;
-                      const [typeNamespaceAlias, typeName] = typeRef.split(':');
-                      const typeNamespace = aliasMap.get(typeNamespaceAlias);
-                      if (!typeNamespace) {
-                        throw new Error(`Namespace alias: ${typeNamespaceAlias} is undefined!`);
-                      }
-                      const inputTC = this.getInputTypeForTypeNameInNamespace({
-                        typeName,
-                        typeNamespace,
-                      });
-                      if ('getFields' in inputTC && Object.keys(inputTC.getFields()).length === 0) {
-                        return GraphQLJSON;
-                      }
-                      return inputTC;
-                    },
+                  [argName]: {
+                    ...argConfig,
                     defaultValue: '',
                   },
                 });
@@ -531,6 +603,56 @@ export class SOAPLoader {
     }
   }
 
+  private getArgumentForPart(
+    part: WSDLPart,
+    aliasMap: Map<string, string>,
+  ): [string, ObjectTypeComposerArgumentConfigAsObjectDefinition] | [] {
+    if (part.attributes.element) {
+      const [elementNamespaceAlias, elementName] = part.attributes.element.split(':');
+      return [
+        elementName,
+        {
+          type: () => {
+            const elementNamespace =
+              aliasMap.get(elementNamespaceAlias) ||
+              part.attributes[elementNamespaceAlias as keyof WSDLPartAttributes];
+            if (!elementNamespace) {
+              throw new Error(`Namespace alias: ${elementNamespaceAlias} is not defined.`);
+            }
+            return this.getInputTypeForTypeNameInNamespace({
+              typeName: elementName,
+              typeNamespace: elementNamespace,
+            });
+          },
+        },
+      ];
+    }
+    if (part.attributes.name) {
+      return [
+        part.attributes.name,
+        {
+          type: () => {
+            const typeRef = part.attributes.type;
+            const [typeNamespaceAlias, typeName] = typeRef.split(':');
+            const typeNamespace = aliasMap.get(typeNamespaceAlias);
+            if (!typeNamespace) {
+              throw new Error(`Namespace alias: ${typeNamespaceAlias} is undefined!`);
+            }
+            const inputTC = this.getInputTypeForTypeNameInNamespace({
+              typeName,
+              typeNamespace,
+            });
+            if ('getFields' in inputTC && Object.keys(inputTC.getFields()).length === 0) {
+              return GraphQLJSON;
+            }
+            return inputTC;
+          },
+        },
+      ];
+    }
+    return [];
+  }
+
   private xmlParser = new XMLParser(PARSE_XML_OPTIONS);
 
   async fetchXSD(location: string, parentAliasMap = new Map<string, string>()) {
@@ -552,6 +674,23 @@ export class SOAPLoader {
   }
 
   async loadWSDL(wsdlText: string) {
+    // Namespace prefixes are removed while parsing, so the SOAP version of the bindings is marked before that
+    for (const [soapVersion, soapBindingNamespace] of Object.entries(SOAP_BINDING_NAMESPACES)) {
+      const aliases = new Set(
+        Array.from(
+          wsdlText.matchAll(
+            new RegExp(`xmlns:([\\w-]+)=["']${escapeRegExp(soapBindingNamespace)}["']`, 'g'),
+          ),
+          ([, alias]) => alias,
+        ),
+      );
+      for (const alias of aliases) {
+        wsdlText = wsdlText.replace(
+          new RegExp(`<${alias}:binding(?=[\\s/>])`, 'g'),
+          `<${alias}:binding soapVersion="${soapVersion}"`,
+        );
+      }
+    }
     wsdlText = wsdlText.split('xmlns:').join('namespace:');
     let wsdlObject: WSDLObject;
     try {
@@ -648,6 +787,11 @@ export class SOAPLoader {
     typeName: string;
     typeNamespace: string;
   }) {
+    if (this.mtom && typeNamespace === XML_SCHEMA_NAMESPACE && typeName === 'base64Binary') {
+      return this.schemaComposer.getOrCreateSTC('File', scalarTC => {
+        scalarTC.setDescription('The `File` scalar type represents a file upload.');
+      });
+    }
     const complexType = this.getNamespaceComplexTypeMap(typeNamespace)?.get(typeName);
     if (complexType) {
       return this.getInputTypeForComplexType(complexType, typeNamespace);
@@ -1140,6 +1284,9 @@ export class SOAPLoader {
       kind: 'soap',
       subgraph: this.subgraphName,
     };
+    if (this.executorOptions.soapHeaders || this.executorOptions.wsSecurity) {
+      schemaExts.directives.transport.options = this.executorOptions;
+    }
     return schema;
   }
 }
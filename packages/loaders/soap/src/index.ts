@@ -1,3 +1,4 @@
+import type { SOAPExecutorOptions } from '@graphql-mesh/transport-soap';
 import type { Logger, MeshFetch } from '@graphql-mesh/types';
 import { defaultImportFn, DefaultLogger, readFileOrUrl } from '@graphql-mesh/utils';
 import { SOAPLoader } from './SOAPLoader.js';
@@ -6,13 +7,17 @@ export * from './SOAPLoader.js';
 export type * from './types.js';
 export * from '@graphql-mesh/transport-soap';
 
-export interface SOAPSubgraphLoaderOptions {
+export interface SOAPSubgraphLoaderOptions extends SOAPExecutorOptions {
   source?: string;
   endpoint?: string;
   fetch?: MeshFetch;
   logger?: Logger;
   schemaHeaders?: Record<string, string>;
   operationHeaders?: Record<string, string>;
+  /**
+   * Accepts `base64Binary` inputs as `File` uploads sent as MTOM attachments
+   */
+  mtom?: boolean;
 }
 
 export function loadSOAPSubgraph(subgraphName: string, options: SOAPSubgraphLoaderOptions) {
@@ -24,6 +29,9 @@ export function loadSOAPSubgraph(subgraphName: string, options: SOAPSubgraphLoad
       schemaHeaders: options.schemaHeaders,
       operationHeaders: options.operationHeaders,
       endpoint: options.endpoint,
+      soapHeaders: options.soapHeaders,
+      wsSecurity: options.wsSecurity,
+      mtom: options.mtom,
       cwd,
     });
     return {
@@ -184,6 +184,8 @@ export interface WSDLBindingAttributes {
 export interface SOAPBindingAttributes {
   style: string;
   transport: string;
+  // Not a part of WSDL; the loader sets it from the namespace of the binding element
+  soapVersion?: '1.1' | '1.2';
 }
 
 export interface SOAPBinding {
@@ -192,7 +194,7 @@ export interface SOAPBinding {
 
 export interface WSDLBinding {
   attributes: WSDLBindingAttributes;
-  binding: SOAPBinding;
+  binding?: SOAPBinding[];
   operation: WSDLOperation[];
 }
 
@@ -222,9 +224,20 @@ export interface SOAPBody {
   attributes: SOAPBodyAttributes;
 }
 
+export interface SOAPHeaderAttributes {
+  message: string;
+  part: string;
+  use: string;
+}
+
+export interface SOAPHeader {
+  attributes: SOAPHeaderAttributes;
+}
+
 export interface WSDLInput {
   attributes: WSDLInputAttributes;
   body: SOAPBody[];
+  header?: SOAPHeader[];
 }
 
 export interface WSDLOutputAttributes {
@@ -239,6 +252,7 @@ export interface WSDLOutput {
 
 export interface WSDLFaultAttributes {
   name: string;
+  message?: string;
 }
 
 export interface SOAPFault {
@@ -5,6 +5,10 @@ export interface SoapAnnotations {
   elementName: string;
   bindingNamespace: string;
   endpoint: string;
+  soapVersion?: '1.1' | '1.2';
+  soapAction?: string;
+  soapHeaders?: string[];
+  soapFaults?: string[];
 }
 
 export const PARSE_XML_OPTIONS: Partial<X2jOptions> = {
@@ -1,11 +1,13 @@
 /* eslint-disable import/no-nodejs-modules */
+import { createHash } from 'crypto';
 import { promises } from 'fs';
 import { globalAgent } from 'https';
 import { join } from 'path';
-import { parse } from 'graphql';
+import { XMLParser } from 'fast-xml-parser';
+import { getNamedType, isInputObjectType, parse } from 'graphql';
 import type { Logger, MeshFetch } from '@graphql-mesh/types';
-import { printSchemaWithDirectives } from '@graphql-tools/utils';
-import { fetch } from '@whatwg-node/fetch';
+import { getDirectiveExtensions, printSchemaWithDirectives } from '@graphql-tools/utils';
+import { Blob, fetch, File, Response } from '@whatwg-node/fetch';
 import { createExecutorFromSchemaAST, SOAPLoader } from '../src/index.js';
 
 const { readFile } = promises;
@@ -74,4 +76,487 @@ describe('SOAP Loader', () => {
 
     expect(err).toBeUndefined();
   });
+
+  describe('SOAP headers', () => {
+    const xmlParser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+    });
+    let requests: { url: string; headers: Record<string, string>; body: any }[];
+    const mockFetch = (async (url: string, init: RequestInit) => {
+      requests.push({
+        url,
+        headers: init.headers as Record<string, string>,
+        body: xmlParser.parse(init.body as string),
+      });
+      return new Response(/* XML */ `
+        <soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+          <soap:Body>
+            <GetBalanceResponse xmlns="http://example.com/accounts/">
+              <balance>42.5</balance>
+            </GetBalanceResponse>
+          </soap:Body>
+        </soap:Envelope>
+      `);
+    }) as MeshFetch;
+
+    async function loadHeadersSchema() {
+      const soapLoader = new SOAPLoader({
+        subgraphName: 'Test',
+        fetch: mockFetch,
+        logger: mockLogger,
+      });
+      const headersWsdl = await readFile(join(__dirname, './fixtures/headers.wsdl'), 'utf8');
+      await soapLoader.loadWSDL(headersWsdl);
+      return soapLoader.buildSchema();
+    }
+
+    beforeEach(() => {
+      requests = [];
+    });
+
+    it('detects the SOAP version and the header parts from the bindings', async () => {
+      const schema = await loadHeadersSchema();
+      const queryFields = schema.getQueryType().getFields();
+      const soap11Field = queryFields.Accounts_Accounts_AccountsSoap_GetBalance;
+      expect(soap11Field.args.map(arg => arg.name)).toEqual(['AuthHeader', 'GetBalance']);
+      expect(getDirectiveExtensions(soap11Field)).toEqual({
+        soap: [
+          {
+            elementName: 'GetBalanceResponse',
+            bindingNamespace: 'http://example.com/accounts/',
+            endpoint: 'http://localhost/accounts',
+            subgraph: 'Test',
+            soapVersion: '1.1',
+            soapAction: 'http://example.com/accounts/GetBalance',
+            soapHeaders: ['AuthHeader'],
+            soapFaults: ['AccountNotFoundFault'],
+          },
+        ],
+      });
+      const soap12Field = queryFields.Accounts_Accounts_AccountsSoap12_GetBalance;
+      expect(soap12Field.args.map(arg => arg.name)).toEqual(['GetBalance']);
+      expect(getDirectiveExtensions(soap12Field)).toMatchObject({
+        soap: [
+          {
+            soapVersion: '1.2',
+            soapAction: 'http://example.com/accounts/GetBalance',
+          },
+        ],
+      });
+    });
+
+    it('sends SOAP 1.1 envelopes with SOAPAction and the header arguments', async () => {
+      const schema = await loadHeadersSchema();
+      const executor = createExecutorFromSchemaAST(
+        schema,
+        mockFetch,
+        {},
+        {
+          soapHeaders: {
+            Tenant: '{context.tenant}',
+          },
+        },
+      );
+      const result = await executor({
+        document: parse(/* GraphQL */ `
+          {
+            Accounts_Accounts_AccountsSoap_GetBalance(
+              AuthHeader: { ApiKey: "secret" }
+              GetBalance: { accountId: "1" }
+            ) {
+              balance
+            }
+          }
+        `),
+        context: {
+          tenant: 'acme',
+        },
+      });
+      expect(result).toEqual({
+        data: {
+          Accounts_Accounts_AccountsSoap_GetBalance: {
+            balance: 42.5,
+          },
+        },
+      });
+      expect(requests[0].headers).toMatchObject({
+        'Content-Type': 'text/xml; charset=utf-8',
+        SOAPAction: '"http://example.com/accounts/GetBalance"',
+      });
+      expect(requests[0].body).toEqual({
+        'soap:Envelope': {
+          'xmlns:soap': 'http://schemas.xmlsoap.org/soap/envelope/',
+          'soap:Header': {
+            xmlns: 'http://example.com/accounts/',
+            AuthHeader: {
+              ApiKey: 'secret',
+            },
+            Tenant: 'acme',
+          },
+          'soap:Body': {
+            xmlns: 'http://example.com/accounts/',
+            GetBalance: {
+              accountId: 1,
+            },
+          },
+        },
+      });
+    });
+
+    it('sends SOAP 1.2 envelopes with the action in the content type', async () => {
+      const schema = await loadHeadersSchema();
+      const executor = createExecutorFromSchemaAST(schema, mockFetch);
+      await executor({
+        document: parse(/* GraphQL */ `
+          {
+            Accounts_Accounts_AccountsSoap12_GetBalance(GetBalance: { accountId: "1" }) {
+              balance
+            }
+          }
+        `),
+      });
+      expect(requests[0].headers).toMatchObject({
+        'Content-Type':
+          'application/soap+xml; charset=utf-8; action="http://example.com/accounts/GetBalance"',
+      });
+      expect(requests[0].headers).not.toHaveProperty('SOAPAction');
+      expect(requests[0].body['soap:Envelope']['xmlns:soap']).toBe(
+        'http://www.w3.org/2003/05/soap-envelope',
+      );
+      expect(requests[0].body['soap:Envelope']).not.toHaveProperty('soap:Header');
+    });
+
+    it('maps SOAP 1.1 faults with the declared fault details to GraphQL errors', async () => {
+      const schema = await loadHeadersSchema();
+      const faultFetch = (async () =>
+        new Response(
+          /* XML */ `
+            <soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+              <soap:Body>
+                <soap:Fault>
+                  <faultcode>soap:Client</faultcode>
+                  <faultstring>Account not found</faultstring>
+                  <detail>
+                    <AccountNotFoundFault xmlns="http://example.com/accounts/">
+                      <accountId>A1</accountId>
+                    </AccountNotFoundFault>
+                  </detail>
+                </soap:Fault>
+              </soap:Body>
+            </soap:Envelope>
+          `,
+          { status: 500 },
+        )) as MeshFetch;
+      const executor = createExecutorFromSchemaAST(
+        schema,
+        faultFetch,
+        {},
+        {
+          wsSecurity: {
+            username: 'my-user',
+            password: 'my-password',
+            passwordType: 'PasswordText',
+          },
+        },
+      );
+      const result: any = await executor({
+        document: parse(/* GraphQL */ `
+          {
+            Accounts_Accounts_AccountsSoap_GetBalance(GetBalance: { accountId: "A1" }) {
+              balance
+            }
+          }
+        `),
+      });
+      expect(result.data).toEqual({
+        Accounts_Accounts_AccountsSoap_GetBalance: null,
+      });
+      expect(result.errors[0].message).toBe('Account not found');
+      expect(result.errors[0].extensions).toMatchObject({
+        faultcode: 'soap:Client',
+        faultstring: 'Account not found',
+        detail: {
+          AccountNotFoundFault: {
+            accountId: 'A1',
+          },
+        },
+        faultType: 'AccountNotFoundFault',
+        subgraph: 'Test',
+        response: {
+          status: 500,
+        },
+      });
+      // The faults like authentication failures don't send the credentials back to the clients
+      expect(result.errors[0].extensions.request.body).toContain(
+        '<wsse:Security>[REDACTED]</wsse:Security>',
+      );
+      expect(JSON.stringify(result.errors[0])).not.toContain('my-password');
+    });
+
+    it('maps SOAP 1.2 faults to GraphQL errors', async () => {
+      const schema = await loadHeadersSchema();
+      const faultFetch = (async () =>
+        new Response(
+          /* XML */ `
+            <env:Envelope xmlns:env="http://www.w3.org/2003/05/soap-envelope">
+              <env:Body>
+                <env:Fault>
+                  <env:Code>
+                    <env:Value>env:Receiver</env:Value>
+                    <env:Subcode>
+                      <env:Value>Timeout</env:Value>
+                    </env:Subcode>
+                  </env:Code>
+                  <env:Reason>
+                    <env:Text xml:lang="en">Database is not available</env:Text>
+                  </env:Reason>
+                </env:Fault>
+              </env:Body>
+            </env:Envelope>
+          `,
+          { status: 500 },
+        )) as MeshFetch;
+      const executor = createExecutorFromSchemaAST(schema, faultFetch);
+      const result: any = await executor({
+        document: parse(/* GraphQL */ `
+          {
+            Accounts_Accounts_AccountsSoap12_GetBalance(GetBalance: { accountId: "A1" }) {
+              balance
+            }
+          }
+        `),
+      });
+      expect(result.errors[0].message).toBe('Database is not available');
+      expect(result.errors[0].extensions).toMatchObject({
+        Code: {
+          Value: 'env:Receiver',
+          Subcode: {
+            Value: 'Timeout',
+          },
+        },
+        Reason: 'Database is not available',
+      });
+      expect(result.errors[0].extensions).not.toHaveProperty('faultType');
+    });
+
+    it('adds WS-Security UsernameToken and Timestamp', async () => {
+      const schema = await loadHeadersSchema();
+      process.env.SOAP_TEST_PASSWORD = 'my-password';
+      const executor = createExecutorFromSchemaAST(
+        schema,
+        mockFetch,
+        {},
+        {
+          wsSecurity: {
+            username: 'my-user',
+            password: '{env.SOAP_TEST_PASSWORD}',
+            passwordType: 'PasswordDigest',
+            timestamp: true,
+            mustUnderstand: true,
+          },
+        },
+      );
+      await executor({
+        document: parse(/* GraphQL */ `
+          {
+            Accounts_Accounts_AccountsSoap12_GetBalance(GetBalance: { accountId: "1" }) {
+              balance
+            }
+          }
+        `),
+      });
+      delete process.env.SOAP_TEST_PASSWORD;
+      const security = requests[0].body['soap:Envelope']['soap:Header']['wsse:Security'];
+      expect(security['soap:mustUnderstand']).toBe('1');
+      const timestamp = security['wsu:Timestamp'];
+      expect(
+        new Date(timestamp['wsu:Expires']).getTime() - new Date(timestamp['wsu:Created']).getTime(),
+      ).toBe(300_000);
+      const usernameToken = security['wsse:UsernameToken'];
+      expect(usernameToken['wsse:Username']).toBe('my-user');
+      const nonce = Buffer.from(usernameToken['wsse:Nonce']['#text'], 'base64');
+      const expectedDigest = createHash('sha1')
+        .update(Buffer.concat([nonce, Buffer.from(usernameToken['wsu:Created'] + 'my-password')]))
+        .digest('base64');
+      expect(usernameToken['wsse:Password']).toEqual({
+        '#text': expectedDigest,
+        Type: 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest',
+      });
+    });
+
+    it('redacts the configured headers in the requests of the errors', async () => {
+      const schema = await loadHeadersSchema();
+      const unavailableFetch = (async () =>
+        new Response('Service Unavailable', { status: 503 })) as MeshFetch;
+      const executor = createExecutorFromSchemaAST(
+        schema,
+        unavailableFetch,
+        {},
+        {
+          soapHeaders: {
+            ApiKey: 'my-api-key',
+          },
+          wsSecurity: {
+            username: 'my-user',
+            password: 'my-password',
+            passwordType: 'PasswordText',
+          },
+        },
+      );
+      const result: any = await executor({
+        document: parse(/* GraphQL */ `
+          {
+            Accounts_Accounts_AccountsSoap12_GetBalance(GetBalance: { accountId: "1" }) {
+              balance
+            }
+          }
+        `),
+      });
+      expect(result.errors[0].message).toBe('Upstream HTTP Error: 503');
+      const requestBody: string = result.errors[0].extensions.request.body;
+      expect(requestBody).toContain('<ApiKey>[REDACTED]</ApiKey>');
+      expect(requestBody).toContain('<wsse:Security>[REDACTED]</wsse:Security>');
+      expect(requestBody).toContain('<accountId>1</accountId>');
+      expect(requestBody).not.toContain('my-api-key');
+      expect(requestBody).not.toContain('my-password');
+    });
+  });
+  describe('MTOM attachments', () => {
+    async function loadDocumentsSchema(fetchFn: MeshFetch, mtom?: boolean) {
+      const soapLoader = new SOAPLoader({
+        subgraphName: 'Test',
+        fetch: fetchFn,
+        logger: mockLogger,
+        mtom,
+      });
+      const documentsWsdl = await readFile(join(__dirname, './fixtures/documents.wsdl'), 'utf8');
+      await soapLoader.loadWSDL(documentsWsdl);
+      return soapLoader.buildSchema();
+    }
+
+    function getContentInputType(schema: ReturnType<SOAPLoader['buildSchema']>) {
+      const uploadField = schema
+        .getMutationType()
+        .getFields().Documents_Documents_DocumentsSoap_UploadDocument;
+      const uploadInputType = getNamedType(uploadField.args[0].type);
+      if (!isInputObjectType(uploadInputType)) {
+        throw new Error('Expected an input object type');
+      }
+      return uploadInputType.getFields().content.type.toString();
+    }
+
+    it('uses File for base64Binary inputs only when MTOM is enabled', async () => {
+      expect(getContentInputType(await loadDocumentsSchema(fetch))).toBe('Byte');
+      const schema = await loadDocumentsSchema(fetch, true);
+      expect(getContentInputType(schema)).toBe('File');
+      expect(
+        getNamedType(
+          schema.getQueryType().getFields().Documents_Documents_DocumentsSoap_GetDocument.type,
+        ).toString(),
+      ).not.toBe('File');
+    });
+
+    it('sends the files as attachments of a multipart/related request', async () => {
+      let requestHeaders: Record<string, string>;
+      let requestBody: string;
+      const mtomFetch = (async (_url: string, init: RequestInit) => {
+        requestHeaders = init.headers as Record<string, string>;
+        requestBody = await (init.body as Blob).text();
+        return new Response(/* XML */ `
+          <soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+            <soap:Body>
+              <UploadDocumentResponse xmlns="http://example.com/documents/">
+                <id>D1</id>
+              </UploadDocumentResponse>
+            </soap:Body>
+          </soap:Envelope>
+        `);
+      }) as MeshFetch;
+      const schema = await loadDocumentsSchema(mtomFetch, true);
+      const executor = createExecutorFromSchemaAST(schema, mtomFetch);
+      const result = await executor({
+        document: parse(/* GraphQL */ `
+          mutation UploadDocument($content: File) {
+            Documents_Documents_DocumentsSoap_UploadDocument(
+              UploadDocument: { name: "hello.txt", content: $content }
+            ) {
+              id
+            }
+          }
+        `),
+        variables: {
+          content: new File(['Hello World'], 'hello.txt', { type: 'text/plain' }),
+        },
+      });
+      expect(result).toEqual({
+        data: {
+          Documents_Documents_DocumentsSoap_UploadDocument: {
+            id: 'D1',
+          },
+        },
+      });
+      const contentType = requestHeaders['Content-Type'];
+      expect(contentType).toContain('multipart/related; type="application/xop+xml"');
+      expect(contentType).toContain('start-info="text/xml"');
+      expect(requestHeaders.SOAPAction).toBe('"http://example.com/documents/UploadDocument"');
+      const boundary = /boundary="([^"]+)"/.exec(contentType)[1];
+      const [, rootPart, attachmentPart, closing] = requestBody.split(`--${boundary}`);
+      expect(rootPart).toContain(
+        'Content-Type: application/xop+xml; charset=UTF-8; type="text/xml"',
+      );
+      const href =
+        /<xop:Include xmlns:xop="http:\/\/www.w3.org\/2004\/08\/xop\/include" href="cid:([^"]+)"/.exec(
+          rootPart,
+        )[1];
+      expect(attachmentPart).toContain('Content-Type: text/plain');
+      expect(attachmentPart).toContain(`Content-ID: <${decodeURIComponent(href)}>`);
+      expect(attachmentPart).toContain('\r\n\r\nHello World\r\n');
+      expect(closing).toBe('--\r\n');
+    });
+
+    it('resolves the attachments of multipart/related responses', async () => {
+      const boundary = 'MIMEBoundary_test';
+      const mtomFetch = (async () =>
+        new Response(
+          [
+            `--${boundary}`,
+            'Content-Type: application/xop+xml; charset=UTF-8; type="text/xml"',
+            'Content-ID: <root@example.com>',
+            '',
+            /* XML */ `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body><GetDocumentResponse xmlns="http://example.com/documents/"><name>hello.txt</name><content><xop:Include xmlns:xop="http://www.w3.org/2004/08/xop/include" href="cid:file%40example.com"/></content></GetDocumentResponse></soap:Body></soap:Envelope>`,
+            `--${boundary}`,
+            'Content-Type: text/plain',
+            'Content-Transfer-Encoding: binary',
+            'Content-ID: <file@example.com>',
+            '',
+            'Hello World',
+            `--${boundary}--`,
+            '',
+          ].join('\r\n'),
+          {
+            headers: {
+              'Content-Type': `multipart/related; type="application/xop+xml"; start="<root@example.com>"; start-info="text/xml"; boundary="${boundary}"`,
+            },
+          },
+        )) as MeshFetch;
+      const schema = await loadDocumentsSchema(mtomFetch, true);
+      const executor = createExecutorFromSchemaAST(schema, mtomFetch);
+      const result: any = await executor({
+        document: parse(/* GraphQL */ `
+          {
+            Documents_Documents_DocumentsSoap_GetDocument(GetDocument: { id: "D1" }) {
+              name
+              content
+            }
+          }
+        `),
+      });
+      expect(result.errors).toBeUndefined();
+      expect(result.data.Documents_Documents_DocumentsSoap_GetDocument.name).toBe('hello.txt');
+      expect(
+        Buffer.from(result.data.Documents_Documents_DocumentsSoap_GetDocument.content).toString(),
+      ).toBe('Hello World');
+    });
+  });
 });
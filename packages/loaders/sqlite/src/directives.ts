@@ -0,0 +1,118 @@
+import { DirectiveLocation, GraphQLDirective, GraphQLList, GraphQLString } from 'graphql';
+
+export const SQLiteTableDirective = new GraphQLDirective({
+  name: 'sqliteTable',
+  locations: [DirectiveLocation.OBJECT],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const SQLiteColumnDirective = new GraphQLDirective({
+  name: 'sqliteColumn',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    name: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const SQLiteSelectDirective = new GraphQLDirective({
+  name: 'sqliteSelect',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+    columnMap: {
+      type: new GraphQLList(new GraphQLList(GraphQLString)),
+    },
+  },
+});
+
+export const SQLiteCountDirective = new GraphQLDirective({
+  name: 'sqliteCount',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const SQLiteInsertDirective = new GraphQLDirective({
+  name: 'sqliteInsert',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+    primaryKeys: {
+      type: new GraphQLList(GraphQLString),
+    },
+  },
+});
+
+export const SQLiteUpdateDirective = new GraphQLDirective({
+  name: 'sqliteUpdate',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+  },
+});
+
+export const SQLiteDeleteDirective = new GraphQLDirective({
+  name: 'sqliteDelete',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    table: {
+      type: GraphQLString,
+    },
+    primaryKeys: {
+      type: new GraphQLList(GraphQLString),
+    },
+  },
+});
+
+export const TransportDirective = new GraphQLDirective({
+  name: 'transport',
+  locations: [DirectiveLocation.SCHEMA],
+  args: {
+    subgraph: {
+      type: GraphQLString,
+    },
+    kind: {
+      type: GraphQLString,
+    },
+    location: {
+      type: GraphQLString,
+    },
+  },
+  isRepeatable: true,
+});
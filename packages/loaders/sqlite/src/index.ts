@@ -1,52 +1,24 @@
 import type { GraphQLSchema } from 'graphql';
-import { path, process } from '@graphql-mesh/cross-helpers';
+import { loadGraphQLSchemaFromSQLite, type LoadGraphQLSchemaFromSQLiteOpts } from './schema.js';
 
-export interface GraphQLSQLiteLoaderOpts {
-  infile?: string;
-  db?: string;
-  cwd?: string;
-}
+export * from './schema.js';
 
-export default function loadGraphQLSchemaFromSQLite(_name: string, opts: GraphQLSQLiteLoaderOpts) {
-  return loadGraphQLSchemaFromOptions(opts);
-}
+export type GraphQLSQLiteLoaderOpts = LoadGraphQLSchemaFromSQLiteOpts;
+
+export default loadGraphQLSchemaFromSQLite;
 
 export function loadGraphQLSchemaFromOptions(
   opts: GraphQLSQLiteLoaderOpts,
+  subgraphName = 'sqlite',
 ): Promise<GraphQLSchema> {
-  const tuql$ = import('tuql').catch(e => {
-    console.error(e);
-    throw new Error(
-      'Cannot import `tuql` packages necessary for SQLite data source. Have you installed it?',
-    );
-  });
-  const cwd = opts.cwd || process.cwd();
-  if (opts.infile != null) {
-    const absolutePath = path.isAbsolute(opts.infile) ? opts.infile : path.join(cwd, opts.infile);
-    return tuql$.then(tuql => tuql.buildSchemaFromInfile(absolutePath));
-  }
-  if (opts.db != null) {
-    const absolutePath = path.isAbsolute(opts.db) ? opts.db : path.join(cwd, opts.db);
-    return tuql$.then(tuql => tuql.buildSchemaFromDatabase(absolutePath));
-  }
-  throw new Error('Invalid options');
+  return loadGraphQLSchemaFromSQLite(subgraphName, opts);
 }
 
 export function loadSQLiteSubgraph(name: string, opts: GraphQLSQLiteLoaderOpts) {
   return () => ({
     name,
-    schema$: loadGraphQLSchemaFromOptions(opts).then(schema => {
-      const extensionsObj: any = (schema.extensions = schema.extensions || {});
-      extensionsObj.directives ||= {};
-      extensionsObj.directives.transport = {
-        kind: 'sqlite',
-        subgraph: name,
-        location: opts.infile || opts.db,
-        options: {
-          type: opts.infile != null ? 'infile' : 'db',
-        },
-      };
-      return schema;
-    }),
+    schema$: loadGraphQLSchemaFromSQLite(name, opts),
   });
 }
+
+export { getSQLiteExecutor } from '@graphql-mesh/transport-sqlite';
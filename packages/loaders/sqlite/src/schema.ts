@@ -0,0 +1,639 @@
+import type { InputTypeComposer, ObjectTypeComposer } from 'graphql-compose';
+import { SchemaComposer } from 'graphql-compose';
+import { GraphQLJSON } from 'graphql-scalars';
+import {
+  openSQLiteDatabase,
+  quoteIdentifier,
+  type SQLiteDatabase,
+} from '@graphql-mesh/transport-sqlite';
+import { sanitizeNameForGraphQL } from '@graphql-mesh/utils';
+import {
+  SQLiteColumnDirective,
+  SQLiteCountDirective,
+  SQLiteDeleteDirective,
+  SQLiteInsertDirective,
+  SQLiteSelectDirective,
+  SQLiteTableDirective,
+  SQLiteUpdateDirective,
+  TransportDirective,
+} from './directives.js';
+
+export interface LoadGraphQLSchemaFromSQLiteOpts {
+  /** Path to the database file */
+  db?: string;
+  /** Path to the SQL dump file to create an in-memory database from */
+  infile?: string;
+  cwd?: string;
+  /** The tables and views to include; all of them are included by default */
+  tables?: string[];
+  /** The database to introspect instead of opening `db` or `infile` */
+  database?: SQLiteDatabase;
+}
+
+interface SQLiteTableInfo {
+  name: string;
+  type: 'table' | 'view';
+}
+
+interface SQLiteColumnInfo {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface SQLiteForeignKeyInfo {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+}
+
+interface TableDefinition {
+  table: SQLiteTableInfo;
+  columns: SQLiteColumnInfo[];
+  foreignKeys: SQLiteForeignKeyInfo[][];
+  typeName: string;
+  /** Field names by column names */
+  fieldNames: Map<string, string>;
+  primaryKeys: SQLiteColumnInfo[];
+}
+
+function splitWords(name: string) {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function capitalize(word: string) {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+function toPascalCase(name: string) {
+  return sanitizeNameForGraphQL(splitWords(name).map(capitalize).join(''));
+}
+
+function toCamelCase(name: string) {
+  const pascalCase = toPascalCase(name);
+  return pascalCase.charAt(0).toLowerCase() + pascalCase.slice(1);
+}
+
+function singularize(word: string) {
+  if (/ies$/i.test(word)) {
+    return word.slice(0, -3) + 'y';
+  }
+  if (/(ss|us|is)$/i.test(word)) {
+    return word;
+  }
+  if (/(s|x|z|ch|sh)es$/i.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (/s$/i.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function pluralize(word: string) {
+  if (/[^aeiou]y$/i.test(word)) {
+    return word.slice(0, -1) + 'ies';
+  }
+  if (/(s|x|z|ch|sh)$/i.test(word)) {
+    return word + 'es';
+  }
+  return word + 's';
+}
+
+/**
+ * Maps the declared type of the column to a GraphQL type by the type affinity rules of SQLite
+ * https://www.sqlite.org/datatype3.html#determination_of_column_affinity
+ */
+function getScalarTypeName(declaredType: string) {
+  const type = declaredType.toUpperCase();
+  if (/^BOOL/.test(type)) {
+    return 'Boolean';
+  }
+  if (type.includes('INT')) {
+    return 'Int';
+  }
+  if (type.includes('CHAR') || type.includes('CLOB') || type.includes('TEXT')) {
+    return 'String';
+  }
+  if (type.includes('JSON')) {
+    return 'JSON';
+  }
+  if (type.includes('REAL') || type.includes('FLOA') || type.includes('DOUB')) {
+    return 'Float';
+  }
+  if (type.includes('NUMERIC') || type.includes('DECIMAL')) {
+    return 'Float';
+  }
+  // Dates are stored as text, and columns without a type can have any value
+  return 'String';
+}
+
+function getFilterInputName(scalarTypeName: string) {
+  return `${scalarTypeName === 'JSON' ? 'String' : scalarTypeName}Filter`;
+}
+
+function createFilterInputs(schemaComposer: SchemaComposer) {
+  for (const scalarTypeName of ['Int', 'Float', 'String', 'Boolean']) {
+    const fields: Record<string, string> = {
+      eq: scalarTypeName,
+      ne: scalarTypeName,
+      in: `[${scalarTypeName}!]`,
+      notIn: `[${scalarTypeName}!]`,
+      isNull: 'Boolean',
+    };
+    if (scalarTypeName !== 'Boolean') {
+      Object.assign(fields, {
+        gt: scalarTypeName,
+        gte: scalarTypeName,
+        lt: scalarTypeName,
+        lte: scalarTypeName,
+      });
+    }
+    if (scalarTypeName === 'String') {
+      fields.like = 'String';
+    }
+    schemaComposer.createInputTC({
+      name: getFilterInputName(scalarTypeName),
+      fields,
+    });
+  }
+}
+
+export async function loadGraphQLSchemaFromSQLite(
+  subgraphName: string,
+  opts: LoadGraphQLSchemaFromSQLiteOpts,
+) {
+  const location = opts.infile ?? opts.db;
+  if (!opts.database && location == null) {
+    throw new Error('Invalid options; either `db` or `infile` is required');
+  }
+  const transportOptions = {
+    type: opts.infile != null ? ('infile' as const) : ('db' as const),
+  };
+  const database =
+    opts.database ||
+    (await openSQLiteDatabase({
+      location,
+      type: transportOptions.type,
+      cwd: opts.cwd,
+    }));
+  try {
+    const schemaComposer = new SchemaComposer();
+    schemaComposer.add(GraphQLJSON);
+    schemaComposer.addDirective(TransportDirective);
+    schemaComposer.addDirective(SQLiteTableDirective);
+    schemaComposer.addDirective(SQLiteColumnDirective);
+    schemaComposer.addDirective(SQLiteSelectDirective);
+    schemaComposer.addDirective(SQLiteCountDirective);
+    schemaComposer.addDirective(SQLiteInsertDirective);
+    schemaComposer.addDirective(SQLiteUpdateDirective);
+    schemaComposer.addDirective(SQLiteDeleteDirective);
+    schemaComposer.createEnumTC({
+      name: 'OrderBy',
+      values: {
+        asc: {
+          value: 'asc',
+        },
+        desc: {
+          value: 'desc',
+        },
+      },
+    });
+    createFilterInputs(schemaComposer);
+
+    const tables = await database.all<SQLiteTableInfo>(
+      `SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name`,
+    );
+    const tableDefinitions = new Map<string, TableDefinition>();
+    for (const table of tables) {
+      if (opts.tables && !opts.tables.includes(table.name)) {
+        continue;
+      }
+      const columns = await database.all<SQLiteColumnInfo>(
+        `PRAGMA table_info(${quoteIdentifier(table.name)})`,
+      );
+      const foreignKeyRows =
+        table.type === 'table'
+          ? await database.all<SQLiteForeignKeyInfo>(
+              `PRAGMA foreign_key_list(${quoteIdentifier(table.name)})`,
+            )
+          : [];
+      // Composite foreign keys have a row for each column with the same id
+      const foreignKeysById = new Map<number, SQLiteForeignKeyInfo[]>();
+      for (const foreignKeyRow of foreignKeyRows) {
+        const foreignKeyColumns = foreignKeysById.get(foreignKeyRow.id) || [];
+        foreignKeyColumns.push(foreignKeyRow);
+        foreignKeysById.set(foreignKeyRow.id, foreignKeyColumns);
+      }
+      tableDefinitions.set(table.name, {
+        table,
+        columns,
+        foreignKeys: [...foreignKeysById.values()].map(foreignKeyColumns =>
+          foreignKeyColumns.sort((a, b) => a.seq - b.seq),
+        ),
+        typeName: toPascalCase(singularize(table.name)),
+        fieldNames: new Map(columns.map(column => [column.name, toCamelCase(column.name)])),
+        primaryKeys: columns.filter(column => column.pk > 0).sort((a, b) => a.pk - b.pk),
+      });
+    }
+    for (const tableDefinition of tableDefinitions.values()) {
+      handleTable({ subgraphName, schemaComposer, tableDefinition });
+    }
+    for (const tableDefinition of tableDefinitions.values()) {
+      for (const foreignKey of tableDefinition.foreignKeys) {
+        handleForeignKey({
+          subgraphName,
+          schemaComposer,
+          tableDefinition,
+          foreignKey,
+          tableDefinitions,
+        });
+      }
+    }
+
+    const schema = schemaComposer.buildSchema();
+    const extensions: any = (schema.extensions ||= {});
+    extensions.directives ||= {};
+    extensions.directives.transport = {
+      subgraph: subgraphName,
+      kind: 'sqlite',
+      location,
+      options: transportOptions,
+    };
+    return schema;
+  } finally {
+    if (!opts.database) {
+      await database.close();
+    }
+  }
+}
+
+function getWhereInputName(typeName: string) {
+  return `${typeName}WhereInput`;
+}
+
+function getOrderByInputName(typeName: string) {
+  return `${typeName}OrderByInput`;
+}
+
+function getListArgs(typeName: string) {
+  return {
+    where: {
+      type: getWhereInputName(typeName),
+    },
+    orderBy: {
+      type: `[${getOrderByInputName(typeName)}!]`,
+    },
+    limit: {
+      type: 'Int',
+    },
+    offset: {
+      type: 'Int',
+    },
+  };
+}
+
+function handleTable({
+  subgraphName,
+  schemaComposer,
+  tableDefinition,
+}: {
+  subgraphName: string;
+  schemaComposer: SchemaComposer;
+  tableDefinition: TableDefinition;
+}) {
+  const { table, columns, typeName, fieldNames, primaryKeys } = tableDefinition;
+  const isView = table.type === 'view';
+  const tableTC = schemaComposer.createObjectTC({
+    name: typeName,
+    fields: {},
+    directives: [
+      {
+        name: 'sqliteTable',
+        args: {
+          subgraph: subgraphName,
+          table: table.name,
+        },
+      },
+    ],
+  });
+  const whereIC = schemaComposer.createInputTC({
+    name: getWhereInputName(typeName),
+    fields: {},
+  });
+  whereIC.addFields({
+    and: `[${whereIC.getTypeName()}!]`,
+    or: `[${whereIC.getTypeName()}!]`,
+    not: whereIC.getTypeName(),
+  });
+  const orderByIC = schemaComposer.createInputTC({
+    name: getOrderByInputName(typeName),
+    fields: {},
+  });
+  let insertIC: InputTypeComposer<any> | undefined;
+  let updateIC: InputTypeComposer<any> | undefined;
+  if (!isView) {
+    insertIC = schemaComposer.createInputTC({
+      name: `${typeName}InsertInput`,
+      fields: {},
+    });
+    updateIC = schemaComposer.createInputTC({
+      name: `${typeName}UpdateInput`,
+      fields: {},
+    });
+  }
+  // `INTEGER PRIMARY KEY` is an alias of `rowid`, so it is generated if not provided
+  const rowIdColumn =
+    primaryKeys.length === 1 && primaryKeys[0].type.toUpperCase() === 'INTEGER'
+      ? primaryKeys[0].name
+      : undefined;
+  for (const column of columns) {
+    const fieldName = fieldNames.get(column.name);
+    const scalarTypeName = getScalarTypeName(column.type);
+    const isNonNull = !!column.notnull || (column.pk > 0 && column.name !== rowIdColumn);
+    tableTC.addFields({
+      [fieldName]: {
+        type: isNonNull || column.name === rowIdColumn ? `${scalarTypeName}!` : scalarTypeName,
+        directives: [
+          {
+            name: 'sqliteColumn',
+            args: {
+              subgraph: subgraphName,
+              name: column.name,
+            },
+          },
+        ],
+      },
+    });
+    whereIC.addFields({
+      [fieldName]: getFilterInputName(scalarTypeName),
+    });
+    orderByIC.addFields({
+      [fieldName]: 'OrderBy',
+    });
+    const isRequired = isNonNull && column.dflt_value == null && column.name !== rowIdColumn;
+    insertIC?.addFields({
+      [fieldName]: isRequired ? `${scalarTypeName}!` : scalarTypeName,
+    });
+    updateIC?.addFields({
+      [fieldName]: scalarTypeName,
+    });
+  }
+
+  const pluralFieldName = toCamelCase(pluralize(typeName));
+  const singularFieldName = toCamelCase(typeName);
+  const primaryKeyArgs = Object.fromEntries(
+    primaryKeys.map(column => [
+      fieldNames.get(column.name),
+      { type: `${getScalarTypeName(column.type)}!` },
+    ]),
+  );
+  schemaComposer.Query.addFields({
+    [pluralFieldName]: {
+      type: `[${typeName}!]!`,
+      args: getListArgs(typeName),
+      directives: [
+        {
+          name: 'sqliteSelect',
+          args: {
+            subgraph: subgraphName,
+            table: table.name,
+          },
+        },
+      ],
+    },
+    [`count${pluralize(typeName)}`]: {
+      type: 'Int!',
+      args: {
+        where: {
+          type: getWhereInputName(typeName),
+        },
+      },
+      directives: [
+        {
+          name: 'sqliteCount',
+          args: {
+            subgraph: subgraphName,
+            table: table.name,
+          },
+        },
+      ],
+    },
+  });
+  if (primaryKeys.length && singularFieldName !== pluralFieldName) {
+    schemaComposer.Query.addFields({
+      [singularFieldName]: {
+        type: typeName,
+        args: primaryKeyArgs,
+        directives: [
+          {
+            name: 'sqliteSelect',
+            args: {
+              subgraph: subgraphName,
+              table: table.name,
+            },
+          },
+        ],
+      },
+    });
+  }
+  if (isView) {
+    return;
+  }
+  schemaComposer.Mutation.addFields({
+    [`create${typeName}`]: {
+      type: typeName,
+      args: {
+        input: {
+          type: `${insertIC.getTypeName()}!`,
+        },
+      },
+      directives: [
+        {
+          name: 'sqliteInsert',
+          args: {
+            subgraph: subgraphName,
+            table: table.name,
+            primaryKeys: primaryKeys.map(column => column.name),
+          },
+        },
+      ],
+    },
+    [`update${pluralize(typeName)}`]: {
+      type: 'Int!',
+      description: 'Updates the matching rows, and returns the number of the updated rows',
+      args: {
+        where: {
+          type: `${getWhereInputName(typeName)}!`,
+        },
+        input: {
+          type: `${updateIC.getTypeName()}!`,
+        },
+      },
+      directives: [
+        {
+          name: 'sqliteUpdate',
+          args: {
+            subgraph: subgraphName,
+            table: table.name,
+          },
+        },
+      ],
+    },
+    [`delete${pluralize(typeName)}`]: {
+      type: 'Int!',
+      description: 'Deletes the matching rows, and returns the number of the deleted rows',
+      args: {
+        where: {
+          type: `${getWhereInputName(typeName)}!`,
+        },
+      },
+      directives: [
+        {
+          name: 'sqliteDelete',
+          args: {
+            subgraph: subgraphName,
+            table: table.name,
+          },
+        },
+      ],
+    },
+  });
+  if (primaryKeys.length) {
+    schemaComposer.Mutation.addFields({
+      [`update${typeName}`]: {
+        type: typeName,
+        args: {
+          ...primaryKeyArgs,
+          input: {
+            type: `${updateIC.getTypeName()}!`,
+          },
+        },
+        directives: [
+          {
+            name: 'sqliteUpdate',
+            args: {
+              subgraph: subgraphName,
+              table: table.name,
+            },
+          },
+        ],
+      },
+      [`delete${typeName}`]: {
+        type: typeName,
+        args: primaryKeyArgs,
+        directives: [
+          {
+            name: 'sqliteDelete',
+            args: {
+              subgraph: subgraphName,
+              table: table.name,
+              primaryKeys: primaryKeys.map(column => column.name),
+            },
+          },
+        ],
+      },
+    });
+  }
+}
+
+function getAvailableFieldName(
+  tc: ObjectTypeComposer<any, any>,
+  fieldName: string,
+  suffix: string,
+) {
+  if (!tc.hasField(fieldName)) {
+    return fieldName;
+  }
+  let availableFieldName = `${fieldName}By${suffix}`;
+  for (let i = 2; tc.hasField(availableFieldName); i++) {
+    availableFieldName = `${fieldName}By${suffix}${i}`;
+  }
+  return availableFieldName;
+}
+
+/**
+ * Adds the field of the referenced row, e.g. `Track.album`,
+ * and the field of the referencing rows to the referenced type, e.g. `Album.tracks`
+ */
+function handleForeignKey({
+  subgraphName,
+  schemaComposer,
+  tableDefinition,
+  foreignKey,
+  tableDefinitions,
+}: {
+  subgraphName: string;
+  schemaComposer: SchemaComposer;
+  tableDefinition: TableDefinition;
+  foreignKey: SQLiteForeignKeyInfo[];
+  tableDefinitions: Map<string, TableDefinition>;
+}) {
+  const referencedTableDefinition = tableDefinitions.get(foreignKey[0].table);
+  if (!referencedTableDefinition) {
+    return;
+  }
+  const columnPairs = foreignKey.map((foreignKeyColumn, i) => [
+    foreignKeyColumn.from,
+    // The primary key is referenced if the columns are not specified
+    foreignKeyColumn.to ?? referencedTableDefinition.primaryKeys[i]?.name,
+  ]);
+  if (columnPairs.some(([, to]) => to == null)) {
+    return;
+  }
+  const tableTC = schemaComposer.getOTC(tableDefinition.typeName);
+  const referencedTC = schemaComposer.getOTC(referencedTableDefinition.typeName);
+  const sourceColumnsName = toPascalCase(columnPairs.map(([from]) => from).join('_'));
+  // `AlbumId` references an `Album`, and `SupportRepId` references a `SupportRep`
+  const idSuffixMatch = columnPairs.length === 1 && columnPairs[0][0].match(/^(.+?)_?id$/i);
+  const referenceFieldName = getAvailableFieldName(
+    tableTC,
+    idSuffixMatch ? toCamelCase(idSuffixMatch[1]) : toCamelCase(referencedTableDefinition.typeName),
+    sourceColumnsName,
+  );
+  tableTC.addFields({
+    [referenceFieldName]: {
+      type: referencedTableDefinition.typeName,
+      directives: [
+        {
+          name: 'sqliteSelect',
+          args: {
+            subgraph: subgraphName,
+            table: referencedTableDefinition.table.name,
+            columnMap: columnPairs,
+          },
+        },
+      ],
+    },
+  });
+  const referencingFieldName = getAvailableFieldName(
+    referencedTC,
+    toCamelCase(pluralize(tableDefinition.typeName)),
+    sourceColumnsName,
+  );
+  referencedTC.addFields({
+    [referencingFieldName]: {
+      type: `[${tableDefinition.typeName}!]!`,
+      args: getListArgs(tableDefinition.typeName),
+      directives: [
+        {
+          name: 'sqliteSelect',
+          args: {
+            subgraph: subgraphName,
+            table: tableDefinition.table.name,
+            columnMap: columnPairs.map(([from, to]) => [to, from]),
+          },
+        },
+      ],
+    },
+  });
+}
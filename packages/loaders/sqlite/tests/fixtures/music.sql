@@ -0,0 +1,19 @@
+CREATE TABLE artists (
+  ArtistId INTEGER PRIMARY KEY,
+  Name TEXT NOT NULL
+);
+CREATE TABLE albums (
+  AlbumId INTEGER PRIMARY KEY,
+  Title TEXT NOT NULL,
+  ArtistId INTEGER NOT NULL REFERENCES artists (ArtistId),
+  Rating REAL
+);
+CREATE VIEW album_titles AS SELECT Title FROM albums;
+
+INSERT INTO artists (ArtistId, Name) VALUES (1, 'AC/DC'), (2, 'Accept'), (3, 'Aerosmith');
+INSERT INTO albums (AlbumId, Title, ArtistId, Rating) VALUES
+  (1, 'For Those About To Rock We Salute You', 1, 4.5),
+  (2, 'Balls to the Wall', 2, 4),
+  (3, 'Restless and Wild', 2, NULL),
+  (4, 'Let There Be Rock', 1, 5),
+  (5, 'Big Ones', 3, 3.5);
@@ -0,0 +1,194 @@
+import { parse, type GraphQLObjectType } from 'graphql';
+import { openSQLiteDatabase, type SQLiteDatabase } from '@graphql-mesh/transport-sqlite';
+import type { ExecutionResult } from '@graphql-tools/utils';
+import { getSQLiteExecutor, loadGraphQLSchemaFromSQLite } from '../src/index.js';
+
+describe('SQLite', () => {
+  let database: SQLiteDatabase;
+  let executor: ReturnType<typeof getSQLiteExecutor>;
+  let queries: string[];
+  beforeEach(async () => {
+    queries = [];
+    const inMemoryDatabase = await openSQLiteDatabase({
+      location: './fixtures/music.sql',
+      type: 'infile',
+      cwd: __dirname,
+    });
+    database = {
+      ...inMemoryDatabase,
+      all(sql, params) {
+        queries.push(sql);
+        return inMemoryDatabase.all(sql, params);
+      },
+    };
+    const schema = await loadGraphQLSchemaFromSQLite('music', {
+      infile: './fixtures/music.sql',
+      cwd: __dirname,
+      database,
+    });
+    executor = getSQLiteExecutor({
+      subgraph: schema,
+      database,
+    });
+    queries = [];
+  });
+  afterEach(() => database.close());
+  async function execute(query: string) {
+    return (await executor({
+      document: parse(query),
+      context: {},
+    })) as ExecutionResult;
+  }
+  it('generates the types, the queries and the mutations', async () => {
+    const schema = await loadGraphQLSchemaFromSQLite('music', { database });
+    const albumType = schema.getType('Album') as GraphQLObjectType;
+    expect(Object.keys(albumType.getFields())).toEqual([
+      'albumId',
+      'title',
+      'artistId',
+      'rating',
+      'artist',
+    ]);
+    expect(Object.keys(schema.getQueryType().getFields())).toEqual(
+      expect.arrayContaining(['albums', 'album', 'countAlbums', 'albumTitles', 'artists']),
+    );
+    const mutationFields = Object.keys(schema.getMutationType().getFields());
+    expect(mutationFields).toEqual(
+      expect.arrayContaining(['createAlbum', 'updateAlbum', 'deleteAlbum', 'updateAlbums']),
+    );
+    // Views are read-only
+    expect(mutationFields).not.toContain('createAlbumTitle');
+  });
+  it('filters, orders and paginates', async () => {
+    const result = await execute(/* GraphQL */ `
+      {
+        albums(
+          where: { or: [{ rating: { gte: 4.5 } }, { title: { like: "Balls%" } }] }
+          orderBy: [{ title: desc }]
+          limit: 2
+          offset: 1
+        ) {
+          title
+        }
+        countAlbums(where: { rating: { isNull: true } })
+      }
+    `);
+    expect(result).toEqual({
+      data: {
+        albums: [
+          { title: 'For Those About To Rock We Salute You' },
+          { title: 'Balls to the Wall' },
+        ],
+        countAlbums: 1,
+      },
+    });
+  });
+  it('loads the relations in batches', async () => {
+    const result = await execute(/* GraphQL */ `
+      {
+        artists(orderBy: [{ artistId: asc }]) {
+          name
+          albums(orderBy: [{ albumId: desc }], limit: 1) {
+            title
+            artist {
+              name
+            }
+          }
+        }
+      }
+    `);
+    expect(result).toEqual({
+      data: {
+        artists: [
+          { name: 'AC/DC', albums: [{ title: 'Let There Be Rock', artist: { name: 'AC/DC' } }] },
+          { name: 'Accept', albums: [{ title: 'Restless and Wild', artist: { name: 'Accept' } }] },
+          { name: 'Aerosmith', albums: [{ title: 'Big Ones', artist: { name: 'Aerosmith' } }] },
+        ],
+      },
+    });
+    expect(queries).toHaveLength(3);
+  });
+  it('inserts, updates and deletes', async () => {
+    const createResult = await execute(/* GraphQL */ `
+      mutation {
+        createAlbum(input: { title: "Powerage", artistId: 1 }) {
+          albumId
+          title
+          artist {
+            name
+          }
+        }
+      }
+    `);
+    expect(createResult).toEqual({
+      data: {
+        createAlbum: { albumId: 6, title: 'Powerage', artist: { name: 'AC/DC' } },
+      },
+    });
+    expect(
+      await execute(/* GraphQL */ `
+        mutation {
+          updateAlbum(albumId: 6, input: { rating: 4 }) {
+            title
+            rating
+          }
+        }
+      `),
+    ).toEqual({ data: { updateAlbum: { title: 'Powerage', rating: 4 } } });
+    expect(
+      await execute(/* GraphQL */ `
+        mutation {
+          deleteAlbums(where: { artistId: { eq: 1 } })
+        }
+      `),
+    ).toEqual({ data: { deleteAlbums: 3 } });
+    expect(
+      await execute(/* GraphQL */ `
+        {
+          album(albumId: 6) {
+            title
+          }
+        }
+      `),
+    ).toEqual({ data: { album: null } });
+  });
+  it('deletes only the returned row by its primary key', async () => {
+    expect(
+      await execute(/* GraphQL */ `
+        mutation {
+          deleteAlbum(albumId: 1) {
+            title
+          }
+        }
+      `),
+    ).toEqual({ data: { deleteAlbum: { title: 'For Those About To Rock We Salute You' } } });
+    expect(await database.all('SELECT "AlbumId" FROM "albums" ORDER BY "AlbumId"')).toEqual([
+      { AlbumId: 2 },
+      { AlbumId: 3 },
+      { AlbumId: 4 },
+      { AlbumId: 5 },
+    ]);
+  });
+  it('does not update or delete all the rows with an empty filter', async () => {
+    const updateResult = await execute(/* GraphQL */ `
+      mutation {
+        updateAlbums(where: {}, input: { rating: 1 })
+      }
+    `);
+    expect(updateResult.errors?.map(error => error.message)).toEqual([
+      'Cannot update the rows of "albums" without a filter; use a filter that matches all the rows explicitly',
+    ]);
+    const deleteResult = await execute(/* GraphQL */ `
+      mutation {
+        deleteAlbums(where: { and: [] })
+      }
+    `);
+    expect(deleteResult.errors?.map(error => error.message)).toEqual([
+      'Cannot delete the rows of "albums" without a filter; use a filter that matches all the rows explicitly',
+    ]);
+    expect(await database.all('SELECT COUNT(*) AS count FROM "albums" WHERE "Rating" = 1')).toEqual(
+      [{ count: 0 }],
+    );
+    expect(await database.all('SELECT COUNT(*) AS count FROM "albums"')).toEqual([{ count: 5 }]);
+  });
+});
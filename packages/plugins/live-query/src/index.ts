@@ -4,11 +4,14 @@ import { process } from '@graphql-mesh/cross-helpers';
 import { stringInterpolator } from '@graphql-mesh/string-interpolation';
 import type { Logger, MeshPubSub, YamlConfig } from '@graphql-mesh/types';
 import { DefaultLogger, PubSub } from '@graphql-mesh/utils';
+import { applyLiveQueryJSONPatchGenerator } from '@n1ru4l/graphql-live-query-patch-json-patch';
 import {
   defaultResourceIdentifierNormalizer,
   InMemoryLiveQueryStore,
 } from '@n1ru4l/in-memory-live-query-store';
 import { useInvalidateByResult } from './useInvalidateByResult.js';
+import { useInvalidateByTTL } from './useInvalidateByTTL.js';
+import { useLimitLiveQueries } from './useLimitLiveQueries.js';
 
 export default function useMeshLiveQuery(
   options: {
@@ -37,12 +40,28 @@ export default function useMeshLiveQuery(
     idFieldName: options.idFieldName,
     indexBy: options.indexBy,
   });
+  // The invalidations are shared with the other instances when the pubsub is distributed
   options.pubsub.subscribe('live-query:invalidate', (identifiers: string | string[]) =>
     liveQueryStore.invalidate(identifiers),
   );
   return {
     onPluginInit({ addPlugin }) {
-      addPlugin(useLiveQuery({ liveQueryStore }));
+      if (options.maxLiveQueries != null) {
+        addPlugin(
+          useLimitLiveQueries({
+            maxLiveQueries: options.maxLiveQueries,
+            logger: options.logger,
+          }),
+        );
+      }
+      addPlugin(
+        useLiveQuery({
+          liveQueryStore,
+          applyLiveQueryPatchGenerator: options.jsonPatch
+            ? applyLiveQueryJSONPatchGenerator
+            : undefined,
+        }),
+      );
       if (options.invalidations?.length) {
         addPlugin(
           useInvalidateByResult({
@@ -52,6 +71,14 @@ export default function useMeshLiveQuery(
           }),
         );
       }
+      if (options.ttlInvalidations?.length) {
+        addPlugin(
+          useInvalidateByTTL({
+            liveQueryStore,
+            ttlInvalidations: options.ttlInvalidations,
+          }),
+        );
+      }
     },
   };
 }
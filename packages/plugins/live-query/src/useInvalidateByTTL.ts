@@ -0,0 +1,92 @@
+import type { DocumentNode, GraphQLSchema } from 'graphql';
+import { getNamedType, TypeInfo, visit, visitWithTypeInfo } from 'graphql';
+import type { Plugin } from '@envelop/core';
+import { isAsyncIterable } from '@envelop/core';
+import type { YamlConfig } from '@graphql-mesh/types';
+import type { InMemoryLiveQueryStore } from '@n1ru4l/in-memory-live-query-store';
+import { isLiveQuery } from './utils.js';
+
+interface InvalidateByTTLParams {
+  liveQueryStore: InMemoryLiveQueryStore;
+  ttlInvalidations: YamlConfig.LiveQueryTTLInvalidation[];
+}
+
+interface DocumentTTL {
+  ttl?: number;
+  rootFieldCoordinates: string[];
+}
+
+export function useInvalidateByTTL({
+  liveQueryStore,
+  ttlInvalidations,
+}: InvalidateByTTLParams): Plugin {
+  const coordinateTTLMap = new Map<string, number>();
+  for (const { coordinate, ttl } of ttlInvalidations) {
+    coordinateTTLMap.set(coordinate, ttl);
+  }
+  const documentTTLMap = new WeakMap<DocumentNode, DocumentTTL>();
+  // The shortest TTL of the types and the fields selected by the document
+  function getDocumentTTL(schema: GraphQLSchema, document: DocumentNode) {
+    let documentTTL = documentTTLMap.get(document);
+    if (!documentTTL) {
+      documentTTL = {
+        rootFieldCoordinates: [],
+      };
+      const queryType = schema.getQueryType();
+      const typeInfo = new TypeInfo(schema);
+      visit(
+        document,
+        visitWithTypeInfo(typeInfo, {
+          Field: () => {
+            const parentType = typeInfo.getParentType();
+            const fieldDef = typeInfo.getFieldDef();
+            if (!parentType || !fieldDef) {
+              return;
+            }
+            const fieldCoordinate = `${parentType.name}.${fieldDef.name}`;
+            if (parentType === queryType) {
+              documentTTL.rootFieldCoordinates.push(fieldCoordinate);
+            }
+            for (const coordinate of [fieldCoordinate, getNamedType(fieldDef.type).name]) {
+              const ttl = coordinateTTLMap.get(coordinate);
+              if (ttl != null && (documentTTL.ttl == null || ttl < documentTTL.ttl)) {
+                documentTTL.ttl = ttl;
+              }
+            }
+          },
+        }),
+      );
+      documentTTLMap.set(document, documentTTL);
+    }
+    return documentTTL;
+  }
+  return {
+    onExecute({ args }) {
+      if (!isLiveQuery(args.document, args.operationName, args.variableValues)) {
+        return;
+      }
+      const { ttl, rootFieldCoordinates } = getDocumentTTL(args.schema, args.document);
+      if (ttl == null) {
+        return;
+      }
+      let timeout: ReturnType<typeof setTimeout>;
+      return {
+        onExecuteDone({ result }) {
+          if (!isAsyncIterable(result)) {
+            return;
+          }
+          return {
+            // The result expires after the TTL unless it is invalidated by an event earlier
+            onNext() {
+              clearTimeout(timeout);
+              timeout = setTimeout(() => liveQueryStore.invalidate(rootFieldCoordinates), ttl);
+            },
+            onEnd() {
+              clearTimeout(timeout);
+            },
+          };
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import type { Plugin } from '@envelop/core';
+import { isAsyncIterable } from '@envelop/core';
+import type { Logger } from '@graphql-mesh/types';
+import { createGraphQLError } from '@graphql-tools/utils';
+import { isLiveQuery } from './utils.js';
+
+interface LimitLiveQueriesParams {
+  maxLiveQueries: number;
+  logger: Logger;
+}
+
+export function useLimitLiveQueries({ maxLiveQueries, logger }: LimitLiveQueriesParams): Plugin {
+  let activeLiveQueries = 0;
+  return {
+    onExecute({ args, setResultAndStopExecution }) {
+      if (!isLiveQuery(args.document, args.operationName, args.variableValues)) {
+        return;
+      }
+      if (activeLiveQueries >= maxLiveQueries) {
+        logger.warn(`Rejected a live query, because ${maxLiveQueries} live queries are running`);
+        setResultAndStopExecution({
+          errors: [
+            createGraphQLError(`Too many live queries are running, try again later`, {
+              extensions: {
+                code: 'TOO_MANY_LIVE_QUERIES',
+              },
+            }),
+          ],
+        });
+        return;
+      }
+      activeLiveQueries++;
+      let released = false;
+      function release() {
+        if (!released) {
+          released = true;
+          activeLiveQueries--;
+        }
+      }
+      return {
+        onExecuteDone({ result }) {
+          if (isAsyncIterable(result)) {
+            return {
+              onEnd: release,
+            };
+          }
+          release();
+        },
+      };
+    },
+  };
+}
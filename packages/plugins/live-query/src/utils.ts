@@ -0,0 +1,12 @@
+import type { DocumentNode } from 'graphql';
+import { getOperationAST } from 'graphql';
+import { isLiveQueryOperationDefinitionNode } from '@n1ru4l/graphql-live-query';
+
+export function isLiveQuery(
+  document: DocumentNode,
+  operationName?: string,
+  variableValues?: Record<string, unknown>,
+) {
+  const operationAST = getOperationAST(document, operationName);
+  return !!operationAST && isLiveQueryOperationDefinitionNode(operationAST, variableValues);
+}
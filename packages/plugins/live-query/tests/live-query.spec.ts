@@ -0,0 +1,252 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import { setTimeout } from 'timers/promises';
+import type { ExecutionResult } from 'graphql';
+import { parse, specifiedRules, validate } from 'graphql';
+import { envelop, isAsyncIterable, useEngine, useSchema } from '@envelop/core';
+import type { MeshPubSub } from '@graphql-mesh/types';
+import { PubSub } from '@graphql-mesh/utils';
+import { normalizedExecutor } from '@graphql-tools/executor';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import useMeshLiveQuery from '../src/index.js';
+
+describe('Live Query Plugin', () => {
+  const graphQLEnginePlugin = useEngine({
+    parse,
+    validate,
+    execute: normalizedExecutor,
+    subscribe: normalizedExecutor,
+    specifiedRules,
+  });
+
+  let todos: { id: string; text: string }[];
+  let numberOfCalls: number;
+  const schema = makeExecutableSchema({
+    typeDefs: /* GraphQL */ `
+      directive @live on QUERY
+      type Query {
+        todos: [Todo!]!
+      }
+      type Mutation {
+        addTodo(text: String!): Todo!
+      }
+      type Todo {
+        id: ID!
+        text: String!
+        done: Boolean
+      }
+    `,
+    resolvers: {
+      Query: {
+        todos: () => {
+          numberOfCalls++;
+          return todos;
+        },
+      },
+      Mutation: {
+        addTodo: (_, { text }) => {
+          const todo = { id: String(todos.length + 1), text };
+          todos.push(todo);
+          return todo;
+        },
+      },
+    },
+  });
+
+  beforeEach(() => {
+    todos = [{ id: '1', text: 'Buy milk' }];
+    numberOfCalls = 0;
+  });
+
+  function createGateway(options: Parameters<typeof useMeshLiveQuery>[0] = {}) {
+    const getEnveloped = envelop({
+      plugins: [graphQLEnginePlugin, useSchema(schema), useMeshLiveQuery(options)],
+    });
+    return async function executeQuery(query: string) {
+      const { schema, execute, parse, contextFactory } = getEnveloped({});
+      return execute({
+        schema,
+        document: parse(query),
+        contextValue: await contextFactory(),
+      }) as Promise<ExecutionResult | AsyncIterableIterator<ExecutionResult>>;
+    };
+  }
+
+  const liveQuery = /* GraphQL */ `
+    query Todos @live {
+      todos {
+        id
+        text
+      }
+    }
+  `;
+
+  async function startLiveQuery(executeQuery: ReturnType<typeof createGateway>) {
+    const result = await executeQuery(liveQuery);
+    if (!isAsyncIterable(result)) {
+      throw new Error(`Expected a live query result, got ${JSON.stringify(result)}`);
+    }
+    return result;
+  }
+
+  it('re-executes the live queries of all the instances sharing the pubsub', async () => {
+    // The same pubsub stands for the distributed pubsub shared by the instances
+    const pubsub: MeshPubSub = new PubSub();
+    const executeQueryOnFirst = createGateway({
+      pubsub,
+      invalidations: [
+        {
+          field: 'Mutation.addTodo',
+          invalidate: ['Query.todos'],
+        },
+      ],
+    });
+    const executeQueryOnSecond = createGateway({ pubsub });
+    const liveResult = await startLiveQuery(executeQueryOnSecond);
+    await expect(liveResult.next()).resolves.toMatchObject({
+      done: false,
+      value: {
+        data: {
+          todos: [{ id: '1', text: 'Buy milk' }],
+        },
+      },
+    });
+    await executeQueryOnFirst(/* GraphQL */ `
+      mutation {
+        addTodo(text: "Buy bread") {
+          id
+        }
+      }
+    `);
+    await expect(liveResult.next()).resolves.toMatchObject({
+      done: false,
+      value: {
+        data: {
+          todos: [
+            { id: '1', text: 'Buy milk' },
+            { id: '2', text: 'Buy bread' },
+          ],
+        },
+      },
+    });
+    await liveResult.return();
+  });
+
+  it('re-executes the live queries when the TTL of a selected type is expired', async () => {
+    const executeQuery = createGateway({
+      ttlInvalidations: [
+        {
+          coordinate: 'Todo',
+          ttl: 100,
+        },
+      ],
+    });
+    const liveResult = await startLiveQuery(executeQuery);
+    await liveResult.next();
+    expect(numberOfCalls).toBe(1);
+    todos[0].text = 'Buy oat milk';
+    await expect(liveResult.next()).resolves.toMatchObject({
+      done: false,
+      value: {
+        data: {
+          todos: [{ id: '1', text: 'Buy oat milk' }],
+        },
+      },
+    });
+    expect(numberOfCalls).toBe(2);
+    await liveResult.return();
+    await setTimeout(200);
+    // The timer is cleared when the live query is stopped
+    expect(numberOfCalls).toBe(2);
+  });
+
+  it('does not invalidate the live queries not selecting the configured fields', async () => {
+    const executeQuery = createGateway({
+      ttlInvalidations: [
+        {
+          coordinate: 'Todo.done',
+          ttl: 50,
+        },
+      ],
+    });
+    const liveResult = await startLiveQuery(executeQuery);
+    await liveResult.next();
+    await setTimeout(200);
+    expect(numberOfCalls).toBe(1);
+    await liveResult.return();
+  });
+
+  it('rejects the live queries exceeding the limit', async () => {
+    const executeQuery = createGateway({
+      maxLiveQueries: 1,
+    });
+    const firstLiveResult = await startLiveQuery(executeQuery);
+    await firstLiveResult.next();
+    const rejectedResult = await executeQuery(liveQuery);
+    expect(rejectedResult).toMatchObject({
+      errors: [
+        {
+          message: 'Too many live queries are running, try again later',
+          extensions: {
+            code: 'TOO_MANY_LIVE_QUERIES',
+          },
+        },
+      ],
+    });
+    // Regular queries are not limited
+    await expect(
+      executeQuery(/* GraphQL */ `
+        {
+          todos {
+            id
+          }
+        }
+      `),
+    ).resolves.toEqual({
+      data: {
+        todos: [{ id: '1' }],
+      },
+    });
+    await firstLiveResult.return();
+    const secondLiveResult = await startLiveQuery(executeQuery);
+    await expect(secondLiveResult.next()).resolves.toMatchObject({
+      value: {
+        data: {
+          todos: [{ id: '1', text: 'Buy milk' }],
+        },
+      },
+    });
+    await secondLiveResult.return();
+  });
+
+  it('sends the changes as JSON patches', async () => {
+    const pubsub: MeshPubSub = new PubSub();
+    const executeQuery = createGateway({
+      pubsub,
+      jsonPatch: true,
+    });
+    const liveResult = await startLiveQuery(executeQuery);
+    await expect(liveResult.next()).resolves.toMatchObject({
+      value: {
+        data: {
+          todos: [{ id: '1', text: 'Buy milk' }],
+        },
+        revision: 1,
+      },
+    });
+    todos.push({ id: '2', text: 'Buy bread' });
+    pubsub.publish('live-query:invalidate', 'Query.todos');
+    await expect(liveResult.next()).resolves.toMatchObject({
+      value: {
+        patch: [
+          {
+            op: 'add',
+            path: '/todos/1',
+            value: { id: '2', text: 'Buy bread' },
+          },
+        ],
+        revision: 2,
+      },
+    });
+    await liveResult.return();
+  });
+});
@@ -0,0 +1,480 @@
+import type faker from 'faker';
+import {
+  getNamedType,
+  getNullableType,
+  isInputObjectType,
+  isLeafType,
+  isListType,
+  isObjectType,
+  isScalarType,
+  type GraphQLField,
+  type GraphQLFieldResolver,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+} from 'graphql';
+import type { IMocks, IMockStore, TypePolicy } from '@graphql-tools/mock';
+import { getDirectiveExtensions } from '@graphql-tools/utils';
+
+/**
+ * Deterministic random number generator (mulberry32), so the same seed produces the same mocks
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return function random() {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function getSeededScalarMocks(random: () => number): IMocks {
+  const randomInt = (min: number, max: number) => Math.floor(random() * (max - min + 1)) + min;
+  const randomHex = (length: number) =>
+    Array.from({ length }, () => randomInt(0, 15).toString(16)).join('');
+  const UUID = () =>
+    `${randomHex(8)}-${randomHex(4)}-4${randomHex(3)}-${randomInt(8, 11).toString(16)}${randomHex(3)}-${randomHex(12)}`;
+  return {
+    Int: () => Math.round(random() * 200) - 100,
+    Float: () => random() * 200 - 100,
+    Boolean: () => random() > 0.5,
+    ID: () => Math.floor(random() * 0xffffffff).toString(16),
+    // The mocks of graphql-scalars that use `Math.random`
+    UUID,
+    GUID: UUID,
+    HexColorCode: () => `#${randomHex(6)}`,
+    Hexadecimal: () => randomHex(6),
+    HSL: () => `hsl(${randomInt(0, 360)}, ${randomInt(30, 95)}%, ${randomInt(30, 80)}%)`,
+    HSLA: () =>
+      `hsla(${randomInt(0, 360)}, ${randomInt(30, 95)}%, ${randomInt(30, 80)}%, ${random()})`,
+    IPv4: () =>
+      `${randomInt(1, 255)}.${randomInt(0, 255)}.${randomInt(0, 255)}.${randomInt(0, 255)}`,
+    MAC: () => Array.from({ length: 6 }, () => randomHex(2).toUpperCase()).join(':'),
+    Port: () => randomInt(0, 65535),
+    RGB: () => `rgb(${randomInt(0, 255)}, ${randomInt(0, 255)}, ${randomInt(0, 255)})`,
+    RGBA: () =>
+      `rgba(${randomInt(0, 255)}, ${randomInt(0, 255)}, ${randomInt(0, 255)}, ${random()})`,
+  };
+}
+
+/**
+ * Realistic values for the string fields that are recognized by their names
+ */
+const fakerByFieldName: [RegExp, (fakerInstance: typeof faker) => string][] = [
+  [/email/i, f => f.internet.email()],
+  [/^(first_?name|given_?name)$/i, f => f.name.firstName()],
+  [/^(last_?name|family_?name|surname)$/i, f => f.name.lastName()],
+  [/^(full_?name|display_?name|user_?name|author)$/i, f => f.name.findName()],
+  [/^name$/i, f => f.lorem.words(2)],
+  [/(phone|mobile)/i, f => f.phone.phoneNumber()],
+  [/(url|website|link|href)$/i, f => f.internet.url()],
+  [/(avatar|image|photo|picture)/i, f => f.image.imageUrl()],
+  [/^(city)$/i, f => f.address.city()],
+  [/^(country)$/i, f => f.address.country()],
+  [/(street|address)/i, f => f.address.streetAddress()],
+  [/(zip|postal_?code)/i, f => f.address.zipCode()],
+  [/(company|organization)/i, f => f.company.companyName()],
+  [/(title|headline|subject)/i, f => f.lorem.sentence()],
+  [/(description|summary|bio|body|content|text|comment)/i, f => f.lorem.paragraph()],
+  [/(date|_at|At)$/i, f => f.date.past().toISOString()],
+];
+
+export function getRealisticObjectMocks(schema: GraphQLSchema, fakerInstance: typeof faker) {
+  const mocks: IMocks = {};
+  const typeMap = schema.getTypeMap();
+  for (const typeName in typeMap) {
+    const type = typeMap[typeName];
+    if (!isObjectType(type) || typeName.startsWith('__')) {
+      continue;
+    }
+    const fieldFakers: [string, (fakerInstance: typeof faker) => string][] = [];
+    for (const field of Object.values(type.getFields())) {
+      const nullableType = getNullableType(field.type);
+      if (!isScalarType(nullableType) || nullableType.name !== 'String') {
+        continue;
+      }
+      const match = fakerByFieldName.find(([pattern]) => pattern.test(field.name));
+      if (match) {
+        fieldFakers.push([field.name, match[1]]);
+      }
+    }
+    if (fieldFakers.length) {
+      mocks[typeName] = () =>
+        Object.fromEntries(
+          fieldFakers.map(([fieldName, fakerFn]) => [fieldName, fakerFn(fakerInstance)]),
+        );
+    }
+  }
+  return mocks;
+}
+
+function getFirstFieldName(fieldSet: string | undefined) {
+  return fieldSet?.replace(/[{}]/g, ' ').trim().split(/\s+/)[0] || undefined;
+}
+
+/**
+ * Finds the fields that identify the entities;
+ * `@key` of Federation and stitching directives, `@join__type` of the supergraph,
+ * and `@merge` annotations on the root fields.
+ * The types with an `id: ID` field are also considered as entities.
+ */
+export function getEntityKeyFields(schema: GraphQLSchema) {
+  const keyFields = new Map<string, string>();
+  const typeMap = schema.getTypeMap();
+  for (const typeName in typeMap) {
+    const type = typeMap[typeName];
+    if (!isObjectType(type) || typeName.startsWith('__')) {
+      continue;
+    }
+    const directives = getDirectiveExtensions<{
+      key: { fields?: string; selectionSet?: string };
+      join__type: { key?: string };
+    }>(type);
+    const keyFieldName =
+      directives?.key
+        ?.map(keyDirective => getFirstFieldName(keyDirective.fields || keyDirective.selectionSet))
+        .find(Boolean) ||
+      directives?.join__type?.map(joinType => getFirstFieldName(joinType.key)).find(Boolean);
+    if (keyFieldName && type.getFields()[keyFieldName]) {
+      keyFields.set(typeName, keyFieldName);
+    }
+  }
+  for (const rootType of [schema.getQueryType(), schema.getMutationType()]) {
+    for (const field of Object.values(rootType?.getFields() || {})) {
+      const returnType = getNamedType(field.type);
+      const mergeDirectives = getDirectiveExtensions<{ merge: { keyField?: string } }>(
+        field,
+      )?.merge;
+      const keyFieldName = mergeDirectives?.map(merge => merge.keyField).find(Boolean);
+      if (
+        keyFieldName &&
+        isObjectType(returnType) &&
+        !keyFields.has(returnType.name) &&
+        returnType.getFields()[keyFieldName]
+      ) {
+        keyFields.set(returnType.name, keyFieldName);
+      }
+    }
+  }
+  for (const typeName in typeMap) {
+    const type = typeMap[typeName];
+    if (
+      isObjectType(type) &&
+      !typeName.startsWith('__') &&
+      !keyFields.has(typeName) &&
+      type !== schema.getQueryType() &&
+      type !== schema.getMutationType() &&
+      type !== schema.getSubscriptionType()
+    ) {
+      const idField = type.getFields().id;
+      if (idField && getNamedType(idField.type).name === 'ID') {
+        keyFields.set(typeName, 'id');
+      }
+    }
+  }
+  return keyFields;
+}
+
+export function getTypePolicies(keyFields: Map<string, string>) {
+  const typePolicies: Record<string, TypePolicy> = {};
+  for (const [typeName, keyFieldName] of keyFields) {
+    typePolicies[typeName] = { keyFieldName };
+  }
+  return typePolicies;
+}
+
+type MutationKind = 'create' | 'update' | 'delete';
+
+// The verb should be followed by the subject, e.g. `createUser`, `delete_user`
+const mutationPatterns: [RegExp, MutationKind][] = [
+  [/^(create|add|insert|new)(?=[A-Z_]|$)/, 'create'],
+  [/^(update|edit|modify|patch|set|put|replace|upsert)(?=[A-Z_]|$)/, 'update'],
+  [/^(delete|remove|destroy)(?=[A-Z_]|$)/, 'delete'],
+];
+
+function getMutationKind(fieldName: string) {
+  for (const [pattern, kind] of mutationPatterns) {
+    const match = fieldName.match(pattern);
+    if (match) {
+      return { kind, subject: fieldName.slice(match[0].length).replace(/^_+/, '') };
+    }
+  }
+}
+
+export interface FixtureRecords {
+  [typeName: string]: Record<string, any>[] | Record<string, Record<string, any>>;
+}
+
+export interface AutoMockingOptions {
+  schema: GraphQLSchema;
+  keyFields: Map<string, string>;
+  getStore(): IMockStore;
+  registry: EntityRegistry;
+  /** Resolves when the fixtures are loaded into the store */
+  ready$: Promise<void>;
+  /** Number of the entities generated for the list fields when the store is empty */
+  listLength?: number;
+}
+
+/**
+ * Keeps the keys of the entities that are known by the list fields,
+ * so the entities created by the mutations are returned by the queries
+ */
+export class EntityRegistry {
+  // Keys are compared as strings, since the keys in the fixtures and the arguments may differ in type
+  private keysByType = new Map<string, Map<string, string | number>>();
+  private deletedKeysByType = new Map<string, Set<string>>();
+
+  keys(typeName: string) {
+    return [...(this.keysByType.get(typeName)?.values() || [])];
+  }
+
+  has(typeName: string, key: string | number) {
+    return !!this.keysByType.get(typeName)?.has(String(key));
+  }
+
+  add(typeName: string, key: string | number) {
+    this.deletedKeysByType.get(typeName)?.delete(String(key));
+    let keys = this.keysByType.get(typeName);
+    if (!keys) {
+      keys = new Map();
+      this.keysByType.set(typeName, keys);
+    }
+    if (!keys.has(String(key))) {
+      keys.set(String(key), key);
+    }
+  }
+
+  delete(typeName: string, key: string | number) {
+    this.keysByType.get(typeName)?.delete(String(key));
+    let deletedKeys = this.deletedKeysByType.get(typeName);
+    if (!deletedKeys) {
+      deletedKeys = new Set();
+      this.deletedKeysByType.set(typeName, deletedKeys);
+    }
+    deletedKeys.add(String(key));
+  }
+
+  isDeleted(typeName: string, key: string | number) {
+    return !!this.deletedKeysByType.get(typeName)?.has(String(key));
+  }
+}
+
+/**
+ * Loads the records into the store; either a list of the records with their keys,
+ * or an object of the records by their keys
+ */
+export function loadFixtures(
+  fixtures: FixtureRecords,
+  {
+    store,
+    keyFields,
+    registry,
+  }: { store: IMockStore; keyFields: Map<string, string>; registry: EntityRegistry },
+) {
+  for (const typeName in fixtures) {
+    const keyFieldName = keyFields.get(typeName);
+    if (!keyFieldName) {
+      throw new Error(`Fixtures of "${typeName}" cannot be loaded; it is not an entity with a key`);
+    }
+    const records = fixtures[typeName];
+    const entries = Array.isArray(records)
+      ? records.map(record => [record[keyFieldName], record] as const)
+      : Object.entries(records);
+    for (const [key, record] of entries) {
+      if (key == null) {
+        throw new Error(`Fixture of "${typeName}" does not have the key field "${keyFieldName}"`);
+      }
+      store.set(typeName, key, { ...record, [keyFieldName]: key });
+      registry.add(typeName, key);
+    }
+  }
+}
+
+function getKeyArgName(field: GraphQLField<any, any>, keyFieldName: string) {
+  const mergeKeyArg = getDirectiveExtensions<{ merge: { keyArg?: string } }>(field)
+    ?.merge?.map(merge => merge.keyArg)
+    .find(Boolean);
+  if (mergeKeyArg && field.args.some(arg => arg.name === mergeKeyArg)) {
+    return mergeKeyArg;
+  }
+  const candidates = [keyFieldName, `${keyFieldName}s`];
+  return field.args.find(arg => candidates.includes(arg.name))?.name;
+}
+
+/**
+ * Creates the resolvers of the root fields that look up the entities from the store by their keys,
+ * list the known entities, and apply the create/update/delete mutations to the store
+ */
+export function getAutoMockingResolvers({
+  schema,
+  keyFields,
+  getStore,
+  registry,
+  ready$,
+  listLength = 2,
+}: AutoMockingOptions) {
+  const resolvers: Record<string, Record<string, GraphQLFieldResolver<unknown, unknown>>> = {};
+  const keyCounters = new Map<string, number>();
+
+  function generateKey(typeName: string): string | number {
+    const keyFieldName = keyFields.get(typeName);
+    const keyType = getNamedType(
+      (schema.getType(typeName) as GraphQLObjectType).getFields()[keyFieldName].type,
+    );
+    let counter = keyCounters.get(typeName) || registry.keys(typeName).length;
+    let key: string | number;
+    do {
+      counter++;
+      key = keyType.name === 'Int' || keyType.name === 'Float' ? counter : String(counter);
+    } while (registry.has(typeName, key) || registry.isDeleted(typeName, key));
+    keyCounters.set(typeName, counter);
+    return key;
+  }
+
+  function addResolver(
+    typeName: string,
+    fieldName: string,
+    resolver: (root: unknown, args: Record<string, any>) => unknown,
+  ) {
+    resolvers[typeName] ||= {};
+    resolvers[typeName][fieldName] = (root, args) => ready$.then(() => resolver(root, args));
+  }
+
+  function getEntity(typeName: string, key: string | number) {
+    if (key == null || registry.isDeleted(typeName, key)) {
+      return null;
+    }
+    return getStore().get(typeName, key);
+  }
+
+  function listEntities(typeName: string) {
+    if (!registry.keys(typeName).length) {
+      for (let i = 0; i < listLength; i++) {
+        registry.add(typeName, generateKey(typeName));
+      }
+    }
+    return registry.keys(typeName).map(key => getStore().get(typeName, key));
+  }
+
+  const queryType = schema.getQueryType();
+  for (const field of Object.values(queryType?.getFields() || {})) {
+    const returnType = getNamedType(field.type);
+    const keyFieldName = keyFields.get(returnType.name);
+    if (!keyFieldName) {
+      continue;
+    }
+    const isList = isListType(getNullableType(field.type));
+    const keyArgName = getKeyArgName(field, keyFieldName);
+    if (keyArgName) {
+      addResolver(queryType.name, field.name, (_root: unknown, args: Record<string, any>) => {
+        const keyArg = args[keyArgName];
+        if (Array.isArray(keyArg)) {
+          const entities = keyArg.map(key => getEntity(returnType.name, key));
+          return isList ? entities : entities[0];
+        }
+        const entity = getEntity(returnType.name, keyArg);
+        return isList ? [entity] : entity;
+      });
+    } else if (isList && field.args.every(arg => getNullableType(arg.type) === arg.type)) {
+      // Lists without required arguments return all the known entities
+      addResolver(queryType.name, field.name, () => listEntities(returnType.name));
+    }
+  }
+
+  const mutationType = schema.getMutationType();
+  for (const field of Object.values(mutationType?.getFields() || {})) {
+    const mutationKind = getMutationKind(field.name);
+    if (!mutationKind) {
+      continue;
+    }
+    const returnType = getNamedType(field.type);
+    let entityTypeName: string | undefined;
+    // The field of the payload type that returns the entity, e.g. `CreateUserPayload.user`
+    let payloadFieldName: string | undefined;
+    if (keyFields.has(returnType.name)) {
+      entityTypeName = returnType.name;
+    } else if (isObjectType(returnType)) {
+      const payloadField = Object.values(returnType.getFields()).find(payloadField =>
+        keyFields.has(getNamedType(payloadField.type).name),
+      );
+      if (payloadField) {
+        entityTypeName = getNamedType(payloadField.type).name;
+        payloadFieldName = payloadField.name;
+      }
+    }
+    if (!entityTypeName) {
+      const subject = mutationKind.subject.replace(/_/g, '').toLowerCase();
+      entityTypeName = [...keyFields.keys()].find(typeName => {
+        const lowerCaseTypeName = typeName.toLowerCase();
+        return subject === lowerCaseTypeName || subject === `${lowerCaseTypeName}s`;
+      });
+    }
+    if (!entityTypeName) {
+      continue;
+    }
+    const entityType = schema.getType(entityTypeName) as GraphQLObjectType;
+    const entityFields = entityType.getFields();
+    const keyFieldName = keyFields.get(entityTypeName);
+    const keyArgName = getKeyArgName(field, keyFieldName);
+    addResolver(mutationType.name, field.name, (_root: unknown, args: Record<string, any>) => {
+      const values: Record<string, unknown> = {};
+      for (const arg of field.args) {
+        const argValue = args[arg.name];
+        if (argValue == null) {
+          continue;
+        }
+        // Input objects like `input: CreateUserInput` are flattened
+        const argFields =
+          isInputObjectType(getNullableType(arg.type)) && !Array.isArray(argValue)
+            ? Object.entries(argValue)
+            : [[arg.name, argValue]];
+        for (const [fieldName, fieldValue] of argFields) {
+          const entityField = entityFields[fieldName];
+          if (entityField && isLeafType(getNamedType(entityField.type))) {
+            values[fieldName] = fieldValue;
+          }
+        }
+      }
+      let key = (values[keyFieldName] ?? (keyArgName && args[keyArgName])) as string | number;
+      const store = getStore();
+      switch (mutationKind.kind) {
+        case 'create':
+          key ??= generateKey(entityTypeName);
+          store.set(entityTypeName, key, { ...values, [keyFieldName]: key });
+          registry.add(entityTypeName, key);
+          break;
+        case 'update':
+          if (key == null || registry.isDeleted(entityTypeName, key)) {
+            return null;
+          }
+          store.set(entityTypeName, key, values);
+          registry.add(entityTypeName, key);
+          break;
+        case 'delete':
+          if (key == null || registry.isDeleted(entityTypeName, key)) {
+            return getNullableType(field.type) === field.type ? null : false;
+          }
+          registry.delete(entityTypeName, key);
+          break;
+      }
+      const entity = store.get(entityTypeName, key);
+      if (returnType.name === entityTypeName) {
+        return isListType(getNullableType(field.type)) ? [entity] : entity;
+      }
+      if (payloadFieldName) {
+        return { [payloadFieldName]: entity };
+      }
+      if (returnType.name === 'Boolean') {
+        return true;
+      }
+      if (isLeafType(returnType)) {
+        return key;
+      }
+      return undefined;
+    });
+  }
+
+  return resolvers;
+}
@@ -3,17 +3,48 @@ import type { GraphQLFieldResolver, GraphQLResolveInfo, GraphQLSchema } from 'gr
 import { execute } from 'graphql';
 import { mocks as graphqlScalarsMocks } from 'graphql-scalars';
 import { getInterpolatedStringFactory } from '@graphql-mesh/string-interpolation';
-import type { ImportFn, MeshPlugin, MeshPluginOptions, YamlConfig } from '@graphql-mesh/types';
-import { loadFromModuleExportExpression } from '@graphql-mesh/utils';
-import type { IMocks } from '@graphql-tools/mock';
+import type {
+  ImportFn,
+  Logger,
+  MeshPlugin,
+  MeshPluginOptions,
+  YamlConfig,
+} from '@graphql-mesh/types';
+import { DefaultLogger, loadFromModuleExportExpression, readFile } from '@graphql-mesh/utils';
+import type { IMocks, IMockStore } from '@graphql-tools/mock';
 import { addMocksToSchema, createMockStore } from '@graphql-tools/mock';
+import { fetch } from '@whatwg-node/fetch';
+import {
+  createRandom,
+  EntityRegistry,
+  getAutoMockingResolvers,
+  getEntityKeyFields,
+  getRealisticObjectMocks,
+  getSeededScalarMocks,
+  getTypePolicies,
+  loadFixtures,
+  type FixtureRecords,
+} from './auto.js';
 
 const mockedSchemas = new WeakSet<GraphQLSchema>();
 
+/**
+ * Seeds a separate instance with its own generator, so the global faker is not affected
+ */
+function createSeededFaker(seed: number): typeof faker {
+  const Faker = faker.constructor as new (options: { locales: unknown }) => typeof faker;
+  const seededFaker = new Faker({
+    locales: (faker as typeof faker & { locales: unknown }).locales,
+  });
+  seededFaker.seed(seed);
+  return seededFaker;
+}
+
 export default function useMock(
   config: YamlConfig.MockingConfig & {
     baseDir?: string;
     importFn?: ImportFn;
+    logger?: Logger;
   },
 ): MeshPlugin<{}> {
   // eslint-disable-next-line no-new-func
@@ -25,8 +56,12 @@ export default function useMock(
         if (mockedSchemas.has(schema)) {
           return;
         }
+        const random = config?.seed != null ? createRandom(config.seed) : Math.random;
+        const fakerInstance = config?.seed != null ? createSeededFaker(config.seed) : faker;
         const mocks: IMocks = {
           ...graphqlScalarsMocks,
+          ...(config?.seed != null ? getSeededScalarMocks(random) : {}),
+          ...(config?.auto ? getRealisticObjectMocks(schema, fakerInstance) : {}),
         };
         const resolvers: any = {};
         const typeMap = schema.getTypeMap();
@@ -34,7 +69,7 @@ export default function useMock(
           const type = typeMap[typeName];
           const examples = type.extensions.examples as any[];
           if (examples?.length) {
-            mocks[typeName] = () => examples[Math.floor(Math.random() * examples.length)];
+            mocks[typeName] = () => examples[Math.floor(random() * examples.length)];
           }
         }
         if (config?.mocks?.length) {
@@ -46,10 +81,10 @@ export default function useMock(
                 if (fieldConfig.faker) {
                   let fakerFn: Function; // eslint-disable-line
                   const [service, method] = fieldConfig.faker.split('.');
-                  if (service in faker) {
-                    fakerFn = () => (faker as any)[service][method]();
+                  if (service in fakerInstance) {
+                    fakerFn = () => (fakerInstance as any)[service][method]();
                   } else {
-                    fakerFn = () => faker.fake(fieldConfig.faker || '');
+                    fakerFn = () => fakerInstance.fake(fieldConfig.faker || '');
                   }
                   resolvers[typeName] = resolvers[typeName] || {};
                   resolvers[typeName][fieldName] = fakerFn;
@@ -128,10 +163,10 @@ export default function useMock(
                 if (fieldConfig.faker) {
                   let fakerFn: GraphQLFieldResolver<any, any, { [argName: string]: any }>;
                   const [service, method] = fieldConfig.faker.split('.');
-                  if (service in faker) {
-                    fakerFn = () => (faker as any)[service][method]();
+                  if (service in fakerInstance) {
+                    fakerFn = () => (fakerInstance as any)[service][method]();
                   } else {
-                    fakerFn = () => faker.fake(fieldConfig.faker || '');
+                    fakerFn = () => fakerInstance.fake(fieldConfig.faker || '');
                   }
                   mocks[typeName] = fakerFn;
                 } else if (fieldConfig.custom) {
@@ -150,7 +185,47 @@ export default function useMock(
             }
           }
         }
-        const store = createMockStore({ schema, mocks });
+        let store: IMockStore;
+        if (config?.auto) {
+          const keyFields = getEntityKeyFields(schema);
+          const registry = new EntityRegistry();
+          let fixtures$: Promise<void> = Promise.resolve();
+          if (config.fixtures?.length) {
+            const logger = config.logger || new DefaultLogger('mock');
+            fixtures$ = Promise.all(
+              config.fixtures.map(fixturePath =>
+                readFile<FixtureRecords>(fixturePath, {
+                  cwd: config.baseDir || process.cwd(),
+                  importFn: config.importFn,
+                  fetch,
+                  logger,
+                }),
+              ),
+            ).then(fixtureFiles => {
+              for (const fixtures of fixtureFiles) {
+                loadFixtures(fixtures, { store, keyFields, registry });
+              }
+            });
+            fixtures$.catch(error => logger.error(`Failed to load the fixtures`, error));
+          }
+          const autoResolvers = getAutoMockingResolvers({
+            schema,
+            keyFields,
+            registry,
+            getStore: () => store,
+            ready$: fixtures$,
+          });
+          // The resolvers in the configuration take precedence over the automatic ones
+          for (const typeName in autoResolvers) {
+            resolvers[typeName] = {
+              ...autoResolvers[typeName],
+              ...resolvers[typeName],
+            };
+          }
+          store = createMockStore({ schema, mocks, typePolicies: getTypePolicies(keyFields) });
+        } else {
+          store = createMockStore({ schema, mocks });
+        }
         if (config?.initializeStore) {
           const initializeStoreFn$ = loadFromModuleExportExpression(config.initializeStore, {
             cwd: config.baseDir,
@@ -1,3 +1,4 @@
+import faker from 'faker';
 import { buildSchema, parse, specifiedRules, validate } from 'graphql';
 import { envelop, useEngine, useSchema } from '@envelop/core';
 import type { ImportFn, YamlConfig } from '@graphql-mesh/types';
@@ -343,4 +344,138 @@ describe('mocking', () => {
     expect(updateUserResult?.data?.updateUser?.id).toBe(addedUserId);
     expect(updateUserResult?.data?.updateUser?.name).toBe('Jane Doe');
   });
+
+  describe('auto', () => {
+    const autoSchema = makeExecutableSchema({
+      typeDefs: /* GraphQL */ `
+        type User {
+          id: ID!
+          name: String
+          email: String
+          age: Int
+        }
+        input CreateUserInput {
+          name: String!
+          email: String
+        }
+        type CreateUserPayload {
+          user: User
+        }
+        type Query {
+          user(id: ID!): User
+          users: [User!]!
+        }
+        type Mutation {
+          createUser(input: CreateUserInput!): CreateUserPayload
+          updateUser(id: ID!, name: String): User
+          deleteUser(id: ID!): Boolean
+        }
+      `,
+    });
+    function createEnveloped(config: YamlConfig.MockingConfig) {
+      return envelop({
+        plugins: [
+          enginePlugin,
+          useSchema(autoSchema),
+          useMock({
+            ...config,
+            baseDir,
+            importFn,
+          }),
+        ],
+      })();
+    }
+    async function execute(
+      enveloped: ReturnType<typeof createEnveloped>,
+      query: string,
+    ): Promise<any> {
+      return enveloped.execute({
+        schema: enveloped.schema,
+        document: enveloped.parse(query),
+        contextValue: {},
+      });
+    }
+    it('loads the fixtures and applies the mutations to the store', async () => {
+      const enveloped = createEnveloped({
+        auto: true,
+        fixtures: ['./fixtures/users.json'],
+      });
+      expect(await execute(enveloped, '{ users { id name email } }')).toEqual({
+        data: {
+          users: [
+            { id: '1', name: 'John Doe', email: 'john@doe.com' },
+            { id: '2', name: 'Jane Doe', email: 'jane@doe.com' },
+          ],
+        },
+      });
+
+      const createResult = await execute(
+        enveloped,
+        'mutation { createUser(input: { name: "Jim Doe" }) { user { id name } } }',
+      );
+      const createdUser = createResult.data.createUser.user;
+      expect(createdUser.name).toBe('Jim Doe');
+      expect(await execute(enveloped, `{ user(id: "${createdUser.id}") { id name } }`)).toEqual({
+        data: { user: createdUser },
+      });
+
+      expect(
+        await execute(enveloped, 'mutation { updateUser(id: "1", name: "Johnny Doe") { name } }'),
+      ).toEqual({ data: { updateUser: { name: 'Johnny Doe' } } });
+      expect(await execute(enveloped, 'mutation { deleteUser(id: "2") }')).toEqual({
+        data: { deleteUser: true },
+      });
+      expect(await execute(enveloped, '{ users { id name } }')).toEqual({
+        data: {
+          users: [{ id: '1', name: 'Johnny Doe' }, createdUser],
+        },
+      });
+      expect(await execute(enveloped, '{ user(id: "2") { id } }')).toEqual({
+        data: { user: null },
+      });
+    });
+    it('generates the same values with the same seed', async () => {
+      const query = '{ users { id name email age } }';
+      const firstResult = await execute(createEnveloped({ auto: true, seed: 7 }), query);
+      const secondResult = await execute(createEnveloped({ auto: true, seed: 7 }), query);
+      expect(firstResult.data.users).toHaveLength(2);
+      expect(firstResult.data.users[0].email).toContain('@');
+      expect(secondResult).toEqual(firstResult);
+    });
+    it('generates the same scalars with the same seed without seeding the global faker', async () => {
+      const scalarsSchema = makeExecutableSchema({
+        typeDefs: /* GraphQL */ `
+          scalar UUID
+          scalar IPv4
+          type Query {
+            ids: [UUID!]!
+            ip: IPv4
+            email: String
+          }
+        `,
+      });
+      function executeScalars(seed: number) {
+        const enveloped = envelop({
+          plugins: [
+            enginePlugin,
+            useSchema(scalarsSchema),
+            useMock({
+              seed,
+              mocks: [{ apply: 'Query.email', faker: 'internet.email' }],
+              baseDir,
+              importFn,
+            }),
+          ],
+        })();
+        return execute(enveloped as ReturnType<typeof createEnveloped>, '{ ids ip email }');
+      }
+      const globalFakerSeed = faker.seedValue;
+      const firstResult = await executeScalars(7);
+      const secondResult = await executeScalars(7);
+      expect(firstResult.data.ids[0]).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-/);
+      expect(secondResult).toEqual(firstResult);
+      expect(await executeScalars(8)).not.toEqual(firstResult);
+      expect(faker.seedValue).toBe(globalFakerSeed);
+    });
+  });
 });
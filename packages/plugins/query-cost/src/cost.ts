@@ -0,0 +1,308 @@
+import {
+  getArgumentValues,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+  Kind,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  type GraphQLCompositeType,
+  type GraphQLField,
+  type GraphQLSchema,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+} from 'graphql';
+import { getDirectiveExtensions } from '@graphql-tools/utils';
+
+export interface OperationCostOptions {
+  /**
+   * Cost of a field that returns an object, interface or union, if not specified by `@cost`
+   * @default 1
+   */
+  defaultObjectCost?: number;
+  /**
+   * Cost of a field that returns a scalar or enum, if not specified by `@cost`
+   * @default 0
+   */
+  defaultScalarCost?: number;
+  /**
+   * Size of a list when it cannot be estimated from the arguments or `@listSize`
+   * @default 10
+   */
+  defaultListSize?: number;
+  /**
+   * Arguments that limit the size of the returned list, if not specified by `@listSize`.
+   * The pagination arguments of the sources like OpenAPI's `limit` or `pageSize` are covered by default.
+   * @default ['first', 'last', 'limit', 'pageSize', 'page_size', 'per_page', 'perPage', 'size', 'take', 'top']
+   */
+  slicingArguments?: string[];
+}
+
+export interface OperationCost {
+  /** Estimated cost of the operation */
+  cost: number;
+  /** The deepest level of the selections */
+  depth: number;
+  /** Number of the aliased fields */
+  aliases: number;
+  /** The biggest list size estimated for a single field */
+  maxListMultiplier: number;
+}
+
+export const defaultSlicingArguments = [
+  'first',
+  'last',
+  'limit',
+  'pageSize',
+  'page_size',
+  'per_page',
+  'perPage',
+  'size',
+  'take',
+  'top',
+];
+
+interface CostDirective {
+  weight?: number | string;
+}
+
+interface ListSizeDirective {
+  assumedSize?: number;
+  slicingArguments?: string[];
+  sizedFields?: string[];
+  requireOneSlicingArgument?: boolean;
+}
+
+interface CostContext {
+  schema: GraphQLSchema;
+  fragments: Record<string, FragmentDefinitionNode>;
+  variableValues: Record<string, any>;
+  options: Required<OperationCostOptions>;
+  result: OperationCost;
+}
+
+function getWeight(directableObj: Parameters<typeof getDirectiveExtensions>[0]) {
+  const costDirectives = getDirectiveExtensions<{ cost: CostDirective }>(directableObj)?.cost;
+  const weight = costDirectives?.[0]?.weight;
+  if (weight != null) {
+    return Number(weight);
+  }
+}
+
+function getFieldWeight(field: GraphQLField<any, any>, ctx: CostContext) {
+  const fieldWeight = getWeight(field);
+  if (fieldWeight != null) {
+    return fieldWeight;
+  }
+  const namedType = getNamedType(field.type);
+  const typeWeight = getWeight(namedType);
+  if (typeWeight != null) {
+    return typeWeight;
+  }
+  return isCompositeType(namedType) ? ctx.options.defaultObjectCost : ctx.options.defaultScalarCost;
+}
+
+function getArgumentsWeight(
+  field: GraphQLField<any, any>,
+  argumentValues: Record<string, any>,
+): number {
+  let weight = 0;
+  for (const arg of field.args) {
+    if (argumentValues[arg.name] != null) {
+      weight += getWeight(arg) || 0;
+    }
+  }
+  return weight;
+}
+
+function getSlicingArgumentsSize(
+  slicingArguments: string[],
+  argumentValues: Record<string, any>,
+): number | undefined {
+  let size: number | undefined;
+  for (const argName of slicingArguments) {
+    const argValue = argumentValues[argName];
+    if (typeof argValue === 'number') {
+      size = Math.max(size ?? 0, argValue);
+    }
+  }
+  return size;
+}
+
+function getListSize(
+  field: GraphQLField<any, any>,
+  argumentValues: Record<string, any>,
+  ctx: CostContext,
+): number {
+  const fieldDirectives = getDirectiveExtensions<{
+    listSize: ListSizeDirective;
+    mysqlSelect: {};
+  }>(field);
+  const listSizeDirective = fieldDirectives?.listSize?.[0];
+  if (listSizeDirective) {
+    if (listSizeDirective.slicingArguments?.length) {
+      const size = getSlicingArgumentsSize(listSizeDirective.slicingArguments, argumentValues);
+      if (size != null) {
+        return size;
+      }
+    }
+    if (listSizeDirective.assumedSize != null) {
+      return listSizeDirective.assumedSize;
+    }
+    return ctx.options.defaultListSize;
+  }
+  // MySQL tables are sliced by `limit`
+  if (fieldDirectives?.mysqlSelect?.length) {
+    return getSlicingArgumentsSize(['limit'], argumentValues) ?? ctx.options.defaultListSize;
+  }
+  return (
+    getSlicingArgumentsSize(ctx.options.slicingArguments, argumentValues) ??
+    ctx.options.defaultListSize
+  );
+}
+
+function getSelectionSetCost(
+  parentType: GraphQLCompositeType,
+  selectionSet: SelectionSetNode,
+  depth: number,
+  ctx: CostContext,
+  sizedFields: { fields: string[]; size: number } | undefined,
+): number {
+  let cost = 0;
+  for (const selection of selectionSet.selections) {
+    switch (selection.kind) {
+      case Kind.FIELD: {
+        const sizedListSize = sizedFields?.fields.includes(selection.name.value)
+          ? sizedFields.size
+          : undefined;
+        cost += getFieldCost(parentType, selection, depth, ctx, sizedListSize);
+        break;
+      }
+      case Kind.INLINE_FRAGMENT: {
+        const typeCondition = selection.typeCondition
+          ? (ctx.schema.getType(selection.typeCondition.name.value) as GraphQLCompositeType)
+          : parentType;
+        if (typeCondition) {
+          cost += getSelectionSetCost(
+            typeCondition,
+            selection.selectionSet,
+            depth,
+            ctx,
+            sizedFields,
+          );
+        }
+        break;
+      }
+      case Kind.FRAGMENT_SPREAD: {
+        const fragment = ctx.fragments[selection.name.value];
+        const typeCondition = fragment
+          ? (ctx.schema.getType(fragment.typeCondition.name.value) as GraphQLCompositeType)
+          : undefined;
+        if (typeCondition) {
+          cost += getSelectionSetCost(
+            typeCondition,
+            fragment.selectionSet,
+            depth,
+            ctx,
+            sizedFields,
+          );
+        }
+        break;
+      }
+    }
+  }
+  return cost;
+}
+
+function getFieldCost(
+  parentType: GraphQLCompositeType,
+  fieldNode: FieldNode,
+  depth: number,
+  ctx: CostContext,
+  sizedListSize?: number,
+): number {
+  if (fieldNode.alias) {
+    ctx.result.aliases++;
+  }
+  if (fieldNode.name.value.startsWith('__')) {
+    return 0;
+  }
+  ctx.result.depth = Math.max(ctx.result.depth, depth);
+  if (!isObjectType(parentType) && !isInterfaceType(parentType)) {
+    return 0;
+  }
+  const field = parentType.getFields()[fieldNode.name.value];
+  if (!field) {
+    return 0;
+  }
+  const argumentValues = getArgumentValues(field, fieldNode, ctx.variableValues);
+  let cost = getFieldWeight(field, ctx) + getArgumentsWeight(field, argumentValues);
+  if (!fieldNode.selectionSet) {
+    return cost;
+  }
+  const returnType = getNamedType(field.type) as GraphQLCompositeType;
+  const listSizeDirective = getDirectiveExtensions<{ listSize: ListSizeDirective }>(field)
+    ?.listSize?.[0];
+  if (listSizeDirective?.sizedFields?.length) {
+    // The list is in the child fields like `edges` of a connection
+    const size = getListSize(field, argumentValues, ctx);
+    ctx.result.maxListMultiplier = Math.max(ctx.result.maxListMultiplier, size);
+    return (
+      cost +
+      getSelectionSetCost(returnType, fieldNode.selectionSet, depth + 1, ctx, {
+        fields: listSizeDirective.sizedFields,
+        size,
+      })
+    );
+  }
+  let multiplier = 1;
+  if (sizedListSize != null) {
+    // The size is already estimated by the parent
+    multiplier = sizedListSize;
+  } else if (isListType(getNullableType(field.type))) {
+    multiplier = getListSize(field, argumentValues, ctx);
+    ctx.result.maxListMultiplier = Math.max(ctx.result.maxListMultiplier, multiplier);
+  }
+  cost +=
+    multiplier * getSelectionSetCost(returnType, fieldNode.selectionSet, depth + 1, ctx, undefined);
+  return cost;
+}
+
+/**
+ * Calculates the static cost of an operation by using `@cost` and `@listSize` directives,
+ * and the pagination arguments of the fields.
+ * Fragments on different types are added up, so the cost of abstract types is an upper bound.
+ */
+export function getOperationCost(
+  schema: GraphQLSchema,
+  operation: OperationDefinitionNode,
+  fragments: Record<string, FragmentDefinitionNode>,
+  variableValues: Record<string, any> = {},
+  options: OperationCostOptions = {},
+): OperationCost {
+  const ctx: CostContext = {
+    schema,
+    fragments,
+    variableValues,
+    options: {
+      defaultObjectCost: options.defaultObjectCost ?? 1,
+      defaultScalarCost: options.defaultScalarCost ?? 0,
+      defaultListSize: options.defaultListSize ?? 10,
+      slicingArguments: options.slicingArguments ?? defaultSlicingArguments,
+    },
+    result: {
+      cost: 0,
+      depth: 0,
+      aliases: 0,
+      maxListMultiplier: 0,
+    },
+  };
+  const rootType = schema.getRootType(operation.operation);
+  if (rootType) {
+    ctx.result.cost = getSelectionSetCost(rootType, operation.selectionSet, 1, ctx, undefined);
+  }
+  return ctx.result;
+}
@@ -0,0 +1,141 @@
+import {
+  getOperationAST,
+  Kind,
+  type ExecutionArgs,
+  type FragmentDefinitionNode,
+  type GraphQLError,
+} from 'graphql';
+import type { GatewayPlugin } from '@graphql-hive/gateway';
+import { createGraphQLError } from '@graphql-tools/utils';
+import { getOperationCost, type OperationCost, type OperationCostOptions } from './cost.js';
+
+export * from './cost.js';
+
+export interface QueryCostPluginOptions extends OperationCostOptions {
+  /**
+   * Maximum estimated cost of an operation
+   */
+  maxCost?: number;
+  /**
+   * Maximum depth of the selections in an operation
+   */
+  maxDepth?: number;
+  /**
+   * Maximum number of the aliased fields in an operation
+   */
+  maxAliases?: number;
+  /**
+   * Maximum estimated size of a single list in an operation
+   */
+  maxListMultiplier?: number;
+  /**
+   * Expose the estimated cost in the `extensions` of the result
+   * @default false
+   */
+  exposeCost?: boolean;
+}
+
+interface CostLimit {
+  name: keyof OperationCost;
+  max: number | undefined;
+  message: (value: number, max: number) => string;
+  code: string;
+}
+
+export function useQueryCost(options: QueryCostPluginOptions): GatewayPlugin {
+  const limits: CostLimit[] = [
+    {
+      name: 'cost',
+      max: options.maxCost,
+      message: (value, max) => `Operation cost ${value} exceeds the maximum cost ${max}`,
+      code: 'COST_ESTIMATED_TOO_EXPENSIVE',
+    },
+    {
+      name: 'depth',
+      max: options.maxDepth,
+      message: (value, max) => `Operation depth ${value} exceeds the maximum depth ${max}`,
+      code: 'DEPTH_LIMIT_EXCEEDED',
+    },
+    {
+      name: 'aliases',
+      max: options.maxAliases,
+      message: (value, max) => `Operation has ${value} aliases, exceeding the maximum ${max}`,
+      code: 'ALIAS_LIMIT_EXCEEDED',
+    },
+    {
+      name: 'maxListMultiplier',
+      max: options.maxListMultiplier,
+      message: (value, max) =>
+        `Operation requests a list of ${value} items, exceeding the maximum ${max}`,
+      code: 'LIST_SIZE_LIMIT_EXCEEDED',
+    },
+  ];
+  function getOperationCostAndErrors(args: ExecutionArgs) {
+    const operation = getOperationAST(args.document, args.operationName);
+    if (!operation) {
+      return;
+    }
+    const fragments: Record<string, FragmentDefinitionNode> = {};
+    for (const definition of args.document.definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments[definition.name.value] = definition;
+      }
+    }
+    const operationCost = getOperationCost(
+      args.schema,
+      operation,
+      fragments,
+      args.variableValues || {},
+      options,
+    );
+    const errors: GraphQLError[] = [];
+    for (const limit of limits) {
+      const value = operationCost[limit.name];
+      if (limit.max != null && value > limit.max) {
+        errors.push(
+          createGraphQLError(limit.message(value, limit.max), {
+            extensions: {
+              code: limit.code,
+              cost: operationCost,
+            },
+          }),
+        );
+      }
+    }
+    return { operationCost, errors };
+  }
+  return {
+    onExecute({ args, setResultAndStopExecution }) {
+      const costAndErrors = getOperationCostAndErrors(args);
+      if (!costAndErrors) {
+        return;
+      }
+      const { operationCost, errors } = costAndErrors;
+      if (errors.length) {
+        setResultAndStopExecution({ errors });
+        return;
+      }
+      if (options.exposeCost) {
+        return {
+          onExecuteDone({ result, setResult }) {
+            if ('data' in result || 'errors' in result) {
+              setResult({
+                ...result,
+                extensions: {
+                  ...result.extensions,
+                  cost: operationCost,
+                },
+              });
+            }
+          },
+        };
+      }
+    },
+    onSubscribe({ args, setResultAndStopExecution }) {
+      const errors = getOperationCostAndErrors(args)?.errors;
+      if (errors?.length) {
+        setResultAndStopExecution({ errors });
+      }
+    },
+  };
+}
@@ -0,0 +1,249 @@
+/* eslint-disable import/no-extraneous-dependencies */
+import {
+  buildSchema,
+  getOperationAST,
+  Kind,
+  parse,
+  type ExecutionResult,
+  type FragmentDefinitionNode,
+} from 'graphql';
+import { createSchema } from 'graphql-yoga';
+import { createTestGateway } from '../../../testing/createTestGateway.js';
+import { getOperationCost, useQueryCost, type QueryCostPluginOptions } from '../src/index.js';
+
+describe('Query Cost', () => {
+  const typeDefs = /* GraphQL */ `
+    directive @cost(weight: String!) on FIELD_DEFINITION | OBJECT | ARGUMENT_DEFINITION
+    directive @listSize(
+      assumedSize: Int
+      slicingArguments: [String!]
+      sizedFields: [String!]
+    ) on FIELD_DEFINITION
+    directive @mysqlSelect(subgraph: String, table: String) on FIELD_DEFINITION
+
+    type Query {
+      users(limit: Int): [User]
+      orders(limit: Int, offset: Int): [Order] @mysqlSelect(table: "orders")
+      products: [Product] @listSize(assumedSize: 50)
+      productConnection(first: Int): ProductConnection
+        @listSize(slicingArguments: ["first"], sizedFields: ["edges"])
+      expensive: String @cost(weight: "20")
+    }
+
+    type User {
+      id: ID
+      name: String
+      friends(pageSize: Int): [User]
+    }
+
+    type Order {
+      id: ID
+      user: User
+    }
+
+    type Product @cost(weight: "5") {
+      id: ID
+    }
+
+    type ProductConnection {
+      edges: [ProductEdge]
+    }
+
+    type ProductEdge {
+      node: Product
+    }
+  `;
+  const schema = buildSchema(typeDefs);
+  function getCost(query: string, variables?: Record<string, any>) {
+    const document = parse(query);
+    const fragments: Record<string, FragmentDefinitionNode> = {};
+    for (const definition of document.definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments[definition.name.value] = definition;
+      }
+    }
+    return getOperationCost(schema, getOperationAST(document), fragments, variables);
+  }
+  it('multiplies the cost of the lists by the pagination arguments', () => {
+    expect(
+      getCost(/* GraphQL */ `
+        {
+          users(limit: 5) {
+            name
+            friends(pageSize: 3) {
+              name
+            }
+          }
+        }
+      `),
+    ).toEqual({
+      // 1 + 5 * (1 + 3 * 0)
+      cost: 6,
+      depth: 3,
+      aliases: 0,
+      maxListMultiplier: 5,
+    });
+  });
+  it('respects the variables', () => {
+    expect(
+      getCost(
+        /* GraphQL */ `
+          query Users($limit: Int) {
+            users(limit: $limit) {
+              friends {
+                id
+              }
+            }
+          }
+        `,
+        { limit: 2 },
+      ),
+    ).toMatchObject({
+      // 1 + 2 * (1 + 10 * 0)
+      cost: 3,
+      maxListMultiplier: 10,
+    });
+  });
+  it('uses the limit argument of MySQL selections', () => {
+    expect(
+      getCost(/* GraphQL */ `
+        {
+          orders(limit: 4, offset: 100) {
+            user {
+              id
+            }
+          }
+        }
+      `),
+    ).toMatchObject({
+      // 1 + 4 * 1
+      cost: 5,
+      maxListMultiplier: 4,
+    });
+  });
+  it('respects @cost and @listSize directives', () => {
+    expect(
+      getCost(/* GraphQL */ `
+        {
+          expensive
+          products {
+            id
+          }
+          productConnection(first: 2) {
+            edges {
+              node {
+                id
+              }
+            }
+          }
+        }
+      `),
+    ).toMatchObject({
+      // 20 + (5 + 50 * 0) + (1 + (1 + 2 * 5))
+      cost: 37,
+      depth: 4,
+      maxListMultiplier: 50,
+    });
+  });
+  it('counts the aliases and the fields in the fragments', () => {
+    expect(
+      getCost(/* GraphQL */ `
+        {
+          a: users(limit: 1) {
+            ...UserFields
+          }
+          b: users(limit: 1) {
+            ...UserFields
+          }
+        }
+        fragment UserFields on User {
+          friends(pageSize: 1) {
+            id
+          }
+        }
+      `),
+    ).toMatchObject({
+      // 2 * (1 + 1 * 1)
+      cost: 4,
+      aliases: 2,
+    });
+  });
+  const upstreamSchema = createSchema({
+    typeDefs,
+    resolvers: {
+      Query: {
+        users: () => [],
+      },
+    },
+  });
+  function createGateway(options: QueryCostPluginOptions) {
+    return createTestGateway({
+      upstreamSchema,
+      plugins: [useQueryCost(options)],
+    });
+  }
+  it('rejects the operations exceeding the limits', async () => {
+    const gateway = createGateway({
+      maxCost: 5,
+      maxDepth: 2,
+    });
+    const response = await gateway.fetch('http://localhost:4000/graphql', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({
+        query: /* GraphQL */ `
+          {
+            users(limit: 10) {
+              friends {
+                id
+              }
+            }
+          }
+        `,
+      }),
+    });
+    const result: ExecutionResult = await response.json();
+    expect(result.data).toBeUndefined();
+    expect(result.errors.map(error => error.extensions.code)).toEqual([
+      'COST_ESTIMATED_TOO_EXPENSIVE',
+      'DEPTH_LIMIT_EXCEEDED',
+    ]);
+  });
+  it('exposes the cost in the extensions', async () => {
+    const gateway = createGateway({
+      maxCost: 100,
+      exposeCost: true,
+    });
+    const response = await gateway.fetch('http://localhost:4000/graphql', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({
+        query: /* GraphQL */ `
+          {
+            users(limit: 10) {
+              id
+            }
+          }
+        `,
+      }),
+    });
+    const result: ExecutionResult = await response.json();
+    expect(result).toEqual({
+      data: {
+        users: [],
+      },
+      extensions: {
+        cost: {
+          cost: 1,
+          depth: 2,
+          aliases: 0,
+          maxListMultiplier: 10,
+        },
+      },
+    });
+  });
+});
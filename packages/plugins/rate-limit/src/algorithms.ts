@@ -0,0 +1,153 @@
+import type { KeyValueCache } from '@graphql-mesh/types';
+import { mapMaybePromise } from '@graphql-mesh/utils';
+import type { MaybePromise } from '@graphql-tools/utils';
+
+export type RateLimitAlgorithm = 'fixedWindow' | 'slidingLog' | 'tokenBucket';
+
+export interface RateLimitOptions {
+  /** The maximum number of requests in the given time period */
+  max: number;
+  /** The time period in milliseconds */
+  ttl: number;
+  algorithm: RateLimitAlgorithm;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the quota is fully restored */
+  reset: number;
+  /** Milliseconds to wait before the next request is allowed; only set if the request is not allowed */
+  retryAfter?: number;
+}
+
+interface FixedWindowState {
+  count: number;
+  start: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+function consumeFixedWindow(
+  cache: KeyValueCache,
+  key: string,
+  { max, ttl }: RateLimitOptions,
+  now: number,
+): MaybePromise<RateLimitResult> {
+  return mapMaybePromise(cache.get(key), (state: FixedWindowState | undefined) => {
+    if (typeof state?.count !== 'number' || now >= state.start + ttl) {
+      state = { count: 0, start: now };
+    }
+    const reset = state.start + ttl - now;
+    if (state.count >= max) {
+      return { allowed: false, limit: max, remaining: 0, reset, retryAfter: reset };
+    }
+    state.count++;
+    return mapMaybePromise(cache.set(key, state, { ttl: reset / 1000 }), () => ({
+      allowed: true,
+      limit: max,
+      remaining: max - state.count,
+      reset,
+    }));
+  });
+}
+
+function consumeSlidingLog(
+  cache: KeyValueCache,
+  key: string,
+  { max, ttl }: RateLimitOptions,
+  now: number,
+): MaybePromise<RateLimitResult> {
+  return mapMaybePromise(cache.get(key), (timestamps: number[] | undefined) => {
+    const activeTimestamps = Array.isArray(timestamps)
+      ? timestamps.filter(timestamp => timestamp + ttl > now)
+      : [];
+    if (activeTimestamps.length >= max) {
+      // The oldest request leaves the window first
+      const retryAfter = activeTimestamps[activeTimestamps.length - max] + ttl - now;
+      return {
+        allowed: false,
+        limit: max,
+        remaining: 0,
+        reset: activeTimestamps[activeTimestamps.length - 1] + ttl - now,
+        retryAfter,
+      };
+    }
+    activeTimestamps.push(now);
+    return mapMaybePromise(cache.set(key, activeTimestamps, { ttl: ttl / 1000 }), () => ({
+      allowed: true,
+      limit: max,
+      remaining: max - activeTimestamps.length,
+      reset: activeTimestamps[activeTimestamps.length - 1] + ttl - now,
+    }));
+  });
+}
+
+function consumeTokenBucket(
+  cache: KeyValueCache,
+  key: string,
+  { max, ttl }: RateLimitOptions,
+  now: number,
+): MaybePromise<RateLimitResult> {
+  // The bucket is refilled continuously, so it is full again after `ttl` milliseconds
+  const refillRate = max / ttl;
+  return mapMaybePromise(cache.get(key), (state: TokenBucketState | undefined) => {
+    let tokens = max;
+    if (typeof state?.tokens === 'number') {
+      tokens = Math.min(max, state.tokens + (now - state.updatedAt) * refillRate);
+    }
+    if (tokens < 1) {
+      return {
+        allowed: false,
+        limit: max,
+        remaining: 0,
+        reset: Math.ceil((max - tokens) / refillRate),
+        retryAfter: Math.ceil((1 - tokens) / refillRate),
+      };
+    }
+    tokens--;
+    const newState: TokenBucketState = { tokens, updatedAt: now };
+    return mapMaybePromise(cache.set(key, newState, { ttl: ttl / 1000 }), () => ({
+      allowed: true,
+      limit: max,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil((max - tokens) / refillRate),
+    }));
+  });
+}
+
+const consumers: Record<
+  RateLimitAlgorithm,
+  (
+    cache: KeyValueCache,
+    key: string,
+    options: RateLimitOptions,
+    now: number,
+  ) => MaybePromise<RateLimitResult>
+> = {
+  fixedWindow: consumeFixedWindow,
+  slidingLog: consumeSlidingLog,
+  tokenBucket: consumeTokenBucket,
+};
+
+/**
+ * Consumes a request from the quota stored with the given key.
+ * The state is read and written with separate calls, so the instances sharing the same cache
+ * can exceed the limit slightly under high concurrency.
+ */
+export function consumeRateLimit(
+  cache: KeyValueCache,
+  key: string,
+  options: RateLimitOptions,
+  now = Date.now(),
+): MaybePromise<RateLimitResult> {
+  const consume = consumers[options.algorithm];
+  if (!consume) {
+    throw new Error(`Unknown rate limit algorithm "${options.algorithm}"`);
+  }
+  return consume(cache, key, options, now);
+}
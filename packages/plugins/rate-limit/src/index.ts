@@ -1,65 +1,206 @@
-import { Store, useRateLimiter, type Identity } from '@envelop/rate-limiter';
+import { minimatch } from 'minimatch';
+import { useOnResolve } from '@envelop/on-resolve';
 import { process } from '@graphql-mesh/cross-helpers';
+import type { OnSubgraphExecuteHook } from '@graphql-mesh/fusion-runtime';
 import { stringInterpolator } from '@graphql-mesh/string-interpolation';
 import type { KeyValueCache, MeshPlugin, YamlConfig } from '@graphql-mesh/types';
 import { mapMaybePromise } from '@graphql-mesh/utils';
+import { createGraphQLError, type Executor } from '@graphql-tools/utils';
+import { consumeRateLimit, type RateLimitResult } from './algorithms.js';
 
-class RateLimitMeshStore extends Store {
-  constructor(private cache: KeyValueCache) {
-    super();
-  }
+export * from './algorithms.js';
 
-  getForIdentity(identity: Identity): Promise<number[]> | number[] {
-    return mapMaybePromise(
-      this.cache.get(`rate-limit:${identity.contextIdentity}:${identity.fieldIdentity}`),
-      value => value || [],
-    );
-  }
+function defaultIdentifyFn(context: any): string {
+  return (
+    context?.headers?.authorization ||
+    context?.req?.socket?.remoteAddress ||
+    context?.req?.connection?.remoteAddress ||
+    context?.req?.ip ||
+    context?.headers?.['x-forwarded-for'] ||
+    context?.headers?.host ||
+    'unknown'
+  );
+}
 
-  setForIdentity(identity: Identity, timestamps: number[], windowMs: number): Promise<void> {
-    return this.cache.set(
-      `rate-limit:${identity.contextIdentity}:${identity.fieldIdentity}`,
-      timestamps,
-      { ttl: windowMs / 1000 },
-    );
+function createRateLimitError(message: string, result: RateLimitResult) {
+  return createGraphQLError(message, {
+    extensions: {
+      code: 'RATE_LIMITED',
+      http: {
+        status: 429,
+        headers: {
+          'Retry-After': String(Math.ceil(result.retryAfter / 1000)),
+        },
+      },
+    },
+  });
+}
+
+/**
+ * The most restrictive result is reported in the response headers
+ */
+function isMoreRestrictive(result: RateLimitResult, existing: RateLimitResult) {
+  if (result.allowed !== existing.allowed) {
+    return !result.allowed;
+  }
+  if (!result.allowed) {
+    return result.retryAfter > existing.retryAfter;
   }
+  return result.remaining < existing.remaining;
 }
 
+export type RateLimitPlugin = MeshPlugin<any> & {
+  onSubgraphExecute: OnSubgraphExecuteHook;
+  /**
+   * Adds the rate limit headers to the response when `headers` is enabled
+   */
+  onResponse(payload: { request: Request; response: Response }): void;
+};
+
 export default function useMeshRateLimit({
-  config,
+  config = [],
+  subgraphs = [],
+  algorithm: defaultAlgorithm = 'slidingLog',
+  headers: exposeHeaders = false,
   cache,
 }: YamlConfig.RateLimitPluginConfig & {
   cache: KeyValueCache;
-}): MeshPlugin<any> {
-  return useRateLimiter({
-    identifyFn: (context: any) =>
-      context.headers?.authorization ||
-      context.req?.socket?.remoteAddress ||
-      context.req?.connection?.remoteAddress ||
-      context.req?.ip ||
-      context.headers?.['x-forwarded-for'] ||
-      context.headers?.host ||
-      'unknown',
-    store: new RateLimitMeshStore(cache),
-    interpolateMessage: (message, identifier, params) =>
-      stringInterpolator.parse(message, {
-        ...params,
-        id: identifier,
-        identifier,
+}): RateLimitPlugin {
+  const resultsByRequest = new WeakMap<Request, RateLimitResult>();
+  function trackResult(context: any, result: RateLimitResult) {
+    const request: Request | undefined = context?.request;
+    if (!exposeHeaders || !request) {
+      return;
+    }
+    const existing = resultsByRequest.get(request);
+    if (!existing || isMoreRestrictive(result, existing)) {
+      resultsByRequest.set(request, result);
+    }
+  }
+  function getIdentity(identifier: string | undefined, context: any, subgraphName?: string) {
+    if (!identifier) {
+      return undefined;
+    }
+    return stringInterpolator.parse(identifier, {
+      context,
+      env: process.env,
+      subgraphName,
+    });
+  }
+
+  // Resolved configs per field, so the patterns are matched only once
+  const fieldConfigs = new Map<string, YamlConfig.RateLimitFieldConfig[]>();
+  function getFieldConfigs(typeName: string, fieldName: string) {
+    const fieldIdentity = `${typeName}.${fieldName}`;
+    let configs = fieldConfigs.get(fieldIdentity);
+    if (!configs) {
+      configs = config.filter(
+        fieldConfig =>
+          minimatch(typeName, fieldConfig.type) && minimatch(fieldName, fieldConfig.field),
+      );
+      fieldConfigs.set(fieldIdentity, configs);
+    }
+    return configs;
+  }
+
+  const fieldsPlugin = config.length
+    ? useOnResolve(({ context, info }) => {
+        const configs = getFieldConfigs(info.parentType.name, info.fieldName);
+        if (!configs.length) {
+          return;
+        }
+        const fieldIdentity = `${info.parentType.name}.${info.fieldName}`;
+        return Promise.all(
+          configs.map(fieldConfig => {
+            const identity =
+              getIdentity(fieldConfig.identifier, context) || defaultIdentifyFn(context);
+            return mapMaybePromise(
+              consumeRateLimit(cache, `rate-limit:${identity}:${fieldIdentity}`, {
+                max: fieldConfig.max,
+                ttl: fieldConfig.ttl,
+                algorithm: fieldConfig.algorithm || defaultAlgorithm,
+              }),
+              result => {
+                trackResult(context, result);
+                if (!result.allowed) {
+                  throw createRateLimitError(
+                    `Rate limit of "${fieldConfig.type}.${fieldConfig.field}" exceeded for "${identity}"`,
+                    result,
+                  );
+                }
+              },
+            );
+          }),
+        ).then(() => undefined);
+      })
+    : {};
+
+  function consumeSubgraphRateLimits(
+    subgraphName: string,
+    subgraphConfigs: YamlConfig.RateLimitSubgraphConfig[],
+    context: any,
+  ) {
+    return Promise.all(
+      subgraphConfigs.map(subgraphConfig => {
+        // Without an identifier, the quota is shared by all the requests to protect the upstream
+        const identity = getIdentity(subgraphConfig.identifier, context, subgraphName) || '*';
+        return mapMaybePromise(
+          consumeRateLimit(cache, `rate-limit:${identity}:subgraph:${subgraphName}`, {
+            max: subgraphConfig.max,
+            ttl: subgraphConfig.ttl,
+            algorithm: subgraphConfig.algorithm || defaultAlgorithm,
+          }),
+          result => {
+            trackResult(context, result);
+            if (!result.allowed) {
+              return createRateLimitError(
+                identity === '*'
+                  ? `Rate limit of subgraph "${subgraphName}" exceeded`
+                  : `Rate limit of subgraph "${subgraphName}" exceeded for "${identity}"`,
+                result,
+              );
+            }
+          },
+        );
       }),
-    configByField: config.map(origConfig => ({
-      type: origConfig.type,
-      field: origConfig.field,
-      max: origConfig.max,
-      window: `${origConfig.ttl}ms`,
-      message: `Rate limit of "${origConfig.type}.${origConfig.field}" exceeded for "{id}"`,
-      identifyFn: origConfig.identifier
-        ? (context: any) =>
-            stringInterpolator.parse(origConfig.identifier, {
-              context,
-              env: process.env,
-            })
-        : undefined,
-    })),
-  });
+    ).then(errors => errors.find(Boolean));
+  }
+
+  // The executor set by the hook is kept for the next requests to the subgraph,
+  // so it is wrapped only once and the quotas are consumed by the wrapper on each request
+  const rateLimitedExecutors = new WeakSet<Executor>();
+
+  return {
+    ...fieldsPlugin,
+    onSubgraphExecute({ subgraphName, executor, setExecutor }) {
+      if (rateLimitedExecutors.has(executor)) {
+        return;
+      }
+      const subgraphConfigs = subgraphs.filter(subgraphConfig =>
+        minimatch(subgraphName, subgraphConfig.subgraph),
+      );
+      if (!subgraphConfigs.length) {
+        return;
+      }
+      const rateLimitedExecutor: Executor = executionRequest =>
+        consumeSubgraphRateLimits(subgraphName, subgraphConfigs, executionRequest.context).then(
+          // The upstream is not called at all when the quota is exceeded
+          error => (error ? { errors: [error] } : executor(executionRequest)),
+        );
+      rateLimitedExecutors.add(rateLimitedExecutor);
+      setExecutor(rateLimitedExecutor);
+    },
+    onResponse({ request, response }) {
+      const result = resultsByRequest.get(request);
+      if (!result) {
+        return;
+      }
+      response.headers.set('RateLimit-Limit', String(result.limit));
+      response.headers.set('RateLimit-Remaining', String(result.remaining));
+      response.headers.set('RateLimit-Reset', String(Math.ceil(result.reset / 1000)));
+      if (!result.allowed) {
+        response.headers.set('Retry-After', String(Math.ceil(result.retryAfter / 1000)));
+      }
+    },
+  };
 }
@@ -1,11 +1,14 @@
 /* eslint-disable import/no-extraneous-dependencies */
 import { setTimeout } from 'timers/promises';
-import { parse, specifiedRules, validate } from 'graphql';
+import { parse, specifiedRules, validate, type ExecutionResult } from 'graphql';
 import { envelop, useEngine, useSchema } from '@envelop/core';
 import InMemoryLRUCache from '@graphql-mesh/cache-localforage';
+import { wrapExecutorWithHooks } from '@graphql-mesh/fusion-runtime';
+import { DefaultLogger, LogLevel } from '@graphql-mesh/utils';
 import { normalizedExecutor } from '@graphql-tools/executor';
 import { makeExecutableSchema } from '@graphql-tools/schema';
-import useMeshRateLimit from '../src/index.js';
+import type { Executor } from '@graphql-tools/utils';
+import useMeshRateLimit, { consumeRateLimit } from '../src/index.js';
 
 describe('Rate Limit Plugin', () => {
   let cache: InMemoryLRUCache;
@@ -281,4 +284,186 @@ describe('Rate Limit Plugin', () => {
     expect(result.data.bar).toBe('BAR');
     expect(result.errors?.[0]?.message).toBe(`Rate limit of "Query.foo" exceeded for "MYUSER"`);
   });
+  it('should use the algorithm of the field if provided', async () => {
+    const schema = makeExecutableSchema({
+      typeDefs: /* GraphQL */ `
+        type Query {
+          foo: String
+          bar: String
+        }
+      `,
+      resolvers: {
+        Query: {
+          foo: () => 'FOO',
+          bar: () => 'BAR',
+        },
+      },
+    });
+    const getEnveloped = envelop({
+      plugins: [
+        graphQLEnginePlugin,
+        useSchema(schema),
+        useMeshRateLimit({
+          config: [
+            {
+              type: 'Query',
+              field: 'foo',
+              max: 2,
+              ttl: 1000,
+              identifier: '{context.userId}',
+              algorithm: 'tokenBucket',
+            },
+            {
+              type: 'Query',
+              field: 'bar',
+              max: 2,
+              ttl: 1000,
+              identifier: '{context.userId}',
+            },
+          ],
+          algorithm: 'fixedWindow',
+          cache,
+        }),
+      ],
+    });
+    const executeQuery = async () => {
+      const { schema, execute, parse, contextFactory } = getEnveloped({
+        userId: 'MYUSER',
+      });
+      return execute({
+        schema,
+        document: parse(/* GraphQL */ `
+          {
+            foo
+            bar
+          }
+        `),
+        contextValue: await contextFactory(),
+      });
+    };
+    await executeQuery();
+    await executeQuery();
+    expect((await executeQuery()).data).toEqual({ foo: null, bar: null });
+    // A token of the bucket is refilled after the half of the period, but the window is not over yet
+    await setTimeout(600);
+    expect((await executeQuery()).data).toEqual({ foo: 'FOO', bar: null });
+  });
+  function wrapSubgraphExecutor(
+    plugin: ReturnType<typeof useMeshRateLimit>,
+    subgraphName: string,
+    executor: Executor,
+  ) {
+    return wrapExecutorWithHooks({
+      executor,
+      onSubgraphExecuteHooks: [plugin.onSubgraphExecute],
+      subgraphName,
+      getSubgraphSchema: () => undefined,
+      transportContext: {
+        logger: new DefaultLogger('Test', LogLevel.silent),
+      },
+    });
+  }
+  function executeFoo(subgraphExecutor: Executor, context: Record<string, any>) {
+    return subgraphExecutor({
+      document: parse(/* GraphQL */ `
+        {
+          foo
+        }
+      `),
+      context,
+    });
+  }
+  it('should limit the requests sent to a subgraph', async () => {
+    const plugin = useMeshRateLimit({
+      subgraphs: [
+        {
+          subgraph: 'Upstream',
+          max: 1,
+          ttl: 500,
+        },
+      ],
+      cache,
+    });
+    const executor = jest.fn((): ExecutionResult<any> => ({ data: { foo: 'bar' } }));
+    const upstreamExecutor = wrapSubgraphExecutor(plugin, 'Upstream', executor);
+    const otherExecutor = wrapSubgraphExecutor(plugin, 'Other', executor);
+    const executeSubgraph = (subgraphExecutor: Executor) =>
+      executeFoo(subgraphExecutor, {}) as Promise<ExecutionResult>;
+    expect(await executeSubgraph(upstreamExecutor)).toEqual({ data: { foo: 'bar' } });
+    const result = await executeSubgraph(upstreamExecutor);
+    expect(result.errors?.[0]?.message).toBe('Rate limit of subgraph "Upstream" exceeded');
+    expect(result.errors?.[0]?.extensions?.http).toEqual({
+      status: 429,
+      headers: {
+        'Retry-After': '1',
+      },
+    });
+    // Other subgraphs are not limited
+    expect(await executeSubgraph(otherExecutor)).toEqual({ data: { foo: 'bar' } });
+    expect(executor).toHaveBeenCalledTimes(2);
+    // The upstream is called again once the window is over
+    await setTimeout(600);
+    expect(await executeSubgraph(upstreamExecutor)).toEqual({ data: { foo: 'bar' } });
+    expect((await executeSubgraph(upstreamExecutor)).errors?.[0]?.extensions?.code).toBe(
+      'RATE_LIMITED',
+    );
+    expect(executor).toHaveBeenCalledTimes(3);
+  });
+  it('should add rate limit headers to the response', async () => {
+    const plugin = useMeshRateLimit({
+      subgraphs: [
+        {
+          subgraph: 'Upstream',
+          max: 2,
+          ttl: 10000,
+        },
+      ],
+      headers: true,
+      cache,
+    });
+    const request = new Request('http://localhost/graphql');
+    await executeFoo(
+      wrapSubgraphExecutor(
+        plugin,
+        'Upstream',
+        (): ExecutionResult<any> => ({ data: { foo: 'bar' } }),
+      ),
+      { request },
+    );
+    const response = new Response();
+    await plugin.onResponse({ request, response } as any);
+    expect(response.headers.get('RateLimit-Limit')).toBe('2');
+    expect(response.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(response.headers.get('RateLimit-Reset')).toBe('10');
+    expect(response.headers.get('Retry-After')).toBeNull();
+  });
+  describe('Algorithms', () => {
+    const options = { max: 2, ttl: 1000 };
+    it('fixedWindow should restore the whole quota at the end of the window', async () => {
+      const consume = (now: number) =>
+        consumeRateLimit(cache, 'key', { ...options, algorithm: 'fixedWindow' }, now);
+      expect((await consume(0)).allowed).toBe(true);
+      expect((await consume(900)).allowed).toBe(true);
+      expect(await consume(950)).toMatchObject({ allowed: false, retryAfter: 50 });
+      expect(await consume(1000)).toMatchObject({ allowed: true, remaining: 1 });
+    });
+    it('slidingLog should allow a request when the oldest one leaves the window', async () => {
+      const consume = (now: number) =>
+        consumeRateLimit(cache, 'key', { ...options, algorithm: 'slidingLog' }, now);
+      expect((await consume(0)).allowed).toBe(true);
+      expect((await consume(900)).allowed).toBe(true);
+      expect(await consume(950)).toMatchObject({ allowed: false, retryAfter: 50 });
+      expect(await consume(1000)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await consume(1100)).toMatchObject({ allowed: false, retryAfter: 800 });
+    });
+    it('tokenBucket should refill the tokens continuously', async () => {
+      const consume = (now: number) =>
+        consumeRateLimit(cache, 'key', { ...options, algorithm: 'tokenBucket' }, now);
+      expect(await consume(0)).toMatchObject({ allowed: true, remaining: 1 });
+      expect(await consume(0)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await consume(250)).toMatchObject({ allowed: false, retryAfter: 250 });
+      expect(await consume(500)).toMatchObject({ allowed: true, remaining: 0 });
+      expect(await consume(1500)).toMatchObject({ allowed: true, remaining: 1 });
+    });
+  });
 });
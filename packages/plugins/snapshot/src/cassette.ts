@@ -0,0 +1,318 @@
+import { fs } from '@graphql-mesh/cross-helpers';
+import { pathExists, writeJSON } from '@graphql-mesh/utils';
+
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface Cassette {
+  interactions: CassetteInteraction[];
+}
+
+export interface MatchingRules {
+  /** Header names that are not compared */
+  ignoreHeaders: string[];
+  /** Body fields that are not compared; dot separated paths for JSON, element names for XML */
+  ignoreBodyFields: string[];
+}
+
+export interface RedactionRules {
+  /** Header names whose values are not written to the cassettes */
+  redactHeaders: string[];
+  /** Body fields whose values are not written to the cassettes */
+  redactBodyFields: string[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Headers that change in every request, or are set by the fetch implementation
+ */
+export const defaultIgnoredHeaders = [
+  'accept-encoding',
+  'connection',
+  'content-length',
+  'date',
+  'host',
+  'traceparent',
+  'tracestate',
+  'user-agent',
+  'x-request-id',
+];
+
+export const defaultRedactedHeaders = [
+  'authorization',
+  'cookie',
+  'proxy-authorization',
+  'set-cookie',
+  'x-api-key',
+];
+
+export const defaultRedactedBodyFields = [
+  'access_token',
+  'client_secret',
+  'password',
+  'refresh_token',
+];
+
+/**
+ * Response headers that are not valid anymore once the body is stored as text
+ */
+const responseHeadersToDrop = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+function isJSONContentType(contentType: string | undefined) {
+  return !!contentType?.includes('json');
+}
+
+export function isTextContentType(contentType: string | undefined) {
+  return (
+    !contentType ||
+    contentType.includes('json') ||
+    contentType.includes('text') ||
+    contentType.includes('xml') ||
+    contentType.includes('x-www-form-urlencoded')
+  );
+}
+
+function getHeaderValue(headers: Record<string, string>, name: string) {
+  for (const headerName in headers) {
+    if (headerName.toLowerCase() === name) {
+      return headers[headerName];
+    }
+  }
+}
+
+function parseBody(body: unknown, contentType: string | undefined): unknown {
+  if (body == null) {
+    return undefined;
+  }
+  if (body instanceof URLSearchParams) {
+    return Object.fromEntries(body);
+  }
+  if (typeof body !== 'string') {
+    // Streams, files and buffers cannot be stored in a readable way
+    return `[${body.constructor?.name || typeof body}]`;
+  }
+  if (contentType?.includes('x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  if (isJSONContentType(contentType) || /^\s*[[{]/.test(body)) {
+    try {
+      return JSON.parse(body);
+    } catch {
+      // Not a valid JSON, so it is stored as it is
+    }
+  }
+  return body;
+}
+
+export function serializeBody(body: unknown, contentType: string | undefined): string | undefined {
+  if (body == null || typeof body === 'string') {
+    return body as string | undefined;
+  }
+  if (contentType?.includes('x-www-form-urlencoded')) {
+    return new URLSearchParams(body as Record<string, string>).toString();
+  }
+  return JSON.stringify(body);
+}
+
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replaces the values of the given fields;
+ * dot separated paths of objects, or the elements with the given local names in XML
+ */
+function replaceBodyFields(body: unknown, fields: string[], replacement: string | undefined) {
+  if (!fields.length || body == null) {
+    return body;
+  }
+  if (typeof body === 'string') {
+    let text = body;
+    for (const field of fields) {
+      const elementName = escapeRegExp(field.split('.').pop());
+      text = text.replace(
+        new RegExp(
+          `(<(?:[\\w-]+:)?${elementName}(?:\\s[^>]*)?>)[\\s\\S]*?(</(?:[\\w-]+:)?${elementName}>)`,
+          'g',
+        ),
+        `$1${replacement ?? ''}$2`,
+      );
+    }
+    return text;
+  }
+  if (typeof body !== 'object') {
+    return body;
+  }
+  const copy = JSON.parse(JSON.stringify(body));
+  for (const field of fields) {
+    const segments = field.split('.');
+    const lastSegment = segments.pop();
+    let parents = [copy];
+    for (const segment of segments) {
+      // Arrays are traversed implicitly
+      parents = parents
+        .flatMap(parent => (Array.isArray(parent) ? parent : [parent]))
+        .map(parent => parent?.[segment])
+        .filter(parent => parent != null && typeof parent === 'object');
+    }
+    for (const parent of parents.flatMap(parent => (Array.isArray(parent) ? parent : [parent]))) {
+      if (parent != null && typeof parent === 'object' && lastSegment in parent) {
+        if (replacement === undefined) {
+          delete parent[lastSegment];
+        } else {
+          parent[lastSegment] = replacement;
+        }
+      }
+    }
+  }
+  return copy;
+}
+
+function redactHeaders(headers: Record<string, string>, { redactHeaders }: RedactionRules) {
+  const redacted: Record<string, string> = {};
+  for (const headerName in headers) {
+    const lowerCaseName = headerName.toLowerCase();
+    redacted[lowerCaseName] = redactHeaders.includes(lowerCaseName)
+      ? REDACTED
+      : headers[headerName];
+  }
+  return redacted;
+}
+
+export function createCassetteRequest(
+  url: string,
+  options: RequestInit & { headers?: Record<string, string> },
+  redactionRules: RedactionRules,
+): CassetteRequest {
+  const headers = redactHeaders(options.headers || {}, redactionRules);
+  const body = parseBody(options.body, getHeaderValue(headers, 'content-type'));
+  return {
+    method: options.method?.toUpperCase() || 'GET',
+    url,
+    headers,
+    body: replaceBodyFields(body, redactionRules.redactBodyFields, REDACTED),
+  };
+}
+
+export function createCassetteResponse(
+  response: Response,
+  text: string,
+  redactionRules: RedactionRules,
+): CassetteResponse {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!responseHeadersToDrop.includes(name)) {
+      headers[name] = value;
+    }
+  });
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: redactHeaders(headers, redactionRules),
+    body: replaceBodyFields(
+      parseBody(text, headers['content-type']),
+      redactionRules.redactBodyFields,
+      REDACTED,
+    ),
+  };
+}
+
+/**
+ * The parts of the request that are compared while looking for a recorded interaction
+ */
+export function getMatchKey(request: CassetteRequest, matchingRules: MatchingRules) {
+  const headers: [string, string][] = [];
+  for (const headerName in request.headers) {
+    const lowerCaseName = headerName.toLowerCase();
+    if (!matchingRules.ignoreHeaders.includes(lowerCaseName)) {
+      headers.push([lowerCaseName, request.headers[headerName]]);
+    }
+  }
+  headers.sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify({
+    method: request.method,
+    url: request.url,
+    headers,
+    body: replaceBodyFields(request.body, matchingRules.ignoreBodyFields, undefined),
+  });
+}
+
+export async function readCassette(cassettePath: string): Promise<Cassette> {
+  if (!(await pathExists(cassettePath))) {
+    return { interactions: [] };
+  }
+  const cassetteContent = await fs.promises.readFile(cassettePath, 'utf-8');
+  const cassette: Cassette = JSON.parse(cassetteContent);
+  if (!Array.isArray(cassette?.interactions)) {
+    throw new Error(`${cassettePath} is not a valid cassette`);
+  }
+  return cassette;
+}
+
+/**
+ * The format of the snapshot files that are written before the cassettes; one file per request
+ */
+interface LegacySnapshot {
+  text: string;
+  headersObj: Record<string, string>;
+  status: number;
+  statusText: string;
+}
+
+/**
+ * Reads a snapshot file of the previous format as a cassette with a single interaction of the given request
+ */
+export async function readLegacySnapshot(
+  snapshotPath: string,
+  request: CassetteRequest,
+): Promise<Cassette | undefined> {
+  if (!(await pathExists(snapshotPath))) {
+    return undefined;
+  }
+  const snapshotContent = await fs.promises.readFile(snapshotPath, 'utf-8');
+  const snapshot: LegacySnapshot = JSON.parse(snapshotContent);
+  if (typeof snapshot?.text !== 'string' || typeof snapshot.status !== 'number') {
+    return undefined;
+  }
+  const headers: Record<string, string> = {};
+  for (const headerName in snapshot.headersObj) {
+    const lowerCaseName = headerName.toLowerCase();
+    if (!responseHeadersToDrop.includes(lowerCaseName)) {
+      headers[lowerCaseName] = snapshot.headersObj[headerName];
+    }
+  }
+  return {
+    interactions: [
+      {
+        request,
+        response: {
+          status: snapshot.status,
+          statusText: snapshot.statusText,
+          headers,
+          body: parseBody(snapshot.text, headers['content-type']),
+        },
+      },
+    ],
+  };
+}
+
+export function writeCassette(cassettePath: string, cassette: Cassette) {
+  return writeJSON(cassettePath, cassette, null, 2);
+}
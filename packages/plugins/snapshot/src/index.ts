@@ -1,29 +1,61 @@
 import { Minimatch } from 'minimatch';
-import { fs, path, process } from '@graphql-mesh/cross-helpers';
-import { hashObject } from '@graphql-mesh/string-interpolation';
+import { path, process } from '@graphql-mesh/cross-helpers';
+import { hashObject, stringInterpolator } from '@graphql-mesh/string-interpolation';
 import type { MeshPlugin, YamlConfig } from '@graphql-mesh/types';
-import { getHeadersObj, pathExists, writeJSON } from '@graphql-mesh/utils';
 import { Response } from '@whatwg-node/fetch';
+import {
+  createCassetteRequest,
+  createCassetteResponse,
+  defaultIgnoredHeaders,
+  defaultRedactedBodyFields,
+  defaultRedactedHeaders,
+  getMatchKey,
+  isTextContentType,
+  readCassette,
+  readLegacySnapshot,
+  serializeBody,
+  writeCassette,
+  type Cassette,
+  type CassetteInteraction,
+  type CassetteRequest,
+  type CassetteResponse,
+  type MatchingRules,
+  type RedactionRules,
+} from './cassette.js';
 
-function calculateCacheKey(url: string, options: RequestInit) {
-  return hashObject({
-    url,
-    options,
+export * from './cassette.js';
+
+export type SnapshotMode = YamlConfig.SnapshotPluginConfig['mode'];
+
+export type SnapshotPluginOptions = Omit<YamlConfig.SnapshotPluginConfig, 'cassette'> & {
+  baseDir?: string;
+  /**
+   * Name of the cassette file that keeps all the interactions, for example the name of the current test.
+   * If not provided, each request is stored in a separate file named by its hash.
+   */
+  cassette?: string | ((context: any) => string);
+};
+
+interface CassetteState {
+  cassette: Cassette;
+  /** Indexes of the interactions that are already replayed */
+  replayed: Set<number>;
+  write$: Promise<void>;
+}
+
+function createResponse({ body, headers, status, statusText }: CassetteResponse) {
+  return new Response(serializeBody(body, headers['content-type']) || null, {
+    headers,
+    status,
+    statusText,
   });
 }
 
-interface SnapshotEntry {
-  text: string;
-  headersObj: Record<string, string>;
-  status: number;
-  statusText: string;
+function toFileName(name: string) {
+  return name.replace(/[^\w.-]+/g, '_');
 }
 
-export default function useSnapshot(
-  pluginOptions: YamlConfig.SnapshotPluginConfig & {
-    baseDir?: string;
-  },
-): MeshPlugin<any> {
+export default function useSnapshot(pluginOptions: SnapshotPluginOptions): MeshPlugin<any> {
   if (typeof pluginOptions.if === 'boolean') {
     if (!pluginOptions.if) {
       return {};
@@ -35,54 +67,155 @@ export default function useSnapshot(
       return {};
     }
   }
+  const mode = pluginOptions.mode || 'auto';
+  if (mode === 'passthrough') {
+    return {};
+  }
   const matches = pluginOptions.apply.map(glob => new Minimatch(glob));
-  const snapshotsDir = pluginOptions.outputDir || '__snapshots__';
+  const snapshotsDir = path.join(
+    pluginOptions.baseDir || process.cwd(),
+    pluginOptions.outputDir || '__snapshots__',
+  );
+  const matchingRules: MatchingRules = {
+    ignoreHeaders: [
+      ...defaultIgnoredHeaders,
+      ...(pluginOptions.ignoreHeaders || []).map(headerName => headerName.toLowerCase()),
+    ],
+    ignoreBodyFields: pluginOptions.ignoreBodyFields || [],
+  };
+  const redactionRules: RedactionRules = {
+    redactHeaders: [
+      ...defaultRedactedHeaders,
+      ...(pluginOptions.redactHeaders || []).map(headerName => headerName.toLowerCase()),
+    ],
+    redactBodyFields: [...defaultRedactedBodyFields, ...(pluginOptions.redactBodyFields || [])],
+  };
+  const cassetteStates = new Map<string, Promise<CassetteState>>();
+
+  function getCassettePath(matchKey: string, context: any) {
+    let cassetteName: string;
+    if (typeof pluginOptions.cassette === 'function') {
+      cassetteName = pluginOptions.cassette(context);
+    } else if (pluginOptions.cassette) {
+      cassetteName = stringInterpolator.parse(pluginOptions.cassette, {
+        context,
+        env: process.env,
+      });
+    } else {
+      cassetteName = hashObject(matchKey);
+    }
+    return path.join(snapshotsDir, `${toFileName(cassetteName)}.json`);
+  }
+
+  /**
+   * The snapshot files of the previous versions are named by the hash of the url and the fetch options;
+   * they are replayed until they are recorded again as cassettes
+   */
+  async function readCassetteOrLegacySnapshot(
+    cassettePath: string,
+    getLegacySnapshotPath: () => string,
+    request: CassetteRequest,
+  ): Promise<Cassette> {
+    const cassette = await readCassette(cassettePath);
+    if (cassette.interactions.length || pluginOptions.cassette) {
+      return cassette;
+    }
+    return (await readLegacySnapshot(getLegacySnapshotPath(), request)) || cassette;
+  }
+
+  function getCassetteState(
+    cassettePath: string,
+    getLegacySnapshotPath: () => string,
+    request: CassetteRequest,
+  ) {
+    let cassetteState$ = cassetteStates.get(cassettePath);
+    if (!cassetteState$) {
+      // Cassettes are recorded from scratch in `record` mode
+      const cassette$: Promise<Cassette> =
+        mode === 'record'
+          ? Promise.resolve({ interactions: [] })
+          : readCassetteOrLegacySnapshot(cassettePath, getLegacySnapshotPath, request);
+      cassetteState$ = cassette$.then(cassette => ({
+        cassette,
+        replayed: new Set<number>(),
+        write$: Promise.resolve(),
+      }));
+      cassetteStates.set(cassettePath, cassetteState$);
+    }
+    return cassetteState$;
+  }
+
+  /**
+   * Identical requests are replayed in the order they are recorded,
+   * and the last one is repeated once all of them are replayed.
+   */
+  function findInteraction(cassetteState: CassetteState, matchKey: string) {
+    let lastMatchingInteraction: CassetteInteraction | undefined;
+    for (const [index, interaction] of cassetteState.cassette.interactions.entries()) {
+      if (getMatchKey(interaction.request, matchingRules) !== matchKey) {
+        continue;
+      }
+      if (!cassetteState.replayed.has(index)) {
+        cassetteState.replayed.add(index);
+        return interaction;
+      }
+      lastMatchingInteraction = interaction;
+    }
+    return lastMatchingInteraction;
+  }
+
   return {
-    async onFetch({ url, options, setFetchFn }) {
-      if (matches.some(matcher => matcher.match(url))) {
-        const snapshotFileName = calculateCacheKey(url, options);
-        const snapshotPath = path.join(
-          pluginOptions.baseDir || process.cwd(),
-          snapshotsDir,
-          `${snapshotFileName}.json`,
-        );
-        if (await pathExists(snapshotPath)) {
-          setFetchFn(async () => {
-            const snapshotFile = await fs.promises.readFile(snapshotPath, 'utf-8');
-            const snapshot: SnapshotEntry = JSON.parse(snapshotFile);
-            return new Response(snapshot.text, {
-              headers: snapshot.headersObj,
-              status: snapshot.status,
-              statusText: snapshot.statusText,
-            });
-          });
-          return () => {};
+    async onFetch({ url, options, context, setFetchFn }) {
+      if (!matches.some(matcher => matcher.match(url))) {
+        return;
+      }
+      const request = createCassetteRequest(url, options, redactionRules);
+      const matchKey = getMatchKey(request, matchingRules);
+      const cassettePath = getCassettePath(matchKey, context);
+      const cassetteState = await getCassetteState(
+        cassettePath,
+        () => path.join(snapshotsDir, `${hashObject({ url, options })}.json`),
+        request,
+      );
+      if (mode !== 'record') {
+        const interaction = findInteraction(cassetteState, matchKey);
+        if (interaction) {
+          setFetchFn(async () => createResponse(interaction.response));
+          return;
+        }
+        if (mode === 'replay') {
+          throw new Error(
+            `No recorded interaction found for ${request.method} ${url} in ${cassettePath}`,
+          );
         }
-        return async ({ response, setResponse }) => {
-          const contentType = response.headers.get('content-type');
-          if (
-            contentType.includes('json') ||
-            contentType.includes('text') ||
-            contentType.includes('xml')
-          ) {
-            const snapshot: SnapshotEntry = {
-              text: await response.text(),
-              headersObj: getHeadersObj(response.headers),
-              status: response.status,
-              statusText: response.statusText,
-            };
-            await writeJSON(snapshotPath, snapshot, null, 2);
-            setResponse(
-              new Response(snapshot.text, {
-                headers: snapshot.headersObj,
-                status: snapshot.status,
-                statusText: snapshot.statusText,
-              }),
-            );
-          }
-        };
       }
-      return () => {};
+      return async ({ response, setResponse }) => {
+        if (!isTextContentType(response.headers.get('content-type'))) {
+          return;
+        }
+        const text = await response.text();
+        const cassetteResponse = createCassetteResponse(response, text, redactionRules);
+        const liveResponse = new Response(text || null, {
+          headers: response.headers,
+          status: response.status,
+          statusText: response.statusText,
+        });
+        liveResponse.headers.delete('content-encoding');
+        liveResponse.headers.delete('content-length');
+        setResponse(liveResponse);
+        const interactions = cassetteState.cassette.interactions;
+        if (!pluginOptions.cassette) {
+          // Each request has its own cassette, so the last response is kept
+          interactions.length = 0;
+        }
+        interactions.push({ request, response: cassetteResponse });
+        cassetteState.replayed.add(interactions.length - 1);
+        cassetteState.write$ = cassetteState.write$
+          // A failed write is already reported by the request that caused it
+          .catch(() => {})
+          .then(() => writeCassette(cassettePath, cassetteState.cassette));
+        await cassetteState.write$;
+      };
     },
   };
 }
@@ -0,0 +1,199 @@
+/* eslint-disable import/no-nodejs-modules */
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { hashObject } from '@graphql-mesh/string-interpolation';
+import type { MeshPlugin } from '@graphql-mesh/types';
+import { Response } from '@whatwg-node/fetch';
+import useSnapshot, { REDACTED, type SnapshotPluginOptions } from '../src/index.js';
+
+describe('Snapshot Plugin', () => {
+  let baseDir: string;
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'mesh-snapshot-'));
+  });
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  function createPlugin(options: Partial<SnapshotPluginOptions>) {
+    return useSnapshot({
+      apply: ['https://api.example.com/**'],
+      outputDir: '__snapshots__',
+      baseDir,
+      cassette: 'my-test',
+      ...options,
+    });
+  }
+
+  async function fetchWithPlugin(
+    plugin: MeshPlugin<any>,
+    url: string,
+    options: RequestInit & { headers?: Record<string, string> },
+    upstream = jest.fn(async () =>
+      Response.json({ id: 1, access_token: 'TOKEN' }, { headers: { 'x-upstream': 'yes' } }),
+    ),
+  ) {
+    let fetchFn: (...args: any[]) => Promise<Response> = upstream;
+    const onFetchDone = await plugin.onFetch({
+      url,
+      options,
+      context: {},
+      setFetchFn(newFetchFn) {
+        fetchFn = newFetchFn;
+      },
+    } as any);
+    let response = await fetchFn(url, options);
+    if (typeof onFetchDone === 'function') {
+      await onFetchDone({
+        response,
+        setResponse(newResponse) {
+          response = newResponse;
+        },
+      });
+    }
+    return { response, upstream };
+  }
+
+  const tokenRequest = {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/x-www-form-urlencoded',
+      authorization: 'Basic c2VjcmV0',
+      date: 'Mon, 01 Jan 2024 00:00:00 GMT',
+    },
+    body: 'grant_type=client_credentials&client_secret=SECRET',
+  };
+
+  it('records the interactions to a readable cassette without the secrets', async () => {
+    const { response } = await fetchWithPlugin(
+      createPlugin({ mode: 'record' }),
+      'https://api.example.com/token',
+      tokenRequest,
+    );
+    // The live response is not redacted
+    expect(await response.json()).toEqual({ id: 1, access_token: 'TOKEN' });
+    const cassette = JSON.parse(
+      await readFile(join(baseDir, '__snapshots__', 'my-test.json'), 'utf-8'),
+    );
+    expect(cassette).toEqual({
+      interactions: [
+        {
+          request: {
+            method: 'POST',
+            url: 'https://api.example.com/token',
+            headers: {
+              'content-type': 'application/x-www-form-urlencoded',
+              authorization: REDACTED,
+              date: 'Mon, 01 Jan 2024 00:00:00 GMT',
+            },
+            body: {
+              grant_type: 'client_credentials',
+              client_secret: REDACTED,
+            },
+          },
+          response: {
+            status: 200,
+            statusText: 'OK',
+            headers: {
+              'content-type': expect.stringContaining('application/json'),
+              'x-upstream': 'yes',
+            },
+            body: {
+              id: 1,
+              access_token: REDACTED,
+            },
+          },
+        },
+      ],
+    });
+  });
+
+  it('replays the recorded interactions while ignoring the volatile parts of the requests', async () => {
+    await fetchWithPlugin(createPlugin({ mode: 'record' }), 'https://api.example.com/items', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', date: 'Mon, 01 Jan 2024 00:00:00 GMT' },
+      body: JSON.stringify({ name: 'foo', meta: { requestId: '1' } }),
+    });
+    const replayPlugin = createPlugin({ mode: 'replay', ignoreBodyFields: ['meta.requestId'] });
+    const { response, upstream } = await fetchWithPlugin(
+      replayPlugin,
+      'https://api.example.com/items',
+      {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', date: 'Tue, 02 Jan 2024 00:00:00 GMT' },
+        body: JSON.stringify({ name: 'foo', meta: { requestId: '2' } }),
+      },
+    );
+    expect(upstream).not.toHaveBeenCalled();
+    expect(response.headers.get('x-upstream')).toBe('yes');
+    expect(await response.json()).toEqual({ id: 1, access_token: REDACTED });
+
+    await expect(
+      fetchWithPlugin(replayPlugin, 'https://api.example.com/items', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: 'bar' }),
+      }),
+    ).rejects.toThrow(
+      `No recorded interaction found for POST https://api.example.com/items in ${join(baseDir, '__snapshots__', 'my-test.json')}`,
+    );
+  });
+
+  it('replays identical requests in the order they are recorded', async () => {
+    let counter = 0;
+    const upstream = jest.fn(async () => Response.json({ counter: ++counter }));
+    const recordPlugin = createPlugin({ mode: 'record' });
+    for (let i = 0; i < 2; i++) {
+      await fetchWithPlugin(recordPlugin, 'https://api.example.com/counter', {}, upstream);
+    }
+    const replayPlugin = createPlugin({ mode: 'replay' });
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      const { response } = await fetchWithPlugin(
+        replayPlugin,
+        'https://api.example.com/counter',
+        {},
+      );
+      results.push(await response.json());
+    }
+    expect(results).toEqual([{ counter: 1 }, { counter: 2 }, { counter: 2 }]);
+    expect(upstream).toHaveBeenCalledTimes(2);
+  });
+
+  it('records the missing interactions in auto mode', async () => {
+    const plugin = createPlugin({ cassette: undefined });
+    const first = await fetchWithPlugin(plugin, 'https://api.example.com/auto', {});
+    const second = await fetchWithPlugin(plugin, 'https://api.example.com/auto', {});
+    expect(first.upstream).toHaveBeenCalledTimes(1);
+    expect(second.upstream).not.toHaveBeenCalled();
+  });
+
+  it('replays the snapshots of the previous format', async () => {
+    const url = 'https://api.example.com/legacy';
+    const options = { method: 'GET', headers: { accept: 'application/json' } };
+    await mkdir(join(baseDir, '__snapshots__'));
+    await writeFile(
+      join(baseDir, '__snapshots__', `${hashObject({ url, options })}.json`),
+      JSON.stringify({
+        text: '{"legacy":true}',
+        headersObj: { 'Content-Type': 'application/json', 'content-length': '15' },
+        status: 200,
+        statusText: 'OK',
+      }),
+    );
+    const { response, upstream } = await fetchWithPlugin(
+      createPlugin({ cassette: undefined, mode: 'replay' }),
+      url,
+      options,
+    );
+    expect(upstream).not.toHaveBeenCalled();
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({ legacy: true });
+  });
+
+  it('does nothing in passthrough mode', async () => {
+    const plugin = createPlugin({ mode: 'passthrough' });
+    expect(plugin.onFetch).toBeUndefined();
+  });
+});
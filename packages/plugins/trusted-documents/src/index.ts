@@ -0,0 +1,241 @@
+import type { GraphQLParams } from 'graphql-yoga';
+import type { GatewayPlugin } from '@graphql-hive/gateway';
+import { fs, path as pathModule, process } from '@graphql-mesh/cross-helpers';
+import type { KeyValueCache, Logger } from '@graphql-mesh/types';
+import { DefaultLogger, mapMaybePromise } from '@graphql-mesh/utils';
+import { createGraphQLError, type MaybePromise } from '@graphql-tools/utils';
+
+/**
+ * Manifest generated by Apollo's `generate-persisted-query-manifest`
+ */
+export interface ApolloPersistedQueryManifest {
+  format: 'apollo-persisted-query-manifest';
+  version: number;
+  operations: {
+    id: string;
+    body: string;
+    name?: string;
+    type?: string;
+  }[];
+}
+
+/**
+ * Relay style manifest that maps the hashes to the documents
+ */
+export type RelayPersistedQueryManifest = Record<string, string>;
+
+export type TrustedDocumentsManifest = ApolloPersistedQueryManifest | RelayPersistedQueryManifest;
+
+export interface TrustedDocumentsPluginOptions {
+  /**
+   * Path to an Apollo or Relay style JSON manifest, or a directory of `.graphql` files named after
+   * their hashes; or the manifest object itself.
+   */
+  manifest?: string | TrustedDocumentsManifest;
+  /**
+   * Store to look up the documents that are not in the manifest.
+   * Any `KeyValueCache` implementation can be used to share the documents across instances.
+   */
+  store?: KeyValueCache<string>;
+  /**
+   * Prefix of the keys in the store
+   * @default trusted-documents:
+   */
+  storeKeyPrefix?: string;
+  /**
+   * Only log the untrusted documents instead of rejecting them
+   * @default false
+   */
+  logOnly?: boolean;
+  /**
+   * Extracts the hash of the document from the request parameters.
+   * By default, `extensions.persistedQuery.sha256Hash`, `documentId`, `doc_id` and `id` are respected.
+   */
+  extractHash?: (params: GraphQLParams) => string | undefined;
+  /**
+   * Base directory for the manifest path
+   * @default process.cwd()
+   */
+  baseDir?: string;
+  logger?: Logger;
+}
+
+export const defaultStoreKeyPrefix = 'trusted-documents:';
+
+export function defaultExtractHash(params: GraphQLParams & Record<string, any>) {
+  const hash =
+    params.extensions?.persistedQuery?.sha256Hash ??
+    params.documentId ??
+    params.doc_id ??
+    params.id;
+  if (typeof hash === 'string' && hash) {
+    return hash;
+  }
+}
+
+function isApolloManifest(
+  manifest: TrustedDocumentsManifest,
+): manifest is ApolloPersistedQueryManifest {
+  return (
+    (manifest as ApolloPersistedQueryManifest).format === 'apollo-persisted-query-manifest' &&
+    Array.isArray((manifest as ApolloPersistedQueryManifest).operations)
+  );
+}
+
+function getDocumentsFromManifest(manifest: TrustedDocumentsManifest) {
+  const documents = new Map<string, string>();
+  if (isApolloManifest(manifest)) {
+    for (const operation of manifest.operations) {
+      documents.set(operation.id, operation.body);
+    }
+  } else {
+    for (const hash in manifest) {
+      const document = manifest[hash];
+      if (typeof document === 'string') {
+        documents.set(hash, document);
+      }
+    }
+  }
+  return documents;
+}
+
+/**
+ * Loads the trusted documents from an Apollo or Relay style manifest file,
+ * or a directory of `.graphql` files.
+ */
+export async function loadTrustedDocuments(
+  manifest: string | TrustedDocumentsManifest,
+  baseDir = process.cwd(),
+): Promise<Map<string, string>> {
+  if (typeof manifest !== 'string') {
+    return getDocumentsFromManifest(manifest);
+  }
+  const manifestPath = pathModule.isAbsolute(manifest)
+    ? manifest
+    : pathModule.join(baseDir, manifest);
+  const stats = await fs.promises.stat(manifestPath);
+  if (!stats.isDirectory()) {
+    const manifestContent = await fs.promises.readFile(manifestPath, 'utf8');
+    return getDocumentsFromManifest(JSON.parse(manifestContent));
+  }
+  const documents = new Map<string, string>();
+  const fileNames = await fs.promises.readdir(manifestPath);
+  for (const fileName of fileNames) {
+    const extension = pathModule.extname(fileName);
+    if (extension !== '.graphql' && extension !== '.gql') {
+      continue;
+    }
+    const hash = pathModule.basename(fileName, extension);
+    const document = await fs.promises.readFile(pathModule.join(manifestPath, fileName), 'utf8');
+    documents.set(hash, document);
+  }
+  return documents;
+}
+
+/**
+ * Writes the trusted documents to a store, so they can be shared with the other instances.
+ */
+export async function writeTrustedDocumentsToStore(
+  store: KeyValueCache<string>,
+  documents: Map<string, string>,
+  storeKeyPrefix = defaultStoreKeyPrefix,
+) {
+  const jobs: Promise<void>[] = [];
+  for (const [hash, document] of documents) {
+    jobs.push(store.set(`${storeKeyPrefix}${hash}`, document));
+  }
+  await Promise.all(jobs);
+}
+
+async function hashDocument(crypto: Crypto, textEncoder: TextEncoder, document: string) {
+  const digest = await crypto.subtle.digest('SHA-256', textEncoder.encode(document));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function useTrustedDocuments(options: TrustedDocumentsPluginOptions): GatewayPlugin {
+  if (!options.manifest && !options.store) {
+    throw new Error('Either "manifest" or "store" is required for useTrustedDocuments plugin');
+  }
+  const storeKeyPrefix = options.storeKeyPrefix ?? defaultStoreKeyPrefix;
+  const extractHash = options.extractHash || defaultExtractHash;
+  const logger = options.logger || new DefaultLogger('TrustedDocuments');
+  let documents$: MaybePromise<Map<string, string>> | undefined;
+  let textEncoder: TextEncoder;
+
+  function getDocumentByHash(hash: string): MaybePromise<string | undefined> {
+    documents$ ||= options.manifest
+      ? loadTrustedDocuments(options.manifest, options.baseDir).then(
+          documents => {
+            logger.debug(`Loaded ${documents.size} trusted documents`);
+            documents$ = documents;
+            return documents;
+          },
+          e => {
+            // Try to load the manifest again with the next request
+            documents$ = undefined;
+            throw e;
+          },
+        )
+      : new Map();
+    return mapMaybePromise(documents$, documents => {
+      const document = documents.get(hash);
+      if (document != null || !options.store) {
+        return document;
+      }
+      return options.store.get(`${storeKeyPrefix}${hash}`);
+    });
+  }
+
+  return {
+    async onParams({ params, setParams, fetchAPI }) {
+      const hash = extractHash(params);
+      if (hash) {
+        let document = await getDocumentByHash(hash);
+        if (document == null) {
+          if (!params.query || !options.logOnly) {
+            throw createGraphQLError('PersistedQueryNotFound', {
+              extensions: {
+                code: 'PERSISTED_QUERY_NOT_FOUND',
+                http: {
+                  status: 404,
+                },
+              },
+            });
+          }
+          logger.warn(`Document with hash "${hash}" is not trusted`);
+          document = params.query;
+        }
+        // Other parameters like `documentId` are not expected by the rest of the pipeline
+        setParams({
+          query: document,
+          operationName: params.operationName,
+          variables: params.variables,
+          extensions: params.extensions,
+        });
+        return;
+      }
+      if (!params.query) {
+        return;
+      }
+      // Documents sent as a whole are only accepted if they are exactly the same with a trusted one
+      textEncoder ||= new fetchAPI.TextEncoder();
+      const queryHash = await hashDocument(fetchAPI.crypto, textEncoder, params.query);
+      const document = await getDocumentByHash(queryHash);
+      if (document === params.query) {
+        return;
+      }
+      if (options.logOnly) {
+        logger.warn(`Document is not trusted; ${params.query}`);
+        return;
+      }
+      throw createGraphQLError('Only trusted documents are allowed', {
+        extensions: {
+          code: 'PERSISTED_QUERY_ONLY',
+          http: {
+            status: 400,
+          },
+        },
+      });
+    },
+  };
+}
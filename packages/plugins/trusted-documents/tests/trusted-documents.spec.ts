@@ -0,0 +1,171 @@
+/* eslint-disable import/no-extraneous-dependencies */
+// eslint-disable-next-line import/no-nodejs-modules
+import { createHash } from 'node:crypto';
+// eslint-disable-next-line import/no-nodejs-modules
+import { promises as fsPromises } from 'node:fs';
+// eslint-disable-next-line import/no-nodejs-modules
+import { tmpdir } from 'node:os';
+import { join } from 'path';
+import type { ExecutionResult } from 'graphql';
+import { createSchema } from 'graphql-yoga';
+import InMemoryLRUCache from '@graphql-mesh/cache-localforage';
+import type { Logger } from '@graphql-mesh/types';
+import { createTestGateway } from '../../../testing/createTestGateway.js';
+import {
+  useTrustedDocuments,
+  writeTrustedDocumentsToStore,
+  type TrustedDocumentsPluginOptions,
+} from '../src/index.js';
+
+describe('Trusted Documents', () => {
+  const helloQuery = /* GraphQL */ `
+    query Hello {
+      hello
+    }
+  `;
+  const helloQueryHash = createHash('sha256').update(helloQuery).digest('hex');
+  const logger: Logger = {
+    log: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: () => logger,
+  };
+  const upstreamSchema = createSchema({
+    typeDefs: /* GraphQL */ `
+      type Query {
+        hello: String
+      }
+    `,
+    resolvers: {
+      Query: {
+        hello: () => 'world',
+      },
+    },
+  });
+  function createGateway(options: Omit<TrustedDocumentsPluginOptions, 'logger'>) {
+    return createTestGateway({
+      upstreamSchema,
+      plugins: [useTrustedDocuments({ ...options, logger })],
+      maskedErrors: false,
+    });
+  }
+  async function executeRequest(
+    gateway: ReturnType<typeof createGateway>,
+    body: Record<string, any>,
+  ): Promise<ExecutionResult> {
+    const res = await gateway.fetch('http://localhost:4000/graphql', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    return res.json();
+  }
+  it('executes the documents from an Apollo manifest by their hashes', async () => {
+    const gateway = createGateway({
+      manifest: {
+        format: 'apollo-persisted-query-manifest',
+        version: 1,
+        operations: [{ id: helloQueryHash, body: helloQuery, name: 'Hello', type: 'query' }],
+      },
+    });
+    const result = await executeRequest(gateway, {
+      extensions: {
+        persistedQuery: {
+          version: 1,
+          sha256Hash: helloQueryHash,
+        },
+      },
+    });
+    expect(result).toEqual({ data: { hello: 'world' } });
+  });
+  it('executes the documents from a Relay manifest by their ids', async () => {
+    const gateway = createGateway({
+      manifest: {
+        [helloQueryHash]: helloQuery,
+      },
+    });
+    const result = await executeRequest(gateway, { documentId: helloQueryHash });
+    expect(result).toEqual({ data: { hello: 'world' } });
+  });
+  it('executes the documents from a directory of files', async () => {
+    const gateway = createGateway({
+      manifest: join(__dirname, 'fixtures', 'documents'),
+    });
+    const result = await executeRequest(gateway, { documentId: 'hello-query' });
+    expect(result).toEqual({ data: { hello: 'world' } });
+  });
+  it('executes the documents from the store', async () => {
+    const store = new InMemoryLRUCache();
+    await writeTrustedDocumentsToStore(store, new Map([[helloQueryHash, helloQuery]]));
+    const gateway = createGateway({ store });
+    const result = await executeRequest(gateway, { documentId: helloQueryHash });
+    expect(result).toEqual({ data: { hello: 'world' } });
+  });
+  it('rejects the unknown hashes', async () => {
+    const gateway = createGateway({
+      manifest: {
+        [helloQueryHash]: helloQuery,
+      },
+    });
+    const result = await executeRequest(gateway, { documentId: 'unknown' });
+    expect(result.errors[0]).toMatchObject({
+      message: 'PersistedQueryNotFound',
+      extensions: {
+        code: 'PERSISTED_QUERY_NOT_FOUND',
+      },
+    });
+  });
+  it('rejects the arbitrary documents', async () => {
+    const gateway = createGateway({
+      manifest: {
+        [helloQueryHash]: helloQuery,
+      },
+    });
+    const result = await executeRequest(gateway, { query: '{ hello }' });
+    expect(result.errors[0]).toMatchObject({
+      message: 'Only trusted documents are allowed',
+      extensions: {
+        code: 'PERSISTED_QUERY_ONLY',
+      },
+    });
+  });
+  it('accepts the documents that are exactly the same with a trusted one', async () => {
+    const gateway = createGateway({
+      manifest: {
+        [helloQueryHash]: helloQuery,
+      },
+    });
+    const result = await executeRequest(gateway, { query: helloQuery });
+    expect(result).toEqual({ data: { hello: 'world' } });
+  });
+  it('only logs the arbitrary documents in log only mode', async () => {
+    const gateway = createGateway({
+      manifest: {
+        [helloQueryHash]: helloQuery,
+      },
+      logOnly: true,
+    });
+    const result = await executeRequest(gateway, { query: '{ hello }' });
+    expect(result).toEqual({ data: { hello: 'world' } });
+    expect(logger.warn).toHaveBeenCalledWith('Document is not trusted; { hello }');
+  });
+  it('loads the manifest again if it failed to load before', async () => {
+    const manifestPath = join(tmpdir(), `trusted-documents-${Date.now()}.json`);
+    const gateway = createGateway({
+      manifest: manifestPath,
+    });
+    const failedResult = await executeRequest(gateway, { documentId: helloQueryHash });
+    expect(failedResult.errors?.[0]?.message).toContain('ENOENT');
+    await fsPromises.writeFile(manifestPath, JSON.stringify({ [helloQueryHash]: helloQuery }));
+    try {
+      const result = await executeRequest(gateway, { documentId: helloQueryHash });
+      expect(result).toEqual({ data: { hello: 'world' } });
+    } finally {
+      await fsPromises.unlink(manifestPath);
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import type { FetchAPI } from 'graphql-yoga';
+import type { GatewayPlugin } from '@graphql-hive/gateway';
+import type { Logger, MeshPubSub } from '@graphql-mesh/types';
+import { DefaultLogger } from '@graphql-mesh/utils';
+import type { MaybePromise } from '@graphql-tools/utils';
+
+export interface WebhooksPluginOptions {
+  /**
+   * The webhook payloads are published to `webhook:{method}:{path}` topics of this PubSub
+   */
+  pubsub: MeshPubSub;
+  /**
+   * The requests under this path are always handled as webhooks even if nobody is subscribed to them.
+   * The requests to the other paths are handled only if there are subscribers for them.
+   * @default /webhooks
+   */
+  path?: string;
+  /**
+   * Secret of HMAC SHA-256 signatures of the request bodies;
+   * the requests without a valid signature are rejected with `401`.
+   * Either `secret` or `verifySignature` is required.
+   */
+  secret?: string;
+  /**
+   * Header of the hex or base64 encoded signature, optionally prefixed with `sha256=`
+   * @default x-hub-signature-256
+   */
+  signatureHeader?: string;
+  /**
+   * Verifies the requests in a custom way instead of `secret`;
+   * accepting the unsigned requests with `() => true` lets anyone publish to the subscriptions
+   */
+  verifySignature?: (payload: { request: Request; body: string }) => MaybePromise<boolean>;
+  logger?: Logger;
+}
+
+export const DEFAULT_WEBHOOKS_PATH = '/webhooks';
+export const DEFAULT_SIGNATURE_HEADER = 'x-hub-signature-256';
+
+function decodeSignature(signature: string) {
+  if (/^([0-9a-f]{2})+$/i.test(signature)) {
+    return Uint8Array.from(signature.match(/../g), byte => parseInt(byte, 16));
+  }
+  try {
+    return Uint8Array.from(atob(signature), c => c.charCodeAt(0));
+  } catch {
+    return undefined;
+  }
+}
+
+function parseBody(request: Request, body: string, fetchAPI: FetchAPI) {
+  const contentType = request.headers.get('content-type') || '';
+  if (contentType.includes('json')) {
+    try {
+      return JSON.parse(body);
+    } catch {}
+  } else if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new fetchAPI.URLSearchParams(body));
+  }
+  return body;
+}
+
+/**
+ * Receives the webhooks sent by the upstreams, and publishes them to the subscriptions of
+ * OpenAPI callbacks and webhooks
+ */
+export function useWebhooks(options: WebhooksPluginOptions): GatewayPlugin {
+  if (!options.pubsub) {
+    throw new Error('Property "pubsub" is required for useWebhooks plugin');
+  }
+  if (!options.secret && !options.verifySignature) {
+    throw new Error('Either "secret" or "verifySignature" is required for useWebhooks plugin');
+  }
+  const webhooksPath = (options.path ?? DEFAULT_WEBHOOKS_PATH).replace(/\/$/, '');
+  const signatureHeader = options.signatureHeader || DEFAULT_SIGNATURE_HEADER;
+  const logger = options.logger || new DefaultLogger('webhooks');
+  let key$: Promise<CryptoKey>;
+  let textEncoder: TextEncoder;
+
+  function hasSubscribers(eventName: string) {
+    for (const existingEventName of options.pubsub.getEventNames()) {
+      if (existingEventName === eventName) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async function verifySignature(request: Request, body: string, fetchAPI: FetchAPI) {
+    if (options.verifySignature) {
+      return options.verifySignature({ request, body });
+    }
+    const signature = request.headers.get(signatureHeader);
+    const signatureBytes = signature && decodeSignature(signature.replace(/^sha256=/i, ''));
+    if (!signatureBytes) {
+      return false;
+    }
+    textEncoder ||= new fetchAPI.TextEncoder();
+    key$ ||= fetchAPI.crypto.subtle.importKey(
+      'raw',
+      textEncoder.encode(options.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify'],
+    );
+    return fetchAPI.crypto.subtle.verify(
+      'HMAC',
+      await key$,
+      signatureBytes,
+      textEncoder.encode(body),
+    );
+  }
+
+  return {
+    onRequest({ request, url, endResponse, fetchAPI }) {
+      const eventName = `webhook:${request.method.toLowerCase()}:${url.pathname}`;
+      const isWebhooksPath =
+        !!webhooksPath &&
+        (url.pathname === webhooksPath || url.pathname.startsWith(`${webhooksPath}/`));
+      if (!isWebhooksPath && !hasSubscribers(eventName)) {
+        return;
+      }
+      return request.text().then(async body => {
+        if (!(await verifySignature(request, body, fetchAPI))) {
+          logger.warn(`Rejected the webhook request to ${url.pathname} with an invalid signature`);
+          endResponse(
+            new fetchAPI.Response(null, {
+              status: 401,
+            }),
+          );
+          return;
+        }
+        logger.debug(`Received webhook request for ${url.pathname}`, body);
+        options.pubsub.publish(eventName, parseBody(request, body, fetchAPI));
+        endResponse(
+          new fetchAPI.Response(null, {
+            status: 204,
+          }),
+        );
+      });
+    },
+  };
+}
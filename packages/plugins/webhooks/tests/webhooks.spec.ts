@@ -0,0 +1,145 @@
+/* eslint-disable import/no-extraneous-dependencies */
+// eslint-disable-next-line import/no-nodejs-modules
+import { createHmac } from 'node:crypto';
+import { createSchema } from 'graphql-yoga';
+import type { Logger } from '@graphql-mesh/types';
+import { PubSub } from '@graphql-mesh/utils';
+import { createTestGateway } from '../../../testing/createTestGateway.js';
+import { useWebhooks, type WebhooksPluginOptions } from '../src/index.js';
+
+describe('Webhooks', () => {
+  const logger: Logger = {
+    log: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: () => logger,
+  };
+  let pubsub: PubSub;
+  let receivedPayloads: Record<string, any[]>;
+
+  beforeEach(() => {
+    pubsub = new PubSub();
+    receivedPayloads = {};
+  });
+
+  function subscribe(eventName: string) {
+    receivedPayloads[eventName] = [];
+    pubsub.subscribe(eventName as any, payload => receivedPayloads[eventName].push(payload));
+  }
+
+  const upstreamSchema = createSchema({
+    typeDefs: /* GraphQL */ `
+      type Query {
+        hello: String
+      }
+    `,
+    resolvers: {
+      Query: {
+        hello: () => 'world',
+      },
+    },
+  });
+
+  function createGateway(
+    options: Omit<WebhooksPluginOptions, 'pubsub' | 'logger'> = {
+      verifySignature: () => true,
+    },
+  ) {
+    return createTestGateway({
+      upstreamSchema,
+      plugins: [useWebhooks({ ...options, pubsub, logger })],
+    });
+  }
+
+  function sign(body: string, secret: string) {
+    return createHmac('sha256', secret).update(body).digest('hex');
+  }
+
+  it('publishes the payloads to the subscribers of the webhook topic', async () => {
+    await using gateway = createGateway();
+    subscribe('webhook:post:/webhooks/petCreated');
+    const response = await gateway.fetch('http://localhost:4000/webhooks/petCreated', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json; charset=utf-8',
+      },
+      body: JSON.stringify({ id: 1, name: 'Rex' }),
+    });
+    expect(response.status).toBe(204);
+    expect(receivedPayloads['webhook:post:/webhooks/petCreated']).toEqual([{ id: 1, name: 'Rex' }]);
+  });
+
+  it('accepts the webhooks without subscribers only under the webhooks path', async () => {
+    await using gateway = createGateway();
+    const webhookResponse = await gateway.fetch('http://localhost:4000/webhooks/petDeleted', {
+      method: 'POST',
+      body: 'deleted',
+    });
+    expect(webhookResponse.status).toBe(204);
+    const graphqlResponse = await gateway.fetch('http://localhost:4000/graphql?query={hello}');
+    expect(await graphqlResponse.json()).toEqual({ data: { hello: 'world' } });
+    // Callback URLs can be anywhere
+    subscribe('webhook:put:/callbacks/devices');
+    const callbackResponse = await gateway.fetch('http://localhost:4000/callbacks/devices', {
+      method: 'PUT',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+      },
+      body: 'name=Bot&status=on',
+    });
+    expect(callbackResponse.status).toBe(204);
+    expect(receivedPayloads['webhook:put:/callbacks/devices']).toEqual([
+      { name: 'Bot', status: 'on' },
+    ]);
+  });
+
+  it('requires the requests to be verified', () => {
+    expect(() => useWebhooks({ pubsub, logger })).toThrow(
+      'Either "secret" or "verifySignature" is required for useWebhooks plugin',
+    );
+  });
+
+  it('verifies HMAC signatures of the requests', async () => {
+    await using gateway = createGateway({
+      secret: 'my-secret',
+    });
+    subscribe('webhook:post:/webhooks/petCreated');
+    const body = JSON.stringify({ id: 1 });
+    const send = (signature?: string) =>
+      gateway.fetch('http://localhost:4000/webhooks/petCreated', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(signature ? { 'x-hub-signature-256': signature } : {}),
+        },
+        body,
+      });
+    expect((await send()).status).toBe(401);
+    expect((await send(sign(body, 'wrong-secret'))).status).toBe(401);
+    expect((await send(sign(body, 'my-secret'))).status).toBe(204);
+    expect((await send(`sha256=${sign(body, 'my-secret')}`)).status).toBe(204);
+    const base64Signature = createHmac('sha256', 'my-secret').update(body).digest('base64');
+    expect((await send(base64Signature)).status).toBe(204);
+    expect(receivedPayloads['webhook:post:/webhooks/petCreated']).toHaveLength(3);
+  });
+
+  it('verifies the requests with a custom function', async () => {
+    await using gateway = createGateway({
+      verifySignature: ({ request }) => request.headers.get('x-token') === 'my-token',
+    });
+    subscribe('webhook:post:/webhooks/petCreated');
+    const send = (token: string) =>
+      gateway.fetch('http://localhost:4000/webhooks/petCreated', {
+        method: 'POST',
+        headers: {
+          'x-token': token,
+        },
+        body: 'created',
+      });
+    expect((await send('wrong-token')).status).toBe(401);
+    expect((await send('my-token')).status).toBe(204);
+    expect(receivedPayloads['webhook:post:/webhooks/petCreated']).toEqual(['created']);
+  });
+});
@@ -0,0 +1,73 @@
+import { connect, StringCodec, type NatsConnection, type Subscription } from 'nats';
+import { process } from '@graphql-mesh/cross-helpers';
+import { stringInterpolator } from '@graphql-mesh/string-interpolation';
+import { DistributedPubSub, type DistributedPubSubOptions } from '@graphql-mesh/utils';
+
+function interpolateStrWithEnv(str: string): string {
+  return stringInterpolator.parse(str, { env: process.env });
+}
+
+export interface NATSPubSubOptions extends DistributedPubSubOptions {
+  /**
+   * URLs of the NATS servers
+   * @default localhost:4222
+   */
+  servers?: string | string[];
+  user?: string;
+  pass?: string;
+  token?: string;
+}
+
+/**
+ * Shares the events between the gateway instances with NATS subjects
+ */
+export default class NATSPubSub extends DistributedPubSub {
+  private connection$: Promise<NatsConnection>;
+  private subjectSubscriptionMap = new Map<string, Subscription>();
+  private codec = StringCodec();
+
+  constructor({ servers, user, pass, token, ...options }: NATSPubSubOptions = {}) {
+    super(options);
+    const serverList = (Array.isArray(servers) ? servers : [servers || process.env.NATS_URL])
+      .filter(Boolean)
+      .map(interpolateStrWithEnv);
+    this.logger.debug(`Connecting to NATS at ${serverList.join(', ') || 'localhost:4222'}`);
+    this.connection$ = connect({
+      servers: serverList.length ? serverList : undefined,
+      user: user && interpolateStrWithEnv(user),
+      pass: pass && interpolateStrWithEnv(pass),
+      token: token && interpolateStrWithEnv(token),
+    });
+    this.connection$.catch(e => this.logger.error(`Failed to connect to NATS`, e));
+  }
+
+  protected async publishMessage(subject: string, message: string) {
+    const connection = await this.connection$;
+    connection.publish(subject, this.codec.encode(message));
+  }
+
+  protected async subscribeChannel(subject: string) {
+    const connection = await this.connection$;
+    const subscription = connection.subscribe(subject, {
+      callback: (err, msg) => {
+        if (err) {
+          this.logger.error(`Failed to receive from ${subject}`, err);
+          return;
+        }
+        this.receiveMessage(this.codec.decode(msg.data));
+      },
+    });
+    this.subjectSubscriptionMap.set(subject, subscription);
+  }
+
+  protected unsubscribeChannel(subject: string) {
+    this.subjectSubscriptionMap.get(subject)?.unsubscribe();
+    this.subjectSubscriptionMap.delete(subject);
+  }
+
+  protected async disconnect() {
+    const connection = await this.connection$;
+    // Delivers the pending messages before closing
+    await connection.drain();
+  }
+}
@@ -0,0 +1,109 @@
+/* eslint-disable dot-notation */
+import { DefaultLogger, dispose } from '@graphql-mesh/utils';
+import NATSPubSub from '../src/index.js';
+
+// Stand-in of a NATS server shared by all the connections
+jest.mock('nats', () => {
+  const subjectCallbacksMap = new Map<
+    string,
+    Set<(mockErr: Error, mockMsg: { data: Uint8Array }) => void>
+  >();
+  const connectOptions: any[] = [];
+  return {
+    connectOptions,
+    StringCodec: () => ({
+      encode: (str: string) => new TextEncoder().encode(str),
+      decode: (data: Uint8Array) => new TextDecoder().decode(data),
+    }),
+    async connect(options: any) {
+      connectOptions.push(options);
+      const connectionCallbacks = new Set<
+        (mockErr: Error, mockMsg: { data: Uint8Array }) => void
+      >();
+      return {
+        publish(subject: string, data: Uint8Array) {
+          for (const callback of subjectCallbacksMap.get(subject) || []) {
+            callback(null, { data });
+          }
+        },
+        subscribe(
+          subject: string,
+          { callback }: { callback: (mockErr: Error, mockMsg: any) => void },
+        ) {
+          let callbacks = subjectCallbacksMap.get(subject);
+          if (!callbacks) {
+            callbacks = new Set();
+            subjectCallbacksMap.set(subject, callbacks);
+          }
+          callbacks.add(callback);
+          connectionCallbacks.add(callback);
+          return {
+            unsubscribe() {
+              callbacks.delete(callback);
+            },
+          };
+        },
+        async drain() {
+          for (const callbacks of subjectCallbacksMap.values()) {
+            for (const callback of connectionCallbacks) {
+              callbacks.delete(callback);
+            }
+          }
+        },
+      };
+    },
+  };
+});
+
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('NATSPubSub', () => {
+  const logger = new DefaultLogger('test');
+
+  it('connects to the given servers', async () => {
+    const { connectOptions } = jest.requireMock('nats');
+    process.env.NATS_TEST_TOKEN = 'secret';
+    await using pubsub = new NATSPubSub({
+      servers: ['nats://nats-1:4222', 'nats://nats-2:4222'],
+      token: '{env.NATS_TEST_TOKEN}',
+      logger,
+    });
+    expect(connectOptions[connectOptions.length - 1]).toEqual({
+      servers: ['nats://nats-1:4222', 'nats://nats-2:4222'],
+      token: 'secret',
+    });
+  });
+
+  it('delivers the events published by another instance', async () => {
+    await using pubsubA = new NATSPubSub({ logger });
+    await using pubsubB = new NATSPubSub({ logger });
+    const received: any[] = [];
+    const subId = pubsubB.subscribe('live-query:invalidate', data => received.push(data));
+    await flushPromises();
+    pubsubA.publish('live-query:invalidate', ['Query.orders', 'Order:1']);
+    await flushPromises();
+    expect(received).toEqual([['Query.orders', 'Order:1']]);
+    pubsubB.unsubscribe(subId);
+    await flushPromises();
+    pubsubA.publish('live-query:invalidate', ['Query.orders']);
+    await flushPromises();
+    expect(received).toHaveLength(1);
+  });
+
+  it('drains the connection on dispose', async () => {
+    await using pubsubA = new NATSPubSub({ logger });
+    const pubsubB = new NATSPubSub({ logger });
+    const onMessage = jest.fn();
+    pubsubB.subscribe('updates', onMessage);
+    await flushPromises();
+    const connection = await pubsubB['connection$'];
+    const drain = jest.spyOn(connection, 'drain');
+    await dispose(pubsubB);
+    expect(drain).toHaveBeenCalled();
+    pubsubA.publish('updates', 1);
+    await flushPromises();
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+});
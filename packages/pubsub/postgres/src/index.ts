@@ -0,0 +1,80 @@
+import pg from 'pg';
+import { process } from '@graphql-mesh/cross-helpers';
+import { stringInterpolator } from '@graphql-mesh/string-interpolation';
+import { DistributedPubSub, type DistributedPubSubOptions } from '@graphql-mesh/utils';
+
+export interface PostgresPubSubOptions extends Omit<DistributedPubSubOptions, 'channelPrefix'> {
+  /**
+   * Connection string of the database
+   * @default process.env.DATABASE_URL
+   */
+  connectionString?: string;
+  /**
+   * Channel of `LISTEN` and `NOTIFY` shared by all the events
+   * @default graphql_mesh_pubsub
+   */
+  channel?: string;
+}
+
+/**
+ * Shares the events between the gateway instances with Postgres `LISTEN` and `NOTIFY`.
+ * All the events go through a single channel, because the channel names are limited to 63 bytes,
+ * and the payloads are limited to 8000 bytes by Postgres.
+ */
+export default class PostgresPubSub extends DistributedPubSub {
+  private client: pg.Client;
+  private connect$: Promise<pg.Client>;
+  private channel: string;
+
+  constructor({
+    connectionString,
+    channel = 'graphql_mesh_pubsub',
+    ...options
+  }: PostgresPubSubOptions = {}) {
+    super(options);
+    this.channel = channel;
+    this.client = new pg.Client({
+      connectionString:
+        stringInterpolator.parse(connectionString || '', { env: process.env }) ||
+        process.env.DATABASE_URL,
+    });
+    this.client.on('notification', notification => {
+      if (notification.channel === this.channel && notification.payload) {
+        this.receiveMessage(notification.payload);
+      }
+    });
+    this.client.on('error', e => this.logger.error(`Postgres connection failed`, e));
+  }
+
+  private getClient() {
+    if (!this.connect$) {
+      this.connect$ = this.client.connect();
+    }
+    return this.connect$.then(() => this.client);
+  }
+
+  protected getChannel() {
+    return this.channel;
+  }
+
+  protected async publishMessage(channel: string, message: string) {
+    const client = await this.getClient();
+    await client.query('SELECT pg_notify($1, $2)', [channel, message]);
+  }
+
+  protected async subscribeChannel(channel: string) {
+    const client = await this.getClient();
+    await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+  }
+
+  protected async unsubscribeChannel(channel: string) {
+    const client = await this.getClient();
+    await client.query(`UNLISTEN ${client.escapeIdentifier(channel)}`);
+  }
+
+  protected async disconnect() {
+    if (this.connect$) {
+      await this.client.end();
+    }
+  }
+}
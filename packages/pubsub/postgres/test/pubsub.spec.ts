@@ -0,0 +1,120 @@
+import { DefaultLogger, dispose } from '@graphql-mesh/utils';
+import PostgresPubSub from '../src/index.js';
+
+// Stand-in of a Postgres server with LISTEN and NOTIFY shared by all the clients
+jest.mock('pg', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  const channelClientsMap = new Map<string, Set<any>>();
+  const queries: string[] = [];
+  const clients: any[] = [];
+  class Client extends EventEmitter {
+    connected = false;
+    config: { connectionString?: string };
+    constructor(mockConfig: { connectionString?: string }) {
+      super();
+      this.config = mockConfig;
+      clients.push(this);
+    }
+
+    async connect() {
+      this.connected = true;
+    }
+
+    escapeIdentifier(identifier: string) {
+      return `"${identifier.replace(/"/g, '""')}"`;
+    }
+
+    async query(text: string, values: string[] = []) {
+      if (!this.connected) {
+        throw new Error('Client is not connected');
+      }
+      queries.push(text);
+      const [, command, channel] = /^(LISTEN|UNLISTEN) "(.*)"$/.exec(text) || [];
+      if (command === 'LISTEN') {
+        let clients = channelClientsMap.get(channel);
+        if (!clients) {
+          clients = new Set();
+          channelClientsMap.set(channel, clients);
+        }
+        clients.add(this);
+      } else if (command === 'UNLISTEN') {
+        channelClientsMap.get(channel)?.delete(this);
+      } else if (text === 'SELECT pg_notify($1, $2)') {
+        const [notifyChannel, payload] = values;
+        if (payload.length >= 8000) {
+          throw new Error('payload string too long');
+        }
+        for (const client of channelClientsMap.get(notifyChannel) || []) {
+          client.emit('notification', { channel: notifyChannel, payload });
+        }
+      }
+      return { rows: [] };
+    }
+
+    async end() {
+      this.connected = false;
+      for (const clients of channelClientsMap.values()) {
+        clients.delete(this);
+      }
+    }
+  }
+  return { Client, queries, clients };
+});
+
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('PostgresPubSub', () => {
+  const logger = new DefaultLogger('test');
+
+  it('delivers the events of all the triggers through a single channel', async () => {
+    await using pubsubA = new PostgresPubSub({ logger });
+    await using pubsubB = new PostgresPubSub({ logger });
+    const orders: any[] = [];
+    const invalidations: any[] = [];
+    pubsubB.subscribe('webhook:post:/orders', data => orders.push(data));
+    pubsubB.subscribe('live-query:invalidate', data => invalidations.push(data));
+    await flushPromises();
+    pubsubA.publish('webhook:post:/orders', { id: 1, total: 9.99 });
+    pubsubA.publish('live-query:invalidate', ['Query.orders']);
+    await flushPromises();
+    expect(orders).toEqual([{ id: 1, total: 9.99 }]);
+    expect(invalidations).toEqual([['Query.orders']]);
+    const { queries } = jest.requireMock('pg');
+    expect(queries.filter((query: string) => query.startsWith('LISTEN'))).toEqual([
+      'LISTEN "graphql_mesh_pubsub"',
+    ]);
+  });
+
+  it('unlistens when the last subscriber leaves and disconnects on dispose', async () => {
+    await using pubsubA = new PostgresPubSub({ logger, channel: 'orders' });
+    const pubsubB = new PostgresPubSub({ logger, channel: 'orders' });
+    const onMessage = jest.fn();
+    const subId = pubsubB.subscribe('updates', onMessage);
+    await flushPromises();
+    pubsubB.unsubscribe(subId);
+    await flushPromises();
+    expect(jest.requireMock('pg').queries).toContain('UNLISTEN "orders"');
+    pubsubB.subscribe('updates', onMessage);
+    await flushPromises();
+    await dispose(pubsubB);
+    const { clients } = jest.requireMock('pg');
+    expect(clients[clients.length - 1].connected).toBe(false);
+    pubsubA.publish('updates', 1);
+    await flushPromises();
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+
+  it('uses the connection string from the environment', async () => {
+    process.env.PUBSUB_TEST_DATABASE_URL = 'postgres://localhost:5432/test';
+    await using pubsub = new PostgresPubSub({
+      connectionString: '{env.PUBSUB_TEST_DATABASE_URL}',
+      logger,
+    });
+    const { clients } = jest.requireMock('pg');
+    expect(clients[clients.length - 1].config).toEqual({
+      connectionString: 'postgres://localhost:5432/test',
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type Redis from 'ioredis';
+import { createRedisClient, type RedisPubSubOptions } from '@graphql-mesh/pubsub-redis';
+import { DistributedPubSub } from '@graphql-mesh/utils';
+
+export interface RedisStreamsPubSubOptions extends RedisPubSubOptions {
+  /**
+   * Approximate number of the entries kept in each stream
+   * @default 1000
+   */
+  maxLength?: number;
+  /**
+   * Milliseconds to wait for the new entries before the subscribed streams are refreshed
+   * @default 1000
+   */
+  blockTimeout?: number;
+}
+
+const MESSAGE_FIELD = 'message';
+
+/**
+ * Shares the events between the gateway instances with Redis Streams, so the events published
+ * while an instance is reconnecting are still delivered to it
+ */
+export default class RedisStreamsPubSub extends DistributedPubSub {
+  private client: Redis;
+  // XREAD blocks the connection
+  private reader: Redis;
+  private maxLength: number;
+  private blockTimeout: number;
+  private streamLastIdMap = new Map<string, string>();
+  private reading$: Promise<void>;
+  private stopped = false;
+
+  constructor({
+    host,
+    port,
+    password,
+    db,
+    url,
+    maxLength = 1000,
+    blockTimeout = 1000,
+    ...options
+  }: RedisStreamsPubSubOptions = {}) {
+    super(options);
+    this.client = createRedisClient({ host, port, password, db, url }, this.logger);
+    this.reader = this.client.duplicate();
+    this.maxLength = maxLength;
+    this.blockTimeout = blockTimeout;
+  }
+
+  protected async publishMessage(stream: string, message: string) {
+    await this.client.xadd(stream, 'MAXLEN', '~', this.maxLength, '*', MESSAGE_FIELD, message);
+  }
+
+  protected async subscribeChannel(stream: string) {
+    // Only the entries added after the subscription are delivered
+    const [lastEntry] = await this.client.xrevrange(stream, '+', '-', 'COUNT', 1);
+    this.streamLastIdMap.set(stream, lastEntry?.[0] || '0-0');
+    if (!this.reading$) {
+      this.reading$ = this.readStreams().finally(() => {
+        this.reading$ = undefined;
+      });
+    }
+  }
+
+  protected unsubscribeChannel(stream: string) {
+    this.streamLastIdMap.delete(stream);
+  }
+
+  private async readStreams() {
+    while (!this.stopped && this.streamLastIdMap.size) {
+      const streams = [...this.streamLastIdMap.keys()];
+      const lastIds = streams.map(stream => this.streamLastIdMap.get(stream));
+      let results: [string, [string, string[]][]][];
+      try {
+        results = await this.reader.xread(
+          'BLOCK',
+          this.blockTimeout,
+          'STREAMS',
+          ...streams,
+          ...lastIds,
+        );
+      } catch (e) {
+        if (this.stopped) {
+          return;
+        }
+        this.logger.error(`Failed to read the streams`, e);
+        await new Promise(resolve => setTimeout(resolve, this.blockTimeout));
+        continue;
+      }
+      for (const [stream, entries] of results || []) {
+        for (const [id, fields] of entries) {
+          // The stream might be unsubscribed while reading
+          if (this.streamLastIdMap.has(stream)) {
+            this.streamLastIdMap.set(stream, id);
+          }
+          const messageIndex = fields.indexOf(MESSAGE_FIELD);
+          if (messageIndex !== -1) {
+            this.receiveMessage(fields[messageIndex + 1]);
+          }
+        }
+      }
+    }
+  }
+
+  protected async disconnect() {
+    this.stopped = true;
+    this.reader.disconnect();
+    await this.reading$;
+    this.client.disconnect();
+  }
+}
@@ -0,0 +1,140 @@
+/* eslint-disable dot-notation */
+import { DefaultLogger, dispose } from '@graphql-mesh/utils';
+import RedisStreamsPubSub from '../src/index.js';
+
+// Stand-in of a Redis server with the stream commands shared by all the clients
+jest.mock('ioredis-mock', () => {
+  const streamEntriesMap = new Map<string, [string, string[]][]>();
+  const pendingReads = new Set<() => void>();
+  let lastId = 0;
+  const getEntriesAfter = (stream: string, id: string) =>
+    (streamEntriesMap.get(stream) || []).filter(([entryId]) => parseInt(entryId) > parseInt(id));
+  return class RedisStandIn {
+    status = 'ready';
+    private cancelRead: (error: Error) => void;
+
+    async xadd(stream: string, ...args: (string | number)[]) {
+      const idIndex = args.indexOf('*');
+      const maxLength = Number(args[args.indexOf('MAXLEN') + 2]);
+      const entries = streamEntriesMap.get(stream) || [];
+      const id = `${++lastId}-0`;
+      entries.push([id, args.slice(idIndex + 1).map(String)]);
+      streamEntriesMap.set(stream, entries.slice(-maxLength));
+      for (const notify of pendingReads) {
+        notify();
+      }
+      return id;
+    }
+
+    async xrevrange(stream: string) {
+      return [...(streamEntriesMap.get(stream) || [])].reverse().slice(0, 1);
+    }
+
+    xread(_block: 'BLOCK', timeout: number, _streams: 'STREAMS', ...args: string[]) {
+      const streams = args.slice(0, args.length / 2);
+      const ids = args.slice(args.length / 2);
+      const read = () => {
+        const results = streams
+          .map((stream, index) => [stream, getEntriesAfter(stream, ids[index])] as const)
+          .filter(([, entries]) => entries.length);
+        return results.length ? results : null;
+      };
+      return new Promise((resolve, reject) => {
+        const notify = () => {
+          const results = read();
+          if (results) {
+            finish();
+            resolve(results);
+          }
+        };
+        const timer = setTimeout(() => {
+          finish();
+          resolve(null);
+        }, timeout);
+        const finish = () => {
+          clearTimeout(timer);
+          pendingReads.delete(notify);
+          this.cancelRead = undefined;
+        };
+        this.cancelRead = error => {
+          finish();
+          reject(error);
+        };
+        pendingReads.add(notify);
+        notify();
+      });
+    }
+
+    duplicate() {
+      return new RedisStandIn();
+    }
+
+    disconnect() {
+      this.status = 'end';
+      this.cancelRead?.(new Error('Connection is closed.'));
+    }
+  };
+});
+
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('RedisStreamsPubSub', () => {
+  const logger = new DefaultLogger('test');
+  let redisUrlEnv: string;
+  let redisHostEnv: string;
+  beforeAll(() => {
+    redisUrlEnv = process.env.REDIS_URL;
+    redisHostEnv = process.env.REDIS_HOST;
+    delete process.env.REDIS_URL;
+    delete process.env.REDIS_HOST;
+  });
+  afterAll(() => {
+    process.env.REDIS_URL = redisUrlEnv;
+    process.env.REDIS_HOST = redisHostEnv;
+  });
+
+  it('delivers the entries added after the subscription to the other instances', async () => {
+    await using pubsubA = new RedisStreamsPubSub({ logger });
+    await using pubsubB = new RedisStreamsPubSub({ logger });
+    pubsubA.publish('webhook:post:/orders', { id: 0 });
+    await flushPromises();
+    const received: any[] = [];
+    pubsubB.subscribe('webhook:post:/orders', data => received.push(data));
+    await flushPromises();
+    pubsubA.publish('webhook:post:/orders', { id: 1, tags: ['new'] });
+    pubsubA.publish('webhook:post:/orders', { id: 2, tags: [] });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(received).toEqual([
+      { id: 1, tags: ['new'] },
+      { id: 2, tags: [] },
+    ]);
+  });
+
+  it('caps the length of the streams', async () => {
+    await using pubsub = new RedisStreamsPubSub({ logger, maxLength: 100 });
+    const xadd = jest.spyOn(pubsub['client'], 'xadd');
+    pubsub.publish('updates', 1);
+    await flushPromises();
+    expect(xadd).toHaveBeenCalledWith(
+      'graphql-mesh:updates',
+      'MAXLEN',
+      '~',
+      100,
+      '*',
+      'message',
+      expect.any(String),
+    );
+  });
+
+  it('stops reading the streams on dispose', async () => {
+    const pubsub = new RedisStreamsPubSub({ logger, blockTimeout: 60_000 });
+    pubsub.subscribe('updates', () => {});
+    await flushPromises();
+    expect(pubsub['reading$']).toBeDefined();
+    await dispose(pubsub);
+    expect(pubsub['reader'].status).toBe('end');
+    expect(pubsub['client'].status).toBe('end');
+  });
+});
@@ -0,0 +1,95 @@
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { process } from '@graphql-mesh/cross-helpers';
+import { stringInterpolator } from '@graphql-mesh/string-interpolation';
+import type { Logger } from '@graphql-mesh/types';
+import { DistributedPubSub, type DistributedPubSubOptions } from '@graphql-mesh/utils';
+
+function interpolateStrWithEnv(str: string): string {
+  return stringInterpolator.parse(str, { env: process.env });
+}
+
+export interface RedisConnectionOptions {
+  host?: string;
+  port?: string;
+  password?: string;
+  db?: number | string;
+  url?: string;
+}
+
+export interface RedisPubSubOptions extends RedisConnectionOptions, DistributedPubSubOptions {}
+
+/**
+ * Creates the Redis client from the options or `REDIS_*` environment variables,
+ * or the in-memory Redis mock when none of them is set
+ */
+export function createRedisClient(options: RedisConnectionOptions, logger: Logger): Redis {
+  if (options.url) {
+    const redisUrl = new URL(interpolateStrWithEnv(options.url));
+
+    if (!['redis:', 'rediss:'].includes(redisUrl.protocol)) {
+      throw new Error('Redis URL must use either redis:// or rediss://');
+    }
+
+    redisUrl.searchParams.set('lazyConnect', 'true');
+    redisUrl.searchParams.set('enableOfflineQueue', 'true');
+
+    logger.debug(`Connecting to Redis at ${redisUrl.toString()}`);
+    return new Redis(redisUrl.toString());
+  }
+  const parsedHost = interpolateStrWithEnv(options.host?.toString()) || process.env.REDIS_HOST;
+  const parsedPort = interpolateStrWithEnv(options.port?.toString()) || process.env.REDIS_PORT;
+  const parsedPassword =
+    interpolateStrWithEnv(options.password?.toString()) || process.env.REDIS_PASSWORD;
+  const parsedDb = interpolateStrWithEnv(options.db?.toString()) || process.env.REDIS_DB;
+  const numPort = parseInt(parsedPort);
+  const numDb = parseInt(parsedDb);
+  if (parsedHost) {
+    logger.debug(`Connecting to Redis at ${parsedHost}:${parsedPort}`);
+    return new Redis({
+      host: parsedHost,
+      port: isNaN(numPort) ? undefined : numPort,
+      password: parsedPassword,
+      db: isNaN(numDb) ? undefined : numDb,
+      lazyConnect: true,
+      enableOfflineQueue: true,
+    });
+  }
+  logger.debug(`Connecting to Redis mock`);
+  return new RedisMock();
+}
+
+/**
+ * Shares the events between the gateway instances with Redis Pub/Sub
+ */
+export default class RedisPubSub extends DistributedPubSub {
+  private publisher: Redis;
+  // A connection in the subscriber mode cannot publish
+  private subscriber: Redis;
+
+  constructor({ host, port, password, db, url, ...options }: RedisPubSubOptions = {}) {
+    super(options);
+    this.publisher = createRedisClient({ host, port, password, db, url }, this.logger);
+    this.subscriber = this.publisher.duplicate();
+    this.subscriber.on('message', (_channel: string, message: string) =>
+      this.receiveMessage(message),
+    );
+  }
+
+  protected async publishMessage(channel: string, message: string) {
+    await this.publisher.publish(channel, message);
+  }
+
+  protected async subscribeChannel(channel: string) {
+    await this.subscriber.subscribe(channel);
+  }
+
+  protected async unsubscribeChannel(channel: string) {
+    await this.subscriber.unsubscribe(channel);
+  }
+
+  protected disconnect() {
+    this.publisher.disconnect();
+    this.subscriber.disconnect();
+  }
+}
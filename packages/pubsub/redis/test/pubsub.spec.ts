@@ -0,0 +1,115 @@
+/* eslint-disable dot-notation */
+import { DefaultLogger, dispose } from '@graphql-mesh/utils';
+import RedisPubSub from '../src/index.js';
+
+// Stand-in of a Redis server shared by all the clients
+jest.mock('ioredis-mock', () => {
+  const channelClientsMap = new Map<string, Set<any>>();
+  const { EventEmitter } = jest.requireActual('events');
+  return class RedisStandIn extends EventEmitter {
+    status = 'ready';
+    async publish(channel: string, message: string) {
+      const clients = channelClientsMap.get(channel) || new Set();
+      for (const client of clients) {
+        client.emit('message', channel, message);
+      }
+      return clients.size;
+    }
+
+    async subscribe(channel: string) {
+      let clients = channelClientsMap.get(channel);
+      if (!clients) {
+        clients = new Set();
+        channelClientsMap.set(channel, clients);
+      }
+      clients.add(this);
+    }
+
+    async unsubscribe(channel: string) {
+      channelClientsMap.get(channel)?.delete(this);
+    }
+
+    duplicate() {
+      return new RedisStandIn();
+    }
+
+    disconnect() {
+      this.status = 'end';
+      for (const clients of channelClientsMap.values()) {
+        clients.delete(this);
+      }
+    }
+  };
+});
+
+function flushPromises() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('RedisPubSub', () => {
+  const logger = new DefaultLogger('test');
+  let redisUrlEnv: string;
+  let redisHostEnv: string;
+  beforeAll(() => {
+    redisUrlEnv = process.env.REDIS_URL;
+    redisHostEnv = process.env.REDIS_HOST;
+    delete process.env.REDIS_URL;
+    delete process.env.REDIS_HOST;
+  });
+  afterAll(() => {
+    process.env.REDIS_URL = redisUrlEnv;
+    process.env.REDIS_HOST = redisHostEnv;
+  });
+
+  it('delivers the events published by another instance', async () => {
+    await using pubsubA = new RedisPubSub({ logger });
+    await using pubsubB = new RedisPubSub({ logger });
+    const received: any[] = [];
+    pubsubB.subscribe('webhook:post:/orders', data => received.push(data));
+    await flushPromises();
+    const payload = {
+      id: 1,
+      items: [{ sku: 'A1', quantity: 2 }],
+      createdAt: '2024-01-01T00:00:00.000Z',
+    };
+    pubsubA.publish('webhook:post:/orders', payload);
+    await flushPromises();
+    expect(received).toEqual([payload]);
+  });
+
+  it('stops delivering the events after unsubscribing', async () => {
+    await using pubsubA = new RedisPubSub({ logger });
+    await using pubsubB = new RedisPubSub({ logger });
+    const onMessage = jest.fn();
+    const subId = pubsubB.subscribe('live-query:invalidate', onMessage);
+    await flushPromises();
+    pubsubA.publish('live-query:invalidate', ['Query.orders']);
+    await flushPromises();
+    expect(onMessage).toHaveBeenCalledWith(['Query.orders']);
+    pubsubB.unsubscribe(subId);
+    await flushPromises();
+    pubsubA.publish('live-query:invalidate', ['Query.orders']);
+    await flushPromises();
+    expect(onMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('disconnects on dispose', async () => {
+    await using pubsubA = new RedisPubSub({ logger });
+    const pubsubB = new RedisPubSub({ logger });
+    const onMessage = jest.fn();
+    pubsubB.subscribe('live-query:invalidate', onMessage);
+    await flushPromises();
+    await dispose(pubsubB);
+    pubsubA.publish('live-query:invalidate', ['Query.orders']);
+    await flushPromises();
+    expect(onMessage).not.toHaveBeenCalled();
+    expect(pubsubB['publisher'].status).toBe('end');
+    expect(pubsubB['subscriber'].status).toBe('end');
+  });
+
+  it('accepts only redis:// or rediss:// URLs', () => {
+    expect(() => new RedisPubSub({ url: 'http://localhost:6379', logger })).toThrow(
+      'Redis URL must use either redis:// or rediss://',
+    );
+  });
+});
@@ -0,0 +1,30 @@
+import type { GraphQLSchema } from 'graphql';
+import { createYoga } from 'graphql-yoga';
+import { createGatewayRuntime, useCustomFetch, type GatewayPlugin } from '@graphql-hive/gateway';
+
+export interface TestGatewayOptions {
+  /** The schema served by the upstream the gateway proxies to */
+  upstreamSchema: GraphQLSchema;
+  /** The plugins under test */
+  plugins: GatewayPlugin[];
+  /** @default true */
+  maskedErrors?: boolean;
+}
+
+/**
+ * Creates a gateway proxying to an in-memory upstream,
+ * so the plugins can be tested through actual requests
+ */
+export function createTestGateway({ upstreamSchema, plugins, maskedErrors }: TestGatewayOptions) {
+  const upstream = createYoga({
+    schema: upstreamSchema,
+  });
+  return createGatewayRuntime({
+    proxy: {
+      endpoint: 'http://upstream/graphql',
+    },
+    plugins: () => [useCustomFetch((url, init) => upstream.fetch(url, init)), ...plugins],
+    maskedErrors,
+    logging: false,
+  });
+}
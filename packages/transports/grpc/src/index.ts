@@ -17,12 +17,21 @@ import {
 import type { Logger } from '@graphql-mesh/types';
 import { mapMaybePromise } from '@graphql-mesh/utils';
 import { getDirective, getDirectives, getRootTypes, type MaybePromise } from '@graphql-tools/utils';
-import type { ChannelCredentials } from '@grpc/grpc-js';
-import { credentials, loadPackageDefinition } from '@grpc/grpc-js';
+import {
+  credentials,
+  loadPackageDefinition,
+  type ChannelCredentials,
+  type status,
+} from '@grpc/grpc-js';
 import type { ServiceClient } from '@grpc/grpc-js/build/src/make-client.js';
 import { fromJSON } from '@grpc/proto-loader';
 import { DisposableStack } from '@whatwg-node/disposablestack';
-import { addExecutionLogicToScalar, addMetaDataToCall } from './utils.js';
+import {
+  addExecutionLogicToScalar,
+  addMetaDataToCall,
+  callWithRetries,
+  createGrpcError,
+} from './utils.js';
 import './patchLongJs.js';
 
 /**
@@ -51,6 +60,57 @@ export interface gRPCTransportOptions {
   metaData?: {
     [k: string]: any;
   };
+  /**
+   * Deadlines and retry policies of the methods
+   */
+  methods?: GrpcMethodOptions[];
+  /**
+   * Response headers and trailers exposed in `grpcMetadata` of the responses,
+   * and in the extensions of the errors
+   */
+  responseMetadata?: string[];
+}
+
+export interface GrpcMethodOptions {
+  /**
+   * Fully qualified name of the service like `package.Service`, or the method like
+   * `package.Service/Method`; `*` matches all the methods
+   */
+  name: string;
+  /**
+   * Deadline of each attempt in milliseconds, instead of `requestTimeout`
+   */
+  deadline?: number;
+  retry?: GrpcRetryPolicy;
+}
+
+/**
+ * Retry policy of the unary calls
+ */
+export interface GrpcRetryPolicy {
+  /**
+   * Maximum number of attempts including the first one
+   * Default: 3
+   */
+  maxAttempts?: number;
+  /**
+   * Upper limit of the first randomized backoff in milliseconds
+   * Default: 100
+   */
+  initialBackoff?: number;
+  /**
+   * Maximum backoff in milliseconds
+   * Default: 1000
+   */
+  maxBackoff?: number;
+  /**
+   * Default: 2
+   */
+  backoffMultiplier?: number;
+  /**
+   * Default: [UNAVAILABLE]
+   */
+  retryableStatusCodes?: (keyof typeof status)[];
 }
 
 interface LoadOptions {
@@ -153,30 +213,56 @@ export class GrpcTransportHelper extends DisposableStack {
     return client;
   }
 
+  private getMethodOptions(objPath: string, methodName: string) {
+    const methods = this.config.methods;
+    return (
+      methods?.find(({ name }) => name === `${objPath}/${methodName}`) ||
+      methods?.find(({ name }) => name === objPath) ||
+      methods?.find(({ name }) => name === '*')
+    );
+  }
+
   getFieldResolver({
     client,
+    objPath,
     methodName,
     isResponseStream,
+    isRequestStream,
   }: {
     client: ServiceClient;
+    objPath?: string;
     methodName: string;
     isResponseStream: boolean;
+    isRequestStream?: boolean;
   }): GraphQLFieldResolver<any, any> {
     const metaData = this.config.metaData;
+    const responseMetadata = this.config.responseMetadata;
+    const methodOptions = this.getMethodOptions(objPath, methodName);
+    const deadline = methodOptions?.deadline ?? this.config.requestTimeout;
+    // Streams cannot be replayed
+    const retryPolicy = isResponseStream || isRequestStream ? undefined : methodOptions?.retry;
     const clientMethod = client[methodName].bind(client);
     return function grpcFieldResolver(root, args, context) {
-      return addMetaDataToCall(
-        clientMethod,
-        args.input,
-        {
-          root,
-          args,
-          context,
-          env: process.env,
-        },
-        metaData,
-        isResponseStream,
-      );
+      return callWithRetries(
+        () =>
+          addMetaDataToCall(
+            clientMethod,
+            args.inputStream || args.input,
+            {
+              root,
+              args,
+              context,
+              env: process.env,
+            },
+            metaData,
+            isResponseStream,
+            isRequestStream,
+            // Response streams live as long as the subscription, so only the other calls have deadlines
+            deadline && !isResponseStream ? { deadline: Date.now() + deadline } : undefined,
+            isResponseStream ? undefined : responseMetadata,
+          ),
+        retryPolicy,
+      ).catch(error => createGrpcError(error, responseMetadata));
     };
   }
 
@@ -223,7 +309,8 @@ export class GrpcTransportHelper extends DisposableStack {
           for (const directiveObj of directives) {
             switch (directiveObj.name) {
               case 'grpcMethod': {
-                const { rootJsonName, objPath, methodName, responseStream } = directiveObj.args;
+                const { rootJsonName, objPath, methodName, responseStream, requestStream } =
+                  directiveObj.args;
                 const grpcObject = grpcObjectByRootJsonName.get(rootJsonName);
                 const client = this.getServiceClient({
                   grpcObject,
@@ -233,8 +320,10 @@ export class GrpcTransportHelper extends DisposableStack {
                 if (rootType.name === 'Subscription') {
                   field.subscribe = this.getFieldResolver({
                     client,
+                    objPath,
                     methodName,
                     isResponseStream: responseStream,
+                    isRequestStream: requestStream,
                   });
                   field.resolve = function identityFn(root) {
                     return root;
@@ -242,8 +331,10 @@ export class GrpcTransportHelper extends DisposableStack {
                 } else {
                   field.resolve = this.getFieldResolver({
                     client,
+                    objPath,
                     methodName,
                     isResponseStream: responseStream,
+                    isRequestStream: requestStream,
                   });
                 }
                 break;
@@ -0,0 +1,185 @@
+import protobufjs, { type IMapField } from 'protobufjs';
+import type { Metadata } from '@grpc/grpc-js';
+
+const { Root } = protobufjs;
+
+const STATUS_DETAILS_METADATA_KEY = 'grpc-status-details-bin';
+
+// https://github.com/googleapis/googleapis/blob/master/google/rpc/error_details.proto
+export const statusRoot = Root.fromJSON({
+  nested: {
+    google: {
+      nested: {
+        protobuf: {
+          nested: {
+            Any: {
+              fields: {
+                typeUrl: { type: 'string', id: 1 },
+                value: { type: 'bytes', id: 2 },
+              },
+            },
+            Duration: {
+              fields: {
+                seconds: { type: 'int64', id: 1 },
+                nanos: { type: 'int32', id: 2 },
+              },
+            },
+          },
+        },
+        rpc: {
+          nested: {
+            Status: {
+              fields: {
+                code: { type: 'int32', id: 1 },
+                message: { type: 'string', id: 2 },
+                details: { rule: 'repeated', type: 'google.protobuf.Any', id: 3 },
+              },
+            },
+            ErrorInfo: {
+              fields: {
+                reason: { type: 'string', id: 1 },
+                domain: { type: 'string', id: 2 },
+                metadata: { keyType: 'string', type: 'string', id: 3 } as IMapField,
+              },
+            },
+            RetryInfo: {
+              fields: {
+                retryDelay: { type: 'google.protobuf.Duration', id: 1 },
+              },
+            },
+            DebugInfo: {
+              fields: {
+                stackEntries: { rule: 'repeated', type: 'string', id: 1 },
+                detail: { type: 'string', id: 2 },
+              },
+            },
+            QuotaFailure: {
+              fields: {
+                violations: { rule: 'repeated', type: 'Violation', id: 1 },
+              },
+              nested: {
+                Violation: {
+                  fields: {
+                    subject: { type: 'string', id: 1 },
+                    description: { type: 'string', id: 2 },
+                  },
+                },
+              },
+            },
+            PreconditionFailure: {
+              fields: {
+                violations: { rule: 'repeated', type: 'Violation', id: 1 },
+              },
+              nested: {
+                Violation: {
+                  fields: {
+                    type: { type: 'string', id: 1 },
+                    subject: { type: 'string', id: 2 },
+                    description: { type: 'string', id: 3 },
+                  },
+                },
+              },
+            },
+            BadRequest: {
+              fields: {
+                fieldViolations: { rule: 'repeated', type: 'FieldViolation', id: 1 },
+              },
+              nested: {
+                FieldViolation: {
+                  fields: {
+                    field: { type: 'string', id: 1 },
+                    description: { type: 'string', id: 2 },
+                  },
+                },
+              },
+            },
+            RequestInfo: {
+              fields: {
+                requestId: { type: 'string', id: 1 },
+                servingData: { type: 'string', id: 2 },
+              },
+            },
+            ResourceInfo: {
+              fields: {
+                resourceType: { type: 'string', id: 1 },
+                resourceName: { type: 'string', id: 2 },
+                owner: { type: 'string', id: 3 },
+                description: { type: 'string', id: 4 },
+              },
+            },
+            Help: {
+              fields: {
+                links: { rule: 'repeated', type: 'Link', id: 1 },
+              },
+              nested: {
+                Link: {
+                  fields: {
+                    description: { type: 'string', id: 1 },
+                    url: { type: 'string', id: 2 },
+                  },
+                },
+              },
+            },
+            LocalizedMessage: {
+              fields: {
+                locale: { type: 'string', id: 1 },
+                message: { type: 'string', id: 2 },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+});
+
+const StatusType = statusRoot.lookupType('google.rpc.Status');
+
+export interface StatusDetail {
+  '@type': string;
+  [key: string]: any;
+}
+
+/**
+ * Decodes the `google.rpc.Status` details sent in the `grpc-status-details-bin` trailer;
+ * the unknown details are kept base64 encoded in `value`
+ */
+export function decodeStatusDetails(metadata: Metadata): StatusDetail[] {
+  const [statusBuffer] = metadata?.get(STATUS_DETAILS_METADATA_KEY) || [];
+  if (!(statusBuffer instanceof Uint8Array)) {
+    return [];
+  }
+  const decodedStatus = StatusType.decode(statusBuffer) as unknown as {
+    details: { typeUrl: string; value: Uint8Array }[];
+  };
+  return decodedStatus.details.map(({ typeUrl, value }) => {
+    const typeName = typeUrl.slice(typeUrl.lastIndexOf('/') + 1);
+    const detailType = statusRoot.lookup(typeName);
+    if (detailType instanceof protobufjs.Type) {
+      return {
+        '@type': typeUrl,
+        ...detailType.toObject(detailType.decode(value), {
+          longs: Number,
+          defaults: false,
+        }),
+      };
+    }
+    return {
+      '@type': typeUrl,
+      value: Buffer.from(value).toString('base64'),
+    };
+  });
+}
+
+/**
+ * Returns the delay in milliseconds the server asks for with `google.rpc.RetryInfo`
+ */
+export function getRetryDelay(details: StatusDetail[]) {
+  const retryDelay = details.find(detail =>
+    detail['@type'].endsWith('/google.rpc.RetryInfo'),
+  )?.retryDelay;
+  if (retryDelay) {
+    return (retryDelay.seconds || 0) * 1000 + (retryDelay.nanos || 0) / 1e6;
+  }
+  return undefined;
+}
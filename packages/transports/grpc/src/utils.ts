@@ -3,16 +3,57 @@ import lodashGet from 'lodash.get';
 import type { ResolverData } from '@graphql-mesh/string-interpolation';
 import { stringInterpolator } from '@graphql-mesh/string-interpolation';
 import { withCancel } from '@graphql-mesh/utils';
+import { createGraphQLError } from '@graphql-tools/utils';
 import type {
+  CallOptions,
   ClientDuplexStream,
   ClientReadableStream,
   ClientUnaryCall,
+  ClientWritableStream,
   MetadataValue,
+  ServiceError,
+  StatusObject,
 } from '@grpc/grpc-js';
-import { Metadata } from '@grpc/grpc-js';
+import { Metadata, status } from '@grpc/grpc-js';
+import type { GrpcRetryPolicy } from './index.js';
+import { decodeStatusDetails, getRetryDelay } from './statusDetails.js';
 
 function isBlob(input: any): input is Blob {
-  return input != null && input.stream instanceof Function;
+  return input != null && typeof input.stream === 'function';
+}
+
+async function* readNDJSONMessages(blob: Blob) {
+  const textDecoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of blob.stream() as unknown as AsyncIterable<Uint8Array>) {
+    buffer += textDecoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop();
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line);
+      }
+    }
+  }
+  buffer += textDecoder.decode();
+  if (buffer.trim()) {
+    yield JSON.parse(buffer);
+  }
+}
+
+/**
+ * Writes the request messages from a list or an NDJSON file, and half-closes the call
+ */
+async function writeRequestMessages(call: ClientWritableStream<unknown>, input: any) {
+  const messages: AsyncIterable<unknown> | Iterable<unknown> = isBlob(input)
+    ? readNDJSONMessages(input)
+    : input || [];
+  for await (const message of messages) {
+    if (!call.write(message)) {
+      await new Promise(resolve => call.once('drain', resolve));
+    }
+  }
+  call.end();
 }
 
 export function addMetaDataToCall(
@@ -21,9 +62,12 @@ export function addMetaDataToCall(
   resolverData: ResolverData,
   metaData: Record<string, string | string[] | Buffer>,
   isResponseStream = false,
+  isRequestStream = false,
+  callOptions?: CallOptions,
+  responseMetadata?: string[],
 ) {
   const callFnArguments: any[] = [];
-  if (!isBlob(input)) {
+  if (!isRequestStream) {
     callFnArguments.push(input);
   }
   if (metaData) {
@@ -48,16 +92,42 @@ export function addMetaDataToCall(
     }
     callFnArguments.push(meta);
   }
+  if (callOptions) {
+    callFnArguments.push(callOptions);
+  }
   return new Promise((resolve, reject) => {
-    const call: ClientDuplexStream<any, any> = callFn(
-      ...callFnArguments,
-      (error: Error, response: ClientUnaryCall | ClientReadableStream<unknown>) => {
-        if (error) {
-          reject(error);
-        }
-        resolve(response);
-      },
-    );
+    let headers: Metadata;
+    const callback = (error: Error, response: ClientUnaryCall | ClientReadableStream<unknown>) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      if (responseMetadata?.length) {
+        // The trailers are received with the status right after the response
+        call.once('status', ({ metadata: trailers }: StatusObject) => {
+          resolve(
+            response != null && typeof response === 'object'
+              ? {
+                  ...response,
+                  grpcMetadata: getSelectedMetadata(responseMetadata, headers, trailers),
+                }
+              : response,
+          );
+        });
+        return;
+      }
+      resolve(response);
+    };
+    // Bidirectional streams don't take a callback
+    const call: ClientDuplexStream<any, any> =
+      isRequestStream && isResponseStream
+        ? callFn(...callFnArguments)
+        : callFn(...callFnArguments, callback);
+    if (responseMetadata?.length) {
+      call.once('metadata', (receivedHeaders: Metadata) => {
+        headers = receivedHeaders;
+      });
+    }
     if (isResponseStream) {
       let isCancelled = false;
       const responseStreamWithCancel = withCancel(call, () => {
@@ -67,14 +137,108 @@ export function addMetaDataToCall(
         }
       });
       resolve(responseStreamWithCancel);
-      if (isBlob(input)) {
-        const blobStream = input.stream();
-        (blobStream as any).pipe(call);
+    }
+    if (isRequestStream) {
+      writeRequestMessages(call, input).catch(error => {
+        call.cancel();
+        if (isResponseStream) {
+          // Surface the error through the already resolved response stream
+          call.destroy(error);
+        } else {
+          reject(error);
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Picks the given headers and trailers; binary values are base64 encoded
+ */
+export function getSelectedMetadata(names: string[], ...metadataList: Metadata[]) {
+  const selectedMetadata: Record<string, string | string[]> = {};
+  for (const metadata of metadataList) {
+    for (const name of names) {
+      const values = metadata?.get(name);
+      if (values?.length) {
+        const stringValues = values.map(value =>
+          typeof value === 'string' ? value : Buffer.from(value).toString('base64'),
+        );
+        selectedMetadata[name] = stringValues.length === 1 ? stringValues[0] : stringValues;
       }
     }
+  }
+  return selectedMetadata;
+}
+
+/**
+ * Converts the errors with gRPC statuses to GraphQL errors with the status code,
+ * the `google.rpc.Status` details and the selected trailers in the extensions
+ */
+export function createGrpcError(error: ServiceError, responseMetadata?: string[]) {
+  if (typeof error?.code !== 'number' || !(error.metadata instanceof Metadata)) {
+    return error;
+  }
+  const statusName = status[error.code];
+  const grpcExtensions: Record<string, any> = {
+    code: error.code,
+    status: statusName,
+  };
+  const details = decodeStatusDetails(error.metadata);
+  if (details.length) {
+    grpcExtensions.details = details;
+  }
+  if (responseMetadata?.length) {
+    const selectedMetadata = getSelectedMetadata(responseMetadata, error.metadata);
+    if (Object.keys(selectedMetadata).length) {
+      grpcExtensions.metadata = selectedMetadata;
+    }
+  }
+  return createGraphQLError(error.details || error.message, {
+    originalError: error,
+    extensions: {
+      code: statusName,
+      grpc: grpcExtensions,
+    },
   });
 }
 
+const DEFAULT_RETRYABLE_STATUS_CODES: GrpcRetryPolicy['retryableStatusCodes'] = ['UNAVAILABLE'];
+
+/**
+ * Retries the call with an exponential backoff while it fails with the retryable status codes
+ */
+export async function callWithRetries<T>(
+  callFn: () => Promise<T>,
+  retryPolicy?: GrpcRetryPolicy,
+): Promise<T> {
+  if (!retryPolicy) {
+    return callFn();
+  }
+  const maxAttempts = retryPolicy.maxAttempts ?? 3;
+  const retryableStatusCodes = retryPolicy.retryableStatusCodes ?? DEFAULT_RETRYABLE_STATUS_CODES;
+  let backoff = retryPolicy.initialBackoff ?? 100;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await callFn();
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        !retryableStatusCodes.includes(status[error?.code] as keyof typeof status)
+      ) {
+        throw error;
+      }
+      // The server can push back with the delay in `google.rpc.RetryInfo`
+      const delay = getRetryDelay(decodeStatusDetails(error.metadata)) ?? Math.random() * backoff;
+      await new Promise(resolve => setTimeout(resolve, delay));
+      backoff = Math.min(
+        backoff * (retryPolicy.backoffMultiplier ?? 2),
+        retryPolicy.maxBackoff ?? 1000,
+      );
+    }
+  }
+}
+
 export function addExecutionLogicToScalar(
   nonExecutableScalar: GraphQLScalarType,
   actualScalar: GraphQLScalarType,
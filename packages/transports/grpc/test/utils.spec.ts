@@ -1,7 +1,15 @@
 /* eslint-disable @typescript-eslint/no-floating-promises */
+// eslint-disable-next-line import/no-nodejs-modules
+import { EventEmitter } from 'node:events';
 import { process } from '@graphql-mesh/cross-helpers';
-import { Metadata } from '@grpc/grpc-js';
-import { addMetaDataToCall } from '../src/utils.js';
+import { Metadata, status, type ServiceError } from '@grpc/grpc-js';
+import { statusRoot } from '../src/statusDetails.js';
+import {
+  addMetaDataToCall,
+  callWithRetries,
+  createGrpcError,
+  getSelectedMetadata,
+} from '../src/utils.js';
 
 describe('grpc utils', () => {
   describe('addMetaDataToCall', () => {
@@ -83,4 +91,277 @@ describe('grpc utils', () => {
       });
     });
   });
+
+  describe('request streams', () => {
+    function createCall() {
+      return Object.assign(new EventEmitter(), {
+        write: jest.fn(() => true),
+        end: jest.fn(),
+        cancel: jest.fn(),
+        destroy: jest.fn(),
+      });
+    }
+
+    test('writes the list of the request messages and resolves the response', async () => {
+      const call = createCall();
+      const grpcClientMethod = jest.fn((callback: (error: Error, response: unknown) => void) => {
+        call.end.mockImplementation(() => callback(null, { size: 2 }));
+        return call;
+      });
+      const response = await addMetaDataToCall(
+        grpcClientMethod,
+        [{ data: 'a' }, { data: 'b' }],
+        { env: process.env },
+        undefined,
+        false,
+        true,
+      );
+      expect(response).toEqual({ size: 2 });
+      expect(grpcClientMethod).toHaveBeenCalledWith(expect.any(Function));
+      expect(call.write.mock.calls).toEqual([[{ data: 'a' }], [{ data: 'b' }]]);
+      expect(call.end).toHaveBeenCalledTimes(1);
+    });
+
+    test('writes the request messages of NDJSON files', async () => {
+      const call = createCall();
+      const grpcClientMethod = jest.fn((callback: (error: Error, response: unknown) => void) => {
+        call.end.mockImplementation(() => callback(null, { size: 3 }));
+        return call;
+      });
+      const file = new Blob(['{"data":"a"}\n{"da', 'ta":"b"}\n\n{"data":"c"}']);
+      await addMetaDataToCall(grpcClientMethod, file, { env: process.env }, undefined, false, true);
+      expect(call.write.mock.calls).toEqual([[{ data: 'a' }], [{ data: 'b' }], [{ data: 'c' }]]);
+    });
+
+    test('cancels the call if the NDJSON file is invalid', async () => {
+      const call = createCall();
+      const grpcClientMethod = jest.fn(() => call);
+      const file = new Blob(['{"data":"a"}\nnot json']);
+      await expect(
+        addMetaDataToCall(grpcClientMethod, file, { env: process.env }, undefined, false, true),
+      ).rejects.toMatchObject({ name: 'SyntaxError' });
+      expect(call.cancel).toHaveBeenCalledTimes(1);
+      expect(call.end).not.toHaveBeenCalled();
+    });
+
+    test('opens bidirectional streams without a callback', async () => {
+      const call = createCall();
+      const grpcClientMethod = jest.fn(() => call);
+      const meta = new Metadata();
+      meta.add('sportsteam', 'Dodgers');
+      await addMetaDataToCall(
+        grpcClientMethod,
+        [{ data: 'a' }],
+        { env: process.env },
+        { sportsteam: 'Dodgers' },
+        true,
+        true,
+      );
+      expect(grpcClientMethod).toHaveBeenCalledWith(meta);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(call.write).toHaveBeenCalledWith({ data: 'a' });
+      expect(call.end).toHaveBeenCalledTimes(1);
+    });
+
+    test('passes the call options', () => {
+      const grpcClientMethod = jest.fn();
+      const callOptions = { deadline: Date.now() + 1000 };
+      addMetaDataToCall(
+        grpcClientMethod,
+        { sport: 'Baseball' },
+        { env: process.env },
+        undefined,
+        false,
+        false,
+        callOptions,
+      );
+      expect(grpcClientMethod).toHaveBeenCalledWith(
+        { sport: 'Baseball' },
+        callOptions,
+        expect.any(Function),
+      );
+    });
+  });
+
+  describe('response metadata', () => {
+    test('exposes the selected headers and trailers in the response', async () => {
+      const call = new EventEmitter();
+      const grpcClientMethod = jest.fn(
+        (_input: unknown, callback: (error: Error, response: unknown) => void) => {
+          setImmediate(() => {
+            const headers = new Metadata();
+            headers.add('x-request-id', 'abc');
+            headers.add('x-ignored', 'foo');
+            call.emit('metadata', headers);
+            callback(null, { name: 'Movie' });
+            const trailers = new Metadata();
+            trailers.add('x-cost-bin', Buffer.from('42'));
+            call.emit('status', { code: status.OK, details: 'OK', metadata: trailers });
+          });
+          return call;
+        },
+      );
+      const response = await addMetaDataToCall(
+        grpcClientMethod,
+        {},
+        { env: process.env },
+        undefined,
+        false,
+        false,
+        undefined,
+        ['x-request-id', 'x-cost-bin'],
+      );
+      expect(response).toEqual({
+        name: 'Movie',
+        grpcMetadata: {
+          'x-request-id': 'abc',
+          'x-cost-bin': Buffer.from('42').toString('base64'),
+        },
+      });
+    });
+
+    test('keeps the multiple values of the same key', () => {
+      const metadata = new Metadata();
+      metadata.add('x-tag', 'a');
+      metadata.add('x-tag', 'b');
+      expect(getSelectedMetadata(['x-tag', 'x-missing'], metadata)).toEqual({
+        'x-tag': ['a', 'b'],
+      });
+    });
+  });
+
+  describe('errors', () => {
+    function createServiceError(code: status, details: { typeName: string; value: any }[] = []) {
+      const metadata = new Metadata();
+      metadata.add('x-request-id', 'abc');
+      if (details.length) {
+        const Status = statusRoot.lookupType('google.rpc.Status');
+        metadata.add(
+          'grpc-status-details-bin',
+          Buffer.from(
+            Status.encode(
+              Status.fromObject({
+                code,
+                message: 'Failed',
+                details: details.map(({ typeName, value }) => {
+                  const DetailType = statusRoot.lookupType(typeName);
+                  return {
+                    typeUrl: `type.googleapis.com/${typeName}`,
+                    value: DetailType.encode(DetailType.fromObject(value)).finish(),
+                  };
+                }),
+              }),
+            ).finish(),
+          ),
+        );
+      }
+      return Object.assign(new Error(`${code} ${status[code]}: Failed`), {
+        code,
+        details: 'Failed',
+        metadata,
+      }) as ServiceError;
+    }
+
+    test('decodes the rich error details into the extensions', () => {
+      const error = createGrpcError(
+        createServiceError(status.INVALID_ARGUMENT, [
+          {
+            typeName: 'google.rpc.BadRequest',
+            value: {
+              fieldViolations: [{ field: 'movie.year', description: 'Must be positive' }],
+            },
+          },
+          {
+            typeName: 'google.rpc.ErrorInfo',
+            value: { reason: 'INVALID_YEAR', domain: 'movies', metadata: { year: '-1' } },
+          },
+        ]),
+        ['x-request-id'],
+      );
+      expect(error.message).toBe('Failed');
+      expect(error).toMatchObject({
+        extensions: {
+          code: 'INVALID_ARGUMENT',
+          grpc: {
+            code: status.INVALID_ARGUMENT,
+            status: 'INVALID_ARGUMENT',
+            details: [
+              {
+                '@type': 'type.googleapis.com/google.rpc.BadRequest',
+                fieldViolations: [{ field: 'movie.year', description: 'Must be positive' }],
+              },
+              {
+                '@type': 'type.googleapis.com/google.rpc.ErrorInfo',
+                reason: 'INVALID_YEAR',
+                domain: 'movies',
+                metadata: { year: '-1' },
+              },
+            ],
+            metadata: {
+              'x-request-id': 'abc',
+            },
+          },
+        },
+      });
+    });
+
+    test('keeps the errors without a gRPC status', () => {
+      const error = new Error('Network error');
+      expect(createGrpcError(error as ServiceError)).toBe(error);
+    });
+
+    test('retries the calls failed with the retryable status codes', async () => {
+      const callFn = jest
+        .fn()
+        .mockRejectedValueOnce(createServiceError(status.UNAVAILABLE))
+        .mockRejectedValueOnce(createServiceError(status.DEADLINE_EXCEEDED))
+        .mockResolvedValueOnce({ name: 'Movie' });
+      await expect(
+        callWithRetries(callFn, {
+          initialBackoff: 1,
+          retryableStatusCodes: ['UNAVAILABLE', 'DEADLINE_EXCEEDED'],
+        }),
+      ).resolves.toEqual({ name: 'Movie' });
+      expect(callFn).toHaveBeenCalledTimes(3);
+    });
+
+    test('stops retrying after the maximum attempts or a non-retryable status', async () => {
+      const notFoundError = createServiceError(status.NOT_FOUND);
+      const notFoundCallFn = jest.fn().mockRejectedValue(notFoundError);
+      await expect(callWithRetries(notFoundCallFn, { initialBackoff: 1 })).rejects.toBe(
+        notFoundError,
+      );
+      expect(notFoundCallFn).toHaveBeenCalledTimes(1);
+      const unavailableCallFn = jest.fn().mockRejectedValue(createServiceError(status.UNAVAILABLE));
+      await expect(
+        callWithRetries(unavailableCallFn, { maxAttempts: 2, initialBackoff: 1 }),
+      ).rejects.toMatchObject({ code: status.UNAVAILABLE });
+      expect(unavailableCallFn).toHaveBeenCalledTimes(2);
+    });
+
+    test('waits for the delay in RetryInfo before retrying', async () => {
+      jest.useFakeTimers();
+      try {
+        const callFn = jest
+          .fn()
+          .mockRejectedValueOnce(
+            createServiceError(status.UNAVAILABLE, [
+              {
+                typeName: 'google.rpc.RetryInfo',
+                value: { retryDelay: { seconds: 2 } },
+              },
+            ]),
+          )
+          .mockResolvedValueOnce({ name: 'Movie' });
+        const result$ = callWithRetries(callFn, {});
+        await jest.advanceTimersByTimeAsync(1999);
+        expect(callFn).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+        await expect(result$).resolves.toEqual({ name: 'Movie' });
+        expect(callFn).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
 });
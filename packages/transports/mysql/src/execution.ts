@@ -1,4 +1,10 @@
-import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import DataLoader from 'dataloader';
+import type {
+  ExecutionResult,
+  GraphQLInputObjectType,
+  GraphQLResolveInfo,
+  GraphQLSchema,
+} from 'graphql';
 import { getNamedType, isObjectType } from 'graphql';
 import graphqlFields from 'graphql-fields';
 import { createPool, type Pool, type PoolConnection } from 'mysql';
@@ -7,9 +13,22 @@ import { util } from '@graphql-mesh/cross-helpers';
 import type { DisposableExecutor } from '@graphql-mesh/transport-common';
 import { getDefDirectives, makeAsyncDisposable } from '@graphql-mesh/utils';
 import { createDefaultExecutor } from '@graphql-tools/delegate';
-import { getDirective, MapperKind, mapSchema, type ExecutionRequest } from '@graphql-tools/utils';
+import {
+  getDirective,
+  getOperationASTFromRequest,
+  MapperKind,
+  mapSchema,
+  type ExecutionRequest,
+} from '@graphql-tools/utils';
 import { getConnectionOptsFromEndpointUri } from './parseEndpointUri.js';
-import type { MySQLContext } from './types.js';
+import type { MySQLContext, MySQLIsolationLevel } from './types.js';
+
+const ISOLATION_LEVELS: MySQLIsolationLevel[] = [
+  'READ_UNCOMMITTED',
+  'READ_COMMITTED',
+  'REPEATABLE_READ',
+  'SERIALIZABLE',
+];
 
 function getFieldsFromResolveInfo(info: GraphQLResolveInfo) {
   const fieldMap: Record<string, any> = graphqlFields(info);
@@ -18,13 +37,117 @@ function getFieldsFromResolveInfo(info: GraphQLResolveInfo) {
   );
 }
 
+function queryConnection<TResult = void>(mysqlConnection: PoolConnection, sql: string) {
+  return new Promise<TResult>((resolve, reject) => {
+    mysqlConnection.query(sql, (err, results) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(results);
+      }
+    });
+  });
+}
+
+interface NestedInsert {
+  fieldName: string;
+  table: string;
+  columnName: string;
+  foreignColumnName: string;
+  inputType: GraphQLInputObjectType;
+}
+
 export interface GetMySQLExecutorOpts {
   subgraph: GraphQLSchema;
   pool?: Pool;
+  /**
+   * Isolation level of the transactions the mutations are run in.
+   * The default isolation level of the server is used if not set.
+   */
+  isolationLevel?: MySQLIsolationLevel;
 }
 
-export function getMySQLExecutor({ subgraph, pool }: GetMySQLExecutorOpts): DisposableExecutor {
+export function getMySQLExecutor({
+  subgraph,
+  pool,
+  isolationLevel,
+}: GetMySQLExecutorOpts): DisposableExecutor {
+  if (isolationLevel && !ISOLATION_LEVELS.includes(isolationLevel)) {
+    throw new Error(
+      `Invalid isolation level ${isolationLevel}; expected one of ${ISOLATION_LEVELS.join(', ')}`,
+    );
+  }
   const mysqlConnectionByContext = new WeakMap<any, PoolConnection>();
+  const loadersByContext = new WeakMap<any, Map<string, DataLoader<any, any, string>>>();
+  function getLoader<TKey, TValue>(
+    context: any,
+    loaderKey: string,
+    batchLoadFn: (keys: readonly TKey[]) => Promise<TValue[]>,
+  ): DataLoader<TKey, TValue, string> {
+    let loaders = loadersByContext.get(context);
+    if (!loaders) {
+      loaders = new Map();
+      loadersByContext.set(context, loaders);
+    }
+    let loader = loaders.get(loaderKey);
+    if (!loader) {
+      loader = new DataLoader(batchLoadFn, { cacheKeyFn: key => JSON.stringify(key) });
+      loaders.set(loaderKey, loader);
+    }
+    return loader;
+  }
+  const nestedInsertsByInputType = new WeakMap<GraphQLInputObjectType, NestedInsert[]>();
+  // The input fields with `@mysqlTableForeign` insert the rows referencing the inserted row
+  function getNestedInserts(inputType: GraphQLInputObjectType) {
+    let nestedInserts = nestedInsertsByInputType.get(inputType);
+    if (!nestedInserts) {
+      nestedInserts = [];
+      const inputFields = inputType.getFields();
+      for (const fieldName in inputFields) {
+        const inputField = inputFields[fieldName];
+        const foreignDirectiveArgs = getDirective(subgraph, inputField, 'mysqlTableForeign')?.[0];
+        if (foreignDirectiveArgs?.table) {
+          nestedInserts.push({
+            fieldName,
+            table: foreignDirectiveArgs.table,
+            columnName: foreignDirectiveArgs.columnName,
+            foreignColumnName: foreignDirectiveArgs.foreignColumnName,
+            inputType: getNamedType(inputField.type) as GraphQLInputObjectType,
+          });
+        }
+      }
+      nestedInsertsByInputType.set(inputType, nestedInserts);
+    }
+    return nestedInserts;
+  }
+  async function insertRecord(
+    mysqlConnection: PoolConnection,
+    table: string,
+    inputType: GraphQLInputObjectType,
+    input: Record<string, any>,
+  ) {
+    const nestedInserts = getNestedInserts(inputType);
+    const record = { ...input };
+    for (const { fieldName } of nestedInserts) {
+      delete record[fieldName];
+    }
+    const insert$ = util.promisify(mysqlConnection.insert.bind(mysqlConnection));
+    const { recordId } = await insert$(table, record);
+    for (const nestedInsert of nestedInserts) {
+      const nestedInputs: Record<string, any>[] = input[nestedInsert.fieldName];
+      if (nestedInputs?.length) {
+        // The referenced column is auto incremented if it is not in the input
+        const foreignValue = record[nestedInsert.foreignColumnName] ?? recordId;
+        for (const nestedInput of nestedInputs) {
+          await insertRecord(mysqlConnection, nestedInsert.table, nestedInsert.inputType, {
+            ...nestedInput,
+            [nestedInsert.columnName]: foreignValue,
+          });
+        }
+      }
+    }
+    return { record, recordId };
+  }
   subgraph = mapSchema(subgraph, {
     [MapperKind.OBJECT_FIELD](fieldConfig, fieldName) {
       const directives = getDefDirectives(subgraph, fieldConfig);
@@ -74,6 +197,49 @@ export function getMySQLExecutor({ subgraph, pool }: GetMySQLExecutorOpts): Disp
                   }
                 }
               }
+              // The rows of all the parents are loaded with a single query, unless they are paginated
+              if (columnMap.size === 1 && !limit.length) {
+                const [[localColumn, foreignColumn]] = columnMap;
+                const key = root[localColumn];
+                if (key == null) {
+                  return [];
+                }
+                if (!fields.includes(foreignColumn)) {
+                  fields.push(foreignColumn);
+                }
+                const loader = getLoader<unknown, Record<string, any>[]>(
+                  context,
+                  `${info.parentType.name}.${info.fieldName}(${JSON.stringify(args)}){${fields.join()}}`,
+                  async keys => {
+                    const mysqlConnection = mysqlConnectionByContext.get(context);
+                    const conditions = [
+                      `${mysqlConnection.escapeId(foreignColumn)} IN (${mysqlConnection.escape(keys)})`,
+                    ];
+                    const filter = mysqlConnection.where(args.where);
+                    if (filter) {
+                      conditions.push(filter);
+                    }
+                    let sql = `SELECT ${fields.join()} FROM ${mysqlConnection.escapeId(table)} WHERE ${conditions.join(' AND ')}`;
+                    const order = mysqlConnection.order(args.orderBy);
+                    if (order) {
+                      sql += ` ORDER BY ${order}`;
+                    }
+                    const rows = await queryConnection<Record<string, any>[]>(mysqlConnection, sql);
+                    const rowsByKey = new Map<string, Record<string, any>[]>();
+                    for (const row of rows) {
+                      const rowKey = String(row[foreignColumn]);
+                      let rowsOfKey = rowsByKey.get(rowKey);
+                      if (!rowsOfKey) {
+                        rowsOfKey = [];
+                        rowsByKey.set(rowKey, rowsOfKey);
+                      }
+                      rowsOfKey.push(row);
+                    }
+                    return keys.map(key => rowsByKey.get(String(key)) || []);
+                  },
+                );
+                return loader.load(key);
+              }
               const mysqlConnection = mysqlConnectionByContext.get(context);
               if (limit.length) {
                 const selectLimit$ = util.promisify(
@@ -95,14 +261,23 @@ export function getMySQLExecutor({ subgraph, pool }: GetMySQLExecutorOpts): Disp
               context: MySQLContext,
               info,
             ) {
-              const mysqlConnection = mysqlConnectionByContext.get(context);
-              const count$ = util.promisify(mysqlConnection.count.bind(mysqlConnection));
-              return count$(table, args.where);
+              // The same counts in a request are only queried once
+              const loader = getLoader<Record<string, any>, number>(
+                context,
+                `count(${table})`,
+                wheres => {
+                  const mysqlConnection = mysqlConnectionByContext.get(context);
+                  const count$ = util.promisify(mysqlConnection.count.bind(mysqlConnection));
+                  return Promise.all(wheres.map(where => count$(table, where)));
+                },
+              );
+              return loader.load(args.where || {});
             };
             break;
           }
           case 'mysqlInsert': {
             const { table, primaryKeys } = directive.args;
+            const inputType = getNamedType(fieldConfig.args[table].type) as GraphQLInputObjectType;
             fieldConfig.resolve = async function mysqlInsertResolver(
               root,
               args,
@@ -110,14 +285,19 @@ export function getMySQLExecutor({ subgraph, pool }: GetMySQLExecutorOpts): Disp
               info,
             ) {
               const mysqlConnection = mysqlConnectionByContext.get(context);
+              // The rows loaded before the write might be outdated
+              loadersByContext.delete(context);
               const select$ = util.promisify(mysqlConnection.select.bind(mysqlConnection));
-              const insert$ = util.promisify(mysqlConnection.insert.bind(mysqlConnection));
-              const input = args[table];
-              const { recordId } = await insert$(table, input);
+              const { record, recordId } = await insertRecord(
+                mysqlConnection,
+                table,
+                inputType,
+                args[table],
+              );
               const fields = getFieldsFromResolveInfo(info);
               const where: Record<string, any> = {};
               for (const primaryColumnName of primaryKeys) {
-                where[primaryColumnName] = input[primaryColumnName] || recordId;
+                where[primaryColumnName] = record[primaryColumnName] || recordId;
               }
               const result = await select$(table, fields, where, {});
               return result[0];
@@ -133,6 +313,7 @@ export function getMySQLExecutor({ subgraph, pool }: GetMySQLExecutorOpts): Disp
               info,
             ) {
               const mysqlConnection = mysqlConnectionByContext.get(context);
+              loadersByContext.delete(context);
               const update$ = util.promisify(mysqlConnection.update.bind(mysqlConnection));
               await update$(table, args[table], args.where);
               const fields = getFieldsFromResolveInfo(info);
@@ -151,6 +332,7 @@ export function getMySQLExecutor({ subgraph, pool }: GetMySQLExecutorOpts): Disp
               info,
             ) {
               const mysqlConnection = mysqlConnectionByContext.get(context);
+              loadersByContext.delete(context);
               const delete$ = util.promisify(mysqlConnection.delete.bind(mysqlConnection));
               const res = await delete$(table, args.where);
               return !!res.affectedRows;
@@ -194,9 +376,38 @@ export function getMySQLExecutor({ subgraph, pool }: GetMySQLExecutorOpts): Disp
       const mysqlConnection = await getConnection$();
       mysqlConnectionByContext.set(executionRequest.context, mysqlConnection);
       try {
-        return await defaultExecutor(executionRequest);
+        const operationAST = getOperationASTFromRequest(executionRequest);
+        if (operationAST.operation !== 'mutation') {
+          return await defaultExecutor(executionRequest);
+        }
+        // All the root fields of a mutation are written together or not at all
+        if (isolationLevel) {
+          await queryConnection(
+            mysqlConnection,
+            `SET TRANSACTION ISOLATION LEVEL ${isolationLevel.split('_').join(' ')}`,
+          );
+        }
+        await queryConnection(mysqlConnection, 'START TRANSACTION');
+        let result: ExecutionResult;
+        try {
+          result = (await defaultExecutor(executionRequest)) as ExecutionResult;
+        } catch (e) {
+          await queryConnection(mysqlConnection, 'ROLLBACK');
+          throw e;
+        }
+        if (result.errors?.length) {
+          await queryConnection(mysqlConnection, 'ROLLBACK');
+          // The results of the other fields are not written
+          return {
+            ...result,
+            data: null,
+          };
+        }
+        await queryConnection(mysqlConnection, 'COMMIT');
+        return result;
       } finally {
         mysqlConnectionByContext.delete(executionRequest.context);
+        loadersByContext.delete(executionRequest.context);
         mysqlConnection.release();
       }
     },
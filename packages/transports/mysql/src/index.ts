@@ -1,14 +1,16 @@
 import type { Transport } from '@graphql-mesh/transport-common';
 import { getMySQLExecutor } from './execution.js';
+import type { MySQLTransportOptions } from './types.js';
 
 export * from './execution.js';
 export * from './parseEndpointUri.js';
 export type * from './types.js';
 
 export default {
-  getSubgraphExecutor({ subgraph }) {
+  getSubgraphExecutor({ subgraph, transportEntry }) {
     return getMySQLExecutor({
       subgraph,
+      isolationLevel: transportEntry.options?.isolationLevel,
     });
   },
-} satisfies Transport;
+} satisfies Transport<MySQLTransportOptions>;
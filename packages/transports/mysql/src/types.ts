@@ -8,3 +8,14 @@ export interface MySQLSSLOptions {
   caPath?: string;
   ca?: string | Buffer;
 }
+export type MySQLIsolationLevel =
+  | 'READ_UNCOMMITTED'
+  | 'READ_COMMITTED'
+  | 'REPEATABLE_READ'
+  | 'SERIALIZABLE';
+export interface MySQLTransportOptions {
+  /**
+   * Isolation level of the transactions the mutations are run in
+   */
+  isolationLevel?: MySQLIsolationLevel;
+}
@@ -0,0 +1,267 @@
+import { buildSchema, parse } from 'graphql';
+import type { Pool, PoolConnection } from 'mysql';
+import { getMySQLExecutor } from '../src/index.js';
+
+describe('MySQL Transport', () => {
+  const subgraph = buildSchema(/* GraphQL */ `
+    directive @transport(subgraph: String, kind: String, location: String) repeatable on SCHEMA
+    directive @mysqlSelect(
+      subgraph: String
+      table: String
+      columnMap: [[String]]
+    ) repeatable on FIELD_DEFINITION
+    directive @mysqlUpdate(
+      subgraph: String
+      table: String
+      columnMap: [[String]]
+    ) repeatable on FIELD_DEFINITION
+    directive @mysqlTableForeign(
+      subgraph: String
+      columnName: String
+    ) repeatable on FIELD_DEFINITION
+
+    schema
+      @transport(subgraph: "Employees", kind: "mysql", location: "mysql://localhost/employees") {
+      query: Query
+      mutation: Mutation
+    }
+
+    type Query {
+      departments: [departments] @mysqlSelect(subgraph: "Employees", table: "departments")
+    }
+
+    type Mutation {
+      update_departments(
+        departments: departments_UpdateInput
+        where: departments_WhereInput
+      ): departments @mysqlUpdate(subgraph: "Employees", table: "departments")
+    }
+
+    type departments {
+      dept_no: String
+      dept_name: String
+      dept_emp: [dept_emp]
+        @mysqlSelect(subgraph: "Employees", table: "dept_emp", columnMap: [["dept_no", "dept_no"]])
+        @mysqlTableForeign(subgraph: "Employees", columnName: "dept_no")
+    }
+
+    type dept_emp {
+      emp_no: Int
+      dept_no: String
+    }
+
+    input departments_UpdateInput {
+      dept_name: String
+    }
+
+    input departments_WhereInput {
+      dept_no: String
+    }
+  `);
+
+  const departments = [
+    { dept_no: 'd001', dept_name: 'Marketing' },
+    { dept_no: 'd002', dept_name: 'Finance' },
+    { dept_no: 'd003', dept_name: 'Human Resources' },
+  ];
+  const deptEmps = [
+    { emp_no: 1, dept_no: 'd001' },
+    { emp_no: 2, dept_no: 'd001' },
+    { emp_no: 3, dept_no: 'd002' },
+  ];
+
+  let queries: string[];
+  let pendingWrites: string[];
+  let committedWrites: string[];
+  let pool: Pool;
+  beforeEach(() => {
+    queries = [];
+    pendingWrites = [];
+    committedWrites = [];
+    const connection = {
+      escapeId: (identifier: string) => `\`${identifier}\``,
+      escape: (values: string[]) => values.map(value => `'${value}'`).join(', '),
+      where: () => '',
+      order: () => '',
+      query(sql: string, callback: (err: Error, results?: any) => void) {
+        queries.push(sql);
+        if (sql === 'COMMIT') {
+          committedWrites.push(...pendingWrites.splice(0));
+        } else if (sql === 'ROLLBACK') {
+          pendingWrites = [];
+        }
+        const [, keys] = /IN \((.*)\)/.exec(sql) || [];
+        callback(
+          null,
+          keys ? deptEmps.filter(deptEmp => keys.includes(`'${deptEmp.dept_no}'`)) : [],
+        );
+      },
+      select(
+        table: string,
+        fields: string[],
+        where: Record<string, any>,
+        order: unknown,
+        callback: (err: Error, results?: any) => void,
+      ) {
+        queries.push(`SELECT ${fields.join()} FROM ${table}`);
+        callback(
+          null,
+          departments.filter(department => !where?.dept_no || department.dept_no === where.dept_no),
+        );
+      },
+      update(
+        table: string,
+        row: Record<string, any>,
+        where: Record<string, any>,
+        callback: (err: Error, results?: any) => void,
+      ) {
+        queries.push(`UPDATE ${table}`);
+        if (row.dept_name.length > 40) {
+          callback(new Error(`Data too long for column 'dept_name'`));
+          return;
+        }
+        pendingWrites.push(`${table}: ${row.dept_name}`);
+        callback(null, { affectedRows: 1 });
+      },
+      release: jest.fn(),
+    } as unknown as PoolConnection;
+    pool = {
+      on: jest.fn(),
+      getConnection: (callback: (err: Error, connection: PoolConnection) => void) =>
+        callback(null, connection),
+      end: (callback: (err?: Error) => void) => callback(),
+    } as unknown as Pool;
+  });
+
+  it('loads the relations of all the parents with a single query', async () => {
+    const executor = getMySQLExecutor({ subgraph, pool });
+    const result = await executor({
+      document: parse(/* GraphQL */ `
+        query {
+          departments {
+            dept_no
+            dept_emp {
+              emp_no
+            }
+          }
+        }
+      `),
+      context: {},
+    });
+    expect(result).toEqual({
+      data: {
+        departments: [
+          { dept_no: 'd001', dept_emp: [{ emp_no: 1 }, { emp_no: 2 }] },
+          { dept_no: 'd002', dept_emp: [{ emp_no: 3 }] },
+          { dept_no: 'd003', dept_emp: [] },
+        ],
+      },
+    });
+    expect(queries).toHaveLength(2);
+    expect(queries[1]).toBe(
+      "SELECT emp_no,dept_no FROM `dept_emp` WHERE `dept_no` IN ('d001', 'd002', 'd003')",
+    );
+  });
+
+  it('loads the relations again after the mutations', async () => {
+    const executor = getMySQLExecutor({ subgraph, pool });
+    const result = await executor({
+      document: parse(/* GraphQL */ `
+        mutation {
+          first: update_departments(
+            departments: { dept_name: "Sales" }
+            where: { dept_no: "d001" }
+          ) {
+            dept_no
+            dept_emp {
+              emp_no
+            }
+          }
+          second: update_departments(
+            departments: { dept_name: "Marketing" }
+            where: { dept_no: "d001" }
+          ) {
+            dept_no
+            dept_emp {
+              emp_no
+            }
+          }
+        }
+      `),
+      context: {},
+    });
+    expect(result).toEqual({
+      data: {
+        first: { dept_no: 'd001', dept_emp: [{ emp_no: 1 }, { emp_no: 2 }] },
+        second: { dept_no: 'd001', dept_emp: [{ emp_no: 1 }, { emp_no: 2 }] },
+      },
+    });
+    const relationQueries = queries.filter(sql => sql.includes('FROM `dept_emp`'));
+    expect(relationQueries).toEqual([
+      "SELECT emp_no,dept_no FROM `dept_emp` WHERE `dept_no` IN ('d001')",
+      "SELECT emp_no,dept_no FROM `dept_emp` WHERE `dept_no` IN ('d001')",
+    ]);
+  });
+
+  it('rolls back the writes of all the root fields if one of them fails', async () => {
+    const executor = getMySQLExecutor({ subgraph, pool });
+    const result = await executor({
+      document: parse(/* GraphQL */ `
+        mutation {
+          first: update_departments(
+            departments: { dept_name: "Sales" }
+            where: { dept_no: "d001" }
+          ) {
+            dept_no
+          }
+          second: update_departments(
+            departments: { dept_name: "Research, Development and Quality Management" }
+            where: { dept_no: "d002" }
+          ) {
+            dept_no
+          }
+        }
+      `),
+      context: {},
+    });
+    expect(result).toMatchObject({
+      data: null,
+      errors: [{ message: "Data too long for column 'dept_name'", path: ['second'] }],
+    });
+    expect(queries).toEqual([
+      'START TRANSACTION',
+      'UPDATE departments',
+      'SELECT dept_no FROM departments',
+      'UPDATE departments',
+      'ROLLBACK',
+    ]);
+    expect(committedWrites).toEqual([]);
+  });
+
+  it('sets the isolation level of the transactions', async () => {
+    const executor = getMySQLExecutor({ subgraph, pool, isolationLevel: 'SERIALIZABLE' });
+    const result = await executor({
+      document: parse(/* GraphQL */ `
+        mutation {
+          update_departments(departments: { dept_name: "Sales" }, where: { dept_no: "d001" }) {
+            dept_no
+          }
+        }
+      `),
+      context: {},
+    });
+    expect(result).toEqual({
+      data: {
+        update_departments: { dept_no: 'd001' },
+      },
+    });
+    expect(queries).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL SERIALIZABLE',
+      'START TRANSACTION',
+      'UPDATE departments',
+      'SELECT dept_no FROM departments',
+      'COMMIT',
+    ]);
+    expect(committedWrites).toEqual(['departments: Sales']);
+  });
+});
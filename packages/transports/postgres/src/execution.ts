@@ -0,0 +1,431 @@
+import DataLoader from 'dataloader';
+import type { ExecutionResult, GraphQLSchema } from 'graphql';
+import { getNamedType, getNullableType, isListType, isObjectType } from 'graphql';
+import type pg from 'pg';
+import type { DisposableExecutor } from '@graphql-mesh/transport-common';
+import { getDefDirectives, makeAsyncDisposable } from '@graphql-mesh/utils';
+import { createDefaultExecutor } from '@graphql-tools/delegate';
+import {
+  getDirective,
+  getOperationASTFromRequest,
+  MapperKind,
+  mapSchema,
+  type ExecutionRequest,
+} from '@graphql-tools/utils';
+import { createPostgresPool } from './pool.js';
+import {
+  addParam,
+  buildOrderBy,
+  buildSelect,
+  buildWhere,
+  getColumnValues,
+  joinConditions,
+  quoteIdentifier,
+  quoteTable,
+} from './sql.js';
+import type { PostgresIsolationLevel } from './types.js';
+
+type Row = Record<string, unknown>;
+
+const ISOLATION_LEVELS: PostgresIsolationLevel[] = [
+  'READ_UNCOMMITTED',
+  'READ_COMMITTED',
+  'REPEATABLE_READ',
+  'SERIALIZABLE',
+];
+
+/** Arguments that are not the columns of the table */
+const reservedArgNames = ['where', 'orderBy', 'limit', 'offset', 'input'];
+
+export interface GetPostgresExecutorOpts {
+  subgraph: GraphQLSchema;
+  /**
+   * The pool to use instead of connecting to the endpoint in the `@transport` directive,
+   * e.g. the one of an embedded database like `pg-mem`
+   */
+  pool?: pg.Pool;
+  /**
+   * Isolation level of the transactions the mutations are run in.
+   * The default isolation level of the server is used if not set.
+   */
+  isolationLevel?: PostgresIsolationLevel;
+}
+
+/**
+ * Maps the fields of the types to the columns of the tables by `@postgresTable` and `@postgresColumn`
+ */
+function getColumnsByTable(subgraph: GraphQLSchema) {
+  const columnsByTable = new Map<string, Map<string, string>>();
+  const typeMap = subgraph.getTypeMap();
+  for (const typeName in typeMap) {
+    const type = typeMap[typeName];
+    if (!isObjectType(type)) {
+      continue;
+    }
+    const tableDirective = getDirective(subgraph, type, 'postgresTable')?.[0];
+    if (!tableDirective?.table) {
+      continue;
+    }
+    const columns = new Map<string, string>();
+    for (const field of Object.values(type.getFields())) {
+      const column = getDirective(subgraph, field, 'postgresColumn')?.[0]?.name;
+      if (column) {
+        columns.set(field.name, column);
+      }
+    }
+    columnsByTable.set(quoteTable(tableDirective.schema, tableDirective.table), columns);
+  }
+  return columnsByTable;
+}
+
+/**
+ * Equality conditions from the arguments that are the columns, e.g. the primary keys
+ */
+function getKeyConditions(
+  args: Record<string, unknown>,
+  columns: Map<string, string>,
+  params: unknown[],
+) {
+  const conditions: string[] = [];
+  for (const argName in args) {
+    const column = columns.get(argName);
+    if (reservedArgNames.includes(argName) || !column || args[argName] === undefined) {
+      continue;
+    }
+    conditions.push(
+      args[argName] === null
+        ? `${quoteIdentifier(column)} IS NULL`
+        : `${quoteIdentifier(column)} = ${addParam(params, args[argName])}`,
+    );
+  }
+  return conditions;
+}
+
+export function getPostgresExecutor({
+  subgraph,
+  pool,
+  isolationLevel,
+}: GetPostgresExecutorOpts): DisposableExecutor {
+  if (isolationLevel && !ISOLATION_LEVELS.includes(isolationLevel)) {
+    throw new Error(
+      `Invalid isolation level ${isolationLevel}; expected one of ${ISOLATION_LEVELS.join(', ')}`,
+    );
+  }
+  const transportDirective = getDirective(subgraph, subgraph, 'transport')?.[0];
+  function getPool() {
+    if (!pool) {
+      if (!transportDirective?.location) {
+        throw new Error(`No transport directives found in the schema`);
+      }
+      pool = createPostgresPool(transportDirective.location);
+    }
+    return pool;
+  }
+  // The mutations are run on the client of their transaction
+  const clientByContext = new WeakMap<object, pg.PoolClient>();
+  function getQueryable(context: object): Pick<pg.Pool, 'query'> {
+    return clientByContext.get(context) || getPool();
+  }
+  const columnsByTable = getColumnsByTable(subgraph);
+  function getColumns(schema: string, table: string) {
+    const columns = columnsByTable.get(quoteTable(schema, table));
+    if (!columns) {
+      throw new Error(`No type found for the table "${schema}"."${table}"`);
+    }
+    return columns;
+  }
+  const loadersByContext = new WeakMap<object, Map<string, DataLoader<unknown[], Row[], string>>>();
+  function getLoader(
+    context: object,
+    loaderKey: string,
+    batchLoadFn: (keys: readonly unknown[][]) => Promise<Row[][]>,
+  ) {
+    let loaders = loadersByContext.get(context);
+    if (!loaders) {
+      loaders = new Map();
+      loadersByContext.set(context, loaders);
+    }
+    let loader = loaders.get(loaderKey);
+    if (!loader) {
+      loader = new DataLoader(batchLoadFn, { cacheKeyFn: key => JSON.stringify(key) });
+      loaders.set(loaderKey, loader);
+    }
+    return loader;
+  }
+
+  subgraph = mapSchema(subgraph, {
+    [MapperKind.ENUM_VALUE](enumValueConfig) {
+      // The labels that are not valid GraphQL names are kept in `@postgresEnumValue`
+      const value = getDirective(subgraph, enumValueConfig, 'postgresEnumValue')?.[0]?.value;
+      if (value != null) {
+        return {
+          ...enumValueConfig,
+          value,
+        };
+      }
+      return enumValueConfig;
+    },
+    [MapperKind.OBJECT_FIELD](fieldConfig) {
+      const directives = getDefDirectives(subgraph, fieldConfig);
+      const returnsObject = isObjectType(getNamedType(fieldConfig.type));
+      const returnsList = isListType(getNullableType(fieldConfig.type));
+      for (const directive of directives) {
+        switch (directive.name) {
+          case 'postgresColumn': {
+            const { name } = directive.args;
+            fieldConfig.resolve = function postgresColumnResolver(root: Row) {
+              return root[name];
+            };
+            break;
+          }
+          case 'postgresSelect': {
+            const {
+              schema,
+              table,
+              columnMap = [],
+            } = directive.args as {
+              schema: string;
+              table: string;
+              columnMap?: [string, string][];
+            };
+            fieldConfig.resolve = async function postgresSelectResolver(
+              root: Row,
+              args,
+              context,
+              info,
+            ) {
+              const columns = getColumns(schema, table);
+              const selectedColumns = [...new Set(columns.values())];
+              const orderBy = buildOrderBy(args.orderBy, columns);
+              const queryable = getQueryable(context);
+              if (!columnMap.length) {
+                const params: unknown[] = [];
+                const sql = buildSelect({
+                  schema,
+                  table,
+                  columns: selectedColumns,
+                  where: joinConditions(
+                    [
+                      buildWhere(args.where, columns, params),
+                      ...getKeyConditions(args, columns, params),
+                    ],
+                    'AND',
+                  ),
+                  orderBy,
+                  limit: args.limit,
+                  offset: args.offset,
+                });
+                const { rows } = await queryable.query<Row>(sql, params);
+                return returnsList ? rows : rows[0] || null;
+              }
+              const keyValues = columnMap.map(([sourceColumn]) => root[sourceColumn]);
+              if (keyValues.some(keyValue => keyValue == null)) {
+                return returnsList ? [] : null;
+              }
+              const targetColumns = columnMap.map(([, targetColumn]) => targetColumn);
+              // The rows of all the parents are loaded with a single query
+              const loader = getLoader(
+                context,
+                `${info.parentType.name}.${info.fieldName}(${JSON.stringify(args)})`,
+                async keys => {
+                  const params: unknown[] = [];
+                  const keyCondition =
+                    targetColumns.length === 1
+                      ? `${quoteIdentifier(targetColumns[0])} IN (${keys.map(key => addParam(params, key[0])).join(', ')})`
+                      : joinConditions(
+                          keys.map(key =>
+                            joinConditions(
+                              targetColumns.map(
+                                (targetColumn, i) =>
+                                  `${quoteIdentifier(targetColumn)} = ${addParam(params, key[i])}`,
+                              ),
+                              'AND',
+                            ),
+                          ),
+                          'OR',
+                        );
+                  const sql = buildSelect({
+                    schema,
+                    table,
+                    columns: selectedColumns,
+                    where: joinConditions(
+                      [keyCondition, buildWhere(args.where, columns, params)],
+                      'AND',
+                    ),
+                    orderBy,
+                    limit: args.limit,
+                    offset: args.offset,
+                    partitionBy: targetColumns,
+                  });
+                  const { rows } = await queryable.query<Row>(sql, params);
+                  const rowsByKey = new Map<string, Row[]>();
+                  for (const row of rows) {
+                    const rowKey = JSON.stringify(targetColumns.map(column => row[column]));
+                    let rowsOfKey = rowsByKey.get(rowKey);
+                    if (!rowsOfKey) {
+                      rowsOfKey = [];
+                      rowsByKey.set(rowKey, rowsOfKey);
+                    }
+                    rowsOfKey.push(row);
+                  }
+                  return keys.map(key => rowsByKey.get(JSON.stringify(key)) || []);
+                },
+              );
+              const rows = await loader.load(keyValues);
+              return returnsList ? rows : rows[0] || null;
+            };
+            break;
+          }
+          case 'postgresCount': {
+            const { schema, table } = directive.args;
+            fieldConfig.resolve = async function postgresCountResolver(root, args, context) {
+              const columns = getColumns(schema, table);
+              const params: unknown[] = [];
+              const where = buildWhere(args.where, columns, params);
+              const {
+                rows: [{ count }],
+              } = await getQueryable(context).query<{ count: number }>(
+                `SELECT COUNT(*)::int AS count FROM ${quoteTable(schema, table)} WHERE ${where}`,
+                params,
+              );
+              return count;
+            };
+            break;
+          }
+          case 'postgresInsert': {
+            const { schema, table } = directive.args;
+            fieldConfig.resolve = async function postgresInsertResolver(root, args, context) {
+              const columns = getColumns(schema, table);
+              const columnValues = getColumnValues(args.input || {}, columns);
+              const params: unknown[] = [];
+              const returning = [...new Set(columns.values())].map(quoteIdentifier).join(', ');
+              const {
+                rows: [row],
+              } = await getQueryable(context).query<Row>(
+                columnValues.length
+                  ? `INSERT INTO ${quoteTable(schema, table)} (${columnValues.map(([column]) => quoteIdentifier(column)).join(', ')}) VALUES (${columnValues.map(([, value]) => addParam(params, value)).join(', ')}) RETURNING ${returning}`
+                  : `INSERT INTO ${quoteTable(schema, table)} DEFAULT VALUES RETURNING ${returning}`,
+                params,
+              );
+              return row;
+            };
+            break;
+          }
+          case 'postgresUpdate': {
+            const { schema, table } = directive.args;
+            fieldConfig.resolve = async function postgresUpdateResolver(root, args, context) {
+              const columns = getColumns(schema, table);
+              const columnValues = getColumnValues(args.input || {}, columns);
+              const params: unknown[] = [];
+              const assignments = columnValues.map(
+                ([column, value]) => `${quoteIdentifier(column)} = ${addParam(params, value)}`,
+              );
+              const where = joinConditions(
+                [
+                  buildWhere(args.where, columns, params),
+                  ...getKeyConditions(args, columns, params),
+                ],
+                'AND',
+              );
+              const queryable = getQueryable(context);
+              if (!assignments.length) {
+                if (!returnsObject) {
+                  return 0;
+                }
+                const {
+                  rows: [row],
+                } = await queryable.query<Row>(
+                  buildSelect({ schema, table, columns: [...new Set(columns.values())], where }),
+                  params,
+                );
+                return row || null;
+              }
+              const { rows } = await queryable.query<Row>(
+                `UPDATE ${quoteTable(schema, table)} SET ${assignments.join(', ')} WHERE ${where} RETURNING ${[...new Set(columns.values())].map(quoteIdentifier).join(', ')}`,
+                params,
+              );
+              return returnsObject ? rows[0] || null : rows.length;
+            };
+            break;
+          }
+          case 'postgresDelete': {
+            const { schema, table } = directive.args;
+            fieldConfig.resolve = async function postgresDeleteResolver(root, args, context) {
+              const columns = getColumns(schema, table);
+              const params: unknown[] = [];
+              const where = joinConditions(
+                [
+                  buildWhere(args.where, columns, params),
+                  ...getKeyConditions(args, columns, params),
+                ],
+                'AND',
+              );
+              const { rows } = await getQueryable(context).query<Row>(
+                `DELETE FROM ${quoteTable(schema, table)} WHERE ${where} RETURNING ${[...new Set(columns.values())].map(quoteIdentifier).join(', ')}`,
+                params,
+              );
+              return returnsObject ? rows[0] || null : rows.length;
+            };
+            break;
+          }
+        }
+      }
+      return fieldConfig;
+    },
+  });
+
+  const defaultExecutor = createDefaultExecutor(subgraph);
+
+  return makeAsyncDisposable(
+    async function postgresExecutor(executionRequest: ExecutionRequest) {
+      if (executionRequest.context == null) {
+        // The batched lookups and the transactions are scoped by the context
+        executionRequest = { ...executionRequest, context: {} };
+      }
+      const context = executionRequest.context;
+      try {
+        const operationAST = getOperationASTFromRequest(executionRequest);
+        if (operationAST.operation !== 'mutation') {
+          return await defaultExecutor(executionRequest);
+        }
+        // All the root fields of a mutation are written together or not at all
+        const client = await getPool().connect();
+        clientByContext.set(context, client);
+        try {
+          await client.query(
+            isolationLevel
+              ? `BEGIN ISOLATION LEVEL ${isolationLevel.split('_').join(' ')}`
+              : 'BEGIN',
+          );
+          let result: ExecutionResult;
+          try {
+            result = (await defaultExecutor(executionRequest)) as ExecutionResult;
+          } catch (e) {
+            await client.query('ROLLBACK');
+            throw e;
+          }
+          if (result.errors?.length) {
+            await client.query('ROLLBACK');
+            // The results of the other fields are not written
+            return {
+              ...result,
+              data: null,
+            };
+          }
+          await client.query('COMMIT');
+          return result;
+        } finally {
+          clientByContext.delete(context);
+          client.release();
+        }
+      } finally {
+        loadersByContext.delete(context);
+      }
+    },
+    async () => {
+      if (pool) {
+        await pool.end();
+      }
+    },
+  );
+}
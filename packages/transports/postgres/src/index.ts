@@ -0,0 +1,17 @@
+import type { Transport } from '@graphql-mesh/transport-common';
+import { getPostgresExecutor } from './execution.js';
+import type { PostgresTransportOptions } from './types.js';
+
+export * from './execution.js';
+export * from './pool.js';
+export * from './sql.js';
+export type * from './types.js';
+
+export default {
+  getSubgraphExecutor({ subgraph, transportEntry }) {
+    return getPostgresExecutor({
+      subgraph,
+      isolationLevel: transportEntry.options?.isolationLevel,
+    });
+  },
+} satisfies Transport<PostgresTransportOptions>;
@@ -0,0 +1,14 @@
+import pg from 'pg';
+import { process } from '@graphql-mesh/cross-helpers';
+import { stringInterpolator } from '@graphql-mesh/string-interpolation';
+
+/**
+ * Creates the connection pool of the database;
+ * the environment variables in the endpoint like `{env.POSTGRES_PASSWORD}` are interpolated,
+ * so they are not stored in the composed schema
+ */
+export function createPostgresPool(endpoint: string): pg.Pool {
+  return new pg.Pool({
+    connectionString: stringInterpolator.parse(endpoint, { env: process.env }),
+  });
+}
@@ -0,0 +1,231 @@
+export interface PostgresFilter {
+  eq?: unknown;
+  ne?: unknown;
+  gt?: unknown;
+  gte?: unknown;
+  lt?: unknown;
+  lte?: unknown;
+  in?: unknown[];
+  notIn?: unknown[];
+  like?: string;
+  ilike?: string;
+  isNull?: boolean;
+}
+
+export interface PostgresWhere {
+  and?: PostgresWhere[];
+  or?: PostgresWhere[];
+  not?: PostgresWhere;
+  [fieldName: string]: PostgresFilter | PostgresWhere | PostgresWhere[];
+}
+
+export type PostgresOrderBy = Record<string, 'asc' | 'desc'>[] | Record<string, 'asc' | 'desc'>;
+
+export function quoteIdentifier(identifier: string) {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+export function quoteTable(schema: string, table: string) {
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+}
+
+/**
+ * Adds the value to the parameters of the query, and returns its placeholder like `$1`
+ */
+export function addParam(params: unknown[], value: unknown) {
+  params.push(value);
+  return `$${params.length}`;
+}
+
+const comparisonOperators: Record<string, string> = {
+  eq: '=',
+  ne: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+  ilike: 'ILIKE',
+};
+
+function getFilterConditions(column: string, filter: PostgresFilter, params: unknown[]) {
+  const conditions: string[] = [];
+  const quotedColumn = quoteIdentifier(column);
+  for (const operator in filter) {
+    const value = filter[operator as keyof PostgresFilter];
+    if (value === undefined) {
+      continue;
+    }
+    switch (operator) {
+      case 'in':
+      case 'notIn': {
+        const values = value as unknown[];
+        if (!values.length) {
+          // `IN ()` is not valid SQL
+          conditions.push(operator === 'in' ? 'FALSE' : 'TRUE');
+        } else {
+          conditions.push(
+            `${quotedColumn} ${operator === 'in' ? 'IN' : 'NOT IN'} (${values.map(value => addParam(params, value)).join(', ')})`,
+          );
+        }
+        break;
+      }
+      case 'isNull':
+        conditions.push(`${quotedColumn} IS ${value ? '' : 'NOT '}NULL`);
+        break;
+      default: {
+        const comparisonOperator = comparisonOperators[operator];
+        if (!comparisonOperator) {
+          throw new Error(`Unknown filter operator "${operator}" for column "${column}"`);
+        }
+        if (value === null && (operator === 'eq' || operator === 'ne')) {
+          conditions.push(`${quotedColumn} IS ${operator === 'eq' ? '' : 'NOT '}NULL`);
+        } else {
+          conditions.push(`${quotedColumn} ${comparisonOperator} ${addParam(params, value)}`);
+        }
+      }
+    }
+  }
+  return conditions;
+}
+
+export function joinConditions(conditions: string[], separator: 'AND' | 'OR'): string {
+  // Empty filters are always true, so they are not needed in the conjunctions
+  if (separator === 'AND') {
+    conditions = conditions.filter(condition => condition !== 'TRUE');
+  }
+  if (!conditions.length) {
+    return separator === 'AND' ? 'TRUE' : 'FALSE';
+  }
+  if (conditions.length === 1) {
+    return conditions[0];
+  }
+  return conditions.map(condition => `(${condition})`).join(` ${separator} `);
+}
+
+/**
+ * Builds the condition from the `where` argument, and adds its values to `params`;
+ * the fields are mapped to the columns with `columns`
+ */
+export function buildWhere(
+  where: PostgresWhere | undefined,
+  columns: Map<string, string>,
+  params: unknown[],
+): string {
+  const conditions: string[] = [];
+  for (const fieldName in where || {}) {
+    const value = where[fieldName];
+    if (value == null) {
+      continue;
+    }
+    switch (fieldName) {
+      case 'and':
+      case 'or':
+        conditions.push(
+          joinConditions(
+            (value as PostgresWhere[]).map(subWhere => buildWhere(subWhere, columns, params)),
+            fieldName === 'and' ? 'AND' : 'OR',
+          ),
+        );
+        break;
+      case 'not':
+        conditions.push(`NOT (${buildWhere(value as PostgresWhere, columns, params)})`);
+        break;
+      default: {
+        const column = columns.get(fieldName);
+        if (!column) {
+          throw new Error(`Unknown field "${fieldName}" in the filter`);
+        }
+        conditions.push(...getFilterConditions(column, value as PostgresFilter, params));
+      }
+    }
+  }
+  return joinConditions(conditions, 'AND');
+}
+
+export function buildOrderBy(
+  orderBy: PostgresOrderBy | undefined,
+  columns: Map<string, string>,
+): string | undefined {
+  const orderByList = Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [];
+  const terms: string[] = [];
+  for (const orderByItem of orderByList) {
+    for (const fieldName in orderByItem) {
+      const column = columns.get(fieldName);
+      if (!column) {
+        throw new Error(`Unknown field "${fieldName}" in the order`);
+      }
+      terms.push(
+        `${quoteIdentifier(column)} ${orderByItem[fieldName]?.toLowerCase() === 'desc' ? 'DESC' : 'ASC'}`,
+      );
+    }
+  }
+  return terms.length ? terms.join(', ') : undefined;
+}
+
+/**
+ * Maps the fields of an input object to the columns
+ */
+export function getColumnValues(input: Record<string, unknown>, columns: Map<string, string>) {
+  const columnValues: [string, unknown][] = [];
+  for (const fieldName in input) {
+    const column = columns.get(fieldName);
+    if (!column) {
+      throw new Error(`Unknown field "${fieldName}" in the input`);
+    }
+    if (input[fieldName] !== undefined) {
+      columnValues.push([column, input[fieldName]]);
+    }
+  }
+  return columnValues;
+}
+
+export interface SelectRowsOpts {
+  schema: string;
+  table: string;
+  columns: string[];
+  /** The condition with the placeholders of the parameters of the query */
+  where?: string;
+  orderBy?: string;
+  limit?: number;
+  offset?: number;
+  /**
+   * Columns that group the rows for batched lookups;
+   * `limit` and `offset` are applied to each group instead of the whole result
+   */
+  partitionBy?: string[];
+}
+
+export function buildSelect({
+  schema,
+  table,
+  columns,
+  where,
+  orderBy,
+  limit,
+  offset,
+  partitionBy,
+}: SelectRowsOpts): string {
+  const selection = columns.map(quoteIdentifier).join(', ');
+  const whereClause = where && where !== 'TRUE' ? ` WHERE ${where}` : '';
+  const orderByClause = orderBy ? ` ORDER BY ${orderBy}` : '';
+  if (partitionBy?.length && (limit != null || offset)) {
+    const rowNumber = quoteIdentifier('__row_number');
+    const rowNumberConditions = [`${rowNumber} > ${Number(offset) || 0}`];
+    if (limit != null) {
+      rowNumberConditions.push(`${rowNumber} <= ${(Number(offset) || 0) + Number(limit)}`);
+    }
+    return (
+      `SELECT ${selection} FROM (SELECT ${selection}, ROW_NUMBER() OVER (PARTITION BY ${partitionBy.map(quoteIdentifier).join(', ')}${orderByClause}) AS ${rowNumber} FROM ${quoteTable(schema, table)}${whereClause}) AS ${quoteIdentifier('rows')}` +
+      ` WHERE ${rowNumberConditions.join(' AND ')}${orderByClause}`
+    );
+  }
+  let limitClause = '';
+  if (limit != null) {
+    limitClause = ` LIMIT ${Number(limit)}`;
+  }
+  if (offset) {
+    limitClause += ` OFFSET ${Number(offset)}`;
+  }
+  return `SELECT ${selection} FROM ${quoteTable(schema, table)}${whereClause}${orderByClause}${limitClause}`;
+}
@@ -0,0 +1,11 @@
+export type PostgresIsolationLevel =
+  | 'READ_UNCOMMITTED'
+  | 'READ_COMMITTED'
+  | 'REPEATABLE_READ'
+  | 'SERIALIZABLE';
+export interface PostgresTransportOptions {
+  /**
+   * Isolation level of the transactions the mutations are run in
+   */
+  isolationLevel?: PostgresIsolationLevel;
+}
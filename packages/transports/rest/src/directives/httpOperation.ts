@@ -12,7 +12,11 @@ import { createGraphQLError, memoize1 } from '@graphql-tools/utils';
 import { Blob, File, FormData, URLSearchParams } from '@whatwg-node/fetch';
 import { isFileUpload } from './isFileUpload.js';
 import { getJsonApiFieldsQuery } from './jsonApiFields.js';
+import type { PageRequest, PageResponse, PaginationConfig } from './pagination.js';
+import { getPaginatedResolver } from './pagination.js';
 import { resolveDataByUnionInputType } from './resolveDataByUnionInputType.js';
+import type { OAuth2TokenCache, SecurityRequirement, SecurityScheme } from './security.js';
+import { applySecurityRequirements } from './security.js';
 
 type HTTPMethod =
   | 'GET'
@@ -53,6 +57,8 @@ export interface HTTPRootFieldResolverOpts {
   >;
   queryStringOptions: IStringifyOptions & { destructObject?: boolean; jsonStringify?: boolean };
   jsonApiFields: boolean;
+  security?: SecurityRequirement[];
+  pagination?: PaginationConfig;
 }
 
 export interface GlobalOptions {
@@ -62,6 +68,8 @@ export interface GlobalOptions {
   operationHeaders: Record<string, string>;
   queryStringOptions: IStringifyOptions;
   queryParams: Record<string, string | number | boolean>;
+  securitySchemes?: Record<string, SecurityScheme>;
+  oauth2TokenCache?: OAuth2TokenCache;
 }
 
 export function addHTTPRootFieldResolver(
@@ -79,6 +87,8 @@ export function addHTTPRootFieldResolver(
     queryStringOptionsByParam,
     queryStringOptions,
     jsonApiFields,
+    security,
+    pagination,
   }: HTTPRootFieldResolverOpts,
   {
     sourceName,
@@ -87,6 +97,8 @@ export function addHTTPRootFieldResolver(
     operationHeaders: globalOperationHeaders,
     queryStringOptions: globalQueryStringOptions = {},
     queryParams: globalQueryParams,
+    securitySchemes,
+    oauth2TokenCache = new Map(),
   }: GlobalOptions,
 ) {
   globalQueryStringOptions = {
@@ -95,7 +107,13 @@ export function addHTTPRootFieldResolver(
     ...queryStringOptions,
   };
   const returnNamedGraphQLType = getNamedType(field.type);
-  field.resolve = async (root, args, context, info) => {
+  async function resolveHTTPOperation(
+    root: any,
+    args: any,
+    context: any,
+    info: GraphQLResolveInfo,
+    pageRequest?: PageRequest,
+  ): Promise<any> {
     if (jsonApiFields) {
       args.fields = undefined;
     }
@@ -123,6 +141,24 @@ export function addHTTPRootFieldResolver(
         }
       }
     }
+    const fetch: typeof globalFetch = context?.fetch || globalFetch;
+    if (!fetch) {
+      return new TypeError(`You should have fetch defined in either the config or the context!`);
+    }
+    const applySecurity = (forceRefresh?: boolean) =>
+      applySecurityRequirements({
+        requirements: security,
+        securitySchemes: securitySchemes || {},
+        headers,
+        interpolationData,
+        tokenCache: oauth2TokenCache,
+        fetch,
+        context,
+        info,
+        logger: operationLogger,
+        forceRefresh,
+      });
+    const appliedSecurity = security?.length ? await applySecurity() : undefined;
     const requestInit: MeshFetchRequestInit = {
       method: httpMethod,
       headers,
@@ -295,16 +331,53 @@ export function addHTTPRootFieldResolver(
       fullPath += `fields=${getJsonApiFieldsQuery(info)}`;
     }
 
-    operationLogger.debug(`=> Fetching `, fullPath, `=>`, requestInit);
-    const fetch: typeof globalFetch = context?.fetch || globalFetch;
-    if (!fetch) {
-      return new TypeError(`You should have fetch defined in either the config or the context!`);
+    // The links of the next pages already have the query parameters except the credentials
+    if (pageRequest?.url) {
+      // The links can be relative to the URL of the operation
+      const operationUrl = new URL(fullPath);
+      const pageUrl = new URL(pageRequest.url, operationUrl);
+      // The headers of the operation might have credentials that cannot be sent to the other origins
+      if (pageUrl.origin !== operationUrl.origin) {
+        return createGraphQLError(
+          `The link of the next page in ${field.name} is not on the origin of the operation ${operationUrl.origin}`,
+          {
+            extensions: {
+              subgraph: sourceName,
+            },
+          },
+        );
+      }
+      fullPath = pageUrl.toString();
+    }
+
+    // The credentials are added only to the fetched URL,
+    // so they are kept out of the logs, the errors and the response metadata
+    let urlWithCredentials = fullPath;
+    if (appliedSecurity) {
+      for (const queryParamName in appliedSecurity.queryParams) {
+        urlWithCredentials += urlWithCredentials.includes('?') ? '&' : '?';
+        urlWithCredentials += qsStringify({
+          [queryParamName]: appliedSecurity.queryParams[queryParamName],
+        });
+      }
     }
+
+    operationLogger.debug(`=> Fetching `, fullPath, `=>`, requestInit);
     // Trick to pass `sourceName` to the `fetch` function for tracing
-    const response = await fetch(fullPath, requestInit, context, {
+    let response = await fetch(urlWithCredentials, requestInit, context, {
       ...info,
       sourceName,
     } as GraphQLResolveInfo);
+    // The cached token might be revoked before it expires, so get a new one and retry once
+    // Streamed bodies cannot be sent again
+    if (response.status === 401 && appliedSecurity?.refreshable && !isBinary) {
+      operationLogger.debug(`=> Received 401, refreshing the credentials and retrying`);
+      await applySecurity(true);
+      response = await fetch(urlWithCredentials, requestInit, context, {
+        ...info,
+        sourceName,
+      } as GraphQLResolveInfo);
+    }
     // If return type is a file
     if (returnNamedGraphQLType.name === 'File') {
       return response.blob();
@@ -390,6 +463,14 @@ export function addHTTPRootFieldResolver(
       }
     }
 
+    if (pageRequest) {
+      const pageResponse: PageResponse = {
+        body: responseJson,
+        headers: response.headers,
+      };
+      return pageResponse;
+    }
+
     operationLogger.debug(`Returning `, responseJson);
     // Sometimes API returns an array but the return type is not an array
     const isListReturnType = isListTypeOrNonNullListType(field.type);
@@ -505,5 +586,8 @@ export function addHTTPRootFieldResolver(
     return Array.isArray(responseJson)
       ? responseJson.map(obj => addResponseMetadata(obj))
       : addResponseMetadata(responseJson);
-  };
+  }
+  field.resolve = pagination
+    ? getPaginatedResolver(resolveHTTPOperation, pagination)
+    : resolveHTTPOperation;
 }
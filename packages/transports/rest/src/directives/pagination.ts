@@ -0,0 +1,242 @@
+import type { GraphQLFieldResolver } from 'graphql';
+import { createGraphQLError } from '@graphql-tools/utils';
+
+export interface PaginationConfig {
+  /**
+   * How the upstream paginates;
+   * - `page`: page number and page size
+   * - `offset`: number of the items to skip and page size
+   * - `cursor`: cursor from the previous response
+   * - `link`: `next` URL in RFC 5988 `Link` header
+   */
+  type: 'page' | 'offset' | 'cursor' | 'link';
+  /**
+   * Names of the arguments that are sent to the upstream for pagination
+   */
+  pageArg?: string;
+  limitArg?: string;
+  offsetArg?: string;
+  cursorArg?: string;
+  /**
+   * Dot-separated path of the items in the response; the response itself if not given
+   */
+  itemsPath?: string;
+  /**
+   * Dot-separated path of the cursor of the next page in the response
+   */
+  nextCursorPath?: string;
+  /**
+   * Number of the first page, `1` by default
+   */
+  firstPage?: number;
+  /**
+   * Page size when `first` is not given
+   */
+  defaultPageSize?: number;
+}
+
+export interface PageRequest {
+  /**
+   * Overrides the URL of the operation, e.g. with the `next` link of the previous page
+   */
+  url?: string;
+}
+
+export interface PageResponse {
+  body: any;
+  headers: Headers;
+}
+
+export type PageFetcher = (
+  root: any,
+  args: Record<string, any>,
+  context: any,
+  info: any,
+  pageRequest: PageRequest,
+) => Promise<PageResponse | Error>;
+
+/**
+ * Identifies the page with the token used to request it, the page size
+ * and the index of the item in that page;
+ * the last item of a page also has the token of the next page
+ */
+interface DecodedCursor {
+  t?: string | number;
+  s?: number;
+  i: number;
+  n?: string | number;
+}
+
+function encodeCursor(cursor: DecodedCursor) {
+  const json = JSON.stringify(cursor);
+  if (globalThis.Buffer?.from) {
+    return globalThis.Buffer.from(json).toString('base64');
+  }
+  return btoa(json);
+}
+
+function decodeCursor(cursor: string): DecodedCursor {
+  try {
+    const json = globalThis.Buffer?.from
+      ? globalThis.Buffer.from(cursor, 'base64').toString()
+      : atob(cursor);
+    const decodedCursor = JSON.parse(json);
+    if (typeof decodedCursor?.i === 'number') {
+      return decodedCursor;
+    }
+  } catch {}
+  throw createGraphQLError(`Invalid cursor: ${cursor}`);
+}
+
+function getByPath(obj: any, path?: string) {
+  if (!path) {
+    return obj;
+  }
+  return path.split('.').reduce((value, key) => value?.[key], obj);
+}
+
+export function getNextLinkFromHeaders(headers: Headers) {
+  const linkHeader = headers.get('link');
+  if (!linkHeader) {
+    return undefined;
+  }
+  for (const link of linkHeader.split(',')) {
+    const match = link.match(/<([^>]*)>(.*)/);
+    if (match && /;\s*rel="?([^"]*\s)?next(\s[^"]*)?"?(;|$)/i.test(match[2].trim())) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Creates a resolver for the Relay connection of the operation;
+ * `first` and `after` are translated into as many upstream page requests as needed
+ */
+export function getPaginatedResolver(
+  fetchPage: PageFetcher,
+  {
+    type,
+    pageArg,
+    limitArg,
+    offsetArg,
+    cursorArg,
+    itemsPath,
+    nextCursorPath,
+    firstPage = 1,
+    defaultPageSize,
+  }: PaginationConfig,
+): GraphQLFieldResolver<any, any> {
+  return async function paginatedResolver(root, { first, after, ...args }, context, info) {
+    if (first != null && first < 0) {
+      return createGraphQLError('`first` cannot be negative');
+    }
+    const afterCursor = after ? decodeCursor(after) : undefined;
+    // Pages have to be requested with the same size to keep the item indexes in the cursors
+    let pageSize: number = first ?? defaultPageSize;
+    let token: string | number;
+    let skip = 0;
+    switch (type) {
+      case 'page':
+      case 'cursor':
+      case 'link':
+        pageSize = afterCursor?.s ?? pageSize;
+        if (afterCursor?.n != null) {
+          token = afterCursor.n;
+        } else if (afterCursor) {
+          token = afterCursor.t;
+          skip = afterCursor.i + 1;
+        } else if (type === 'page') {
+          token = firstPage;
+        }
+        break;
+      case 'offset':
+        token = afterCursor ? Number(afterCursor.t) + afterCursor.i + 1 : 0;
+        break;
+    }
+    const edges: { node: any; cursor: string }[] = [];
+    let hasNextPage = false;
+    while (true) {
+      const pageArgs: Record<string, any> = { ...args };
+      const pageRequest: PageRequest = {};
+      switch (type) {
+        case 'page':
+          pageArgs[pageArg] = token;
+          break;
+        case 'offset':
+          pageArgs[offsetArg] = token;
+          break;
+        case 'cursor':
+          if (token != null) {
+            pageArgs[cursorArg] = token;
+          }
+          break;
+        case 'link':
+          if (token != null) {
+            pageRequest.url = token.toString();
+          }
+          break;
+      }
+      if (limitArg && pageSize != null) {
+        pageArgs[limitArg] = pageSize;
+      }
+      const pageResponse = await fetchPage(root, pageArgs, context, info, pageRequest);
+      if (pageResponse instanceof Error) {
+        return pageResponse;
+      }
+      const items = getByPath(pageResponse.body, itemsPath);
+      const itemList: any[] = Array.isArray(items) ? items : items == null ? [] : [items];
+      let nextToken: string | number;
+      switch (type) {
+        case 'page':
+        case 'offset':
+          // A partial page is the last one
+          if (itemList.length > 0 && (pageSize == null || itemList.length >= pageSize)) {
+            nextToken = type === 'page' ? Number(token) + 1 : Number(token) + itemList.length;
+          }
+          break;
+        case 'cursor':
+          nextToken = getByPath(pageResponse.body, nextCursorPath) || undefined;
+          break;
+        case 'link':
+          nextToken = getNextLinkFromHeaders(pageResponse.headers);
+          break;
+      }
+      for (let index = skip; index < itemList.length; index++) {
+        if (first != null && edges.length >= first) {
+          hasNextPage = true;
+          break;
+        }
+        edges.push({
+          node: itemList[index],
+          cursor: encodeCursor({
+            t: token,
+            s: pageSize,
+            i: index,
+            // Saves requesting the same page again to get the next token
+            n: type !== 'offset' && index === itemList.length - 1 ? nextToken : undefined,
+          }),
+        });
+      }
+      skip = 0;
+      if (hasNextPage) {
+        break;
+      }
+      // Without `first`, only the first page is returned
+      if (nextToken == null || nextToken === token || first == null || edges.length >= first) {
+        hasNextPage = nextToken != null && nextToken !== token;
+        break;
+      }
+      token = nextToken;
+    }
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        hasPreviousPage: !!afterCursor,
+        startCursor: edges[0]?.cursor,
+        endCursor: edges[edges.length - 1]?.cursor,
+      },
+    };
+  };
+}
@@ -18,11 +18,14 @@ import { getTypeResolverForAbstractType } from './getTypeResolverForAbstractType
 import type { GlobalOptions } from './httpOperation.js';
 import { addHTTPRootFieldResolver } from './httpOperation.js';
 import { processLinkFieldAnnotations } from './link.js';
+import type { PaginationConfig } from './pagination.js';
+import type { ProcessPubSubOperationAnnotationsOpts } from './pubsubOperation.js';
 import { processPubSubOperationAnnotations } from './pubsubOperation.js';
 import { processResolveRootAnnotations } from './resolveRoot.js';
 import { processResolveRootFieldAnnotations } from './resolveRootField.js';
 import { processResponseMetadataAnnotations } from './responseMetadata.js';
 import { addExecutionLogicToScalar, processScalarType } from './scalars.js';
+import type { SecurityScheme, SecuritySchemeCredentials } from './security.js';
 import { processTypeScriptAnnotations } from './typescriptAnnotations.js';
 
 export interface ProcessDirectiveArgs {
@@ -33,24 +36,51 @@ export interface ProcessDirectiveArgs {
   timeout?: number;
   operationHeaders?: Record<string, string>;
   queryParams?: Record<string, any>;
+  /**
+   * Credentials for the security schemes in the schema by their names
+   */
+  securityCredentials?: Record<string, SecuritySchemeCredentials>;
 }
 
 export function processDirectives(
   schema: GraphQLSchema,
-  { globalFetch, logger, pubsub, ...extraGlobalOptions }: ProcessDirectiveArgs = {},
+  {
+    globalFetch,
+    logger,
+    pubsub,
+    securityCredentials,
+    ...extraGlobalOptions
+  }: ProcessDirectiveArgs = {},
 ) {
   const nonExecutableObjMapScalar = schema.getType('ObjMap');
   if (nonExecutableObjMapScalar && isScalarType(nonExecutableObjMapScalar)) {
     addExecutionLogicToScalar(nonExecutableObjMapScalar, ObjMapScalar);
   }
-  const transportDirectives = getDirectiveExtensions(schema)?.transport;
+  const schemaDirectives = getDirectiveExtensions(schema);
+  const transportDirectives = schemaDirectives?.transport;
   const currDirective = transportDirectives?.[0];
+  let securitySchemes: Record<string, SecurityScheme>;
+  for (const securitySchemeDirective of schemaDirectives?.securityScheme || []) {
+    const { subgraph, name, ...securityScheme } = securitySchemeDirective as SecurityScheme & {
+      subgraph: string;
+      name: string;
+    };
+    securitySchemes = securitySchemes || {};
+    // The credentials are never in the schema
+    securitySchemes[name] = {
+      ...securityScheme,
+      credentials: securityCredentials?.[name],
+    };
+  }
   const globalOptions = {
     endpoint: currDirective?.location,
     operationHeaders: currDirective?.headers,
     queryParams: currDirective?.queryParams,
     queryStringOptions: currDirective?.queryStringOptions,
     ...extraGlobalOptions,
+    securitySchemes,
+    // Shared by all the operations of the subgraph
+    oauth2TokenCache: new Map(),
   };
   if (typeof globalOptions.operationHeaders === 'string') {
     globalOptions.operationHeaders = JSON.parse(globalOptions.operationHeaders);
@@ -179,6 +209,7 @@ export function processDirectives(
                 pubsubTopic: directiveAnnotation.args.pubsubTopic,
                 globalPubsub: pubsub,
                 logger,
+                ...getWebhookRegistration(directiveAnnotations),
               });
               break;
             case 'httpOperation': {
@@ -220,6 +251,8 @@ export function processDirectives(
                       : directiveAnnotation.args.queryStringOptionsByParam,
                   jsonApiFields: directiveAnnotation.args.jsonApiFields,
                   queryStringOptions: directiveAnnotation.args.queryStringOptions,
+                  security: getSecurityRequirements(directiveAnnotations),
+                  pagination: getPaginationConfig(directiveAnnotations),
                 },
                 globalOptions as GlobalOptions,
               );
@@ -247,3 +280,42 @@ export function processDirectives(
   }
   return schema;
 }
+
+type DirectiveAnnotations = ReturnType<typeof getDefDirectives>;
+
+function getSecurityRequirements(directiveAnnotations: DirectiveAnnotations) {
+  const securityRequirements = directiveAnnotations.find(
+    directiveAnnotation => directiveAnnotation.name === 'security',
+  )?.args.requirements;
+  if (typeof securityRequirements === 'string') {
+    return JSON.parse(securityRequirements);
+  }
+  return securityRequirements;
+}
+
+function getWebhookRegistration(
+  directiveAnnotations: DirectiveAnnotations,
+): Pick<ProcessPubSubOperationAnnotationsOpts, 'subscribe' | 'unsubscribe'> {
+  const webhookRegistrationDirective = directiveAnnotations.find(
+    directiveAnnotation => directiveAnnotation.name === 'webhookRegistration',
+  );
+  if (!webhookRegistrationDirective) {
+    return {};
+  }
+  const { subscribe, unsubscribe } = webhookRegistrationDirective.args;
+  return {
+    subscribe: typeof subscribe === 'string' ? JSON.parse(subscribe) : subscribe,
+    unsubscribe: typeof unsubscribe === 'string' ? JSON.parse(unsubscribe) : unsubscribe,
+  };
+}
+
+function getPaginationConfig(directiveAnnotations: DirectiveAnnotations): PaginationConfig {
+  const paginationDirective = directiveAnnotations.find(
+    directiveAnnotation => directiveAnnotation.name === 'pagination',
+  );
+  if (!paginationDirective) {
+    return undefined;
+  }
+  const { subgraph, ...paginationConfig } = paginationDirective.args;
+  return paginationConfig as PaginationConfig;
+}
@@ -1,13 +1,49 @@
-import type { GraphQLField } from 'graphql';
+import { dset } from 'dset';
+import type { GraphQLField, GraphQLResolveInfo } from 'graphql';
+import type { ResolverData } from '@graphql-mesh/string-interpolation';
 import { stringInterpolator } from '@graphql-mesh/string-interpolation';
 import type { Logger, MeshPubSub } from '@graphql-mesh/types';
-import { createGraphQLError } from '@graphql-tools/utils';
+import { createGraphQLError, mapAsyncIterator } from '@graphql-tools/utils';
 
-interface ProcessPubSubOperationAnnotationsOpts {
+/**
+ * A `Mutation` or `Query` field of the same subgraph to call during the lifecycle of a subscription
+ */
+export interface RootFieldCall {
+  field: string;
+  args?: Record<string, any>;
+}
+
+export interface ProcessPubSubOperationAnnotationsOpts {
   field: GraphQLField<any, any>;
   globalPubsub: MeshPubSub;
   pubsubTopic: string;
   logger: Logger;
+  subscribe?: RootFieldCall;
+  unsubscribe?: RootFieldCall;
+}
+
+function callRootField(
+  { field: fieldName, args: argsTemplate }: RootFieldCall,
+  { root, args, context, info, env }: ResolverData & { info: GraphQLResolveInfo },
+) {
+  const rootField =
+    info.schema.getMutationType()?.getFields()[fieldName] ||
+    info.schema.getQueryType()?.getFields()[fieldName];
+  if (!rootField?.resolve) {
+    return createGraphQLError(`Field ${fieldName} not found in Mutation or Query`);
+  }
+  const rootFieldArgs: Record<string, any> = {};
+  for (const argKey in argsTemplate) {
+    const argInterpolation = argsTemplate[argKey];
+    dset(
+      rootFieldArgs,
+      argKey,
+      typeof argInterpolation === 'string'
+        ? stringInterpolator.parse(argInterpolation, { root, args, context, info, env })
+        : argInterpolation,
+    );
+  }
+  return rootField.resolve(root, rootFieldArgs, context, info);
 }
 
 export function processPubSubOperationAnnotations({
@@ -15,6 +51,8 @@ export function processPubSubOperationAnnotations({
   globalPubsub,
   pubsubTopic,
   logger: globalLogger,
+  subscribe,
+  unsubscribe,
 }: ProcessPubSubOperationAnnotationsOpts) {
   field.subscribe = function pubSubSubscribeFn(root, args, context, info) {
     const logger = context?.logger || globalLogger;
@@ -33,7 +71,53 @@ export function processPubSubOperationAnnotations({
     operationLogger.debug(
       `${info.parentType.name}.${field.name} => Subscribing to pubSubTopic: ${interpolatedPubSubTopic}`,
     );
-    return pubsub.asyncIterator(interpolatedPubSubTopic);
+    if (!subscribe && !unsubscribe) {
+      return pubsub.asyncIterator(interpolatedPubSubTopic);
+    }
+    // Subscribe to the topic first, so the events sent right after the registration are not missed
+    const asyncIterable = pubsub.asyncIterator(interpolatedPubSubTopic);
+    return (async () => {
+      let registration: any;
+      if (subscribe) {
+        operationLogger.debug(`=> Registering the webhook with ${subscribe.field}`);
+        try {
+          registration = await callRootField(subscribe, interpolationData);
+        } catch (error) {
+          registration = error;
+        }
+        if (registration instanceof Error) {
+          await asyncIterable[Symbol.asyncIterator]().return?.();
+          return registration;
+        }
+      }
+      if (!unsubscribe) {
+        return asyncIterable;
+      }
+      let unregistered = false;
+      return mapAsyncIterator(
+        asyncIterable,
+        value => value,
+        undefined,
+        async () => {
+          if (unregistered) {
+            return;
+          }
+          unregistered = true;
+          operationLogger.debug(`=> Unregistering the webhook with ${unsubscribe.field}`);
+          try {
+            const result = await callRootField(unsubscribe, {
+              ...interpolationData,
+              root: registration,
+            });
+            if (result instanceof Error) {
+              throw result;
+            }
+          } catch (error) {
+            operationLogger.error(`Failed to unregister the webhook`, error);
+          }
+        },
+      );
+    })();
   };
   field.resolve = function pubSubResolver(root, args, context, info) {
     const logger = context?.logger || globalLogger;
@@ -0,0 +1,333 @@
+import type { GraphQLResolveInfo } from 'graphql';
+import { stringInterpolator } from '@graphql-mesh/string-interpolation';
+import type { Logger, MeshFetch } from '@graphql-mesh/types';
+import { createGraphQLError } from '@graphql-tools/utils';
+import { URLSearchParams } from '@whatwg-node/fetch';
+
+export interface SecuritySchemeCredentials {
+  /**
+   * The key for `apiKey` schemes
+   */
+  apiKey?: string;
+  /**
+   * A pre-issued token for `http` (e.g. `bearer`), `oauth2` and `openIdConnect` schemes
+   */
+  token?: string;
+  /**
+   * Username and password for `http` `basic` scheme
+   */
+  username?: string;
+  password?: string;
+  /**
+   * Client credentials for `oauth2` scheme with `clientCredentials` flow
+   */
+  clientId?: string;
+  clientSecret?: string;
+  /**
+   * Scopes requested in addition to the ones from the security requirement
+   */
+  scopes?: string[];
+}
+
+export interface SecurityScheme {
+  type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect';
+  /**
+   * Location of the API key
+   */
+  in?: 'header' | 'query' | 'cookie';
+  /**
+   * Name of the header, query parameter or cookie of the API key
+   */
+  parameterName?: string;
+  /**
+   * HTTP Authorization scheme like `basic` or `bearer`
+   */
+  scheme?: string;
+  /**
+   * Token endpoint of the OAuth2 `clientCredentials` flow
+   */
+  tokenUrl?: string;
+  credentials?: SecuritySchemeCredentials;
+}
+
+/**
+ * Names of the security schemes with the scopes needed for the operation;
+ * all schemes in a requirement should be satisfied together
+ */
+export type SecurityRequirement = Record<string, string[]>;
+
+interface OAuth2Token {
+  accessToken: string;
+  expiresAt?: number;
+}
+
+export type OAuth2TokenCache = Map<string, Promise<OAuth2Token>>;
+
+// Refresh the token a bit before it expires so requests in flight do not fail
+const TOKEN_EXPIRATION_LEEWAY = 30_000;
+
+function encodeBase64(value: string) {
+  if (globalThis.Buffer?.from) {
+    return globalThis.Buffer.from(value).toString('base64');
+  }
+  return btoa(value);
+}
+
+function interpolateCredentials(
+  credentials: SecuritySchemeCredentials = {},
+  interpolationData: Record<string, any>,
+): SecuritySchemeCredentials {
+  const interpolatedCredentials: SecuritySchemeCredentials = {};
+  for (const key in credentials) {
+    const value = credentials[key as keyof SecuritySchemeCredentials];
+    if (typeof value === 'string') {
+      const interpolatedValue = stringInterpolator.parse(value, interpolationData);
+      if (interpolatedValue) {
+        interpolatedCredentials[key as Exclude<keyof SecuritySchemeCredentials, 'scopes'>] =
+          interpolatedValue;
+      }
+    } else if (value != null) {
+      interpolatedCredentials[key as 'scopes'] = value;
+    }
+  }
+  return interpolatedCredentials;
+}
+
+function hasCredentials(scheme: SecurityScheme, credentials: SecuritySchemeCredentials) {
+  switch (scheme.type) {
+    case 'apiKey':
+      return !!credentials.apiKey;
+    case 'http':
+      if (scheme.scheme?.toLowerCase() === 'basic') {
+        return !!credentials.username;
+      }
+      return !!credentials.token;
+    case 'oauth2':
+      return !!credentials.token || !!(scheme.tokenUrl && credentials.clientId);
+    case 'openIdConnect':
+      return !!credentials.token;
+  }
+  return false;
+}
+
+interface GetOAuth2TokenOpts {
+  tokenUrl: string;
+  credentials: SecuritySchemeCredentials;
+  scopes: string[];
+  tokenCache: OAuth2TokenCache;
+  fetch: MeshFetch;
+  context: any;
+  info: GraphQLResolveInfo;
+  forceRefresh?: boolean;
+}
+
+async function fetchOAuth2Token({
+  tokenUrl,
+  credentials,
+  scopes,
+  fetch,
+  context,
+  info,
+}: GetOAuth2TokenOpts): Promise<OAuth2Token> {
+  const body = new URLSearchParams({
+    grant_type: 'client_credentials',
+  });
+  if (scopes.length) {
+    body.set('scope', scopes.join(' '));
+  }
+  const response = await fetch(
+    tokenUrl,
+    {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+        accept: 'application/json',
+        authorization: `Basic ${encodeBase64(
+          `${encodeURIComponent(credentials.clientId)}:${encodeURIComponent(credentials.clientSecret || '')}`,
+        )}`,
+      },
+      body: body.toString(),
+    },
+    context,
+    info,
+  );
+  const responseText = await response.text();
+  if (!response.ok) {
+    throw createGraphQLError(
+      `Could not get an OAuth2 token from ${tokenUrl}: ${response.status} ${response.statusText}`,
+      {
+        extensions: {
+          request: {
+            url: tokenUrl,
+            method: 'POST',
+          },
+          response: {
+            status: response.status,
+            statusText: response.statusText,
+            body: responseText,
+          },
+        },
+      },
+    );
+  }
+  const tokenResponse = JSON.parse(responseText);
+  if (!tokenResponse.access_token) {
+    throw createGraphQLError(`OAuth2 token response from ${tokenUrl} has no access_token`);
+  }
+  return {
+    accessToken: tokenResponse.access_token,
+    expiresAt: tokenResponse.expires_in
+      ? Date.now() + Number(tokenResponse.expires_in) * 1000 - TOKEN_EXPIRATION_LEEWAY
+      : undefined,
+  };
+}
+
+async function getOAuth2Token(opts: GetOAuth2TokenOpts) {
+  const cacheKey = JSON.stringify([opts.tokenUrl, opts.credentials.clientId, opts.scopes]);
+  let token$ = opts.tokenCache.get(cacheKey);
+  if (token$ && !opts.forceRefresh) {
+    const token = await token$;
+    if (token.expiresAt == null || token.expiresAt > Date.now()) {
+      return token.accessToken;
+    }
+  }
+  token$ = fetchOAuth2Token(opts);
+  opts.tokenCache.set(cacheKey, token$);
+  // Failed requests shouldn't be cached
+  token$.catch(() => {
+    if (opts.tokenCache.get(cacheKey) === token$) {
+      opts.tokenCache.delete(cacheKey);
+    }
+  });
+  const token = await token$;
+  return token.accessToken;
+}
+
+export interface ApplySecurityRequirementsOpts {
+  requirements: SecurityRequirement[];
+  securitySchemes: Record<string, SecurityScheme>;
+  headers: Record<string, string>;
+  interpolationData: Record<string, any>;
+  tokenCache: OAuth2TokenCache;
+  fetch: MeshFetch;
+  context: any;
+  info: GraphQLResolveInfo;
+  logger: Logger;
+  forceRefresh?: boolean;
+}
+
+export interface AppliedSecurityRequirement {
+  queryParams: Record<string, string>;
+  /**
+   * If the credentials can be renewed; so the request can be retried on 401
+   */
+  refreshable: boolean;
+}
+
+/**
+ * Picks the first security requirement that can be satisfied by the configured credentials,
+ * then sets the headers and returns the query parameters for it
+ */
+export async function applySecurityRequirements({
+  requirements,
+  securitySchemes,
+  headers,
+  interpolationData,
+  tokenCache,
+  fetch,
+  context,
+  info,
+  logger,
+  forceRefresh,
+}: ApplySecurityRequirementsOpts): Promise<AppliedSecurityRequirement> {
+  const appliedSecurityRequirement: AppliedSecurityRequirement = {
+    queryParams: {},
+    refreshable: false,
+  };
+  const credentialsBySchemeName: Record<string, SecuritySchemeCredentials> = {};
+  const requirement = requirements.find(requirement => {
+    const schemeNames = Object.keys(requirement);
+    // An empty requirement means the operation can be called anonymously
+    if (!schemeNames.length) {
+      return false;
+    }
+    return schemeNames.every(schemeName => {
+      const scheme = securitySchemes[schemeName];
+      if (!scheme) {
+        return false;
+      }
+      credentialsBySchemeName[schemeName] ||= interpolateCredentials(
+        scheme.credentials,
+        interpolationData,
+      );
+      return hasCredentials(scheme, credentialsBySchemeName[schemeName]);
+    });
+  });
+  if (!requirement) {
+    if (!requirements.some(requirement => !Object.keys(requirement).length)) {
+      logger.debug(
+        `No credentials configured for any of the security requirements; ${requirements
+          .map(requirement => Object.keys(requirement).join(' & '))
+          .join(' | ')}`,
+      );
+    }
+    return appliedSecurityRequirement;
+  }
+  for (const schemeName in requirement) {
+    const scheme = securitySchemes[schemeName];
+    const credentials = credentialsBySchemeName[schemeName];
+    switch (scheme.type) {
+      case 'apiKey':
+        switch (scheme.in) {
+          case 'query':
+            appliedSecurityRequirement.queryParams[scheme.parameterName] = credentials.apiKey;
+            break;
+          case 'cookie': {
+            const cookie = `${scheme.parameterName}=${credentials.apiKey}`;
+            headers.cookie = headers.cookie
+              ? `${headers.cookie.replace(/;\s*$/, '')}; ${cookie}`
+              : cookie;
+            break;
+          }
+          default:
+            headers[scheme.parameterName.toLowerCase()] = credentials.apiKey;
+        }
+        break;
+      case 'http': {
+        const authScheme = scheme.scheme?.toLowerCase() || 'bearer';
+        if (authScheme === 'basic') {
+          headers.authorization = `Basic ${encodeBase64(
+            `${credentials.username}:${credentials.password || ''}`,
+          )}`;
+        } else if (authScheme === 'bearer') {
+          headers.authorization = `Bearer ${credentials.token}`;
+        } else {
+          headers.authorization = `${scheme.scheme} ${credentials.token}`;
+        }
+        break;
+      }
+      case 'oauth2':
+        if (scheme.tokenUrl && credentials.clientId) {
+          const accessToken = await getOAuth2Token({
+            tokenUrl: scheme.tokenUrl,
+            credentials,
+            scopes: [...new Set([...requirement[schemeName], ...(credentials.scopes || [])])],
+            tokenCache,
+            fetch,
+            context,
+            info,
+            forceRefresh,
+          });
+          headers.authorization = `Bearer ${accessToken}`;
+          appliedSecurityRequirement.refreshable = true;
+        } else {
+          headers.authorization = `Bearer ${credentials.token}`;
+        }
+        break;
+      case 'openIdConnect':
+        headers.authorization = `Bearer ${credentials.token}`;
+        break;
+    }
+  }
+  return appliedSecurityRequirement;
+}
@@ -1,9 +1,11 @@
 import { createDefaultExecutor, type Transport } from '@graphql-mesh/transport-common';
 import { processDirectives, type ProcessDirectiveArgs } from './directives/process.js';
+import type { SecuritySchemeCredentials } from './directives/security.js';
 
 export interface RESTTransportOptions {
   timeout?: number;
   queryParams?: Record<string, string>;
+  securityCredentials?: Record<string, SecuritySchemeCredentials>;
 }
 
 export default {
@@ -23,3 +25,9 @@ export default {
 export { processDirectives } from './directives/process.js';
 export type { ProcessDirectiveArgs } from './directives/process.js';
 export { processScalarType } from './directives/scalars.js';
+export type { PaginationConfig } from './directives/pagination.js';
+export type {
+  SecurityRequirement,
+  SecurityScheme,
+  SecuritySchemeCredentials,
+} from './directives/security.js';
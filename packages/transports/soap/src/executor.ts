@@ -7,8 +7,11 @@ import type {
 } from 'graphql';
 import { isListType, isNonNullType } from 'graphql';
 import { process } from '@graphql-mesh/cross-helpers';
-import type { ResolverDataBasedFactory } from '@graphql-mesh/string-interpolation';
-import { getInterpolatedHeadersFactory } from '@graphql-mesh/string-interpolation';
+import type { ResolverData, ResolverDataBasedFactory } from '@graphql-mesh/string-interpolation';
+import {
+  getInterpolatedHeadersFactory,
+  stringInterpolator,
+} from '@graphql-mesh/string-interpolation';
 import type { MeshFetch } from '@graphql-mesh/types';
 import { normalizedExecutor } from '@graphql-tools/executor';
 import {
@@ -17,8 +20,24 @@ import {
   getRootTypes,
   type Executor,
 } from '@graphql-tools/utils';
-import { fetch as defaultFetchFn } from '@whatwg-node/fetch';
+import { fetch as defaultFetchFn, type Blob } from '@whatwg-node/fetch';
+import {
+  createMTOMRequest,
+  extractAttachments,
+  isBlob,
+  parseMTOMResponse,
+  resolveXOPIncludes,
+  type MTOMAttachment,
+} from './mtom.js';
 import { parseXmlOptions } from './parseXmlOptions.js';
+import { createWSSecurityHeader, type WSSecurityOptions } from './wsSecurity.js';
+
+const SOAP_ENVELOPE_NAMESPACES = {
+  '1.1': 'http://schemas.xmlsoap.org/soap/envelope/',
+  '1.2': 'http://www.w3.org/2003/05/soap-envelope',
+};
+
+const REDACTED = '[REDACTED]';
 
 function isOriginallyListType(type: GraphQLOutputType): boolean {
   if (isNonNullType(type)) {
@@ -50,6 +69,10 @@ const defaultFieldResolver: GraphQLFieldResolver<any, any> = function soapDefaul
 };
 
 function normalizeArgsForConverter(args: any): any {
+  // Files are sent as MTOM attachments
+  if (isBlob(args)) {
+    return args;
+  }
   if (args != null) {
     if (typeof args === 'object') {
       for (const key in args) {
@@ -79,6 +102,84 @@ function normalizeResult(result: any) {
   return result;
 }
 
+function interpolateValue(value: any, resolverData: ResolverData): any {
+  if (typeof value === 'string') {
+    return stringInterpolator.parse(value, resolverData);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateValue(item, resolverData));
+  }
+  if (value != null && typeof value === 'object') {
+    const interpolatedValue: Record<string, any> = {};
+    for (const key in value) {
+      interpolatedValue[key] = interpolateValue(value[key], resolverData);
+    }
+    return interpolatedValue;
+  }
+  return value;
+}
+
+function getFirstText(value: any) {
+  // Multiple texts can be sent in different languages
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Creates the GraphQL error of the SOAP 1.1 `faultcode`, `faultstring`, `faultactor` and `detail`,
+ * or the SOAP 1.2 `Code`, `Reason`, `Node`, `Role` and `Detail`;
+ * `faultType` is the element name of the WSDL-declared fault found in the detail.
+ * The request in the extensions has to be the one with the redacted headers,
+ * since the faults like the authentication failures are sent to the clients.
+ */
+function createSoapFaultError(
+  soapFault: any,
+  errorExtensions: Record<string, any>,
+  declaredFaults: string[] = [],
+) {
+  const fault = normalizeResult(soapFault);
+  const faultExtensions: Record<string, any> = {};
+  let message: string;
+  let detail: any;
+  if (fault.Code != null) {
+    message = getFirstText(fault.Reason?.Text);
+    faultExtensions.Code = fault.Code;
+    faultExtensions.Reason = message;
+    if (fault.Node != null) {
+      faultExtensions.Node = fault.Node;
+    }
+    if (fault.Role != null) {
+      faultExtensions.Role = fault.Role;
+    }
+    if (fault.Detail != null) {
+      detail = faultExtensions.Detail = fault.Detail;
+    }
+  } else {
+    message = getFirstText(fault.faultstring);
+    faultExtensions.faultcode = fault.faultcode;
+    faultExtensions.faultstring = message;
+    if (fault.faultactor != null) {
+      faultExtensions.faultactor = fault.faultactor;
+    }
+    if (fault.detail != null) {
+      detail = faultExtensions.detail = fault.detail;
+    }
+  }
+  if (detail != null && typeof detail === 'object') {
+    const faultType = (Object.keys(detail) as string[]).find(elementName =>
+      declaredFaults.includes(elementName),
+    );
+    if (faultType) {
+      faultExtensions.faultType = faultType;
+    }
+  }
+  return createGraphQLError(message || 'SOAP Fault', {
+    extensions: {
+      ...faultExtensions,
+      ...errorExtensions,
+    },
+  });
+}
+
 type RootValueMethod = (args: any, context: any, info: GraphQLResolveInfo) => Promise<any>;
 
 interface SoapAnnotations {
@@ -86,6 +187,22 @@ interface SoapAnnotations {
   endpoint: string;
   bindingNamespace: string;
   elementName: string;
+  soapVersion?: '1.1' | '1.2';
+  soapAction?: string;
+  soapHeaders?: string[];
+  soapFaults?: string[];
+}
+
+export interface SOAPExecutorOptions {
+  /**
+   * Elements added to `soap:Header` of every request;
+   * the strings are interpolated with `args`, `context` and `env`
+   */
+  soapHeaders?: Record<string, any>;
+  /**
+   * Adds the WS-Security header to every request
+   */
+  wsSecurity?: WSSecurityOptions;
 }
 
 interface CreateRootValueMethodOpts {
@@ -94,6 +211,7 @@ interface CreateRootValueMethodOpts {
   jsonToXMLConverter: JSONToXMLConverter;
   xmlToJSONConverter: XMLParser;
   operationHeadersFactory: ResolverDataBasedFactory<Record<string, string>>;
+  options: SOAPExecutorOptions;
 }
 
 function createRootValueMethod({
@@ -102,83 +220,182 @@ function createRootValueMethod({
   jsonToXMLConverter,
   xmlToJSONConverter,
   operationHeadersFactory,
+  options,
 }: CreateRootValueMethodOpts): RootValueMethod {
+  // Schemas annotated before the binding version was detected use SOAP 1.2
+  const soapVersion = soapAnnotations.soapVersion || '1.2';
+  const soapHeaderArgNames = soapAnnotations.soapHeaders || [];
   return async function rootValueMethod(args: any, context: any, info: GraphQLResolveInfo) {
-    const requestJson = {
-      'soap:Envelope': {
-        attributes: {
-          'xmlns:soap': 'http://www.w3.org/2003/05/soap-envelope',
-        },
-        'soap:Body': {
+    const resolverData: ResolverData = {
+      args,
+      context,
+      info,
+      env: process.env,
+    };
+    const bodyArgs: Record<string, any> = {};
+    const soapHeader: Record<string, any> = {};
+    for (const argName in args) {
+      if (soapHeaderArgNames.includes(argName)) {
+        soapHeader[argName] = normalizeArgsForConverter(args[argName]);
+      } else {
+        bodyArgs[argName] = args[argName];
+      }
+    }
+    // The configured headers might have credentials, so they are redacted in the errors
+    const redactedSoapHeader: Record<string, any> = {};
+    if (options.soapHeaders) {
+      const configuredSoapHeader = interpolateValue(options.soapHeaders, resolverData);
+      Object.assign(soapHeader, configuredSoapHeader);
+      for (const headerName in configuredSoapHeader) {
+        redactedSoapHeader[headerName] = REDACTED;
+      }
+    }
+    if (options.wsSecurity) {
+      soapHeader['wsse:Security'] = await createWSSecurityHeader(
+        interpolateValue(options.wsSecurity, resolverData),
+        'soap',
+      );
+      redactedSoapHeader['wsse:Security'] = REDACTED;
+    }
+    const attachments: MTOMAttachment[] = [];
+    const requestJson = extractAttachments(
+      {
+        'soap:Envelope': {
           attributes: {
-            xmlns: soapAnnotations.bindingNamespace,
+            'xmlns:soap': SOAP_ENVELOPE_NAMESPACES[soapVersion],
+          },
+          ...(Object.keys(soapHeader).length > 0 && {
+            'soap:Header': {
+              attributes: {
+                xmlns: soapAnnotations.bindingNamespace,
+              },
+              ...soapHeader,
+            },
+          }),
+          'soap:Body': {
+            attributes: {
+              xmlns: soapAnnotations.bindingNamespace,
+            },
+            ...normalizeArgsForConverter(bodyArgs),
           },
-          ...normalizeArgsForConverter(args),
         },
       },
-    };
+      attachments,
+    );
     const requestXML = jsonToXMLConverter.build(requestJson);
     const currentFetchFn = context?.fetch || fetchFn;
+    const soapAction = soapAnnotations.soapAction || '';
+    const soapContentType = soapVersion === '1.1' ? 'text/xml' : 'application/soap+xml';
+    // SOAP 1.2 sends the action as a parameter of the content type
+    const actionParameter = soapVersion === '1.2' && soapAction ? `; action="${soapAction}"` : '';
+    const soapHTTPHeaders: Record<string, string> = {};
+    let requestBody: string | Blob = requestXML;
+    if (attachments.length) {
+      const mtomRequest = await createMTOMRequest(requestXML, attachments, soapContentType);
+      requestBody = mtomRequest.body;
+      soapHTTPHeaders['Content-Type'] = mtomRequest.contentType + actionParameter;
+    } else {
+      soapHTTPHeaders['Content-Type'] = `${soapContentType}; charset=utf-8${actionParameter}`;
+    }
+    if (soapVersion === '1.1') {
+      soapHTTPHeaders.SOAPAction = `"${soapAction}"`;
+    }
     const response = await currentFetchFn(
       soapAnnotations.endpoint,
       {
         method: 'POST',
-        body: requestXML,
+        body: requestBody,
         headers: {
-          'Content-Type': 'application/soap+xml; charset=utf-8',
-          ...operationHeadersFactory({
-            args,
-            context,
-            info,
-            env: process.env,
-          }),
+          ...soapHTTPHeaders,
+          ...operationHeadersFactory(resolverData),
         },
       },
       context,
       info,
     );
-    const responseXML = await response.text();
-    if (!response.ok) {
-      return createGraphQLError(`Upstream HTTP Error: ${response.status}`, {
-        extensions: {
-          subgraph: soapAnnotations.subgraph,
-          request: {
-            url: soapAnnotations.endpoint,
-            method: 'POST',
-            body: requestXML,
-          },
-          response: {
-            status: response.status,
-            statusText: response.statusText,
-            get headers() {
-              return Object.fromEntries(response.headers.entries());
+    const requestExtensions = {
+      url: soapAnnotations.endpoint,
+      method: 'POST',
+      get body() {
+        if (Object.keys(redactedSoapHeader).length === 0) {
+          return requestXML;
+        }
+        const envelope = requestJson['soap:Envelope'];
+        return jsonToXMLConverter.build({
+          'soap:Envelope': {
+            ...envelope,
+            'soap:Header': {
+              ...envelope['soap:Header'],
+              ...redactedSoapHeader,
             },
-            body: responseXML,
           },
+        });
+      },
+    };
+    const responseContentType = response.headers.get('content-type') || '';
+    let responseXML: string;
+    let responseAttachments: Map<string, Uint8Array>;
+    if (responseContentType.toLowerCase().startsWith('multipart/related')) {
+      const responseBytes = new Uint8Array(await response.arrayBuffer());
+      try {
+        ({ rootXML: responseXML, attachments: responseAttachments } = parseMTOMResponse(
+          responseBytes,
+          responseContentType,
+        ));
+      } catch (e) {
+        return createGraphQLError(`Invalid MTOM response: ${e.message}`, {
+          extensions: {
+            subgraph: soapAnnotations.subgraph,
+            request: requestExtensions,
+          },
+        });
+      }
+    } else {
+      responseXML = await response.text();
+    }
+    const errorExtensions = {
+      subgraph: soapAnnotations.subgraph,
+      request: requestExtensions,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        get headers() {
+          return Object.fromEntries(response.headers.entries());
         },
+        body: responseXML,
+      },
+    };
+    let responseJSON: any;
+    try {
+      responseJSON = xmlToJSONConverter.parse(responseXML, parseXmlOptions);
+    } catch (e) {
+      if (!response.ok) {
+        return createGraphQLError(`Upstream HTTP Error: ${response.status}`, {
+          extensions: errorExtensions,
+        });
+      }
+      return createGraphQLError(`Invalid SOAP response: ${e.message}`, {
+        extensions: errorExtensions,
+      });
+    }
+    if (responseAttachments?.size) {
+      resolveXOPIncludes(responseJSON, responseAttachments);
+    }
+    // Faults are usually sent with 500 status code
+    const soapFault = responseJSON?.Envelope?.[0]?.Body?.[0]?.Fault?.[0];
+    if (soapFault) {
+      return createSoapFaultError(soapFault, errorExtensions, soapAnnotations.soapFaults);
+    }
+    if (!response.ok) {
+      return createGraphQLError(`Upstream HTTP Error: ${response.status}`, {
+        extensions: errorExtensions,
       });
     }
     try {
-      const responseJSON = xmlToJSONConverter.parse(responseXML, parseXmlOptions);
       return normalizeResult(responseJSON.Envelope[0].Body[0][soapAnnotations.elementName]);
     } catch (e) {
       return createGraphQLError(`Invalid SOAP response: ${e.message}`, {
-        extensions: {
-          subgraph: soapAnnotations.subgraph,
-          request: {
-            url: soapAnnotations.endpoint,
-            method: 'POST',
-            body: requestXML,
-          },
-          response: {
-            status: response.status,
-            statusText: response.statusText,
-            get headers() {
-              return Object.fromEntries(response.headers.entries());
-            },
-            body: responseXML,
-          },
-        },
+        extensions: errorExtensions,
       });
     }
   };
@@ -188,6 +405,7 @@ function createRootValue(
   schema: GraphQLSchema,
   fetchFn: MeshFetch,
   operationHeaders: Record<string, string>,
+  options: SOAPExecutorOptions,
 ) {
   const rootValue: Record<string, RootValueMethod> = {};
   const rootTypes = getRootTypes(schema);
@@ -219,6 +437,7 @@ function createRootValue(
           jsonToXMLConverter,
           xmlToJSONConverter,
           operationHeadersFactory,
+          options,
         });
       }
     }
@@ -230,11 +449,12 @@ export function createExecutorFromSchemaAST(
   schema: GraphQLSchema,
   fetchFn: MeshFetch = defaultFetchFn,
   operationHeaders: Record<string, string> = {},
+  options: SOAPExecutorOptions = {},
 ): Executor {
   let rootValue: Record<string, RootValueMethod>;
   return function soapExecutor({ document, variables, context }) {
     if (!rootValue) {
-      rootValue = createRootValue(schema, fetchFn, operationHeaders);
+      rootValue = createRootValue(schema, fetchFn, operationHeaders, options);
     }
     return normalizedExecutor({
       schema,
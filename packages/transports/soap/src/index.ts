@@ -1,7 +1,8 @@
 import type { Transport } from '@graphql-mesh/transport-common';
 import { createExecutorFromSchemaAST } from './executor.js';
 
-export { createExecutorFromSchemaAST } from './executor.js';
+export { createExecutorFromSchemaAST, type SOAPExecutorOptions } from './executor.js';
+export type { WSSecurityOptions } from './wsSecurity.js';
 
 export default {
   getSubgraphExecutor({ transportEntry, subgraph, fetch }) {
@@ -12,6 +13,6 @@ export default {
     if (Array.isArray(transportEntry.headers)) {
       headers = Object.fromEntries(transportEntry.headers);
     }
-    return createExecutorFromSchemaAST(subgraph, fetch, headers);
+    return createExecutorFromSchemaAST(subgraph, fetch, headers, transportEntry.options);
   },
 } satisfies Transport;
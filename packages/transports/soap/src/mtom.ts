@@ -0,0 +1,187 @@
+import { Blob, crypto, TextDecoder, TextEncoder } from '@whatwg-node/fetch';
+import { toBase64 } from './utils.js';
+
+const XOP_NAMESPACE = 'http://www.w3.org/2004/08/xop/include';
+
+export interface MTOMAttachment {
+  contentId: string;
+  file: Blob;
+}
+
+export function isBlob(value: any): value is Blob {
+  return value != null && typeof value === 'object' && typeof value.arrayBuffer === 'function';
+}
+
+/**
+ * Replaces the files in the request with `xop:Include` references to the MTOM attachments
+ */
+export function extractAttachments(value: any, attachments: MTOMAttachment[]): any {
+  if (isBlob(value)) {
+    const contentId = `${crypto.randomUUID()}@graphql-mesh`;
+    attachments.push({ contentId, file: value });
+    return {
+      'xop:Include': {
+        attributes: {
+          'xmlns:xop': XOP_NAMESPACE,
+          href: `cid:${encodeURIComponent(contentId)}`,
+        },
+      },
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => extractAttachments(item, attachments));
+  }
+  if (value != null && typeof value === 'object') {
+    const valueWithReferences: Record<string, any> = {};
+    for (const key in value) {
+      valueWithReferences[key] = extractAttachments(value[key], attachments);
+    }
+    return valueWithReferences;
+  }
+  return value;
+}
+
+/**
+ * Creates the `multipart/related` body of the XOP package with the envelope and the attachments
+ */
+export async function createMTOMRequest(
+  envelopeXML: string,
+  attachments: MTOMAttachment[],
+  soapContentType: string,
+) {
+  const boundary = `MIMEBoundary_${crypto.randomUUID()}`;
+  const rootContentId = `root.${crypto.randomUUID()}@graphql-mesh`;
+  const parts: (string | Uint8Array)[] = [
+    `--${boundary}\r\n` +
+      `Content-Type: application/xop+xml; charset=UTF-8; type="${soapContentType}"\r\n` +
+      'Content-Transfer-Encoding: 8bit\r\n' +
+      `Content-ID: <${rootContentId}>\r\n\r\n` +
+      envelopeXML,
+  ];
+  for (const { contentId, file } of attachments) {
+    parts.push(
+      `\r\n--${boundary}\r\n` +
+        `Content-Type: ${file.type || 'application/octet-stream'}\r\n` +
+        'Content-Transfer-Encoding: binary\r\n' +
+        `Content-ID: <${contentId}>\r\n\r\n`,
+      // The files of another Blob implementation cannot be nested in the Blob of the body
+      new Uint8Array(await file.arrayBuffer()),
+    );
+  }
+  parts.push(`\r\n--${boundary}--\r\n`);
+  return {
+    body: new Blob(parts),
+    contentType: `multipart/related; type="application/xop+xml"; start="<${rootContentId}>"; start-info="${soapContentType}"; boundary="${boundary}"`,
+  };
+}
+
+function getContentTypeParameter(contentType: string, parameterName: string) {
+  const match = new RegExp(`;\\s*${parameterName}=(?:"([^"]*)"|([^;\\s]*))`, 'i').exec(contentType);
+  return match?.[1] ?? match?.[2];
+}
+
+function hasBytesAt(bytes: Uint8Array, searchBytes: Uint8Array, index: number) {
+  for (let j = 0; j < searchBytes.length; j++) {
+    if (bytes[index + j] !== searchBytes[j]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function indexOfBytes(bytes: Uint8Array, searchBytes: Uint8Array, fromIndex = 0) {
+  const lastIndex = bytes.length - searchBytes.length;
+  for (let i = fromIndex; i <= lastIndex; i++) {
+    if (hasBytesAt(bytes, searchBytes, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function trimContentId(contentId = '') {
+  return contentId.trim().replace(/^<|>$/g, '');
+}
+
+/**
+ * Splits the `multipart/related` response of the XOP package into the root envelope and the
+ * attachments by their `Content-ID`
+ */
+export function parseMTOMResponse(bytes: Uint8Array, contentType: string) {
+  const textEncoder = new TextEncoder();
+  const textDecoder = new TextDecoder();
+  const boundary = getContentTypeParameter(contentType, 'boundary');
+  if (!boundary) {
+    throw new Error(`Boundary is missing in the content type: ${contentType}`);
+  }
+  const rootContentId = trimContentId(getContentTypeParameter(contentType, 'start'));
+  const delimiter = textEncoder.encode(`--${boundary}`);
+  const headersDelimiter = textEncoder.encode('\r\n\r\n');
+  const attachments = new Map<string, Uint8Array>();
+  let rootXML: string;
+  let delimiterIndex = indexOfBytes(bytes, delimiter);
+  while (delimiterIndex !== -1) {
+    const partStart = delimiterIndex + delimiter.length;
+    const nextDelimiterIndex = indexOfBytes(bytes, delimiter, partStart);
+    if (nextDelimiterIndex === -1) {
+      // The closing delimiter
+      break;
+    }
+    let partEnd = nextDelimiterIndex;
+    // The line break before the delimiter belongs to the delimiter
+    if (bytes[partEnd - 1] === 10) {
+      partEnd--;
+    }
+    if (bytes[partEnd - 1] === 13) {
+      partEnd--;
+    }
+    const part = bytes.subarray(partStart, partEnd);
+    const headersEnd = indexOfBytes(part, headersDelimiter);
+    const headers = new Map<string, string>();
+    for (const headerLine of textDecoder.decode(part.subarray(0, headersEnd)).split('\r\n')) {
+      const separatorIndex = headerLine.indexOf(':');
+      if (separatorIndex > 0) {
+        headers.set(
+          headerLine.slice(0, separatorIndex).trim().toLowerCase(),
+          headerLine.slice(separatorIndex + 1).trim(),
+        );
+      }
+    }
+    const content = part.subarray(headersEnd + headersDelimiter.length);
+    const contentId = trimContentId(headers.get('content-id'));
+    if (rootXML == null && (!rootContentId || contentId === rootContentId)) {
+      rootXML = textDecoder.decode(content);
+    } else {
+      attachments.set(contentId, content);
+    }
+    delimiterIndex = nextDelimiterIndex;
+  }
+  if (rootXML == null) {
+    throw new Error('Root part of the multipart response is missing');
+  }
+  return {
+    rootXML,
+    attachments,
+  };
+}
+
+/**
+ * Replaces the `xop:Include` references in the parsed response with the base64 encoded attachments
+ */
+export function resolveXOPIncludes(value: any, attachments: Map<string, Uint8Array>): any {
+  if (value != null && typeof value === 'object') {
+    const href = value.Include?.[0]?.attributes?.href;
+    if (typeof href === 'string' && href.startsWith('cid:')) {
+      const attachment = attachments.get(decodeURIComponent(href.slice('cid:'.length)));
+      if (attachment) {
+        return {
+          innerText: toBase64(attachment),
+        };
+      }
+    }
+    for (const key in value) {
+      value[key] = resolveXOPIncludes(value[key], attachments);
+    }
+  }
+  return value;
+}
@@ -0,0 +1,12 @@
+import { btoa } from '@whatwg-node/fetch';
+
+const BASE64_CHUNK_SIZE = 0x8000;
+
+export function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  // Attachments can be large, so the bytes are converted in chunks
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
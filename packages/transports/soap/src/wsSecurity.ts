@@ -0,0 +1,122 @@
+import { crypto, TextEncoder } from '@whatwg-node/fetch';
+import { toBase64 } from './utils.js';
+
+const WSSE_NAMESPACE =
+  'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd';
+const WSU_NAMESPACE =
+  'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd';
+const USERNAME_TOKEN_PROFILE =
+  'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0';
+const BASE64_ENCODING_TYPE =
+  'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary';
+
+export interface WSSecurityOptions {
+  /**
+   * Username of the `UsernameToken`
+   */
+  username?: string;
+  /**
+   * Password of the `UsernameToken`
+   */
+  password?: string;
+  /**
+   * `PasswordDigest` sends the password hashed with a nonce and the creation time
+   * @default PasswordText
+   */
+  passwordType?: 'PasswordText' | 'PasswordDigest';
+  /**
+   * Adds a `Timestamp` to the security header
+   */
+  timestamp?: boolean;
+  /**
+   * Seconds until the `Timestamp` expires
+   * @default 300
+   */
+  timestampTTL?: number;
+  /**
+   * Marks the security header with `mustUnderstand`
+   */
+  mustUnderstand?: boolean;
+}
+
+async function getPasswordDigest(nonce: Uint8Array, created: string, password: string) {
+  const textEncoder = new TextEncoder();
+  const createdBytes = textEncoder.encode(created);
+  const passwordBytes = textEncoder.encode(password);
+  const digestInput = new Uint8Array(nonce.length + createdBytes.length + passwordBytes.length);
+  digestInput.set(nonce);
+  digestInput.set(createdBytes, nonce.length);
+  digestInput.set(passwordBytes, nonce.length + createdBytes.length);
+  const digest = await crypto.subtle.digest('SHA-1', digestInput);
+  return toBase64(new Uint8Array(digest));
+}
+
+/**
+ * Creates the `wsse:Security` header with the `UsernameToken` and `Timestamp`
+ * of the OASIS Web Services Security specification
+ */
+export async function createWSSecurityHeader(
+  {
+    username,
+    password,
+    passwordType,
+    timestamp,
+    timestampTTL = 300,
+    mustUnderstand,
+  }: WSSecurityOptions,
+  envelopePrefix: string,
+) {
+  const now = new Date();
+  const created = now.toISOString();
+  const securityHeader: Record<string, any> = {
+    attributes: {
+      'xmlns:wsse': WSSE_NAMESPACE,
+      'xmlns:wsu': WSU_NAMESPACE,
+      ...(mustUnderstand && { [`${envelopePrefix}:mustUnderstand`]: '1' }),
+    },
+  };
+  if (timestamp) {
+    securityHeader['wsu:Timestamp'] = {
+      attributes: {
+        'wsu:Id': 'TS-1',
+      },
+      'wsu:Created': created,
+      'wsu:Expires': new Date(now.getTime() + timestampTTL * 1000).toISOString(),
+    };
+  }
+  if (username) {
+    const usernameToken: Record<string, any> = {
+      attributes: {
+        'wsu:Id': 'UsernameToken-1',
+      },
+      'wsse:Username': username,
+    };
+    if (password != null) {
+      if (passwordType === 'PasswordDigest') {
+        const nonce = crypto.getRandomValues(new Uint8Array(16));
+        usernameToken['wsse:Password'] = {
+          attributes: {
+            Type: `${USERNAME_TOKEN_PROFILE}#PasswordDigest`,
+          },
+          innerText: await getPasswordDigest(nonce, created, password),
+        };
+        usernameToken['wsse:Nonce'] = {
+          attributes: {
+            EncodingType: BASE64_ENCODING_TYPE,
+          },
+          innerText: toBase64(nonce),
+        };
+        usernameToken['wsu:Created'] = created;
+      } else {
+        usernameToken['wsse:Password'] = {
+          attributes: {
+            Type: `${USERNAME_TOKEN_PROFILE}#PasswordText`,
+          },
+          innerText: password,
+        };
+      }
+    }
+    securityHeader['wsse:UsernameToken'] = usernameToken;
+  }
+  return securityHeader;
+}
@@ -0,0 +1,77 @@
+import { fs, path } from '@graphql-mesh/cross-helpers';
+
+export interface SQLiteRunResult {
+  changes: number;
+  lastID: number;
+}
+
+/**
+ * The minimal interface the transport needs from a SQLite driver,
+ * so other drivers can be used by wrapping them
+ */
+export interface SQLiteDatabase {
+  all<TRow = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<TRow[]>;
+  run(sql: string, params?: unknown[]): Promise<SQLiteRunResult>;
+  exec(sql: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface OpenSQLiteDatabaseOpts {
+  /** Path to the database file, or the SQL dump file if `type` is `infile` */
+  location: string;
+  /** `infile` creates an in-memory database from the SQL dump file */
+  type?: 'db' | 'infile';
+  cwd?: string;
+}
+
+export async function openSQLiteDatabase({
+  location,
+  type = 'db',
+  cwd,
+}: OpenSQLiteDatabaseOpts): Promise<SQLiteDatabase> {
+  const sqlite3Module = await import('sqlite3').catch(e => {
+    console.error(e);
+    throw new Error(
+      'Cannot import `sqlite3` package necessary for SQLite data source. Have you installed it?',
+    );
+  });
+  const sqlite3 = ('default' in sqlite3Module ? sqlite3Module.default : sqlite3Module) as any;
+  const absolutePath = path.isAbsolute(location) || !cwd ? location : path.join(cwd, location);
+  const filename = type === 'infile' ? ':memory:' : absolutePath;
+  const db = await new Promise<any>((resolve, reject) => {
+    const db = new sqlite3.Database(filename, (err: Error) => (err ? reject(err) : resolve(db)));
+  });
+  const database: SQLiteDatabase = {
+    all(sql, params = []) {
+      return new Promise((resolve, reject) => {
+        db.all(sql, params, (err: Error, rows: any[]) => (err ? reject(err) : resolve(rows)));
+      });
+    },
+    run(sql, params = []) {
+      return new Promise((resolve, reject) => {
+        db.run(sql, params, function (this: SQLiteRunResult, err: Error) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve({ changes: this.changes, lastID: this.lastID });
+          }
+        });
+      });
+    },
+    exec(sql) {
+      return new Promise((resolve, reject) => {
+        db.exec(sql, (err: Error) => (err ? reject(err) : resolve()));
+      });
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        db.close((err: Error) => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+  if (type === 'infile') {
+    const dump = await fs.promises.readFile(absolutePath, 'utf-8');
+    await database.exec(dump);
+  }
+  return database;
+}
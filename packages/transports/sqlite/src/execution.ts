@@ -0,0 +1,396 @@
+import DataLoader from 'dataloader';
+import type { GraphQLSchema } from 'graphql';
+import { getNamedType, getNullableType, isListType, isObjectType } from 'graphql';
+import type { DisposableExecutor } from '@graphql-mesh/transport-common';
+import { getDefDirectives, makeAsyncDisposable } from '@graphql-mesh/utils';
+import { createDefaultExecutor } from '@graphql-tools/delegate';
+import { getDirective, MapperKind, mapSchema, type ExecutionRequest } from '@graphql-tools/utils';
+import { openSQLiteDatabase, type SQLiteDatabase } from './database.js';
+import {
+  buildOrderBy,
+  buildSelect,
+  buildWhere,
+  getColumnValues,
+  joinConditions,
+  quoteIdentifier,
+  type SQLFragment,
+} from './sql.js';
+
+type Row = Record<string, unknown>;
+
+/** Arguments that are not the columns of the table */
+const reservedArgNames = ['where', 'orderBy', 'limit', 'offset', 'input'];
+
+export interface GetSQLiteExecutorOpts {
+  subgraph: GraphQLSchema;
+  /** The database to use instead of opening the one in the `@transport` directive */
+  database?: SQLiteDatabase | Promise<SQLiteDatabase>;
+  cwd?: string;
+}
+
+/**
+ * Maps the fields of the types to the columns of the tables by `@sqliteTable` and `@sqliteColumn`
+ */
+function getColumnsByTable(subgraph: GraphQLSchema) {
+  const columnsByTable = new Map<string, Map<string, string>>();
+  const typeMap = subgraph.getTypeMap();
+  for (const typeName in typeMap) {
+    const type = typeMap[typeName];
+    if (!isObjectType(type)) {
+      continue;
+    }
+    const table = getDirective(subgraph, type, 'sqliteTable')?.[0]?.table;
+    if (!table) {
+      continue;
+    }
+    const columns = new Map<string, string>();
+    for (const field of Object.values(type.getFields())) {
+      const column = getDirective(subgraph, field, 'sqliteColumn')?.[0]?.name;
+      if (column) {
+        columns.set(field.name, column);
+      }
+    }
+    columnsByTable.set(table, columns);
+  }
+  return columnsByTable;
+}
+
+/**
+ * Equality conditions from the arguments that are the columns, e.g. the primary keys
+ */
+function getKeyConditions(args: Record<string, unknown>, columns: Map<string, string>) {
+  const conditions: SQLFragment[] = [];
+  for (const argName in args) {
+    const column = columns.get(argName);
+    if (reservedArgNames.includes(argName) || !column || args[argName] === undefined) {
+      continue;
+    }
+    conditions.push(
+      args[argName] === null
+        ? { sql: `${quoteIdentifier(column)} IS NULL`, params: [] }
+        : { sql: `${quoteIdentifier(column)} = ?`, params: [args[argName]] },
+    );
+  }
+  return conditions;
+}
+
+/**
+ * An empty filter matches all the rows, so it is not allowed for the updates and the deletions
+ */
+function assertFilter(where: SQLFragment, table: string, operation: string) {
+  if (where.sql === '1') {
+    throw new Error(
+      `Cannot ${operation} the rows of "${table}" without a filter; use a filter that matches all the rows explicitly`,
+    );
+  }
+}
+
+export function getSQLiteExecutor({
+  subgraph,
+  database,
+  cwd,
+}: GetSQLiteExecutorOpts): DisposableExecutor {
+  const transportDirective = getDirective(subgraph, subgraph, 'transport')?.[0];
+  let database$: Promise<SQLiteDatabase>;
+  function getDatabase() {
+    if (!database$) {
+      if (database) {
+        database$ = Promise.resolve(database);
+      } else if (transportDirective?.location) {
+        database$ = openSQLiteDatabase({
+          location: transportDirective.location,
+          type: transportDirective.options?.type,
+          cwd,
+        });
+      } else {
+        throw new Error(`No transport directives found in the schema`);
+      }
+    }
+    return database$;
+  }
+  const columnsByTable = getColumnsByTable(subgraph);
+  function getColumns(table: string) {
+    const columns = columnsByTable.get(table);
+    if (!columns) {
+      throw new Error(`No type found for the table "${table}"`);
+    }
+    return columns;
+  }
+  const loadersByContext = new WeakMap<object, Map<string, DataLoader<unknown[], Row[], string>>>();
+  function getLoader(
+    context: object,
+    loaderKey: string,
+    batchLoadFn: (keys: readonly unknown[][]) => Promise<Row[][]>,
+  ) {
+    let loaders = loadersByContext.get(context);
+    if (!loaders) {
+      loaders = new Map();
+      loadersByContext.set(context, loaders);
+    }
+    let loader = loaders.get(loaderKey);
+    if (!loader) {
+      loader = new DataLoader(batchLoadFn, { cacheKeyFn: key => JSON.stringify(key) });
+      loaders.set(loaderKey, loader);
+    }
+    return loader;
+  }
+
+  subgraph = mapSchema(subgraph, {
+    [MapperKind.OBJECT_FIELD](fieldConfig) {
+      const directives = getDefDirectives(subgraph, fieldConfig);
+      const returnsObject = isObjectType(getNamedType(fieldConfig.type));
+      const returnsList = isListType(getNullableType(fieldConfig.type));
+      for (const directive of directives) {
+        switch (directive.name) {
+          case 'sqliteColumn': {
+            const { name } = directive.args;
+            fieldConfig.resolve = function sqliteColumnResolver(root: Row) {
+              return root[name];
+            };
+            break;
+          }
+          case 'sqliteSelect': {
+            const { table, columnMap = [] } = directive.args as {
+              table: string;
+              columnMap?: [string, string][];
+            };
+            fieldConfig.resolve = async function sqliteSelectResolver(
+              root: Row,
+              args,
+              context,
+              info,
+            ) {
+              const columns = getColumns(table);
+              const selectedColumns = [...new Set(columns.values())];
+              const filter = joinConditions(
+                [buildWhere(args.where, columns), ...getKeyConditions(args, columns)],
+                'AND',
+              );
+              const orderBy = buildOrderBy(args.orderBy, columns);
+              const db = await getDatabase();
+              if (!columnMap.length) {
+                const { sql, params } = buildSelect({
+                  table,
+                  columns: selectedColumns,
+                  where: filter,
+                  orderBy,
+                  limit: args.limit,
+                  offset: args.offset,
+                });
+                const rows = await db.all<Row>(sql, params);
+                return returnsList ? rows : rows[0] || null;
+              }
+              const keyValues = columnMap.map(([sourceColumn]) => root[sourceColumn]);
+              if (keyValues.some(keyValue => keyValue == null)) {
+                return returnsList ? [] : null;
+              }
+              const targetColumns = columnMap.map(([, targetColumn]) => targetColumn);
+              // The rows of all the parents are loaded with a single query
+              const loader = getLoader(
+                context,
+                `${info.parentType.name}.${info.fieldName}(${JSON.stringify(args)})`,
+                async keys => {
+                  const keyCondition =
+                    targetColumns.length === 1
+                      ? {
+                          sql: `${quoteIdentifier(targetColumns[0])} IN (${keys.map(() => '?').join(', ')})`,
+                          params: keys.map(key => key[0]),
+                        }
+                      : joinConditions(
+                          keys.map(key =>
+                            joinConditions(
+                              targetColumns.map((targetColumn, i) => ({
+                                sql: `${quoteIdentifier(targetColumn)} = ?`,
+                                params: [key[i]],
+                              })),
+                              'AND',
+                            ),
+                          ),
+                          'OR',
+                        );
+                  const { sql, params } = buildSelect({
+                    table,
+                    columns: selectedColumns,
+                    where: joinConditions([keyCondition, filter], 'AND'),
+                    orderBy,
+                    limit: args.limit,
+                    offset: args.offset,
+                    partitionBy: targetColumns,
+                  });
+                  const rows = await db.all<Row>(sql, params);
+                  const rowsByKey = new Map<string, Row[]>();
+                  for (const row of rows) {
+                    const rowKey = JSON.stringify(targetColumns.map(column => row[column]));
+                    let rowsOfKey = rowsByKey.get(rowKey);
+                    if (!rowsOfKey) {
+                      rowsOfKey = [];
+                      rowsByKey.set(rowKey, rowsOfKey);
+                    }
+                    rowsOfKey.push(row);
+                  }
+                  return keys.map(key => rowsByKey.get(JSON.stringify(key)) || []);
+                },
+              );
+              const rows = await loader.load(keyValues);
+              return returnsList ? rows : rows[0] || null;
+            };
+            break;
+          }
+          case 'sqliteCount': {
+            const { table } = directive.args;
+            fieldConfig.resolve = async function sqliteCountResolver(root, args) {
+              const columns = getColumns(table);
+              const { sql, params } = buildWhere(args.where, columns);
+              const db = await getDatabase();
+              const [{ count }] = await db.all<{ count: number }>(
+                `SELECT COUNT(*) AS count FROM ${quoteIdentifier(table)} WHERE ${sql}`,
+                params,
+              );
+              return count;
+            };
+            break;
+          }
+          case 'sqliteInsert': {
+            const { table, primaryKeys = [] } = directive.args as {
+              table: string;
+              primaryKeys?: string[];
+            };
+            fieldConfig.resolve = async function sqliteInsertResolver(root, args) {
+              const columns = getColumns(table);
+              const columnValues = getColumnValues(args.input || {}, columns);
+              const db = await getDatabase();
+              const { lastID } = await db.run(
+                columnValues.length
+                  ? `INSERT INTO ${quoteIdentifier(table)} (${columnValues.map(([column]) => quoteIdentifier(column)).join(', ')}) VALUES (${columnValues.map(() => '?').join(', ')})`
+                  : `INSERT INTO ${quoteIdentifier(table)} DEFAULT VALUES`,
+                columnValues.map(([, value]) => value),
+              );
+              const insertedValues = new Map(columnValues);
+              // The inserted row is found by its primary keys, or by its `rowid` if they are generated
+              const where: SQLFragment =
+                primaryKeys.length &&
+                primaryKeys.every(column => insertedValues.get(column) != null)
+                  ? joinConditions(
+                      primaryKeys.map(column => ({
+                        sql: `${quoteIdentifier(column)} = ?`,
+                        params: [insertedValues.get(column)],
+                      })),
+                      'AND',
+                    )
+                  : { sql: 'rowid = ?', params: [lastID] };
+              const { sql, params } = buildSelect({
+                table,
+                columns: [...new Set(columns.values())],
+                where,
+              });
+              const [row] = await db.all<Row>(sql, params);
+              return row;
+            };
+            break;
+          }
+          case 'sqliteUpdate': {
+            const { table } = directive.args;
+            fieldConfig.resolve = async function sqliteUpdateResolver(root, args) {
+              const columns = getColumns(table);
+              const columnValues = getColumnValues(args.input || {}, columns);
+              const where = joinConditions(
+                [buildWhere(args.where, columns), ...getKeyConditions(args, columns)],
+                'AND',
+              );
+              assertFilter(where, table, 'update');
+              const db = await getDatabase();
+              let changes = 0;
+              if (columnValues.length) {
+                const result = await db.run(
+                  `UPDATE ${quoteIdentifier(table)} SET ${columnValues.map(([column]) => `${quoteIdentifier(column)} = ?`).join(', ')} WHERE ${where.sql}`,
+                  [...columnValues.map(([, value]) => value), ...where.params],
+                );
+                changes = result.changes;
+              }
+              if (!returnsObject) {
+                return changes;
+              }
+              // The updated row is found by the new values of its keys
+              const updatedValues = new Map(columnValues);
+              const keyArgs: Record<string, unknown> = {};
+              for (const argName in args) {
+                const column = columns.get(argName);
+                keyArgs[argName] =
+                  column && updatedValues.has(column) ? updatedValues.get(column) : args[argName];
+              }
+              const { sql, params } = buildSelect({
+                table,
+                columns: [...new Set(columns.values())],
+                where: joinConditions(getKeyConditions(keyArgs, columns), 'AND'),
+              });
+              const [row] = await db.all<Row>(sql, params);
+              return row || null;
+            };
+            break;
+          }
+          case 'sqliteDelete': {
+            const { table, primaryKeys = [] } = directive.args as {
+              table: string;
+              primaryKeys?: string[];
+            };
+            fieldConfig.resolve = async function sqliteDeleteResolver(root, args) {
+              const columns = getColumns(table);
+              let where = joinConditions(
+                [buildWhere(args.where, columns), ...getKeyConditions(args, columns)],
+                'AND',
+              );
+              assertFilter(where, table, 'delete');
+              const db = await getDatabase();
+              let deletedRow: Row | undefined;
+              if (returnsObject) {
+                // Only the returned row is deleted; by its primary keys, or by its `rowid` if they are not known
+                const keyColumns = primaryKeys.length ? primaryKeys : ['rowid'];
+                const { sql, params } = buildSelect({
+                  table,
+                  columns: [...new Set([...columns.values(), ...keyColumns])],
+                  where,
+                });
+                [deletedRow] = await db.all<Row>(sql, params);
+                if (!deletedRow) {
+                  return null;
+                }
+                where = joinConditions(
+                  keyColumns.map(column => ({
+                    sql: `${quoteIdentifier(column)} IS ?`,
+                    params: [deletedRow[column]],
+                  })),
+                  'AND',
+                );
+              }
+              const { changes } = await db.run(
+                `DELETE FROM ${quoteIdentifier(table)} WHERE ${where.sql}`,
+                where.params,
+              );
+              return returnsObject ? deletedRow : changes;
+            };
+            break;
+          }
+        }
+      }
+      return fieldConfig;
+    },
+  });
+
+  const defaultExecutor = createDefaultExecutor(subgraph);
+
+  return makeAsyncDisposable(
+    function sqliteExecutor(executionRequest: ExecutionRequest) {
+      if (executionRequest.context == null) {
+        // The batched lookups are scoped by the context
+        executionRequest = { ...executionRequest, context: {} };
+      }
+      return defaultExecutor(executionRequest);
+    },
+    async () => {
+      if (database$) {
+        const db = await database$;
+        await db.close();
+      }
+    },
+  );
+}
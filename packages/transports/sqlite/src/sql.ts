@@ -0,0 +1,238 @@
+export interface SQLFragment {
+  sql: string;
+  params: unknown[];
+}
+
+export interface SQLiteFilter {
+  eq?: unknown;
+  ne?: unknown;
+  gt?: unknown;
+  gte?: unknown;
+  lt?: unknown;
+  lte?: unknown;
+  in?: unknown[];
+  notIn?: unknown[];
+  like?: string;
+  isNull?: boolean;
+}
+
+export interface SQLiteWhere {
+  and?: SQLiteWhere[];
+  or?: SQLiteWhere[];
+  not?: SQLiteWhere;
+  [fieldName: string]: SQLiteFilter | SQLiteWhere | SQLiteWhere[];
+}
+
+export type SQLiteOrderBy = Record<string, 'asc' | 'desc'>[] | Record<string, 'asc' | 'desc'>;
+
+export function quoteIdentifier(identifier: string) {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+const comparisonOperators: Record<string, string> = {
+  eq: '=',
+  ne: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+};
+
+function getFilterConditions(column: string, filter: SQLiteFilter): SQLFragment[] {
+  const conditions: SQLFragment[] = [];
+  const quotedColumn = quoteIdentifier(column);
+  for (const operator in filter) {
+    const value = filter[operator as keyof SQLiteFilter];
+    if (value === undefined) {
+      continue;
+    }
+    switch (operator) {
+      case 'in':
+      case 'notIn': {
+        const values = value as unknown[];
+        if (!values.length) {
+          // `IN ()` is not valid SQL
+          conditions.push({ sql: operator === 'in' ? '0' : '1', params: [] });
+        } else {
+          conditions.push({
+            sql: `${quotedColumn} ${operator === 'in' ? 'IN' : 'NOT IN'} (${values.map(() => '?').join(', ')})`,
+            params: values,
+          });
+        }
+        break;
+      }
+      case 'isNull':
+        conditions.push({
+          sql: `${quotedColumn} IS ${value ? '' : 'NOT '}NULL`,
+          params: [],
+        });
+        break;
+      default: {
+        const comparisonOperator = comparisonOperators[operator];
+        if (!comparisonOperator) {
+          throw new Error(`Unknown filter operator "${operator}" for column "${column}"`);
+        }
+        if (value === null && (operator === 'eq' || operator === 'ne')) {
+          conditions.push({
+            sql: `${quotedColumn} IS ${operator === 'eq' ? '' : 'NOT '}NULL`,
+            params: [],
+          });
+        } else {
+          conditions.push({ sql: `${quotedColumn} ${comparisonOperator} ?`, params: [value] });
+        }
+      }
+    }
+  }
+  return conditions;
+}
+
+export function joinConditions(conditions: SQLFragment[], separator: 'AND' | 'OR'): SQLFragment {
+  // Empty filters are always true, so they are not needed in the conjunctions
+  if (separator === 'AND') {
+    conditions = conditions.filter(condition => condition.sql !== '1');
+  }
+  if (!conditions.length) {
+    return { sql: separator === 'AND' ? '1' : '0', params: [] };
+  }
+  if (conditions.length === 1) {
+    return conditions[0];
+  }
+  return {
+    sql: conditions.map(condition => `(${condition.sql})`).join(` ${separator} `),
+    params: conditions.flatMap(condition => condition.params),
+  };
+}
+
+/**
+ * Builds the condition from the `where` argument;
+ * the fields are mapped to the columns with `columns`
+ */
+export function buildWhere(
+  where: SQLiteWhere | undefined,
+  columns: Map<string, string>,
+): SQLFragment {
+  const conditions: SQLFragment[] = [];
+  for (const fieldName in where || {}) {
+    const value = where[fieldName];
+    if (value == null) {
+      continue;
+    }
+    switch (fieldName) {
+      case 'and':
+      case 'or':
+        conditions.push(
+          joinConditions(
+            (value as SQLiteWhere[]).map(subWhere => buildWhere(subWhere, columns)),
+            fieldName === 'and' ? 'AND' : 'OR',
+          ),
+        );
+        break;
+      case 'not': {
+        const notCondition = buildWhere(value as SQLiteWhere, columns);
+        conditions.push({ sql: `NOT (${notCondition.sql})`, params: notCondition.params });
+        break;
+      }
+      default: {
+        const column = columns.get(fieldName);
+        if (!column) {
+          throw new Error(`Unknown field "${fieldName}" in the filter`);
+        }
+        conditions.push(...getFilterConditions(column, value as SQLiteFilter));
+      }
+    }
+  }
+  return joinConditions(conditions, 'AND');
+}
+
+export function buildOrderBy(
+  orderBy: SQLiteOrderBy | undefined,
+  columns: Map<string, string>,
+): string | undefined {
+  const orderByList = Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [];
+  const terms: string[] = [];
+  for (const orderByItem of orderByList) {
+    for (const fieldName in orderByItem) {
+      const column = columns.get(fieldName);
+      if (!column) {
+        throw new Error(`Unknown field "${fieldName}" in the order`);
+      }
+      terms.push(
+        `${quoteIdentifier(column)} ${orderByItem[fieldName]?.toLowerCase() === 'desc' ? 'DESC' : 'ASC'}`,
+      );
+    }
+  }
+  return terms.length ? terms.join(', ') : undefined;
+}
+
+/**
+ * Maps the fields of an input object to the columns
+ */
+export function getColumnValues(input: Record<string, unknown>, columns: Map<string, string>) {
+  const columnValues: [string, unknown][] = [];
+  for (const fieldName in input) {
+    const column = columns.get(fieldName);
+    if (!column) {
+      throw new Error(`Unknown field "${fieldName}" in the input`);
+    }
+    if (input[fieldName] !== undefined) {
+      columnValues.push([column, input[fieldName]]);
+    }
+  }
+  return columnValues;
+}
+
+export interface SelectRowsOpts {
+  table: string;
+  columns: string[];
+  where?: SQLFragment;
+  orderBy?: string;
+  limit?: number;
+  offset?: number;
+  /**
+   * Columns that group the rows for batched lookups;
+   * `limit` and `offset` are applied to each group instead of the whole result
+   */
+  partitionBy?: string[];
+}
+
+export function buildSelect({
+  table,
+  columns,
+  where,
+  orderBy,
+  limit,
+  offset,
+  partitionBy,
+}: SelectRowsOpts): SQLFragment {
+  const selection = columns.map(quoteIdentifier).join(', ');
+  const whereClause = where ? ` WHERE ${where.sql}` : '';
+  const orderByClause = orderBy ? ` ORDER BY ${orderBy}` : '';
+  const params = where?.params || [];
+  if (partitionBy?.length && (limit != null || offset)) {
+    const rowNumber = quoteIdentifier('__row_number');
+    const rowNumberConditions = [`${rowNumber} > ${Number(offset) || 0}`];
+    if (limit != null) {
+      rowNumberConditions.push(`${rowNumber} <= ${(Number(offset) || 0) + Number(limit)}`);
+    }
+    return {
+      sql:
+        `SELECT ${selection} FROM (SELECT ${selection}, ROW_NUMBER() OVER (PARTITION BY ${partitionBy.map(quoteIdentifier).join(', ')}${orderByClause}) AS ${rowNumber} FROM ${quoteIdentifier(table)}${whereClause})` +
+        ` WHERE ${rowNumberConditions.join(' AND ')}${orderByClause}`,
+      params,
+    };
+  }
+  let limitClause = '';
+  if (limit != null) {
+    limitClause = ` LIMIT ${Number(limit)}`;
+  } else if (offset) {
+    limitClause = ' LIMIT -1';
+  }
+  if (offset) {
+    limitClause += ` OFFSET ${Number(offset)}`;
+  }
+  return {
+    sql: `SELECT ${selection} FROM ${quoteIdentifier(table)}${whereClause}${orderByClause}${limitClause}`,
+    params,
+  };
+}
@@ -7,6 +7,7 @@ export default {
   'type-merging': 'Type Merging',
   'response-caching': 'Response Caching',
   'rate-limit': 'Rate Limit',
+  resilience: 'Circuit Breaker and Bulkhead',
   auth: 'Authentication',
   'subscriptions-webhooks': 'Subscriptions & Webhooks',
   'consume-in-other-gateways': 'Consume in Other Gateways',